@@ -2,6 +2,11 @@ import { Tabs, useRouter } from 'expo-router';
 import { useEffect, useState } from 'react';
 import { View, ActivityIndicator, Text } from 'react-native';
 import { useAuthStore } from '~/lib/stores/authStore';
+import { useReminderStore } from '~/lib/stores/reminderStore';
+import { useCreditStore } from '~/lib/stores/creditStore';
+import { useCommitmentStore } from '~/lib/stores/commitmentStore';
+import { usePriceChangeStore } from '~/lib/stores/priceChangeStore';
+import { useDraftSaleStore } from '~/lib/stores/draftSaleStore';
 import { useColorScheme } from '~/lib/useColorScheme';
 import CustomTabBar from '~/components/CustomTabBar';
 import { UserProfileHeaderIcon } from '~/components/UserProfileHeaderIcon';
@@ -28,6 +33,29 @@ export default function TabsLayout() {
     return () => clearTimeout(timer);
   }, [isAuthenticated, authLoading, router]);
 
+  // Daily khata jobs: reminders with notifications, lapsed promises, and monthly credit history/scores
+  useEffect(() => {
+    if (isAuthenticated) {
+      useReminderStore.getState().refreshReminders();
+      useCommitmentStore.getState().resolveLapsedCommitments();
+      useCreditStore.getState().refreshCreditScores();
+    }
+  }, [isAuthenticated]);
+
+  // Scheduled price changes whose date has come; checkout checks again before each sale
+  useEffect(() => {
+    if (isAuthenticated) {
+      usePriceChangeStore.getState().applyDuePriceChanges();
+    }
+  }, [isAuthenticated]);
+
+  // Held bills past their expiry are deleted once per app start
+  useEffect(() => {
+    if (isAuthenticated) {
+      useDraftSaleStore.getState().purgeExpiredDraftSales();
+    }
+  }, [isAuthenticated]);
+
   if (isCheckingAuth || authLoading) {
     return (
       <View className="flex-1 justify-center items-center bg-background">
@@ -9,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '~/components/ui/card';
 import { BarChart4, TrendingUp, Package, DollarSign, AlertTriangle, Plus, Users, ChevronDown, Tag, ChevronUp, ChevronRight } from 'lucide-react-native';
 import { format } from 'date-fns';
 import { useCategoryStore } from '~/lib/stores/categoryStore';
+import { getStockValue, isLowStock, withoutBundles, withoutVariantParents } from '~/lib/utils/stockUtils';
 
 // Define the color palette based on theme
 export const getColors = (colorScheme: 'light' | 'dark') => ({
@@ -184,12 +185,13 @@ export default function HomeScreen() {
 
   useEffect(() => {
     if (!productStoreLoading && storeProducts.length > 0) {
-      const lowStock = storeProducts.filter((p) => p.quantity > 0 && p.quantity < 5).length;
+      const stockedProducts = withoutBundles(withoutVariantParents(storeProducts));
+      const lowStock = stockedProducts.filter(isLowStock).length;
       setLowStockProductsCount(lowStock);
-      const outOfStock = storeProducts.filter((p) => p.quantity === 0).length;
+      const outOfStock = stockedProducts.filter((p) => p.quantity === 0).length;
       setOutOfStockProductsCount(outOfStock);
       setTotalProducts(storeProducts.length);
-      const invValue = storeProducts.reduce((sum, product) => sum + product.costPrice * product.quantity, 0);
+      const invValue = storeProducts.reduce((sum, product) => sum + getStockValue(product), 0);
       setTotalValue(invValue);
     } else if (!productStoreLoading && storeProducts.length === 0) {
       setLowStockProductsCount(0);
@@ -232,20 +234,23 @@ export default function HomeScreen() {
   }, [offerIndex, discountedProducts.length]);
 
   // Display categories
-  const displayCategories = !categoriesLoading && storeCategories.length > 0
-    ? storeCategories.map(cat => ({ name: cat.name, image: cat.imageUri || FALLBACK_CATEGORY_IMAGE }))
+  // Top-level categories only; opening one also lists the products in its subcategories
+  const displayCategories: { id?: string; name: string; image: string }[] = !categoriesLoading && storeCategories.length > 0
+    ? storeCategories
+        .filter(cat => !cat.parentId || !storeCategories.some(parent => parent.id === cat.parentId))
+        .map(cat => ({ id: cat.id, name: cat.name, image: cat.imageUri || FALLBACK_CATEGORY_IMAGE }))
     : hardcodedCategories;
 
   // Filter and sort products
-  const filteredProducts = storeProducts.filter((product) => {
-    if (filter === 'Low Stock') return product.quantity > 0 && product.quantity < 5;
+  const filteredProducts = (filter === 'Low Stock' || filter === 'Out of Stock' ? withoutBundles(withoutVariantParents(storeProducts)) : storeProducts).filter((product) => {
+    if (filter === 'Low Stock') return isLowStock(product);
     if (filter === 'Out of Stock') return product.quantity === 0;
     return true;
   });
 
   const sortedProducts = [...filteredProducts].sort((a, b) => {
     if (sortBy === 'Inventory Value') {
-      return (b.costPrice * b.quantity) - (a.costPrice * a.quantity);
+      return getStockValue(b) - getStockValue(a);
     } else if (sortBy === 'Quantity') {
       return b.quantity - a.quantity;
     } else if (sortBy === 'Category') {
@@ -387,7 +392,7 @@ export default function HomeScreen() {
                   <TouchableOpacity
                     key={index}
                     className="mr-4 items-center"
-                    onPress={() => router.push({ pathname: '/(tabs)/inventory/products', params: { category: category.name } })}
+                    onPress={() => router.push({ pathname: '/(tabs)/inventory/products', params: category.id ? { categoryId: category.id } : {} })}
                     onPressIn={() => handlePressIn(`category-${index}`)}
                     onPressOut={() => handlePressOut(`category-${index}`)}
                   >
@@ -558,7 +563,7 @@ export default function HomeScreen() {
                                     {product.name}
                                   </Text>
                                   <Text style={{ color: COLORS.gray }} className="text-sm">
-                                    Value: ₹{(product.costPrice * product.quantity).toFixed(0)}
+                                    Value: ₹{getStockValue(product).toFixed(0)}
                                   </Text>
                                   {product.category && (
                                     <Text style={{ color: COLORS.gray }} className="text-sm mt-1">
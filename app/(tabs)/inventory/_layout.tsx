@@ -38,6 +38,72 @@ export default function InventoryStackLayout() {
                     title: 'Manage Products',
                 }}
             />
+            <Stack.Screen
+                name="product-import"
+                options={{
+                    title: 'Import & Export Products',
+                }}
+            />
+            <Stack.Screen
+                name="price-changes"
+                options={{
+                    title: 'Price Changes',
+                }}
+            />
+            <Stack.Screen
+                name="price-lists"
+                options={{
+                    title: 'Price Lists',
+                }}
+            />
+            <Stack.Screen
+                name="bundles"
+                options={{
+                    title: 'Bundles & Kits',
+                }}
+            />
+            <Stack.Screen
+                name="stock-adjustments"
+                options={{
+                    title: 'Stock Adjustments',
+                }}
+            />
+            <Stack.Screen
+                name="stocktakes"
+                options={{
+                    title: 'Stocktakes',
+                }}
+            />
+            <Stack.Screen
+                name="stocktake"
+                options={{
+                    title: 'Stock Count',
+                }}
+            />
+            <Stack.Screen
+                name="suppliers"
+                options={{
+                    title: 'Suppliers',
+                }}
+            />
+            <Stack.Screen
+                name="purchase-orders"
+                options={{
+                    title: 'Purchase Orders',
+                }}
+            />
+            <Stack.Screen
+                name="purchase-order"
+                options={{
+                    title: 'Purchase Order',
+                }}
+            />
+            <Stack.Screen
+                name="expiring"
+                options={{
+                    title: 'Expiring Soon',
+                }}
+            />
             <Stack.Screen
                 name="category"
                 options={{
@@ -50,6 +116,24 @@ export default function InventoryStackLayout() {
                     title: 'Customers',
                 }}
             />
+            <Stack.Screen
+                name="repayment"
+                options={{
+                    title: 'Collect Payment',
+                }}
+            />
+            <Stack.Screen
+                name="reminders"
+                options={{
+                    title: 'Payment Reminders',
+                }}
+            />
+            <Stack.Screen
+                name="promises"
+                options={{
+                    title: 'Payment Promises',
+                }}
+            />
         </Stack>
     );
 }
\ No newline at end of file
@@ -0,0 +1,407 @@
+// app/(tabs)/inventory/bundles.tsx
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, FlatList, TouchableOpacity, RefreshControl, useColorScheme as rnColorScheme } from 'react-native';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Picker } from '@react-native-picker/picker';
+import { Boxes, Plus, Trash2 } from 'lucide-react-native';
+import { Text } from '~/components/ui/text';
+import { Input } from '~/components/ui/input';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent } from '~/components/ui/card';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '~/components/ui/dialog';
+import { Toaster } from '~/components/toaster/Toaster';
+import { getColors } from '~/app/(tabs)/inventory/customers';
+import { useBundleStore } from '~/lib/stores/bundleStore';
+import { useProductStore } from '~/lib/stores/productStore';
+import { useCategoryStore } from '~/lib/stores/categoryStore';
+import { Product } from '~/lib/models/product';
+import { getBundleAvailability, getBundleCost } from '~/lib/utils/bundleUtils';
+import { sortCategoriesAsTree } from '~/lib/utils/categoryUtils';
+import { formatQuantity, parseQuantity, sanitizeQuantityInput } from '~/lib/utils/quantityUtils';
+
+// A component being edited; saved together with the rest of the bundle
+interface DraftComponent {
+    productId: string;
+    quantity: string;
+}
+
+const formatMargin = (sellingPrice: number, cost: number) => {
+    const margin = sellingPrice - cost;
+    const percent = sellingPrice > 0 ? (margin / sellingPrice) * 100 : 0;
+    return `₹${margin.toFixed(2)} (${percent.toFixed(1)}%)`;
+};
+
+export default function BundlesScreen() {
+    const router = useRouter();
+    const { productId } = useLocalSearchParams<{ productId?: string }>();
+    const currentRNColorScheme = rnColorScheme();
+    const COLORS = getColors(currentRNColorScheme || 'light');
+    const { components, fetchComponents, saveComponents, isLoading } = useBundleStore();
+    const { products, fetchProducts, addProduct, loading: productsLoading } = useProductStore();
+    const { categories, fetchCategories } = useCategoryStore();
+
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const [nameText, setNameText] = useState('');
+    const [priceText, setPriceText] = useState('');
+    const [categoryId, setCategoryId] = useState('');
+    const [draft, setDraft] = useState<DraftComponent[]>([]);
+    const [pickedProductId, setPickedProductId] = useState('');
+    const [pickedQuantityText, setPickedQuantityText] = useState('1');
+
+    const bundles = useMemo(() => products.filter((p) => p.isBundle), [products]);
+    const bundle = useMemo(() => bundles.find((p) => p.id === productId) || null, [bundles, productId]);
+    const productsById = useMemo(() => new Map(products.map((p) => [p.id, p])), [products]);
+    // Only ordinary products go into a bundle
+    const componentChoices = useMemo(
+        () => products.filter((p) => !p.isBundle && !draft.some((row) => row.productId === p.id)),
+        [products, draft]
+    );
+
+    const loadData = useCallback(async () => {
+        if (productId) {
+            await Promise.all([fetchProducts(), fetchComponents(productId)]);
+            return;
+        }
+        await Promise.all([fetchProducts(), fetchCategories()]);
+    }, [productId, fetchProducts, fetchComponents, fetchCategories]);
+
+    useFocusEffect(
+        useCallback(() => {
+            loadData();
+        }, [loadData])
+    );
+
+    // Start editing from what is saved whenever the saved components change
+    useEffect(() => {
+        if (!productId) return;
+        setDraft(
+            components
+                .filter((c) => c.bundleId === productId)
+                .map((c) => ({ productId: c.componentId, quantity: formatQuantity(c.quantity) }))
+        );
+    }, [components, productId]);
+
+    // Availability and cost as they would be with the components being edited
+    const draftStock = useMemo(
+        () =>
+            draft.map((row) => {
+                const product = productsById.get(row.productId);
+                return {
+                    row,
+                    product,
+                    quantity: parseQuantity(row.quantity, product?.unit),
+                    stock: product?.quantity ?? 0,
+                    costPrice: product?.costPrice ?? 0,
+                    isActive: !!product,
+                };
+            }),
+        [draft, productsById]
+    );
+    const draftValid = draftStock.length > 0 && draftStock.every((c) => c.product && c.quantity > 0);
+    const draftAvailable = draftValid ? getBundleAvailability(draftStock) : 0;
+    const draftCost = draftValid ? getBundleCost(draftStock) : 0;
+    const draftChanged = useMemo(() => {
+        const saved = components.filter((c) => c.bundleId === productId);
+        return (
+            saved.length !== draft.length ||
+            saved.some((c) => {
+                const row = draft.find((r) => r.productId === c.componentId);
+                return !row || parseQuantity(row.quantity, productsById.get(c.componentId)?.unit) !== c.quantity;
+            })
+        );
+    }, [components, draft, productId, productsById]);
+
+    const openCreateDialog = () => {
+        setNameText('');
+        setPriceText('');
+        setCategoryId('');
+        setDialogOpen(true);
+    };
+
+    const handleCreate = async () => {
+        const sellingPrice = parseFloat(priceText);
+        if (!nameText.trim() || isNaN(sellingPrice) || sellingPrice < 0) {
+            Toaster.warning("Check the Bundle", { description: 'Enter a name and a selling price.' });
+            return;
+        }
+        try {
+            const created = await addProduct({
+                name: nameText.trim(),
+                costPrice: 0,
+                sellingPrice,
+                quantity: 0,
+                unit: 'piece',
+                categoryId: categoryId || null,
+                reorderLevel: 0, // Shown as out of stock when a component runs out, never as low
+                reorderQuantity: 0,
+                isBundle: true,
+                rating: 0,
+                discount: 0,
+                image: '',
+                isActive: true,
+            });
+            setDialogOpen(false);
+            router.push({ pathname: '/(tabs)/inventory/bundles', params: { productId: created.id } });
+        } catch (error: any) {
+            Toaster.error("Could Not Create", { description: error.message || 'Failed to create the bundle.' });
+        }
+    };
+
+    const handleAddComponent = () => {
+        const product = productsById.get(pickedProductId);
+        if (!product) return;
+        const quantity = parseQuantity(pickedQuantityText, product.unit);
+        if (!(quantity > 0)) {
+            Toaster.warning("Check the Quantity", { description: `Enter how much ${product.name} goes into one bundle.` });
+            return;
+        }
+        setDraft((prev) => [...prev, { productId: product.id, quantity: formatQuantity(quantity) }]);
+        setPickedProductId('');
+        setPickedQuantityText('1');
+    };
+
+    const handleSave = async () => {
+        if (!bundle || !draftValid) return;
+        try {
+            await saveComponents(
+                bundle.id,
+                draftStock.map((c) => ({ productId: c.row.productId, quantity: c.quantity }))
+            );
+            Toaster.success("Bundle Saved", { description: `${bundle.name}: ${draftAvailable} can be made from stock.` });
+        } catch (error: any) {
+            Toaster.error("Could Not Save", { description: error.message || 'Failed to save the bundle.' });
+        }
+    };
+
+    const renderBundle = ({ item }: { item: Product }) => (
+        <TouchableOpacity onPress={() => router.push({ pathname: '/(tabs)/inventory/bundles', params: { productId: item.id } })}>
+            <Card className="mb-3 mx-1 bg-card border border-border">
+                <CardContent className="p-4">
+                    <View className="flex-row justify-between items-start">
+                        <View className="flex-1 mr-2">
+                            <Text className="text-base font-semibold" style={{ color: COLORS.dark }}>{item.name}</Text>
+                            <Text className="text-xs" style={{ color: COLORS.gray }}>
+                                Cost ₹{item.costPrice.toFixed(2)} · Margin {formatMargin(item.sellingPrice, item.costPrice)}
+                            </Text>
+                        </View>
+                        <View className="items-end">
+                            <Text className="text-base font-bold" style={{ color: COLORS.primary }}>₹{item.sellingPrice.toFixed(2)}</Text>
+                            <Text className="text-xs font-medium" style={{ color: item.quantity > 0 ? COLORS.gray : COLORS.danger }}>
+                                {item.quantity > 0 ? `${item.quantity} can be made` : 'Not available'}
+                            </Text>
+                        </View>
+                    </View>
+                </CardContent>
+            </Card>
+        </TouchableOpacity>
+    );
+
+    const renderDraftRow = ({ item: c }: { item: (typeof draftStock)[number] }) => {
+        const canMake = c.quantity > 0 ? Math.floor(Math.max(c.stock, 0) / c.quantity) : 0;
+        return (
+            <Card className="mb-2 mx-1 bg-card border border-border">
+                <CardContent className="p-3">
+                    <View className="flex-row justify-between items-center">
+                        <View className="flex-1 mr-2">
+                            <Text className="text-sm font-semibold" style={{ color: c.product ? COLORS.dark : COLORS.danger }}>
+                                {c.product?.name || 'Deleted product'}
+                            </Text>
+                            {c.product && (
+                                <Text className="text-xs" style={{ color: canMake === draftAvailable ? COLORS.danger : COLORS.gray }}>
+                                    {formatQuantity(c.stock)} {c.product.unit} in stock · enough for {canMake}
+                                </Text>
+                            )}
+                        </View>
+                        <Input
+                            value={c.row.quantity}
+                            onChangeText={(text) =>
+                                setDraft((prev) =>
+                                    prev.map((row) =>
+                                        row.productId === c.row.productId
+                                            ? { ...row, quantity: sanitizeQuantityInput(text, c.product?.unit) }
+                                            : row
+                                    )
+                                )
+                            }
+                            keyboardType="decimal-pad"
+                            selectTextOnFocus
+                            className="w-16 h-9 text-center border border-gray-300 dark:border-gray-600"
+                        />
+                        <Text className="text-xs mx-1" style={{ color: COLORS.gray }}>{c.product?.unit || ''}</Text>
+                        <Button
+                            size="icon"
+                            variant="ghost"
+                            onPress={() => setDraft((prev) => prev.filter((row) => row.productId !== c.row.productId))}
+                        >
+                            <Trash2 size={16} color={COLORS.danger} />
+                        </Button>
+                    </View>
+                </CardContent>
+            </Card>
+        );
+    };
+
+    const bundleHeader = bundle ? (
+        <View>
+            <Card className="mb-4 bg-card border border-border">
+                <CardContent className="p-4">
+                    <Text className="text-lg font-semibold" style={{ color: COLORS.dark }}>{bundle.name}</Text>
+                    <Text className="text-sm" style={{ color: COLORS.gray }}>
+                        Sells at ₹{bundle.sellingPrice.toFixed(2)} · {bundle.quantity > 0 ? `${bundle.quantity} can be made` : 'Not available'}
+                    </Text>
+                    {draftValid && (
+                        <Text className="text-sm mt-1" style={{ color: COLORS.dark }}>
+                            Components cost ₹{draftCost.toFixed(2)} · Margin {formatMargin(bundle.sellingPrice, draftCost)}
+                        </Text>
+                    )}
+                    <Text className="text-sm font-medium mt-3 mb-1" style={{ color: COLORS.dark }}>Add a component</Text>
+                    <View className="border border-gray-300 dark:border-gray-600 rounded-md h-12 justify-center mb-2">
+                        <Picker
+                            selectedValue={pickedProductId}
+                            onValueChange={(value) => setPickedProductId(value)}
+                            style={{ color: COLORS.dark }}
+                            dropdownIconColor={COLORS.dark}
+                        >
+                            <Picker.Item label="Choose a product" value="" />
+                            {componentChoices.map((product) => (
+                                <Picker.Item key={product.id} label={product.name} value={product.id} />
+                            ))}
+                        </Picker>
+                    </View>
+                    <View className="flex-row gap-x-2 mb-2">
+                        <Input
+                            placeholder="Quantity per bundle"
+                            value={pickedQuantityText}
+                            onChangeText={(text) => setPickedQuantityText(sanitizeQuantityInput(text, productsById.get(pickedProductId)?.unit))}
+                            keyboardType="decimal-pad"
+                            className="flex-1 h-11 border border-gray-300 dark:border-gray-600"
+                        />
+                        <Button variant="outline" className="h-11" onPress={handleAddComponent} disabled={!pickedProductId}>
+                            <Text style={{ color: COLORS.primary }}>Add</Text>
+                        </Button>
+                    </View>
+                    <Text className="text-xs mb-2" style={{ color: COLORS.gray }}>
+                        Selling a bundle takes its components out of stock, and returning one puts them back.
+                    </Text>
+                    <Button
+                        className='bg-[#a855f7] dark:bg-[#00b9f1]'
+                        onPress={handleSave}
+                        disabled={isLoading || !draftValid || !draftChanged}
+                    >
+                        <Text className="text-white">Save Components</Text>
+                    </Button>
+                </CardContent>
+            </Card>
+            <Text className="text-lg font-semibold mb-3" style={{ color: COLORS.dark }}>In each bundle</Text>
+        </View>
+    ) : null;
+
+    return (
+        <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+            <View className="flex-1 p-4 bg-transparent">
+                {productId ? (
+                    <FlatList
+                        data={bundle ? draftStock : []}
+                        renderItem={renderDraftRow}
+                        keyExtractor={(item) => item.row.productId}
+                        ListHeaderComponent={bundleHeader}
+                        showsVerticalScrollIndicator={false}
+                        keyboardShouldPersistTaps="handled"
+                        refreshControl={<RefreshControl refreshing={isLoading} onRefresh={loadData} />}
+                        ListEmptyComponent={
+                            bundle ? (
+                                <Text className="text-sm" style={{ color: COLORS.gray }}>
+                                    No components yet. The bundle cannot be sold until it has some.
+                                </Text>
+                            ) : null
+                        }
+                    />
+                ) : (
+                    <>
+                        <View className="flex-row justify-between items-center mb-3">
+                            <Text className="text-sm flex-1 mr-2" style={{ color: COLORS.gray }}>
+                                Kits and hampers made from products you also sell on their own.
+                            </Text>
+                            <Button size="icon" variant="ghost" onPress={openCreateDialog}>
+                                <Plus size={22} color={COLORS.primary} />
+                            </Button>
+                        </View>
+                        <FlatList
+                            data={bundles}
+                            renderItem={renderBundle}
+                            keyExtractor={(item) => item.id}
+                            showsVerticalScrollIndicator={false}
+                            refreshControl={<RefreshControl refreshing={productsLoading} onRefresh={loadData} />}
+                            ListEmptyComponent={
+                                <View className="items-center py-10">
+                                    <Boxes size={40} color={COLORS.gray} className="opacity-50" />
+                                    <Text className="mt-3 text-muted-foreground">No bundles yet.</Text>
+                                    <Button variant="ghost" onPress={openCreateDialog}>
+                                        <Text className="text-primary">Create a Bundle</Text>
+                                    </Button>
+                                </View>
+                            }
+                        />
+                    </>
+                )}
+            </View>
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogContent className="p-0 bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-11/12 mx-auto">
+                    <DialogHeader className="p-6 pb-4 border-b border-gray-200 dark:border-gray-700">
+                        <DialogTitle className="text-lg font-bold" style={{ color: COLORS.dark }}>New Bundle</DialogTitle>
+                    </DialogHeader>
+                    <View className="p-4">
+                        <Text className="mb-1 text-sm font-semibold" style={{ color: COLORS.dark }}>Name</Text>
+                        <Input
+                            placeholder="e.g. Pooja Kit"
+                            value={nameText}
+                            onChangeText={setNameText}
+                            className="mb-3 h-11 border border-gray-300 dark:border-gray-600 rounded-md px-3"
+                            style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                        />
+                        <Text className="mb-1 text-sm font-semibold" style={{ color: COLORS.dark }}>Selling Price (₹)</Text>
+                        <Input
+                            placeholder="0.00"
+                            value={priceText}
+                            onChangeText={(text) => setPriceText(text.replace(/[^0-9.]/g, ''))}
+                            keyboardType="decimal-pad"
+                            className="mb-3 h-11 border border-gray-300 dark:border-gray-600 rounded-md px-3"
+                            style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                        />
+                        <Text className="mb-1 text-sm font-semibold" style={{ color: COLORS.dark }}>Category</Text>
+                        <View className="border border-gray-300 dark:border-gray-600 rounded-md h-12 justify-center">
+                            <Picker
+                                selectedValue={categoryId}
+                                onValueChange={(value) => setCategoryId(value)}
+                                style={{ color: COLORS.dark }}
+                                dropdownIconColor={COLORS.dark}
+                            >
+                                <Picker.Item label="No category" value="" />
+                                {sortCategoriesAsTree(categories).map(({ category, depth }) => (
+                                    <Picker.Item key={category.id} label={`${'  '.repeat(depth)}${category.name}`} value={category.id} />
+                                ))}
+                            </Picker>
+                        </View>
+                        <Text className="text-xs mt-2" style={{ color: COLORS.gray }}>
+                            Add the products that go into it next. Its stock and cost come from them.
+                        </Text>
+                    </View>
+                    <DialogFooter className="p-4 flex-row justify-end gap-x-2 border-t border-gray-200 dark:border-gray-700">
+                        <Button variant="ghost" onPress={() => setDialogOpen(false)}>
+                            <Text style={{ color: COLORS.gray }}>Cancel</Text>
+                        </Button>
+                        <Button
+                            className="bg-[#a855f7] dark:bg-[#00b9f1]"
+                            onPress={handleCreate}
+                            disabled={productsLoading || !nameText.trim() || !priceText.trim()}
+                        >
+                            <Text className="text-white font-semibold">Create</Text>
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </LinearGradient>
+    );
+}
@@ -7,10 +7,12 @@ import { Input } from '~/components/ui/input';
 import { Button } from '~/components/ui/button';
 import { Tag, Pencil, Trash2, Search, ArrowDownUp, XCircle, PlusIcon } from 'lucide-react-native';
 import * as ImagePicker from 'expo-image-picker';
+import { Picker } from '@react-native-picker/picker';
 import { Category } from '~/lib/stores/types';
 import { useCategoryStore } from '~/lib/stores/categoryStore';
 import { LinearGradient } from 'expo-linear-gradient';
 import GlobalToaster, { Toaster } from '~/components/toaster/Toaster'; 
+import { getCategoryDescendantIds, getCategoryPath, sortCategoriesAsTree } from '~/lib/utils/categoryUtils';
 
 // Define the color palette based on theme (assuming this is correctly defined elsewhere or here)
 export const getColors = (colorScheme: 'light' | 'dark') => ({
@@ -94,6 +96,7 @@ const CategoryManagementScreen = () => {
     name: '',
     description: '',
     imageUri: '',
+    parentId: '', // '' for a top-level category
   });
   const [formError, setFormError] = useState<string | null>(null);
 
@@ -168,7 +171,7 @@ const CategoryManagementScreen = () => {
   }, [form]);
 
   const resetFormAndCloseDialog = useCallback(() => {
-    setForm({ name: '', description: '', imageUri: '' });
+    setForm({ name: '', description: '', imageUri: '', parentId: '' });
     setDialogOpen(false);
     setFormMode('add');
     setSelectedCategory(null);
@@ -186,6 +189,7 @@ const CategoryManagementScreen = () => {
         name: form.name,
         description: form.description || undefined,
         imageUri: form.imageUri || undefined,
+        parentId: form.parentId || null,
       });
       await fetchCategories();
       resetFormAndCloseDialog();
@@ -205,6 +209,7 @@ const CategoryManagementScreen = () => {
       name: category.name,
       description: category.description || '',
       imageUri: category.imageUri || '',
+      parentId: category.parentId || '',
     });
     setSelectedImage(category.imageUri || null); // Set image for preview
     setFormMode('edit');
@@ -222,6 +227,7 @@ const CategoryManagementScreen = () => {
         name: form.name,
         description: form.description || undefined,
         imageUri: form.imageUri || undefined,
+        parentId: form.parentId || null,
       });
       await fetchCategories();
       resetFormAndCloseDialog();
@@ -258,7 +264,11 @@ const CategoryManagementScreen = () => {
     }
   }, [selectedCategory, deleteCategory, storeError, fetchCategories]);
 
+  // Without a search or sort, subcategories are listed indented under their parent
   const filteredAndSortedCategories = useMemo(() => {
+    if (searchQuery.trim() === '' && sortByName === 'none') {
+      return sortCategoriesAsTree(categories);
+    }
     let processedCategories = [...categories];
     if (searchQuery.trim() !== '') {
       const lowercasedQuery = searchQuery.toLowerCase();
@@ -276,9 +286,17 @@ const CategoryManagementScreen = () => {
       });
     }
     console.log('Filtered and sorted categories:', processedCategories);
-    return processedCategories;
+    return processedCategories.map((category) => ({ category, depth: 0 }));
   }, [categories, searchQuery, sortByName]);
 
+  // A category cannot go under itself or any of its own subcategories
+  const parentOptions = useMemo(() => {
+    const excluded = formMode === 'edit' && selectedCategory
+      ? getCategoryDescendantIds(categories, selectedCategory.id)
+      : new Set<string>();
+    return sortCategoriesAsTree(categories).filter(({ category }) => !excluded.has(category.id));
+  }, [categories, formMode, selectedCategory]);
+
   const toggleSortOrder = () => {
     if (sortByName === 'none') setSortByName('asc');
     else if (sortByName === 'asc') setSortByName('desc');
@@ -364,7 +382,7 @@ const CategoryManagementScreen = () => {
 
         <FlatList
           data={filteredAndSortedCategories}
-          keyExtractor={(item) => item.id}
+          keyExtractor={(item) => item.category.id}
           ListEmptyComponent={() => (
             <View className="items-center justify-center py-10 px-4">
               <Text className="text-muted-foreground text-center mb-4">
@@ -383,8 +401,8 @@ const CategoryManagementScreen = () => {
               </Button>
             </View>
           )}
-          renderItem={({ item }) => (
-            <Card className="mb-2 mx-4 bg-card">
+          renderItem={({ item: { category: item, depth } }) => (
+            <Card className="mb-2 mx-4 bg-card" style={{ marginLeft: 16 + depth * 20 }}>
               <CardContent className="pt-4">
                 <View className="flex-row items-start justify-between">
                   <View className="flex-row items-center flex-1 mr-2">
@@ -402,6 +420,11 @@ const CategoryManagementScreen = () => {
                     )}
                     <View>
                       <Text className="text-foreground font-semibold text-lg">{item.name}</Text>
+                      {item.parentId && depth === 0 && (
+                        <Text className="text-xs text-muted-foreground">
+                          {getCategoryPath(categories, item.parentId)}
+                        </Text>
+                      )}
                       {item.description && (
                         <Text className="text-sm text-muted-foreground" numberOfLines={2}>
                           {item.description}
@@ -475,6 +498,23 @@ const CategoryManagementScreen = () => {
                     editable={!storeIsLoading}
                   />
                 </View>
+                <View>
+                  <Text className="mb-1 text-sm font-medium text-muted-foreground">Parent Category</Text>
+                  <View className="border border-border rounded-md h-12 justify-center">
+                    <Picker
+                      selectedValue={form.parentId}
+                      onValueChange={(value) => setForm({ ...form, parentId: value })}
+                      enabled={!storeIsLoading}
+                      style={{ color: COLORS.dark }}
+                      dropdownIconColor={COLORS.dark}
+                    >
+                      <Picker.Item label="None (top level)" value="" />
+                      {parentOptions.map(({ category, depth }) => (
+                        <Picker.Item key={category.id} label={`${'  '.repeat(depth)}${category.name}`} value={category.id} />
+                      ))}
+                    </Picker>
+                  </View>
+                </View>
                 <ImageSection
                   imageUri={form.imageUri} // Pass current form imageUri (might be empty if new or cleared)
                   selectedImage={selectedImage} // Pass selectedImage for preview
@@ -527,7 +567,7 @@ const CategoryManagementScreen = () => {
               <DialogTitle className="text-xl font-bold text-foreground">Confirm Deletion</DialogTitle>
             </DialogHeader>
             <Text className="text-muted-foreground my-4">
-              Are you sure you want to delete the category "{selectedCategory?.name}"? This action cannot be undone.
+              Are you sure you want to delete the category "{selectedCategory?.name}"? This action cannot be undone. Categories that still have products or subcategories cannot be deleted.
             </Text>
             {/* Display storeError specifically for the delete dialog if it's set */}
             {storeError && <Text className="text-destructive text-center mb-2">{storeError}</Text>}
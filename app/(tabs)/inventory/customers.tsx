@@ -6,12 +6,18 @@ import { Card, CardContent } from '~/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '~/components/ui/dialog';
 import { Input } from '~/components/ui/input'; // Original Input, used by DebouncedInput
 import { Button } from '~/components/ui/button';
-import { UserPlus, Pencil, Trash2, Search, ArrowDownUp, XCircle } from 'lucide-react-native';
+import { UserPlus, Pencil, Trash2, Search, ArrowDownUp, XCircle, BookOpen, Wallet } from 'lucide-react-native';
 import { useCustomerStore } from '~/lib/stores/customerStore';
+import { useCreditStore } from '~/lib/stores/creditStore';
+import { usePriceListStore } from '~/lib/stores/priceListStore';
+import { Picker } from '@react-native-picker/picker';
+import { CreditScoreBadge } from '~/components/CreditScoreBadge';
 import { Customer } from '~/lib/stores/types';
 import { LinearGradient } from 'expo-linear-gradient';
 import GlobalToaster, { Toaster } from '~/components/toaster/Toaster'; 
 import debounce from 'lodash/debounce'; // Added for DebouncedInput
+import { useRouter } from 'expo-router';
+import { format, parseISO } from 'date-fns';
 
 // Define the color palette based on theme
 export const getColors = (colorScheme: 'light' | 'dark') => ({
@@ -116,6 +122,10 @@ const CustomerManagementScreen = () => {
     clearError
   } = useCustomerStore();
 
+  const { ledger, fetchLedger, creditScores, refreshCreditScores, isLoading: ledgerLoading } = useCreditStore();
+  const { priceLists, fetchPriceLists } = usePriceListStore();
+  const router = useRouter();
+
   const currentRNColorScheme = rnColorScheme();
   const COLORS = getColors(currentRNColorScheme || 'light');
 
@@ -131,9 +141,13 @@ const CustomerManagementScreen = () => {
     email: '',
     address: '',
     creditLimit: '',
+    priceListId: '',
   });
   const [formError, setFormError] = useState<string | null>(null);
 
+  const [ledgerDialogOpen, setLedgerDialogOpen] = useState(false);
+  const [ledgerCustomer, setLedgerCustomer] = useState<Customer | null>(null);
+
   const [searchQuery, setSearchQuery] = useState('');
   const [sortByCreditLimit, setSortByCreditLimit] = useState<SortOrder>('none');
 
@@ -141,7 +155,7 @@ const CustomerManagementScreen = () => {
     const loadData = async () => {
       setInitialLoading(true);
       try {
-        await fetchCustomers();
+        await Promise.all([fetchCustomers(), refreshCreditScores(), fetchPriceLists()]);
       } catch (e: any) {
         const message = e.message || "Failed to load customers.";
         Toaster.error("Load Error", { description: message });
@@ -150,7 +164,7 @@ const CustomerManagementScreen = () => {
       }
     };
     loadData();
-  }, [fetchCustomers]);
+  }, [fetchCustomers, refreshCreditScores, fetchPriceLists]);
 
   useEffect(() => {
     if (storeError) {
@@ -185,7 +199,7 @@ const CustomerManagementScreen = () => {
   }, [form]);
 
   const resetFormAndCloseDialog = useCallback(() => {
-    setForm({ name: '', phone: '', email: '', address: '', creditLimit: '' });
+    setForm({ name: '', phone: '', email: '', address: '', creditLimit: '', priceListId: '' });
     setDialogOpen(false);
     setFormMode('add');
     setSelectedCustomer(null);
@@ -203,6 +217,7 @@ const CustomerManagementScreen = () => {
         email: form.email || undefined,
         address: form.address || undefined,
         creditLimit: parseFloat(form.creditLimit) || 0,
+        priceListId: form.priceListId || null,
       });
       resetFormAndCloseDialog();
       Toaster.success("Customer Added", { description: `"${customerName}" has been added successfully.` });
@@ -221,6 +236,7 @@ const CustomerManagementScreen = () => {
       email: customer.email || '',
       address: customer.address || '',
       creditLimit: customer.creditLimit?.toString() || '0',
+      priceListId: customer.priceListId || '',
     });
     setFormMode('edit');
     clearError();
@@ -238,6 +254,7 @@ const CustomerManagementScreen = () => {
         email: form.email || undefined,
         address: form.address || undefined,
         creditLimit: parseFloat(form.creditLimit) || 0,
+        priceListId: form.priceListId || null,
       });
       resetFormAndCloseDialog();
       Toaster.success("Customer Updated", { description: `"${customerName}" has been updated successfully.` });
@@ -269,6 +286,20 @@ const CustomerManagementScreen = () => {
     }
   }, [selectedCustomer, deleteCustomer, storeError]);
 
+  const handleLedgerClick = useCallback(async (customer: Customer) => {
+    setLedgerCustomer(customer);
+    setLedgerDialogOpen(true);
+    try {
+      await fetchLedger(customer.id);
+    } catch (error: any) {
+      Toaster.error("Ledger Error", { description: error.message || 'Failed to load ledger.' });
+    }
+  }, [fetchLedger]);
+
+  const handleCollectClick = useCallback((customer: Customer) => {
+    router.push({ pathname: '/(tabs)/inventory/repayment', params: { customerId: customer.id } });
+  }, [router]);
+
   const filteredAndSortedCustomers = useMemo(() => {
     let processedCustomers = [...customers];
     if (searchQuery.trim() !== '') {
@@ -395,13 +426,21 @@ const CustomerManagementScreen = () => {
               <CardContent className="pt-4">
                 <View className="flex-row items-start justify-between">
                   <View className="flex-1 mr-2">
-                    <Text className="text-foreground font-semibold text-lg">{item.name}</Text>
+                    <View className="flex-row items-center gap-x-2">
+                      <Text className="text-foreground font-semibold text-lg">{item.name}</Text>
+                      {item.id in creditScores && <CreditScoreBadge score={creditScores[item.id]} />}
+                    </View>
                     <Text className="text-sm text-muted-foreground">{item.phone}</Text>
                     {item.email && <Text className="text-xs text-muted-foreground" numberOfLines={1}>{item.email}</Text>}
                     {item.address && <Text className="text-xs text-muted-foreground" numberOfLines={1}>{item.address}</Text>}
                     <Text className="text-sm text-blue-600 dark:text-blue-400 mt-1">
                       Credit Limit: ₹{(item.creditLimit || 0).toFixed(2)}
                     </Text>
+                    {item.priceListId && (
+                      <Text className="text-xs text-muted-foreground mt-0.5">
+                        {priceLists.find((pl) => pl.id === item.priceListId)?.name || 'Price list'} prices
+                      </Text>
+                    )}
                     {item.outstandingBalance != null && item.outstandingBalance > 0 && (
                       <Text className="text-sm text-destructive mt-1">
                         Outstanding: ₹{(item.outstandingBalance || 0).toFixed(2)}
@@ -409,6 +448,14 @@ const CustomerManagementScreen = () => {
                     )}
                   </View>
                   <View className="flex-row gap-x-1">
+                    <Button variant="ghost" size="icon" onPress={() => handleLedgerClick(item)} disabled={storeIsLoading}>
+                      <BookOpen size={20} color={COLORS.primary} />
+                    </Button>
+                    {item.outstandingBalance > 0 && (
+                      <Button variant="ghost" size="icon" onPress={() => handleCollectClick(item)} disabled={storeIsLoading}>
+                        <Wallet size={20} color="#10B981" />
+                      </Button>
+                    )}
                     <Button variant="ghost" size="icon" onPress={() => handleEditClick(item)} disabled={storeIsLoading}>
                       <Pencil size={20} color="#3B82F6" />
                     </Button>
@@ -496,6 +543,23 @@ const CustomerManagementScreen = () => {
                     editable={!storeIsLoading}
                   />
                 </View>
+                <View>
+                  <Text className="mb-1 text-sm font-medium text-muted-foreground">Price List</Text>
+                  <View className="border border-gray-300 dark:border-gray-600 rounded-md h-12 justify-center">
+                    <Picker
+                      selectedValue={form.priceListId}
+                      onValueChange={(value) => setForm({ ...form, priceListId: value })}
+                      enabled={!storeIsLoading}
+                      style={{ color: COLORS.dark }}
+                      dropdownIconColor={COLORS.dark}
+                    >
+                      <Picker.Item label="Normal prices" value="" />
+                      {priceLists.map((priceList) => (
+                        <Picker.Item key={priceList.id} label={priceList.name} value={priceList.id} />
+                      ))}
+                    </Picker>
+                  </View>
+                </View>
               </View>
             </ScrollView>
             <DialogFooter className="p-4 flex-row justify-end gap-x-2 border-t border-border">
@@ -519,6 +583,70 @@ const CustomerManagementScreen = () => {
           </DialogContent>
         </Dialog>
 
+        <Dialog open={ledgerDialogOpen} onOpenChange={(open) => {
+          setLedgerDialogOpen(open);
+          if (!open) setLedgerCustomer(null);
+        }}>
+          <DialogContent className="p-0 bg-background rounded-lg shadow-lg max-w-md w-96 mx-auto">
+            <DialogHeader className="p-4 border-b border-border">
+              <DialogTitle className="text-xl font-bold text-foreground">Khata Ledger</DialogTitle>
+              <View className="flex-row items-center gap-x-2">
+                <Text className="text-sm text-muted-foreground">{ledgerCustomer?.name}</Text>
+                {ledgerCustomer && ledgerCustomer.id in creditScores && <CreditScoreBadge score={creditScores[ledgerCustomer.id]} />}
+              </View>
+            </DialogHeader>
+            {ledgerLoading ? (
+              <View className="py-10 items-center">
+                <ActivityIndicator size="large" color={COLORS.primary} />
+              </View>
+            ) : ledger.length === 0 ? (
+              <Text className="text-muted-foreground text-center py-8 px-4">No credit transactions for this customer.</Text>
+            ) : (
+              <ScrollView style={{ maxHeight: 400 }} contentContainerStyle={{ padding: 16 }}>
+                <View className="flex-row pb-2 mb-1 border-b border-border">
+                  <Text className="flex-1 text-xs font-semibold text-muted-foreground">Entry</Text>
+                  <Text className="w-20 text-xs font-semibold text-muted-foreground text-right">Debit</Text>
+                  <Text className="w-20 text-xs font-semibold text-muted-foreground text-right">Credit</Text>
+                  <Text className="w-20 text-xs font-semibold text-muted-foreground text-right">Balance</Text>
+                </View>
+                {ledger.map(entry => (
+                  <View key={entry.id} className="flex-row py-2 border-b border-border">
+                    <View className="flex-1 pr-1">
+                      <Text className="text-xs text-foreground">{entry.description}</Text>
+                      <Text className="text-xs text-muted-foreground">{format(parseISO(entry.date), 'dd MMM yyyy, hh:mm a')}</Text>
+                    </View>
+                    <Text className="w-20 text-xs text-right text-destructive">
+                      {entry.type === 'DEBIT' ? `₹${entry.amount.toFixed(2)}` : ''}
+                    </Text>
+                    <Text className="w-20 text-xs text-right text-green-600">
+                      {entry.type === 'CREDIT' ? `₹${entry.amount.toFixed(2)}` : ''}
+                    </Text>
+                    <Text className="w-20 text-xs text-right font-semibold text-foreground">₹{entry.runningBalance.toFixed(2)}</Text>
+                  </View>
+                ))}
+              </ScrollView>
+            )}
+            <DialogFooter className="p-4 flex-row justify-end gap-x-2 border-t border-border">
+              {ledgerCustomer && ledgerCustomer.outstandingBalance > 0 && (
+                <Button
+                  className='bg-[#a855f7] dark:bg-[#00b9f1]'
+                  onPress={() => {
+                    const customer = ledgerCustomer;
+                    setLedgerDialogOpen(false);
+                    setLedgerCustomer(null);
+                    handleCollectClick(customer);
+                  }}
+                >
+                  <Text className="text-white">Collect Payment</Text>
+                </Button>
+              )}
+              <Button variant="outline" onPress={() => setLedgerDialogOpen(false)}>
+                <Text>Close</Text>
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={deleteConfirmDialogOpen} onOpenChange={(open) => {
           if (!open) {
             setDeleteConfirmDialogOpen(false);
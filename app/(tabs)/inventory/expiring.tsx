@@ -0,0 +1,122 @@
+// app/(tabs)/inventory/expiring.tsx
+import React, { useCallback, useMemo } from 'react';
+import { View, FlatList, RefreshControl, useColorScheme as rnColorScheme } from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { CalendarClock, ArrowUpDown } from 'lucide-react-native';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Text } from '~/components/ui/text';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent } from '~/components/ui/card';
+import { getColors } from '~/app/(tabs)/inventory/customers';
+import { Toaster } from '~/components/toaster/Toaster';
+import { useBatchStore } from '~/lib/stores/batchStore';
+import { ProductBatchWithProduct } from '~/lib/stores/types';
+import { EXPIRY_WARNING_DAYS } from '~/lib/constants';
+
+const describeExpiry = (expiryDate: string) => {
+    const days = differenceInCalendarDays(parseISO(expiryDate), new Date());
+    if (days < 0) return `Expired ${-days} day${days === -1 ? '' : 's'} ago`;
+    if (days === 0) return 'Expires today';
+    return `Expires in ${days} day${days === 1 ? '' : 's'}`;
+};
+
+export default function ExpiringStockScreen() {
+    const router = useRouter();
+    const currentRNColorScheme = rnColorScheme();
+    const COLORS = getColors(currentRNColorScheme || 'light');
+    const { expiringBatches, fetchExpiringBatches, writeOff, isLoading } = useBatchStore();
+
+    useFocusEffect(
+        useCallback(() => {
+            fetchExpiringBatches();
+        }, [fetchExpiringBatches])
+    );
+
+    const expiredValue = useMemo(
+        () =>
+            expiringBatches
+                .filter((b) => b.expiryDate && parseISO(b.expiryDate) < new Date())
+                .reduce((sum, b) => sum + b.quantity * b.costPrice, 0),
+        [expiringBatches]
+    );
+
+    const handleWriteOff = async (batch: ProductBatchWithProduct) => {
+        try {
+            await writeOff(batch.id);
+            Toaster.success("Batch Written Off", { description: `${batch.quantity} ${batch.unit} of ${batch.productName} recorded as expired.` });
+        } catch (error: any) {
+            Toaster.error("Write Off Failed", { description: error.message || 'Failed to write off the batch.' });
+        }
+    };
+
+    const renderBatch = ({ item }: { item: ProductBatchWithProduct }) => {
+        const expired = !!item.expiryDate && parseISO(item.expiryDate) < new Date();
+        return (
+            <Card className="mb-3 mx-1 bg-card border border-border">
+                <CardContent className="p-4">
+                    <View className="flex-row justify-between items-start">
+                        <View className="flex-1 mr-2">
+                            <Text className="text-base font-semibold" style={{ color: COLORS.dark }}>{item.productName}</Text>
+                            <Text className="text-xs" style={{ color: COLORS.gray }}>
+                                {item.batchNumber ? `Batch ${item.batchNumber} · ` : ''}
+                                {item.expiryDate ? format(parseISO(item.expiryDate), 'dd MMM yyyy') : ''}
+                            </Text>
+                            <Text className="text-xs font-semibold mt-1" style={{ color: expired ? COLORS.danger : COLORS.accent }}>
+                                {item.expiryDate ? describeExpiry(item.expiryDate) : ''}
+                            </Text>
+                        </View>
+                        <View className="items-end">
+                            <Text className="text-base font-bold" style={{ color: COLORS.dark }}>{item.quantity} {item.unit}</Text>
+                            <Text className="text-xs" style={{ color: COLORS.gray }}>₹{(item.quantity * item.costPrice).toFixed(2)} at cost</Text>
+                        </View>
+                    </View>
+                    <View className="flex-row justify-end gap-x-2 mt-3">
+                        <Button
+                            size="sm"
+                            variant="ghost"
+                            className="flex-row items-center"
+                            onPress={() => router.push({ pathname: '/(tabs)/inventory/stock-adjustments', params: { productId: item.productId } })}
+                        >
+                            <ArrowUpDown size={14} color={COLORS.primary} />
+                            <Text className="ml-1 text-xs">Stock</Text>
+                        </Button>
+                        {expired && (
+                            <Button size="sm" variant="outline" onPress={() => handleWriteOff(item)} disabled={isLoading}>
+                                <Text className="text-xs" style={{ color: COLORS.danger }}>Write Off</Text>
+                            </Button>
+                        )}
+                    </View>
+                </CardContent>
+            </Card>
+        );
+    };
+
+    return (
+        <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+            <View className="flex-1 p-4 bg-transparent">
+                {expiredValue > 0 && (
+                    <Text className="text-sm font-medium mb-3" style={{ color: COLORS.danger }}>
+                        ₹{expiredValue.toFixed(2)} of expired stock is still on the shelf.
+                    </Text>
+                )}
+                <FlatList
+                    data={expiringBatches}
+                    renderItem={renderBatch}
+                    keyExtractor={(item) => item.id}
+                    showsVerticalScrollIndicator={false}
+                    refreshControl={<RefreshControl refreshing={isLoading} onRefresh={fetchExpiringBatches} />}
+                    ListEmptyComponent={
+                        <View className="items-center py-10">
+                            <CalendarClock size={40} color={COLORS.gray} className="opacity-50" />
+                            <Text className="mt-3 text-muted-foreground">Nothing expires in the next {EXPIRY_WARNING_DAYS} days.</Text>
+                            <Text className="mt-1 text-xs text-muted-foreground text-center">
+                                Add an expiry date when receiving stock to track it here.
+                            </Text>
+                        </View>
+                    }
+                />
+            </View>
+        </LinearGradient>
+    );
+}
@@ -2,9 +2,10 @@ import React from 'react';
 import { View, ScrollView, TouchableOpacity, ImageBackground, useColorScheme as rnColorScheme } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Text } from '~/components/ui/text';
-import { ShoppingBag, Tag, Users, ChevronRight } from 'lucide-react-native';
+import { ShoppingBag, Tag, Users, ChevronRight, BellRing, Handshake, ArrowUpDown, CalendarClock, Truck, ClipboardList, FileSpreadsheet, ClipboardCheck, History, BadgePercent, Gift } from 'lucide-react-native';
 import { useColorScheme } from '~/lib/useColorScheme';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useReminderStore } from '~/lib/stores/reminderStore';
 
 // Define the color palette based on theme
 export const getColors = (colorScheme: 'light' | 'dark') => ({
@@ -87,6 +88,7 @@ export default function InventoryHubScreen() {
     const { isDarkColorScheme } = useColorScheme();
     const currentRNColorScheme = rnColorScheme();
     const COLORS = getColors(currentRNColorScheme || 'light');
+    const pendingReminderCount = useReminderStore((state) => state.pendingReminders.length);
 
     const primaryColor = isDarkColorScheme ? '#A78BFA' : '#7C3AED';
     const accentColors = {
@@ -94,6 +96,7 @@ export default function InventoryHubScreen() {
         categories: isDarkColorScheme ? 'rgba(59, 130, 246, 0.2)' : 'rgba(59, 130, 246, 0.1)',
         customers: isDarkColorScheme ? 'rgba(234, 179, 8, 0.2)' : 'rgba(234, 179, 8, 0.1)',
         reports: isDarkColorScheme ? 'rgba(16, 185, 129, 0.2)' : 'rgba(16, 185, 129, 0.1)',
+        reminders: isDarkColorScheme ? 'rgba(249, 50, 12, 0.2)' : 'rgba(249, 50, 12, 0.1)',
     };
 
     const hubItems: HubItemProps[] = [
@@ -113,6 +116,62 @@ export default function InventoryHubScreen() {
             imageUri: 'https://images.unsplash.com/photo-1556909172-6ab63f18fd12?q=80&w=2070&auto=format&fit=crop',
             iconBgColor: accentColors.categories,
         },
+        {
+            title: 'Import & Export',
+            description: 'Add or update products in bulk from a CSV, or export them to a spreadsheet.',
+            icon: <FileSpreadsheet size={24} color={primaryColor} />,
+            onPress: () => router.push('/(tabs)/inventory/product-import'),
+            iconBgColor: accentColors.products,
+        },
+        {
+            title: 'Price Changes',
+            description: 'Upcoming scheduled prices, such as a new MRP from the 1st, and past changes.',
+            icon: <History size={24} color={primaryColor} />,
+            onPress: () => router.push('/(tabs)/inventory/price-changes'),
+            iconBgColor: accentColors.products,
+        },
+        {
+            title: 'Bundles & Kits',
+            description: 'Pooja kits and hampers sold from the stock of the items inside them.',
+            icon: <Gift size={24} color={primaryColor} />,
+            onPress: () => router.push('/(tabs)/inventory/bundles'),
+            iconBgColor: accentColors.products,
+        },
+        {
+            title: 'Stock Adjustments',
+            description: 'Damage, theft, expiry and count corrections, with monthly shrinkage.',
+            icon: <ArrowUpDown size={24} color="#10B981" />,
+            onPress: () => router.push('/(tabs)/inventory/stock-adjustments'),
+            iconBgColor: accentColors.reports,
+        },
+        {
+            title: 'Stocktake',
+            description: 'Count the shelves by category or by scanning and post every difference at once.',
+            icon: <ClipboardCheck size={24} color="#10B981" />,
+            onPress: () => router.push('/(tabs)/inventory/stocktakes'),
+            iconBgColor: accentColors.reports,
+        },
+        {
+            title: 'Expiring Soon',
+            description: 'Batches close to or past their expiry date. Write off what has expired.',
+            icon: <CalendarClock size={24} color={COLORS.danger} />,
+            onPress: () => router.push('/(tabs)/inventory/expiring'),
+            iconBgColor: accentColors.reminders,
+        },
+        {
+            title: 'Suppliers',
+            description: 'Supplier contacts, the products they supply and what you bought from them.',
+            icon: <Truck size={24} color="#3B82F6" />,
+            onPress: () => router.push('/(tabs)/inventory/suppliers'),
+            iconBgColor: accentColors.categories,
+        },
+        {
+            title: 'Purchase Orders',
+            description: 'Order stock from suppliers and receive it in full or in part.',
+            icon: <ClipboardList size={24} color={primaryColor} />,
+            onPress: () => router.push('/(tabs)/inventory/purchase-orders'),
+            iconBgColor: accentColors.products,
+        },
         {
             title: 'Customer List',
             description: 'Access and manage your customer information and history.',
@@ -121,6 +180,29 @@ export default function InventoryHubScreen() {
             imageUri: 'https://images.pexels.com/photos/6214370/pexels-photo-6214370.jpeg?auto=compress&cs=tinysrgb&w=1260&h=750&dpr=1',
             iconBgColor: accentColors.customers,
         },
+        {
+            title: 'Price Lists',
+            description: 'Wholesale and other customer prices, with quantity breaks such as 10 or more.',
+            icon: <BadgePercent size={24} color="#EAB308" />,
+            onPress: () => router.push('/(tabs)/inventory/price-lists'),
+            iconBgColor: accentColors.customers,
+        },
+        {
+            title: 'Payment Reminders',
+            description: pendingReminderCount > 0
+                ? `${pendingReminderCount} khata reminder${pendingReminderCount === 1 ? '' : 's'} due. Send by SMS or WhatsApp.`
+                : 'Upcoming and overdue khata dues with SMS and WhatsApp reminders.',
+            icon: <BellRing size={24} color={COLORS.danger} />,
+            onPress: () => router.push('/(tabs)/inventory/reminders'),
+            iconBgColor: accentColors.reminders,
+        },
+        {
+            title: 'Payment Promises',
+            description: 'Track what customers promised to pay and whether they kept it.',
+            icon: <Handshake size={24} color={COLORS.primary} />,
+            onPress: () => router.push('/(tabs)/inventory/promises'),
+            iconBgColor: accentColors.products,
+        },
     ];
 
     return (
@@ -0,0 +1,276 @@
+// app/(tabs)/inventory/price-changes.tsx
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, FlatList, TouchableOpacity, RefreshControl, Alert, useColorScheme as rnColorScheme } from 'react-native';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import DateTimePickerModal from 'react-native-modal-datetime-picker';
+import { CalendarDays, History } from 'lucide-react-native';
+import { addDays, format, parseISO } from 'date-fns';
+import { Text } from '~/components/ui/text';
+import { Input } from '~/components/ui/input';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent } from '~/components/ui/card';
+import { Toaster } from '~/components/toaster/Toaster';
+import { getColors } from '~/app/(tabs)/inventory/customers';
+import { usePriceChangeStore } from '~/lib/stores/priceChangeStore';
+import { useProductStore } from '~/lib/stores/productStore';
+import { PriceHistoryEntry, ScheduledPriceChangeStatus, ScheduledPriceChangeWithProduct } from '~/lib/stores/types';
+import { PRICE_CHANGE_SOURCES } from '~/lib/constants';
+
+const getSourceLabel = (source: string) =>
+    PRICE_CHANGE_SOURCES.find((s) => s.value === source)?.label || source;
+
+const STATUS_LABELS: Record<ScheduledPriceChangeStatus, string> = {
+    PENDING: 'Scheduled',
+    APPLIED: 'Applied',
+    CANCELLED: 'Cancelled',
+};
+
+const formatPriceMove = (from: number, to: number) =>
+    from === to ? `₹${to.toFixed(2)}` : `₹${from.toFixed(2)} → ₹${to.toFixed(2)}`;
+
+export default function PriceChangesScreen() {
+    const router = useRouter();
+    const { productId } = useLocalSearchParams<{ productId?: string }>();
+    const currentRNColorScheme = rnColorScheme();
+    const COLORS = getColors(currentRNColorScheme || 'light');
+    const { history, scheduledChanges, fetchHistory, fetchScheduledChanges, schedulePriceChange, cancelScheduledChange, isLoading } =
+        usePriceChangeStore();
+    const { products, fetchProducts } = useProductStore();
+
+    const [costText, setCostText] = useState('');
+    const [sellingText, setSellingText] = useState('');
+    const [effectiveDate, setEffectiveDate] = useState<Date | null>(null);
+    const [notes, setNotes] = useState('');
+    const [isDatePickerVisible, setIsDatePickerVisible] = useState(false);
+
+    const product = useMemo(() => products.find((p) => p.id === productId) || null, [products, productId]);
+
+    const loadData = useCallback(async () => {
+        if (productId) {
+            await Promise.all([fetchHistory(productId), fetchScheduledChanges(productId), fetchProducts()]);
+            return;
+        }
+        await fetchScheduledChanges();
+    }, [productId, fetchHistory, fetchScheduledChanges, fetchProducts]);
+
+    useFocusEffect(
+        useCallback(() => {
+            loadData();
+        }, [loadData])
+    );
+
+    const handleSchedule = async () => {
+        if (!product) return;
+        const newCostPrice = costText.trim() ? parseFloat(costText) : null;
+        const newSellingPrice = sellingText.trim() ? parseFloat(sellingText) : null;
+        if (!effectiveDate) {
+            Toaster.warning("Date Required", { description: 'Pick the date the new price starts.' });
+            return;
+        }
+        try {
+            await schedulePriceChange({
+                productId: product.id,
+                newCostPrice,
+                newSellingPrice,
+                effectiveDate: format(effectiveDate, 'yyyy-MM-dd'),
+                notes,
+            });
+            setCostText('');
+            setSellingText('');
+            setEffectiveDate(null);
+            setNotes('');
+            Toaster.success("Price Change Scheduled", { description: `${product.name} from ${format(effectiveDate, 'dd MMM yyyy')}` });
+        } catch (error: any) {
+            Toaster.error("Could Not Schedule", { description: error.message || 'Failed to schedule the price change.' });
+        }
+    };
+
+    const handleCancel = (change: ScheduledPriceChangeWithProduct) => {
+        Alert.alert('Cancel Price Change', `The change for ${change.productName} on ${format(parseISO(change.effectiveDate), 'dd MMM yyyy')} will not be applied.`, [
+            { text: 'Keep', style: 'cancel' },
+            {
+                text: 'Cancel Change',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await cancelScheduledChange(change.id);
+                    } catch (error: any) {
+                        Toaster.error("Cancel Failed", { description: error.message || 'Failed to cancel the price change.' });
+                    }
+                },
+            },
+        ]);
+    };
+
+    const renderScheduledChange = (change: ScheduledPriceChangeWithProduct) => {
+        const pending = change.status === 'PENDING';
+        return (
+            <Card key={change.id} className="mb-2 mx-1 bg-card border border-border">
+                <CardContent className="p-3">
+                    <View className="flex-row justify-between items-start">
+                        <TouchableOpacity
+                            className="flex-1 mr-2"
+                            disabled={!!productId}
+                            onPress={() => router.push({ pathname: '/(tabs)/inventory/price-changes', params: { productId: change.productId } })}
+                        >
+                            {!productId && (
+                                <Text className="text-sm font-semibold" style={{ color: COLORS.dark }}>{change.productName}</Text>
+                            )}
+                            <Text className="text-xs font-medium" style={{ color: pending ? COLORS.secondary : COLORS.gray }}>
+                                {STATUS_LABELS[change.status]} · from {format(parseISO(change.effectiveDate), 'dd MMM yyyy')}
+                            </Text>
+                            {change.newSellingPrice != null && (
+                                <Text className="text-xs" style={{ color: COLORS.dark }}>
+                                    Selling {pending ? formatPriceMove(change.sellingPrice, change.newSellingPrice) : `₹${change.newSellingPrice.toFixed(2)}`}
+                                </Text>
+                            )}
+                            {change.newCostPrice != null && (
+                                <Text className="text-xs" style={{ color: COLORS.dark }}>
+                                    Cost {pending ? formatPriceMove(change.costPrice, change.newCostPrice) : `₹${change.newCostPrice.toFixed(2)}`}
+                                </Text>
+                            )}
+                            {change.notes ? (
+                                <Text className="text-xs mt-1" style={{ color: COLORS.gray }}>{change.notes}</Text>
+                            ) : null}
+                        </TouchableOpacity>
+                        {pending && (
+                            <Button size="sm" variant="outline" onPress={() => handleCancel(change)} disabled={isLoading}>
+                                <Text className="text-xs" style={{ color: COLORS.danger }}>Cancel</Text>
+                            </Button>
+                        )}
+                    </View>
+                </CardContent>
+            </Card>
+        );
+    };
+
+    const renderHistoryEntry = ({ item }: { item: PriceHistoryEntry }) => (
+        <Card className="mb-2 mx-1 bg-card border border-border">
+            <CardContent className="p-3">
+                <View className="flex-row justify-between items-start">
+                    <View className="flex-1 mr-2">
+                        <Text className="text-xs font-medium" style={{ color: COLORS.primary }}>{getSourceLabel(item.source)}</Text>
+                        <Text className="text-xs" style={{ color: COLORS.gray }}>
+                            {format(parseISO(item.changedAt), 'dd MMM yyyy, hh:mm a')}
+                            {item.changedByName ? ` · by ${item.changedByName}` : ''}
+                        </Text>
+                    </View>
+                    <View className="items-end">
+                        <Text className="text-sm font-semibold" style={{ color: COLORS.dark }}>
+                            {formatPriceMove(item.oldSellingPrice, item.newSellingPrice)}
+                        </Text>
+                        <Text className="text-xs" style={{ color: COLORS.gray }}>
+                            Cost {formatPriceMove(item.oldCostPrice, item.newCostPrice)}
+                        </Text>
+                    </View>
+                </View>
+            </CardContent>
+        </Card>
+    );
+
+    const upcoming = scheduledChanges.filter((c) => c.status === 'PENDING');
+    const past = scheduledChanges.filter((c) => c.status !== 'PENDING');
+
+    const header = (
+        <View>
+            {product && (
+                <Card className="mb-4 bg-card border border-border">
+                    <CardContent className="p-4">
+                        <Text className="text-lg font-semibold" style={{ color: COLORS.dark }}>{product.name}</Text>
+                        <Text className="text-sm mb-3" style={{ color: COLORS.gray }}>
+                            Selling ₹{product.sellingPrice.toFixed(2)} · Cost ₹{product.costPrice.toFixed(2)}
+                        </Text>
+                        <Text className="text-sm font-medium mb-1" style={{ color: COLORS.dark }}>Schedule a new price</Text>
+                        <View className="flex-row gap-x-2 mb-2">
+                            <Input
+                                placeholder={`Selling (₹${product.sellingPrice.toFixed(2)})`}
+                                value={sellingText}
+                                onChangeText={(text) => setSellingText(text.replace(/[^0-9.]/g, ''))}
+                                keyboardType="decimal-pad"
+                                className="flex-1 h-11 border border-gray-300 dark:border-gray-600"
+                            />
+                            <Input
+                                placeholder={`Cost (₹${product.costPrice.toFixed(2)})`}
+                                value={costText}
+                                onChangeText={(text) => setCostText(text.replace(/[^0-9.]/g, ''))}
+                                keyboardType="decimal-pad"
+                                className="flex-1 h-11 border border-gray-300 dark:border-gray-600"
+                            />
+                        </View>
+                        <View className="flex-row gap-x-2 mb-2">
+                            <Button variant="outline" className="h-11 flex-row items-center" onPress={() => setIsDatePickerVisible(true)}>
+                                <CalendarDays size={14} color={COLORS.primary} />
+                                <Text className="ml-1 text-xs">{effectiveDate ? `From ${format(effectiveDate, 'dd MMM yyyy')}` : 'Starts on'}</Text>
+                            </Button>
+                            <Input
+                                placeholder="Notes (optional)"
+                                value={notes}
+                                onChangeText={setNotes}
+                                className="flex-1 h-11 border border-gray-300 dark:border-gray-600"
+                            />
+                        </View>
+                        <Text className="text-xs mb-2" style={{ color: COLORS.gray }}>
+                            Leave a price blank to keep it. The change applies on the first app start or checkout from that date.
+                        </Text>
+                        <Button
+                            className='bg-[#a855f7] dark:bg-[#00b9f1]'
+                            onPress={handleSchedule}
+                            disabled={isLoading || (!costText.trim() && !sellingText.trim())}
+                        >
+                            <Text className="text-white">Schedule Price Change</Text>
+                        </Button>
+                    </CardContent>
+                </Card>
+            )}
+            <Text className="text-lg font-semibold mb-3" style={{ color: COLORS.dark }}>Upcoming</Text>
+            {upcoming.length === 0 ? (
+                <Text className="text-sm mb-4" style={{ color: COLORS.gray }}>No price changes scheduled.</Text>
+            ) : (
+                <View className="mb-4">{upcoming.map(renderScheduledChange)}</View>
+            )}
+            {!productId && past.length > 0 && (
+                <View className="mb-4">
+                    <Text className="text-lg font-semibold mb-3" style={{ color: COLORS.dark }}>Past</Text>
+                    {past.map(renderScheduledChange)}
+                </View>
+            )}
+            {productId && <Text className="text-lg font-semibold mb-3" style={{ color: COLORS.dark }}>History</Text>}
+        </View>
+    );
+
+    return (
+        <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+            <View className="flex-1 p-4 bg-transparent">
+                <FlatList
+                    data={productId ? history : []}
+                    renderItem={renderHistoryEntry}
+                    keyExtractor={(item) => item.id}
+                    ListHeaderComponent={header}
+                    showsVerticalScrollIndicator={false}
+                    keyboardShouldPersistTaps="handled"
+                    refreshControl={<RefreshControl refreshing={isLoading} onRefresh={loadData} />}
+                    ListEmptyComponent={
+                        productId ? (
+                            <View className="items-center py-10">
+                                <History size={40} color={COLORS.gray} className="opacity-50" />
+                                <Text className="mt-3 text-muted-foreground">The prices have not been changed yet.</Text>
+                            </View>
+                        ) : null
+                    }
+                />
+            </View>
+            <DateTimePickerModal
+                isVisible={isDatePickerVisible}
+                mode="date"
+                date={effectiveDate || addDays(new Date(), 1)}
+                minimumDate={addDays(new Date(), 1)}
+                onConfirm={(date) => {
+                    setEffectiveDate(date);
+                    setIsDatePickerVisible(false);
+                }}
+                onCancel={() => setIsDatePickerVisible(false)}
+            />
+        </LinearGradient>
+    );
+}
@@ -0,0 +1,360 @@
+// app/(tabs)/inventory/price-lists.tsx
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, FlatList, TouchableOpacity, RefreshControl, Alert, useColorScheme as rnColorScheme } from 'react-native';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Picker } from '@react-native-picker/picker';
+import { BadgePercent, Pencil, Plus, Trash2 } from 'lucide-react-native';
+import { Text } from '~/components/ui/text';
+import { Input } from '~/components/ui/input';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent } from '~/components/ui/card';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '~/components/ui/dialog';
+import { Toaster } from '~/components/toaster/Toaster';
+import { getColors } from '~/app/(tabs)/inventory/customers';
+import { usePriceListStore } from '~/lib/stores/priceListStore';
+import { useProductStore } from '~/lib/stores/productStore';
+import { PriceListItemWithProduct, PriceListWithCounts } from '~/lib/stores/types';
+import { formatQuantity, parseQuantity } from '~/lib/utils/quantityUtils';
+
+export default function PriceListsScreen() {
+    const router = useRouter();
+    const { priceListId } = useLocalSearchParams<{ priceListId?: string }>();
+    const currentRNColorScheme = rnColorScheme();
+    const COLORS = getColors(currentRNColorScheme || 'light');
+    const {
+        priceLists,
+        items,
+        fetchPriceLists,
+        fetchItems,
+        addPriceList,
+        updatePriceList,
+        deletePriceList,
+        setItem,
+        removeItem,
+        isLoading,
+    } = usePriceListStore();
+    const { products, fetchProducts } = useProductStore();
+
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const [editingList, setEditingList] = useState<PriceListWithCounts | null>(null);
+    const [nameText, setNameText] = useState('');
+    const [discountText, setDiscountText] = useState('');
+    const [notesText, setNotesText] = useState('');
+    const [productId, setProductId] = useState('');
+    const [minQuantityText, setMinQuantityText] = useState('1');
+    const [priceText, setPriceText] = useState('');
+
+    const priceList = useMemo(() => priceLists.find((pl) => pl.id === priceListId) || null, [priceLists, priceListId]);
+    const selectedProduct = useMemo(() => products.find((p) => p.id === productId) || null, [products, productId]);
+
+    const loadData = useCallback(async () => {
+        if (priceListId) {
+            await Promise.all([fetchPriceLists(), fetchItems(priceListId), fetchProducts()]);
+            return;
+        }
+        await fetchPriceLists();
+    }, [priceListId, fetchPriceLists, fetchItems, fetchProducts]);
+
+    useFocusEffect(
+        useCallback(() => {
+            loadData();
+        }, [loadData])
+    );
+
+    const openListDialog = (list: PriceListWithCounts | null) => {
+        setEditingList(list);
+        setNameText(list?.name || '');
+        setDiscountText(list && list.discountPercent > 0 ? String(list.discountPercent) : '');
+        setNotesText(list?.notes || '');
+        setDialogOpen(true);
+    };
+
+    const handleSaveList = async () => {
+        const input = {
+            name: nameText,
+            discountPercent: discountText.trim() ? parseFloat(discountText) : 0,
+            notes: notesText,
+        };
+        try {
+            if (editingList) {
+                await updatePriceList(editingList.id, input);
+            } else {
+                await addPriceList(input);
+            }
+            setDialogOpen(false);
+            Toaster.success(editingList ? "Price List Updated" : "Price List Added", { description: input.name.trim() });
+        } catch (error: any) {
+            Toaster.error("Could Not Save", { description: error.message || 'Failed to save the price list.' });
+        }
+    };
+
+    const handleDeleteList = (list: PriceListWithCounts) => {
+        const customersNote = list.customerCount > 0
+            ? ` ${list.customerCount} customer${list.customerCount === 1 ? '' : 's'} will go back to normal prices.`
+            : '';
+        Alert.alert('Delete Price List', `Delete "${list.name}"?${customersNote}`, [
+            { text: 'Keep', style: 'cancel' },
+            {
+                text: 'Delete',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await deletePriceList(list.id);
+                        if (priceListId) router.back();
+                    } catch (error: any) {
+                        Toaster.error("Delete Failed", { description: error.message || 'Failed to delete the price list.' });
+                    }
+                },
+            },
+        ]);
+    };
+
+    const handleSavePrice = async () => {
+        if (!priceList || !selectedProduct) return;
+        const minQuantity = parseQuantity(minQuantityText || '1', selectedProduct.unit);
+        const price = parseFloat(priceText);
+        if (isNaN(minQuantity) || isNaN(price)) {
+            Toaster.warning("Check the Price", { description: 'Enter a price and the quantity it starts from.' });
+            return;
+        }
+        try {
+            await setItem({ priceListId: priceList.id, productId: selectedProduct.id, minQuantity, price });
+            setMinQuantityText('1');
+            setPriceText('');
+            Toaster.success("Price Saved", {
+                description: `${selectedProduct.name} ₹${price.toFixed(2)}${minQuantity > 1 ? ` from ${formatQuantity(minQuantity)}` : ''}`,
+            });
+        } catch (error: any) {
+            Toaster.error("Could Not Save", { description: error.message || 'Failed to save the price.' });
+        }
+    };
+
+    const handleRemovePrice = async (item: PriceListItemWithProduct) => {
+        try {
+            await removeItem(item.id);
+        } catch (error: any) {
+            Toaster.error("Remove Failed", { description: error.message || 'Failed to remove the price.' });
+        }
+    };
+
+    const renderPriceList = ({ item }: { item: PriceListWithCounts }) => (
+        <TouchableOpacity onPress={() => router.push({ pathname: '/(tabs)/inventory/price-lists', params: { priceListId: item.id } })}>
+            <Card className="mb-3 mx-1 bg-card border border-border">
+                <CardContent className="p-4">
+                    <View className="flex-row justify-between items-start">
+                        <View className="flex-1 mr-2">
+                            <Text className="text-base font-semibold" style={{ color: COLORS.dark }}>{item.name}</Text>
+                            <Text className="text-xs" style={{ color: COLORS.gray }}>
+                                {item.productCount} product price{item.productCount === 1 ? '' : 's'}
+                                {item.discountPercent > 0 ? ` · ${item.discountPercent}% off everything else` : ''}
+                            </Text>
+                            <Text className="text-xs mt-1" style={{ color: COLORS.gray }}>
+                                {item.customerCount} customer{item.customerCount === 1 ? '' : 's'}
+                            </Text>
+                        </View>
+                        <View className="flex-row">
+                            <Button size="icon" variant="ghost" onPress={() => openListDialog(item)}>
+                                <Pencil size={18} color={COLORS.primary} />
+                            </Button>
+                            <Button size="icon" variant="ghost" onPress={() => handleDeleteList(item)}>
+                                <Trash2 size={18} color={COLORS.danger} />
+                            </Button>
+                        </View>
+                    </View>
+                </CardContent>
+            </Card>
+        </TouchableOpacity>
+    );
+
+    const renderItem = ({ item }: { item: PriceListItemWithProduct }) => (
+        <Card className="mb-2 mx-1 bg-card border border-border">
+            <CardContent className="p-3">
+                <View className="flex-row justify-between items-center">
+                    <TouchableOpacity
+                        className="flex-1 mr-2"
+                        onPress={() => {
+                            setProductId(item.productId);
+                            setMinQuantityText(formatQuantity(item.minQuantity));
+                            setPriceText(String(item.price));
+                        }}
+                    >
+                        <Text className="text-sm font-semibold" style={{ color: COLORS.dark }}>{item.productName}</Text>
+                        <Text className="text-xs" style={{ color: COLORS.gray }}>
+                            {item.minQuantity > 1 ? `${formatQuantity(item.minQuantity)}${item.unit ? ` ${item.unit}` : ''} or more` : 'Any quantity'}
+                            {' · '}normally ₹{item.sellingPrice.toFixed(2)}
+                        </Text>
+                    </TouchableOpacity>
+                    <Text className="text-base font-bold mr-2" style={{ color: COLORS.primary }}>₹{item.price.toFixed(2)}</Text>
+                    <Button size="icon" variant="ghost" onPress={() => handleRemovePrice(item)} disabled={isLoading}>
+                        <Trash2 size={16} color={COLORS.danger} />
+                    </Button>
+                </View>
+            </CardContent>
+        </Card>
+    );
+
+    const listHeader = priceList ? (
+        <View>
+            <Card className="mb-4 bg-card border border-border">
+                <CardContent className="p-4">
+                    <View className="flex-row justify-between items-start">
+                        <View className="flex-1 mr-2">
+                            <Text className="text-lg font-semibold" style={{ color: COLORS.dark }}>{priceList.name}</Text>
+                            <Text className="text-sm" style={{ color: COLORS.gray }}>
+                                {priceList.discountPercent > 0
+                                    ? `${priceList.discountPercent}% off products without their own price`
+                                    : 'Products without their own price sell at the normal price'}
+                            </Text>
+                            {priceList.notes ? (
+                                <Text className="text-xs mt-1" style={{ color: COLORS.gray }}>{priceList.notes}</Text>
+                            ) : null}
+                        </View>
+                        <Button size="icon" variant="ghost" onPress={() => openListDialog(priceList)}>
+                            <Pencil size={18} color={COLORS.primary} />
+                        </Button>
+                    </View>
+                    <Text className="text-sm font-medium mt-3 mb-1" style={{ color: COLORS.dark }}>Set a product price</Text>
+                    <View className="border border-gray-300 dark:border-gray-600 rounded-md h-12 justify-center mb-2">
+                        <Picker
+                            selectedValue={productId}
+                            onValueChange={(value) => setProductId(value)}
+                            style={{ color: COLORS.dark }}
+                            dropdownIconColor={COLORS.dark}
+                        >
+                            <Picker.Item label="Choose a product" value="" />
+                            {products.map((product) => (
+                                <Picker.Item key={product.id} label={`${product.name} (₹${product.sellingPrice.toFixed(2)})`} value={product.id} />
+                            ))}
+                        </Picker>
+                    </View>
+                    <View className="flex-row gap-x-2 mb-2">
+                        <Input
+                            placeholder="Price"
+                            value={priceText}
+                            onChangeText={(text) => setPriceText(text.replace(/[^0-9.]/g, ''))}
+                            keyboardType="decimal-pad"
+                            className="flex-1 h-11 border border-gray-300 dark:border-gray-600"
+                        />
+                        <Input
+                            placeholder="From qty"
+                            value={minQuantityText}
+                            onChangeText={(text) => setMinQuantityText(text.replace(/[^0-9.]/g, ''))}
+                            keyboardType="decimal-pad"
+                            className="flex-1 h-11 border border-gray-300 dark:border-gray-600"
+                        />
+                    </View>
+                    <Text className="text-xs mb-2" style={{ color: COLORS.gray }}>
+                        Add the same product again with a higher quantity for a quantity break, e.g. 10 or more at a lower price.
+                    </Text>
+                    <Button
+                        className='bg-[#a855f7] dark:bg-[#00b9f1]'
+                        onPress={handleSavePrice}
+                        disabled={isLoading || !selectedProduct || !priceText.trim()}
+                    >
+                        <Text className="text-white">Save Price</Text>
+                    </Button>
+                </CardContent>
+            </Card>
+            <Text className="text-lg font-semibold mb-3" style={{ color: COLORS.dark }}>Product Prices</Text>
+        </View>
+    ) : (
+        <View className="flex-row justify-between items-center mb-3">
+            <Text className="text-sm flex-1 mr-2" style={{ color: COLORS.gray }}>
+                Give customers such as hotels or shops their own prices. Assign a list on the customer's record.
+            </Text>
+            <Button size="icon" variant="ghost" onPress={() => openListDialog(null)}>
+                <Plus size={22} color={COLORS.primary} />
+            </Button>
+        </View>
+    );
+
+    return (
+        <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+            <View className="flex-1 p-4 bg-transparent">
+                {priceListId ? (
+                    <FlatList
+                        data={priceList ? items : []}
+                        renderItem={renderItem}
+                        keyExtractor={(item) => item.id}
+                        ListHeaderComponent={listHeader}
+                        showsVerticalScrollIndicator={false}
+                        keyboardShouldPersistTaps="handled"
+                        refreshControl={<RefreshControl refreshing={isLoading} onRefresh={loadData} />}
+                        ListEmptyComponent={
+                            priceList ? (
+                                <Text className="text-sm" style={{ color: COLORS.gray }}>No product prices set yet.</Text>
+                            ) : null
+                        }
+                    />
+                ) : (
+                    <FlatList
+                        data={priceLists}
+                        renderItem={renderPriceList}
+                        keyExtractor={(item) => item.id}
+                        ListHeaderComponent={listHeader}
+                        showsVerticalScrollIndicator={false}
+                        refreshControl={<RefreshControl refreshing={isLoading} onRefresh={loadData} />}
+                        ListEmptyComponent={
+                            <View className="items-center py-10">
+                                <BadgePercent size={40} color={COLORS.gray} className="opacity-50" />
+                                <Text className="mt-3 text-muted-foreground">No price lists yet.</Text>
+                                <Button variant="ghost" onPress={() => openListDialog(null)}>
+                                    <Text className="text-primary">Add a Price List</Text>
+                                </Button>
+                            </View>
+                        }
+                    />
+                )}
+            </View>
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogContent className="p-0 bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-11/12 mx-auto">
+                    <DialogHeader className="p-6 pb-4 border-b border-gray-200 dark:border-gray-700">
+                        <DialogTitle className="text-lg font-bold" style={{ color: COLORS.dark }}>
+                            {editingList ? 'Edit Price List' : 'New Price List'}
+                        </DialogTitle>
+                    </DialogHeader>
+                    <View className="p-4">
+                        <Text className="mb-1 text-sm font-semibold" style={{ color: COLORS.dark }}>Name</Text>
+                        <Input
+                            placeholder="e.g. Wholesale"
+                            value={nameText}
+                            onChangeText={setNameText}
+                            className="mb-3 h-11 border border-gray-300 dark:border-gray-600 rounded-md px-3"
+                            style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                        />
+                        <Text className="mb-1 text-sm font-semibold" style={{ color: COLORS.dark }}>Discount % (optional)</Text>
+                        <Input
+                            placeholder="0"
+                            value={discountText}
+                            onChangeText={(text) => setDiscountText(text.replace(/[^0-9.]/g, ''))}
+                            keyboardType="decimal-pad"
+                            className="mb-1 h-11 border border-gray-300 dark:border-gray-600 rounded-md px-3"
+                            style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                        />
+                        <Text className="text-xs mb-3" style={{ color: COLORS.gray }}>
+                            Taken off the normal price of any product the list has no price for.
+                        </Text>
+                        <Text className="mb-1 text-sm font-semibold" style={{ color: COLORS.dark }}>Notes</Text>
+                        <Input
+                            placeholder="Notes (optional)"
+                            value={notesText}
+                            onChangeText={setNotesText}
+                            className="h-11 border border-gray-300 dark:border-gray-600 rounded-md px-3"
+                            style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                        />
+                    </View>
+                    <DialogFooter className="p-4 flex-row justify-end gap-x-2 border-t border-gray-200 dark:border-gray-700">
+                        <Button variant="ghost" onPress={() => setDialogOpen(false)}>
+                            <Text style={{ color: COLORS.gray }}>Cancel</Text>
+                        </Button>
+                        <Button className="bg-[#a855f7] dark:bg-[#00b9f1]" onPress={handleSaveList} disabled={isLoading || !nameText.trim()}>
+                            <Text className="text-white font-semibold">Save</Text>
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </LinearGradient>
+    );
+}
@@ -0,0 +1,303 @@
+// app/(tabs)/inventory/product-import.tsx
+import React, { useState } from 'react';
+import { View, FlatList, TouchableOpacity, Alert, Platform, useColorScheme as rnColorScheme } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Picker } from '@react-native-picker/picker';
+import { format } from 'date-fns';
+import { Download, FolderOpen, FileSpreadsheet } from 'lucide-react-native';
+import { Text } from '~/components/ui/text';
+import { Input } from '~/components/ui/input';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent } from '~/components/ui/card';
+import { Toaster } from '~/components/toaster/Toaster';
+import { getColors } from '~/app/(tabs)/inventory/customers';
+import { useProductImportStore } from '~/lib/stores/productImportStore';
+import { guessProductCsvMapping } from '~/lib/db/productCsvOperations';
+import { ProductCsvMapping, ProductImportRow } from '~/lib/stores/types';
+import { PRODUCT_CSV_COLUMNS } from '~/lib/constants';
+import { parseCsv } from '~/lib/utils/csvUtils';
+import { formatQuantity } from '~/lib/utils/quantityUtils';
+
+const fileLabel = (uri: string) => decodeURIComponent(uri).split('/').pop() || uri;
+
+export default function ProductImportScreen() {
+    const currentRNColorScheme = rnColorScheme();
+    const COLORS = getColors(currentRNColorScheme || 'light');
+    const { previewRows, previewImport, importPreviewedRows, exportProducts, clearPreview, isLoading } = useProductImportStore();
+
+    const [csvText, setCsvText] = useState('');
+    const [folderFiles, setFolderFiles] = useState<string[]>([]);
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [dataRows, setDataRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<ProductCsvMapping | null>(null);
+
+    const errorCount = previewRows.filter((row) => row.errors.length > 0).length;
+    const newCount = previewRows.filter((row) => row.errors.length === 0 && !row.productId).length;
+    const updateCount = previewRows.filter((row) => row.errors.length === 0 && row.productId).length;
+
+    const readColumns = (text: string) => {
+        const rows = parseCsv(text);
+        clearPreview();
+        if (rows.length < 2) {
+            Toaster.warning('Nothing to Import', { description: 'Expected a header row followed by at least one product.' });
+            setHeaders([]);
+            setDataRows([]);
+            setMapping(null);
+            return;
+        }
+        setHeaders(rows[0]);
+        setDataRows(rows.slice(1));
+        setMapping(guessProductCsvMapping(rows[0]));
+    };
+
+    // No document picker here, so Android reads CSVs from a folder the user grants access to
+    const pickFromFolder = async () => {
+        try {
+            const permissions = await FileSystem.StorageAccessFramework.requestDirectoryPermissionsAsync();
+            if (!permissions.granted) return;
+            const uris = await FileSystem.StorageAccessFramework.readDirectoryAsync(permissions.directoryUri);
+            const csvFiles = uris.filter((uri) => fileLabel(uri).toLowerCase().endsWith('.csv'));
+            if (csvFiles.length === 0) {
+                Toaster.info('No CSV Files', { description: 'That folder has no .csv files.' });
+            }
+            setFolderFiles(csvFiles);
+        } catch (e: any) {
+            console.error('Error reading folder for import:', e);
+            Toaster.error('Folder Error', { description: 'Could not read that folder.' });
+        }
+    };
+
+    const loadFile = async (uri: string) => {
+        try {
+            const text = await FileSystem.readAsStringAsync(uri);
+            setCsvText(text);
+            setFolderFiles([]);
+            readColumns(text);
+        } catch (e: any) {
+            console.error('Error reading import file:', e);
+            Toaster.error('File Error', { description: `Could not read ${fileLabel(uri)}.` });
+        }
+    };
+
+    const handleCheckRows = async () => {
+        if (!mapping) return;
+        if (mapping.name == null && mapping.barcode == null) {
+            Toaster.warning('Map a Column', { description: 'Choose the column holding the product name or barcode.' });
+            return;
+        }
+        await previewImport(dataRows, mapping);
+    };
+
+    const handleImport = () => {
+        const count = newCount + updateCount;
+        Alert.alert(
+            'Import Products',
+            `Add ${newCount} and update ${updateCount} product${count === 1 ? '' : 's'}?` +
+                (errorCount > 0 ? `\n\n${errorCount} row${errorCount === 1 ? '' : 's'} with errors will be skipped.` : ''),
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Import',
+                    onPress: async () => {
+                        try {
+                            const result = await importPreviewedRows();
+                            Toaster.success('Import Complete', {
+                                description: `${result.created} added, ${result.updated} updated` +
+                                    (result.categoriesCreated > 0 ? `, ${result.categoriesCreated} new categor${result.categoriesCreated === 1 ? 'y' : 'ies'}.` : '.'),
+                            });
+                            setCsvText('');
+                            setHeaders([]);
+                            setDataRows([]);
+                            setMapping(null);
+                        } catch (e: any) {
+                            Toaster.error('Import Failed', { description: e.message || 'Nothing was saved.' });
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const handleExport = async () => {
+        try {
+            const csv = await exportProducts();
+            const fileUri = `${FileSystem.cacheDirectory}products_${format(new Date(), 'yyyyMMdd_HHmmss')}.csv`;
+            await FileSystem.writeAsStringAsync(fileUri, csv);
+            if (await Sharing.isAvailableAsync()) {
+                await Sharing.shareAsync(fileUri, {
+                    mimeType: 'text/csv',
+                    dialogTitle: 'Export Products',
+                    UTI: Platform.OS === 'ios' ? 'public.comma-separated-values-text' : undefined,
+                });
+            } else {
+                Alert.alert('Export Saved', `File saved to:\n${fileUri}\n\nSharing is not available on this device.`);
+            }
+        } catch (e: any) {
+            Toaster.error('Export Failed', { description: e.message || 'Could not export products.' });
+        }
+    };
+
+    const renderRow = ({ item }: { item: ProductImportRow }) => {
+        const hasErrors = item.errors.length > 0;
+        return (
+            <Card className="mb-2 mx-1 bg-card border border-border">
+                <CardContent className="p-3">
+                    <View className="flex-row justify-between items-start">
+                        <Text className="flex-1 mr-2 text-sm font-semibold" style={{ color: COLORS.dark }}>
+                            Row {item.rowNumber} · {item.name || '—'}
+                        </Text>
+                        <Text
+                            className="text-xs font-semibold"
+                            style={{ color: hasErrors ? COLORS.danger : item.productId ? COLORS.accent : COLORS.secondary }}
+                        >
+                            {hasErrors ? 'Skipped' : item.productId ? 'Update' : 'New'}
+                        </Text>
+                    </View>
+                    <Text className="text-xs mt-0.5" style={{ color: COLORS.gray }}>
+                        {[
+                            item.category,
+                            item.costPrice != null ? `Cost ₹${item.costPrice.toFixed(2)}` : null,
+                            item.sellingPrice != null ? `Price ₹${item.sellingPrice.toFixed(2)}` : null,
+                            item.quantity != null ? `${formatQuantity(item.quantity)} ${item.unit || ''}`.trim() : null,
+                            item.barcode,
+                        ].filter(Boolean).join(' · ')}
+                    </Text>
+                    {item.errors.map((message) => (
+                        <Text key={message} className="text-xs mt-0.5" style={{ color: COLORS.danger }}>{message}</Text>
+                    ))}
+                </CardContent>
+            </Card>
+        );
+    };
+
+    const header = (
+        <View>
+            <View className="flex-row justify-between items-center mb-3">
+                <Text className="text-xl font-bold" style={{ color: COLORS.dark }}>Import & Export</Text>
+                <Button variant="outline" className="flex-row items-center" onPress={handleExport} disabled={isLoading}>
+                    <Download size={16} color={COLORS.primary} />
+                    <Text className="ml-2" style={{ color: COLORS.primary }}>Export CSV</Text>
+                </Button>
+            </View>
+
+            <Card className="mb-3 bg-card border border-border">
+                <CardContent className="p-4">
+                    <Text className="text-base font-semibold mb-1" style={{ color: COLORS.dark }}>1. CSV File</Text>
+                    <Text className="text-xs mb-2" style={{ color: COLORS.gray }}>
+                        The first row must be the header. Existing products are matched by barcode, then by name.
+                    </Text>
+                    {Platform.OS === 'android' && (
+                        <Button variant="outline" className="flex-row items-center mb-2" onPress={pickFromFolder} disabled={isLoading}>
+                            <FolderOpen size={16} color={COLORS.primary} />
+                            <Text className="ml-2" style={{ color: COLORS.primary }}>Pick from Folder</Text>
+                        </Button>
+                    )}
+                    {folderFiles.length > 0 && (
+                        <View className="flex-row flex-wrap gap-2 mb-2">
+                            {folderFiles.map((uri) => (
+                                <TouchableOpacity
+                                    key={uri}
+                                    onPress={() => loadFile(uri)}
+                                    className="px-3 py-1.5 rounded-full border"
+                                    style={{ borderColor: COLORS.primary, backgroundColor: COLORS.lightPurple }}
+                                >
+                                    <Text className="text-xs font-medium" style={{ color: COLORS.primary }}>{fileLabel(uri)}</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                    )}
+                    <Input
+                        value={csvText}
+                        onChangeText={setCsvText}
+                        placeholder={'Or paste CSV here\nName,Category,Cost Price,Selling Price,Quantity,Unit,Barcode'}
+                        multiline
+                        numberOfLines={5}
+                        textAlignVertical="top"
+                        className="min-h-[100px] border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2"
+                        style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                        placeholderTextColor={COLORS.gray}
+                        editable={!isLoading}
+                    />
+                    <Button
+                        className="mt-2 bg-[#a855f7] dark:bg-[#00b9f1]"
+                        onPress={() => readColumns(csvText)}
+                        disabled={isLoading || !csvText.trim()}
+                    >
+                        <Text className="text-white font-semibold">Read Columns</Text>
+                    </Button>
+                </CardContent>
+            </Card>
+
+            {mapping && (
+                <Card className="mb-3 bg-card border border-border">
+                    <CardContent className="p-4">
+                        <Text className="text-base font-semibold mb-2" style={{ color: COLORS.dark }}>
+                            2. Columns ({dataRows.length} row{dataRows.length === 1 ? '' : 's'})
+                        </Text>
+                        {PRODUCT_CSV_COLUMNS.map((column) => (
+                            <View key={column.value} className="flex-row items-center mb-1">
+                                <Text className="w-28 text-sm" style={{ color: COLORS.dark }}>{column.label}</Text>
+                                <View className="flex-1 border border-gray-300 dark:border-gray-600 rounded-md h-11 justify-center">
+                                    <Picker
+                                        selectedValue={mapping[column.value] == null ? '' : String(mapping[column.value])}
+                                        onValueChange={(value) => {
+                                            clearPreview();
+                                            setMapping({ ...mapping, [column.value]: value === '' ? null : Number(value) });
+                                        }}
+                                        style={{ color: COLORS.dark }}
+                                        dropdownIconColor={COLORS.dark}
+                                    >
+                                        <Picker.Item label="Not in file" value="" />
+                                        {headers.map((headerName, index) => (
+                                            <Picker.Item key={index} label={headerName || `Column ${index + 1}`} value={String(index)} />
+                                        ))}
+                                    </Picker>
+                                </View>
+                            </View>
+                        ))}
+                        <Button className="mt-2 bg-[#a855f7] dark:bg-[#00b9f1]" onPress={handleCheckRows} disabled={isLoading}>
+                            <Text className="text-white font-semibold">Check Rows</Text>
+                        </Button>
+                    </CardContent>
+                </Card>
+            )}
+
+            {previewRows.length > 0 && (
+                <View className="mb-2">
+                    <Text className="text-base font-semibold" style={{ color: COLORS.dark }}>3. Preview</Text>
+                    <Text className="text-xs" style={{ color: COLORS.gray }}>
+                        {newCount} new · {updateCount} update{updateCount === 1 ? '' : 's'} · {errorCount} with errors
+                    </Text>
+                </View>
+            )}
+        </View>
+    );
+
+    return (
+        <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+            <FlatList
+                data={previewRows}
+                renderItem={renderRow}
+                keyExtractor={(item) => String(item.rowNumber)}
+                ListHeaderComponent={header}
+                ListFooterComponent={
+                    previewRows.length > 0 ? (
+                        <Button
+                            className="mt-2 mb-6 flex-row items-center bg-[#a855f7] dark:bg-[#00b9f1]"
+                            onPress={handleImport}
+                            disabled={isLoading || newCount + updateCount === 0}
+                        >
+                            <FileSpreadsheet size={16} color="#fff" />
+                            <Text className="ml-2 text-white font-semibold">Import {newCount + updateCount} Products</Text>
+                        </Button>
+                    ) : null
+                }
+                contentContainerStyle={{ padding: 16 }}
+                keyboardShouldPersistTaps="handled"
+                showsVerticalScrollIndicator={false}
+            />
+        </LinearGradient>
+    );
+}
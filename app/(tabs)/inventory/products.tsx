@@ -3,6 +3,12 @@ import { View, Text, Platform, Image, ScrollView, KeyboardAvoidingView, Touchabl
 import { Product, ProductInput } from '~/lib/models/product';
 import { useProductStore } from '~/lib/stores/productStore';
 import { useCategoryStore } from '~/lib/stores/categoryStore';
+import { useSupplierStore } from '~/lib/stores/supplierStore';
+import { Supplier } from '~/lib/stores/types';
+import { DEFAULT_REORDER_LEVEL } from '~/lib/constants';
+import { isLowStock } from '~/lib/utils/stockUtils';
+import { getCategoryDescendantIds, getCategoryPath, sortCategoriesAsTree } from '~/lib/utils/categoryUtils';
+import { allowsDecimalQuantity, formatQuantity, getQuantityStep, parseQuantity, sanitizeQuantityInput } from '~/lib/utils/quantityUtils';
 import GlobalToaster, { Toaster } from '~/components/toaster/Toaster'; 
 import {
   Card,
@@ -15,7 +21,8 @@ import * as ImagePicker from 'expo-image-picker';
 import { Picker } from '@react-native-picker/picker';
 import { Input } from '~/components/ui/input';
 import { Button as ShadcnButton } from '~/components/ui/button';
-import { Filter, Pencil, Trash2, X, ListFilter, ChevronDown, ChevronUp, Package } from 'lucide-react-native';
+import { Filter, Pencil, Trash2, X, ListFilter, ChevronDown, ChevronUp, Package, ArrowUpDown, Layers, FileSpreadsheet, History, Gift } from 'lucide-react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useRefresh } from '~/components/RefreshProvider';
 import throttle from 'lodash/throttle';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -46,6 +53,16 @@ interface FormState {
   quantity: string;
   unit: string;
   imageUri: string;
+  taxRate: string; // Blank uses the store tax rate
+  supplierId: string; // Blank means no usual supplier
+  reorderLevel: string; // Blank uses the default reorder level
+  reorderQuantity: string;
+  barcode: string;
+  alternateCode: string;
+  quantityStep: string; // Blank uses the unit's default step
+  parentId: string; // Set when the form is for a variant
+  variantName: string;
+  isBundle: boolean; // Set when editing a bundle; its cost comes from its components
 }
 
 // Reducer for form state
@@ -62,6 +79,16 @@ const initialFormState: FormState = {
   quantity: '',
   unit: 'piece',
   imageUri: '',
+  taxRate: '',
+  supplierId: '',
+  reorderLevel: '',
+  reorderQuantity: '',
+  barcode: '',
+  alternateCode: '',
+  quantityStep: '',
+  parentId: '',
+  variantName: '',
+  isBundle: false,
 };
 
 const formReducer = (state: FormState, action: FormAction): FormState => {
@@ -82,7 +109,7 @@ interface ControlledInputProps {
   value: string;
   onChangeText: (text: string) => void;
   placeholder?: string;
-  keyboardType?: 'default' | 'numeric';
+  keyboardType?: 'default' | 'numeric' | 'decimal-pad';
   editable?: boolean;
   className?: string;
 }
@@ -434,6 +461,38 @@ const ProductNameSection = React.memo(
 );
 ProductNameSection.displayName = 'ProductNameSection';
 
+// Variant section component, shown in place of category and name for variants
+interface VariantSectionProps {
+  parentName: string;
+  variantName: string;
+  dispatch: React.Dispatch<FormAction>;
+  isLoading: boolean;
+}
+
+const VariantSection = React.memo(
+  ({ parentName, variantName, dispatch, isLoading }: VariantSectionProps) => {
+    return (
+      <View>
+        <Text className="mb-2 text-base font-semibold text-gray-700 dark:text-gray-300">Variant of</Text>
+        <Text className="text-base text-gray-900 dark:text-gray-100 mb-4">{parentName}</Text>
+        <Text className="mb-2 text-base font-semibold text-gray-700 dark:text-gray-300">
+          Variant Name <Text className="text-red-500 dark:text-red-400">*</Text>
+        </Text>
+        <ControlledInput
+          value={variantName}
+          onChangeText={(text) => dispatch({ type: 'UPDATE_FIELD', field: 'variantName', value: text })}
+          placeholder="e.g. 500 g or Pack of 4"
+          editable={!isLoading}
+        />
+        {!variantName.trim() && (
+          <Text className="text-red-500 dark:text-red-400 text-sm mt-1">Variant name is required</Text>
+        )}
+      </View>
+    );
+  }
+);
+VariantSection.displayName = 'VariantSection';
+
 // Price section component
 interface PriceSectionProps {
   costPrice: string;
@@ -441,15 +500,16 @@ interface PriceSectionProps {
   dispatch: React.Dispatch<FormAction>;
   isLoading: boolean;
   profit: string;
+  isBundle: boolean;
 }
 
 const PriceSection = React.memo(
-  ({ costPrice, sellingPrice, dispatch, isLoading, profit }: PriceSectionProps) => {
+  ({ costPrice, sellingPrice, dispatch, isLoading, profit, isBundle }: PriceSectionProps) => {
     return (
       <View className="flex-row gap-x-4 mt-4">
         <View className="flex-1">
           <Text className="mb-2 text-base font-semibold text-gray-700 dark:text-gray-300">
-            Cost Price (₹) <Text className="text-red-500 dark:text-red-400">*</Text>
+            Cost Price (₹) {!isBundle && <Text className="text-red-500 dark:text-red-400">*</Text>}
           </Text>
           <View>
             <ControlledInput
@@ -457,12 +517,14 @@ const PriceSection = React.memo(
               onChangeText={(text) => dispatch({ type: 'UPDATE_FIELD', field: 'costPrice', value: text.replace(/[^0-9.]/g, '') })}
               placeholder="0.00"
               keyboardType="numeric"
-              editable={!isLoading}
+              editable={!isLoading && !isBundle}
             />
-            {!costPrice && (
+            {isBundle ? (
+              <Text className="text-gray-500 dark:text-gray-400 text-sm mt-1">Worked out from the bundle's components</Text>
+            ) : !costPrice && (
               <Text className="text-red-500 dark:text-red-400 text-sm mt-1">Cost price is required</Text>
             )}
-            {costPrice && (parseFloat(costPrice) <= 0 || !/^\d*\.?\d+(\.\d*)?$/.test(costPrice)) && (
+            {!isBundle && costPrice && (parseFloat(costPrice) <= 0 || !/^\d*\.?\d+(\.\d*)?$/.test(costPrice)) && (
               <Text className="text-red-500 dark:text-red-400 text-sm mt-1">
                 Enter a valid number greater than 0
               </Text>
@@ -500,57 +562,219 @@ const PriceSection = React.memo(
 );
 PriceSection.displayName = 'PriceSection';
 
+// Tax rate section component
+interface TaxRateSectionProps {
+  taxRate: string;
+  dispatch: React.Dispatch<FormAction>;
+  isLoading: boolean;
+}
+
+const TaxRateSection = React.memo(
+  ({ taxRate, dispatch, isLoading }: TaxRateSectionProps) => {
+    return (
+      <View className="mt-4">
+        <Text className="mb-2 text-base font-semibold text-gray-700 dark:text-gray-300">Tax Rate (%)</Text>
+        <ControlledInput
+          value={taxRate}
+          onChangeText={(text) => dispatch({ type: 'UPDATE_FIELD', field: 'taxRate', value: text.replace(/[^0-9.]/g, '') })}
+          placeholder="Store rate"
+          keyboardType="numeric"
+          editable={!isLoading}
+        />
+        {taxRate !== '' && (isNaN(parseFloat(taxRate)) || parseFloat(taxRate) > 100) ? (
+          <Text className="text-red-500 dark:text-red-400 text-sm mt-1">Enter a rate between 0 and 100</Text>
+        ) : (
+          <Text className="text-gray-500 dark:text-gray-400 text-xs mt-1">Leave blank to use the store tax rate</Text>
+        )}
+      </View>
+    );
+  }
+);
+TaxRateSection.displayName = 'TaxRateSection';
+
+// Barcode section component
+interface BarcodeSectionProps {
+  barcode: string;
+  alternateCode: string;
+  dispatch: React.Dispatch<FormAction>;
+  isLoading: boolean;
+}
+
+const BarcodeSection = React.memo(
+  ({ barcode, alternateCode, dispatch, isLoading }: BarcodeSectionProps) => {
+    return (
+      <View className="flex-row gap-x-4 mt-4">
+        <View className="flex-1">
+          <Text className="mb-2 text-base font-semibold text-gray-700 dark:text-gray-300">Barcode</Text>
+          <ControlledInput
+            value={barcode}
+            onChangeText={(text) => dispatch({ type: 'UPDATE_FIELD', field: 'barcode', value: text.trim() })}
+            placeholder="Scan or type"
+            editable={!isLoading}
+          />
+        </View>
+        <View className="flex-1">
+          <Text className="mb-2 text-base font-semibold text-gray-700 dark:text-gray-300">Alternate Code</Text>
+          <ControlledInput
+            value={alternateCode}
+            onChangeText={(text) => dispatch({ type: 'UPDATE_FIELD', field: 'alternateCode', value: text.trim() })}
+            placeholder="Optional"
+            editable={!isLoading}
+          />
+        </View>
+      </View>
+    );
+  }
+);
+BarcodeSection.displayName = 'BarcodeSection';
+
+// Reorder section component
+interface ReorderSectionProps {
+  reorderLevel: string;
+  reorderQuantity: string;
+  unit: string;
+  dispatch: React.Dispatch<FormAction>;
+  isLoading: boolean;
+}
+
+const ReorderSection = React.memo(
+  ({ reorderLevel, reorderQuantity, unit, dispatch, isLoading }: ReorderSectionProps) => {
+    return (
+      <View className="flex-row gap-x-4 mt-4">
+        <View className="flex-1">
+          <Text className="mb-2 text-base font-semibold text-gray-700 dark:text-gray-300">Reorder Level</Text>
+          <ControlledInput
+            value={reorderLevel}
+            onChangeText={(text) => dispatch({ type: 'UPDATE_FIELD', field: 'reorderLevel', value: text.replace(/[^0-9.]/g, '') })}
+            placeholder={String(DEFAULT_REORDER_LEVEL)}
+            keyboardType="numeric"
+            editable={!isLoading}
+          />
+          <Text className="text-gray-500 dark:text-gray-400 text-xs mt-1">Low stock at or below this many {unit}</Text>
+        </View>
+        <View className="flex-1">
+          <Text className="mb-2 text-base font-semibold text-gray-700 dark:text-gray-300">Reorder Qty</Text>
+          <ControlledInput
+            value={reorderQuantity}
+            onChangeText={(text) => dispatch({ type: 'UPDATE_FIELD', field: 'reorderQuantity', value: text.replace(/[^0-9.]/g, '') })}
+            placeholder="0"
+            keyboardType="numeric"
+            editable={!isLoading}
+          />
+          <Text className="text-gray-500 dark:text-gray-400 text-xs mt-1">Usual amount to order</Text>
+        </View>
+      </View>
+    );
+  }
+);
+ReorderSection.displayName = 'ReorderSection';
+
+// Supplier section component
+interface SupplierSectionProps {
+  supplierId: string;
+  suppliers: Supplier[];
+  dispatch: React.Dispatch<FormAction>;
+  isLoading: boolean;
+}
+
+const SupplierSection = React.memo(
+  ({ supplierId, suppliers, dispatch, isLoading }: SupplierSectionProps) => {
+    const textColor = isLoading ? '#a0a0a0' : (rnColorScheme() === 'dark' ? '#e5e7eb' : '#1a1a1a');
+    return (
+      <View className="mt-4">
+        <Text className="mb-2 text-base font-semibold text-gray-700 dark:text-gray-300">Supplier</Text>
+        <View className="border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 h-12 justify-center">
+          <Picker
+            selectedValue={supplierId}
+            onValueChange={(itemValue) => dispatch({ type: 'UPDATE_FIELD', field: 'supplierId', value: itemValue })}
+            style={{ color: textColor, fontSize: 16 }}
+            dropdownIconColor={Platform.OS === 'android' ? textColor : undefined}
+            enabled={!isLoading}
+          >
+            <Picker.Item label="No supplier" value="" />
+            {suppliers.map((s) => (
+              <Picker.Item key={s.id} label={s.name} value={s.id} />
+            ))}
+          </Picker>
+        </View>
+        {suppliers.length === 0 && (
+          <Text className="text-gray-500 dark:text-gray-400 text-xs mt-1">Add suppliers from the Inventory Hub to link them here</Text>
+        )}
+      </View>
+    );
+  }
+);
+SupplierSection.displayName = 'SupplierSection';
+
 // Quantity and unit section component
 interface QuantityUnitSectionProps {
   quantity: string;
   unit: string;
+  quantityStep: string;
   dispatch: React.Dispatch<FormAction>;
   isLoading: boolean;
+  quantityLocked: boolean; // Existing products change stock through adjustments
 }
 
 const QuantityUnitSection = React.memo(
-  ({ quantity, unit, dispatch, isLoading }: QuantityUnitSectionProps) => {
+  ({ quantity, unit, quantityStep, dispatch, isLoading, quantityLocked }: QuantityUnitSectionProps) => {
+    const isLoose = allowsDecimalQuantity(unit);
     return (
-      <View className="flex-row gap-x-4 mt-4">
-        <View className="flex-1">
-          <Text className="mb-2 text-base font-semibold text-gray-700 dark:text-gray-300">Quantity</Text>
-          <View>
+      <View className="mt-4">
+        <View className="flex-row gap-x-4">
+          <View className="flex-1">
+            <Text className="mb-2 text-base font-semibold text-gray-700 dark:text-gray-300">Quantity</Text>
+            <View>
+              <ControlledInput
+                value={quantity}
+                onChangeText={(text) => dispatch({ type: 'UPDATE_FIELD', field: 'quantity', value: sanitizeQuantityInput(text, unit) })}
+                placeholder="0"
+                keyboardType={isLoose ? 'decimal-pad' : 'numeric'}
+                editable={!isLoading && !quantityLocked}
+              />
+              {quantityLocked && (
+                <Text className="text-gray-500 dark:text-gray-400 text-xs mt-1">Use Adjust Stock to change</Text>
+              )}
+              {!quantityLocked && quantity !== '' && isNaN(parseQuantity(quantity, unit)) && (
+                <Text className="text-red-500 dark:text-red-400 text-sm mt-1">{isLoose ? 'Enter a valid quantity' : 'Enter a valid whole number'}</Text>
+              )}
+            </View>
+          </View>
+          <View className="flex-1">
+            <Text className="mb-2 text-base font-semibold text-gray-700 dark:text-gray-300">Unit</Text>
+            <View className="border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 h-12 justify-center">
+              <Picker
+                selectedValue={unit}
+                onValueChange={(itemValue) => dispatch({ type: 'UPDATE_FIELD', field: 'unit', value: itemValue })}
+                style={{ color: Platform.OS === 'ios' ? (isLoading ? '#a0a0a0' : (rnColorScheme() === 'dark' ? '#e5e7eb' : '#1a1a1a')) : (isLoading ? '#a0a0a0' : (rnColorScheme() === 'dark' ? '#e5e7eb' : '#1a1a1a')), fontSize: 16 }}
+                dropdownIconColor={Platform.OS === 'android' ? (isLoading ? '#a0a0a0' : (rnColorScheme() === 'dark' ? '#e5e7eb' : '#1a1a1a')) : undefined}
+                enabled={!isLoading}
+              >
+                <Picker.Item label="Piece" value="piece" />
+                <Picker.Item label="Kilogram (kg)" value="kg" />
+                <Picker.Item label="Gram (g)" value="g" />
+                <Picker.Item label="Liter (l)" value="l" />
+                <Picker.Item label="Milliliter (ml)" value="ml" />
+                <Picker.Item label="Dozen" value="dozen" />
+                <Picker.Item label="Box" value="box" />
+                <Picker.Item label="Packet" value="packet" />
+              </Picker>
+            </View>
+          </View>
+        </View>
+        {isLoose && (
+          <View className="mt-4">
+            <Text className="mb-2 text-base font-semibold text-gray-700 dark:text-gray-300">Sell in Steps of ({unit})</Text>
             <ControlledInput
-              value={quantity}
-              onChangeText={(text) => dispatch({ type: 'UPDATE_FIELD', field: 'quantity', value: text.replace(/[^0-9]/g, '') })}
-              placeholder="0"
-              keyboardType="numeric"
+              value={quantityStep}
+              onChangeText={(text) => dispatch({ type: 'UPDATE_FIELD', field: 'quantityStep', value: sanitizeQuantityInput(text, unit) })}
+              placeholder={String(getQuantityStep({ unit }))}
+              keyboardType="decimal-pad"
               editable={!isLoading}
             />
-            {quantity && !/^\d+$/.test(quantity) && (
-              <Text className="text-red-500 dark:text-red-400 text-sm mt-1">Enter a valid whole number</Text>
-            )}
-            {quantity && parseInt(quantity, 10) < 0 && (
-              <Text className="text-red-500 dark:text-red-400 text-sm mt-1">Must be 0 or greater</Text>
-            )}
+            <Text className="text-gray-500 dark:text-gray-400 text-xs mt-1">How much + and - add or remove at the counter</Text>
           </View>
-        </View>
-        <View className="flex-1">
-          <Text className="mb-2 text-base font-semibold text-gray-700 dark:text-gray-300">Unit</Text>
-          <View className="border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 h-12 justify-center">
-            <Picker
-              selectedValue={unit}
-              onValueChange={(itemValue) => dispatch({ type: 'UPDATE_FIELD', field: 'unit', value: itemValue })}
-              style={{ color: Platform.OS === 'ios' ? (isLoading ? '#a0a0a0' : (rnColorScheme() === 'dark' ? '#e5e7eb' : '#1a1a1a')) : (isLoading ? '#a0a0a0' : (rnColorScheme() === 'dark' ? '#e5e7eb' : '#1a1a1a')), fontSize: 16 }}
-              dropdownIconColor={Platform.OS === 'android' ? (isLoading ? '#a0a0a0' : (rnColorScheme() === 'dark' ? '#e5e7eb' : '#1a1a1a')) : undefined}
-              enabled={!isLoading}
-            >
-              <Picker.Item label="Piece" value="piece" />
-              <Picker.Item label="Kilogram (kg)" value="kg" />
-              <Picker.Item label="Gram (g)" value="g" />
-              <Picker.Item label="Liter (l)" value="l" />
-              <Picker.Item label="Milliliter (ml)" value="ml" />
-              <Picker.Item label="Dozen" value="dozen" />
-              <Picker.Item label="Box" value="box" />
-              <Picker.Item label="Packet" value="packet" />
-            </Picker>
-          </View>
-        </View>
+        )}
       </View>
     );
   }
@@ -616,6 +840,7 @@ interface ProductFormDialogContentProps {
   filteredCategoriesFromStore: string[];
   onSelectCategory: (category: string) => void;
   onAddNewCategory: () => void;
+  suppliers: Supplier[];
   isProductAccordionOpen: boolean;
   setIsProductAccordionOpen: React.Dispatch<React.SetStateAction<boolean>>;
   productSearch: string;
@@ -623,6 +848,7 @@ interface ProductFormDialogContentProps {
   filteredProductNames: string[];
   onSelectProduct: (productName: string) => void;
   onAddNewProduct: () => void;
+  parentName: string | null; // Name of the parent when the form is for a variant
 }
 
 const ProductFormDialogContent = React.memo(
@@ -649,6 +875,7 @@ const ProductFormDialogContent = React.memo(
     filteredCategoriesFromStore,
     onSelectCategory,
     onAddNewCategory,
+    suppliers,
     isProductAccordionOpen,
     setIsProductAccordionOpen,
     productSearch,
@@ -656,7 +883,9 @@ const ProductFormDialogContent = React.memo(
     filteredProductNames,
     onSelectProduct,
     onAddNewProduct,
+    parentName,
   }: ProductFormDialogContentProps) => {
+    const isVariant = !!formState.parentId;
     return (
       <FlatList
         data={[1]} // Using a single item array to make the content scrollable
@@ -666,13 +895,24 @@ const ProductFormDialogContent = React.memo(
             <DialogHeader className="p-6 pb-4 border-b border-gray-300 dark:border-gray-600">
               <DialogTitle>
                 <Text className="text-xl font-bold text-[#7200da] dark:text-[#00b9f1]">
-                  {formMode === 'edit' ? 'Edit Product' : 'Add New Product'}
+                  {isVariant
+                    ? (formMode === 'edit' ? 'Edit Variant' : 'Add Variant')
+                    : (formMode === 'edit' ? 'Edit Product' : 'Add New Product')}
                 </Text>
               </DialogTitle>
             </DialogHeader>
             {/* Increased zIndex for category dropdown, ensure product name is lower or equal when category is open */}
             <View className="space-y-4 p-4 w-[350px] mx-auto" style={{ zIndex: 0 /* Base zIndex */ }}>
               {formError && <Text className="text-red-500 dark:text-red-400 text-center mb-4">{formError}</Text>}
+              {isVariant ? (
+                <VariantSection
+                  parentName={parentName ?? ''}
+                  variantName={formState.variantName}
+                  dispatch={dispatch}
+                  isLoading={isLoading}
+                />
+              ) : (
+              <>
               <View style={{ zIndex: (isCategoryAccordionOpen && formMode === 'add') ? 20 : (isProductAccordionOpen ? 5 : 10) }}>
                 <CategorySection
                   category={formState.category}
@@ -711,6 +951,8 @@ const ProductFormDialogContent = React.memo(
                   setIsNewCategory={setIsNewCategory}
                 />
               </View>
+              </>
+              )}
               {/* Other sections with default zIndex (or lower) */}
               <View style={{ zIndex: 1 }}>
                 <PriceSection
@@ -719,10 +961,37 @@ const ProductFormDialogContent = React.memo(
                   dispatch={dispatch}
                   isLoading={isLoading}
                   profit={profit}
+                  isBundle={formState.isBundle}
+                />
+                <TaxRateSection
+                  taxRate={formState.taxRate}
+                  dispatch={dispatch}
+                  isLoading={isLoading}
                 />
                 <QuantityUnitSection
                   quantity={formState.quantity}
                   unit={formState.unit}
+                  quantityStep={formState.quantityStep}
+                  dispatch={dispatch}
+                  isLoading={isLoading}
+                  quantityLocked={formMode === 'edit'}
+                />
+                <BarcodeSection
+                  barcode={formState.barcode}
+                  alternateCode={formState.alternateCode}
+                  dispatch={dispatch}
+                  isLoading={isLoading}
+                />
+                <ReorderSection
+                  reorderLevel={formState.reorderLevel}
+                  reorderQuantity={formState.reorderQuantity}
+                  unit={formState.unit}
+                  dispatch={dispatch}
+                  isLoading={isLoading}
+                />
+                <SupplierSection
+                  supplierId={formState.supplierId}
+                  suppliers={suppliers}
                   dispatch={dispatch}
                   isLoading={isLoading}
                 />
@@ -751,7 +1020,7 @@ const ProductFormDialogContent = React.memo(
                 onPress={handleSubmit}
                 disabled={isLoading || !isFormValid}
               >
-                <Text className="text-white dark:text-white">{formMode === 'edit' ? 'Save Changes' : 'Add Product'}</Text>
+                <Text className="text-white dark:text-white">{formMode === 'edit' ? 'Save Changes' : (isVariant ? 'Add Variant' : 'Add Product')}</Text>
               </ShadcnButton>
             </DialogFooter>
           </View>
@@ -767,6 +1036,10 @@ const ProductFormDialogContent = React.memo(
 ProductFormDialogContent.displayName = 'ProductFormDialogContent';
 
 const ProductManagementScreen = () => {
+  const router = useRouter();
+  // Set when billing scans a code that no product has yet
+  // categoryId is set when a category is tapped on the home screen
+  const { barcode: scannedBarcode, categoryId: categoryIdParam } = useLocalSearchParams<{ barcode?: string; categoryId?: string }>();
   const {
     products: rawProducts,
     loading: storeLoading,
@@ -783,6 +1056,8 @@ const ProductManagementScreen = () => {
     addCategory: addStoreCategory,
   } = useCategoryStore();
 
+  const { suppliers, fetchSuppliers } = useSupplierStore();
+
   const currentRNColorScheme = rnColorScheme();
   const COLORS = getColors(currentRNColorScheme || 'light');
 
@@ -824,17 +1099,29 @@ const ProductManagementScreen = () => {
 
   const isLoading = storeLoading || uiIsLoading;
 
-  const categoriesForFilter = useMemo(() => {
-    const cats = Array.from(new Set(storeCategories.map((c) => c.name).filter(Boolean))).sort();
-    return ['All Categories', ...cats];
-  }, [storeCategories]);
+  // Subcategories follow their parent, indented
+  const categoriesForFilter = useMemo(
+    () => [
+      { id: '', label: 'All Categories' },
+      ...sortCategoriesAsTree(storeCategories).map(({ category, depth }) => ({
+        id: category.id,
+        label: `${'    '.repeat(depth)}${category.name}`,
+      })),
+    ],
+    [storeCategories]
+  );
+
+  const selectedCategoryFilterName = useMemo(
+    () => (selectedCategoryFilter ? getCategoryPath(storeCategories, selectedCategoryFilter) : null),
+    [storeCategories, selectedCategoryFilter]
+  );
 
   const categoriesForFormAccordion = useMemo(() => {
     return storeCategories.map(c => c.name).sort();
   }, [storeCategories]);
 
   const productNamesForSelection = useMemo(() => {
-    return Array.from(new Set(products.map((p) => p.name).filter(Boolean))).sort();
+    return Array.from(new Set(products.filter((p) => !p.parentId).map((p) => p.name).filter(Boolean))).sort();
   }, [products]);
 
   const filteredCategoriesForFormAccordion = useMemo(() => {
@@ -851,10 +1138,25 @@ const ProductManagementScreen = () => {
     );
   }, [productNamesForSelection, productSearch]);
 
+  const variantsByParent = useMemo(() => {
+    const map = new Map<string, Product[]>();
+    products.forEach((p) => {
+      if (p.parentId) map.set(p.parentId, [...(map.get(p.parentId) ?? []), p]);
+    });
+    return map;
+  }, [products]);
+
+  const parentName = useMemo(() => {
+    if (!formState.parentId) return null;
+    return products.find((p) => p.id === formState.parentId)?.name ?? null;
+  }, [products, formState.parentId]);
+
+  // A category shows the products in its subcategories as well
   const filteredProductsDisplay = useMemo(() => {
-    if (!selectedCategoryFilter || selectedCategoryFilter === 'All Categories') return products;
-    return products.filter((p) => p.category === selectedCategoryFilter);
-  }, [products, selectedCategoryFilter]);
+    if (!selectedCategoryFilter) return products;
+    const categoryIds = getCategoryDescendantIds(storeCategories, selectedCategoryFilter);
+    return products.filter((p) => !!p.categoryId && categoryIds.has(p.categoryId));
+  }, [products, storeCategories, selectedCategoryFilter]);
 
   const profit = useMemo(() => {
     const cost = parseFloat(formState.costPrice) || 0;
@@ -866,14 +1168,22 @@ const ProductManagementScreen = () => {
   const isFormValid = useMemo((): boolean => {
     const costPriceNum = parseFloat(formState.costPrice);
     const sellingPriceNum = parseFloat(formState.sellingPrice);
-    const quantityNum = parseInt(formState.quantity, 10);
+    const quantityNum = parseQuantity(formState.quantity, formState.unit);
 
-    const isNameValid = !!formState.name.trim();
-    const isCostPriceValid = !!formState.costPrice && !isNaN(costPriceNum) && costPriceNum > 0;
+    const isVariant = !!formState.parentId;
+    const isNameValid = isVariant ? !!formState.variantName.trim() : !!formState.name.trim();
+    // A bundle's cost is its components', and is 0 until they are set
+    const isCostPriceValid = formState.isBundle || (!!formState.costPrice && !isNaN(costPriceNum) && costPriceNum > 0);
     const isSellingPriceValid = !!formState.sellingPrice && !isNaN(sellingPriceNum) && sellingPriceNum > 0;
     const isQuantityValid = formState.quantity === '' || (!isNaN(quantityNum) && quantityNum >= 0);
     const isUnitValid = !!formState.unit;
-    const isCategoryValid = formMode === 'edit' ? !!formState.category.trim() : (isNewCategory ? !!formState.category.trim() : !!formState.category.trim());
+    const isStepValid = formState.quantityStep === '' || parseFloat(formState.quantityStep) > 0;
+    const taxRateNum = parseFloat(formState.taxRate);
+    const isTaxRateValid = formState.taxRate === '' || (!isNaN(taxRateNum) && taxRateNum >= 0 && taxRateNum <= 100);
+    const isReorderValid = [formState.reorderLevel, formState.reorderQuantity].every(
+      (value) => value === '' || (!isNaN(parseFloat(value)) && parseFloat(value) >= 0)
+    );
+    const isCategoryValid = isVariant || formMode === 'edit' ? !!formState.category.trim() : (isNewCategory ? !!formState.category.trim() : !!formState.category.trim());
 
     return (
       isNameValid &&
@@ -881,6 +1191,9 @@ const ProductManagementScreen = () => {
       isSellingPriceValid &&
       isQuantityValid &&
       isUnitValid &&
+      isStepValid &&
+      isTaxRateValid &&
+      isReorderValid &&
       isCategoryValid
     );
   }, [formState, isNewCategory, formMode]);
@@ -888,7 +1201,25 @@ const ProductManagementScreen = () => {
   useEffect(() => {
     fetchProducts();
     fetchStoreCategories();
-  }, [fetchProducts, fetchStoreCategories]);
+    fetchSuppliers();
+  }, [fetchProducts, fetchStoreCategories, fetchSuppliers]);
+
+  useEffect(() => {
+    if (!scannedBarcode) return;
+    resetDialogState();
+    setFormMode('add');
+    setIsNewCategory(true);
+    setIsNewProduct(true);
+    dispatch({ type: 'UPDATE_FIELD', field: 'barcode', value: scannedBarcode });
+    setDialogOpen(true);
+    router.setParams({ barcode: '' });
+  }, [scannedBarcode]);
+
+  useEffect(() => {
+    if (!categoryIdParam) return;
+    setSelectedCategoryFilter(categoryIdParam);
+    router.setParams({ categoryId: '' });
+  }, [categoryIdParam]);
 
   useEffect(() => {
     if (formError && formError !== storeError) {
@@ -936,8 +1267,9 @@ const ProductManagementScreen = () => {
   const handleProductSubmit = async () => {
     if (!isFormValid) {
       let errorMsg = 'Please fill in all required fields correctly.';
-      if (!formState.name.trim()) errorMsg = 'Product name is required.';
-      else if (!formState.costPrice || parseFloat(formState.costPrice) <= 0) errorMsg = 'Valid cost price is required.';
+      if (formState.parentId && !formState.variantName.trim()) errorMsg = 'Variant name is required.';
+      else if (!formState.parentId && !formState.name.trim()) errorMsg = 'Product name is required.';
+      else if (!formState.isBundle && (!formState.costPrice || parseFloat(formState.costPrice) <= 0)) errorMsg = 'Valid cost price is required.';
       else if (!formState.sellingPrice || parseFloat(formState.sellingPrice) <= 0) errorMsg = 'Valid selling price is required.';
       else if (formState.category.trim() === '') errorMsg = 'Category is required.';
       setFormError(errorMsg);
@@ -972,11 +1304,20 @@ const ProductManagementScreen = () => {
 
       const commonProductData = {
         name: formState.name.trim(),
-        costPrice: parseFloat(formState.costPrice),
+        costPrice: parseFloat(formState.costPrice) || 0,
         sellingPrice: parseFloat(formState.sellingPrice),
-        quantity: formState.quantity ? parseInt(formState.quantity, 10) : 0,
+        quantity: formState.quantity ? parseQuantity(formState.quantity, formState.unit) : 0,
         unit: formState.unit,
         imageUri: formState.imageUri || undefined,
+        taxRate: formState.taxRate === '' ? null : parseFloat(formState.taxRate),
+        supplierId: formState.supplierId || null,
+        reorderLevel: formState.reorderLevel === '' ? DEFAULT_REORDER_LEVEL : parseFloat(formState.reorderLevel),
+        reorderQuantity: parseFloat(formState.reorderQuantity) || 0,
+        barcode: formState.barcode || null,
+        alternateCode: formState.alternateCode || null,
+        quantityStep: allowsDecimalQuantity(formState.unit) && formState.quantityStep !== '' ? parseFloat(formState.quantityStep) : null,
+        parentId: formState.parentId || null,
+        variantName: formState.parentId ? formState.variantName.trim() : null,
         rating: 0,
         discount: 0,
         image: formState.imageUri || '',
@@ -988,8 +1329,8 @@ const ProductManagementScreen = () => {
           ...commonProductData,
           category: finalCategoryName || undefined,
         };
-        await addProduct(productData);
-        Toaster.success("Product Added", { description: `"${productData.name}" has been added successfully.` });
+        const added = await addProduct(productData);
+        Toaster.success(formState.parentId ? "Variant Added" : "Product Added", { description: `"${added.name}" has been added successfully.` });
       } else if (selectedProduct) {
         const productData: Partial<Omit<ProductInput, 'userId'>> = {
           ...commonProductData,
@@ -1024,6 +1365,16 @@ const ProductManagementScreen = () => {
         quantity: product.quantity.toString(),
         unit: product.unit || 'piece',
         imageUri: product.imageUri || '',
+        taxRate: product.taxRate != null ? product.taxRate.toString() : '',
+        supplierId: product.supplierId || '',
+        reorderLevel: product.reorderLevel != null ? product.reorderLevel.toString() : '',
+        reorderQuantity: product.reorderQuantity ? product.reorderQuantity.toString() : '',
+        barcode: product.barcode || '',
+        alternateCode: product.alternateCode || '',
+        quantityStep: product.quantityStep != null ? String(product.quantityStep) : '',
+        parentId: product.parentId || '',
+        variantName: product.variantName || '',
+        isBundle: !!product.isBundle,
       },
     });
     setFormMode('edit');
@@ -1035,6 +1386,31 @@ const ProductManagementScreen = () => {
     setDialogOpen(true);
   }, [dispatch]);
 
+  // Starts a variant from the parent's details; price, stock and codes are the variant's own
+  const handleAddVariantClick = useCallback((product: Product) => {
+    resetDialogState();
+    dispatch({
+      type: 'SET_FORM',
+      payload: {
+        ...initialFormState,
+        category: product.category || '',
+        name: product.name,
+        costPrice: product.costPrice.toString(),
+        sellingPrice: product.sellingPrice.toString(),
+        unit: product.unit || 'piece',
+        imageUri: product.imageUri || '',
+        taxRate: product.taxRate != null ? product.taxRate.toString() : '',
+        supplierId: product.supplierId || '',
+        reorderLevel: product.reorderLevel != null ? product.reorderLevel.toString() : '',
+        reorderQuantity: product.reorderQuantity ? product.reorderQuantity.toString() : '',
+        quantityStep: product.quantityStep != null ? String(product.quantityStep) : '',
+        parentId: product.id,
+      },
+    });
+    setFormMode('add');
+    setDialogOpen(true);
+  }, [dispatch, resetDialogState]);
+
   const handleDeleteClick = useCallback((product: Product) => {
     setSelectedProduct(product);
     setDeleteDialogOpen(true);
@@ -1109,6 +1485,16 @@ const ProductManagementScreen = () => {
           quantity: productDetails.quantity.toString(),
           unit: productDetails.unit || 'piece',
           imageUri: productDetails.imageUri || '',
+          taxRate: productDetails.taxRate != null ? productDetails.taxRate.toString() : '',
+          supplierId: productDetails.supplierId || '',
+          reorderLevel: productDetails.reorderLevel != null ? productDetails.reorderLevel.toString() : '',
+          reorderQuantity: productDetails.reorderQuantity ? productDetails.reorderQuantity.toString() : '',
+          barcode: productDetails.barcode || '',
+          alternateCode: productDetails.alternateCode || '',
+          quantityStep: productDetails.quantityStep != null ? String(productDetails.quantityStep) : '',
+          parentId: '',
+          variantName: '',
+          isBundle: false,
         },
       });
       setIsNewCategory(!!productDetails.category ? false : true);
@@ -1156,11 +1542,23 @@ const ProductManagementScreen = () => {
                 {item.category && (
                   <Text className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{item.category}</Text>
                 )}
+                {item.parentId ? (
+                  <Text className="text-xs mt-0.5" style={{ color: COLORS.secondary }}>Variant</Text>
+                ) : item.isBundle ? (
+                  <Text className="text-xs mt-0.5" style={{ color: COLORS.secondary }}>Bundle</Text>
+                ) : variantsByParent.has(item.id) && (
+                  <Text className="text-xs mt-0.5" style={{ color: COLORS.secondary }}>
+                    {variantsByParent.get(item.id)!.length} variant{variantsByParent.get(item.id)!.length === 1 ? '' : 's'}
+                  </Text>
+                )}
               </View>
             </View>
             <View className="items-end">
               <Text className="text-xs text-gray-500 dark:text-gray-400">Stock</Text>
-              <Text className="text-sm font-medium text-gray-900 dark:text-gray-100">{item.quantity} {item.unit}</Text>
+              <Text className="text-sm font-medium text-gray-900 dark:text-gray-100">{formatQuantity(item.quantity)} {item.unit}</Text>
+              {isLowStock(item) && (
+                <Text className="text-xs font-semibold" style={{ color: COLORS.accent }}>Low stock</Text>
+              )}
             </View>
           </View>
         </CardHeader>
@@ -1177,6 +1575,49 @@ const ProductManagementScreen = () => {
               </View>
             </View>
             <View className="flex-row gap-x-1">
+              {item.isBundle ? (
+                <ShadcnButton
+                  variant="ghost"
+                  size="icon"
+                  onPress={() => router.push({ pathname: '/(tabs)/inventory/bundles', params: { productId: item.id } })}
+                  disabled={isLoading}
+                  className="p-1.5"
+                >
+                  <Gift size={18} color={COLORS.secondary} />
+                </ShadcnButton>
+              ) : (
+                <>
+                  {!item.parentId && (
+                    <ShadcnButton
+                      variant="ghost"
+                      size="icon"
+                      onPress={() => handleAddVariantClick(item)}
+                      disabled={isLoading}
+                      className="p-1.5"
+                    >
+                      <Layers size={18} color={COLORS.secondary} />
+                    </ShadcnButton>
+                  )}
+                  <ShadcnButton
+                    variant="ghost"
+                    size="icon"
+                    onPress={() => router.push({ pathname: '/(tabs)/inventory/stock-adjustments', params: { productId: item.id } })}
+                    disabled={isLoading}
+                    className="p-1.5"
+                  >
+                    <ArrowUpDown size={18} color="#10B981" />
+                  </ShadcnButton>
+                </>
+              )}
+              <ShadcnButton
+                variant="ghost"
+                size="icon"
+                onPress={() => router.push({ pathname: '/(tabs)/inventory/price-changes', params: { productId: item.id } })}
+                disabled={isLoading}
+                className="p-1.5"
+              >
+                <History size={18} color="#7200da" />
+              </ShadcnButton>
               <ShadcnButton
                 variant="ghost"
                 size="icon"
@@ -1200,7 +1641,7 @@ const ProductManagementScreen = () => {
         </CardContent>
       </Card>
     ),
-    [handleEditClick, handleDeleteClick, isLoading, COLORS] 
+    [handleEditClick, handleDeleteClick, handleAddVariantClick, variantsByParent, isLoading, COLORS, router] 
   );
 
   return (
@@ -1212,6 +1653,15 @@ const ProductManagementScreen = () => {
         <View className="flex-row justify-between items-center mb-4">
           <Text className="text-2xl font-bold text-black dark:text-[#00b9f1]">Products</Text>
           <View className="flex-row items-center gap-x-2">
+            <ShadcnButton
+              variant="ghost"
+              size="icon"
+              onPress={() => router.push('/(tabs)/inventory/product-import')}
+              disabled={isLoading}
+              className="p-2"
+            >
+              <FileSpreadsheet size={24} color="#3B82F6" />
+            </ShadcnButton>
             <ShadcnButton
               variant="ghost"
               size="icon"
@@ -1247,7 +1697,7 @@ const ProductManagementScreen = () => {
 
         {selectedCategoryFilter && (
           <View className="mb-3 flex-row justify-start items-center bg-blue-100 dark:bg-blue-900/50 p-2 rounded-md">
-            <Text className="text-sm text-blue-700 dark:text-blue-300 mr-2">Filtered by: {selectedCategoryFilter}</Text>
+            <Text className="text-sm text-blue-700 dark:text-blue-300 mr-2">Filtered by: {selectedCategoryFilterName}</Text>
             <ShadcnButton
               variant="ghost"
               size="sm"
@@ -1284,7 +1734,7 @@ const ProductManagementScreen = () => {
                 <Text className="text-gray-400 dark:text-gray-500 mt-2">Try adding a new product!</Text>
               )}
               {!isLoading && rawProducts.length > 0 && selectedCategoryFilter && filteredProductsDisplay.length === 0 && (
-                <Text className="text-gray-400 dark:text-gray-500 mt-2">No products in category "{selectedCategoryFilter}".</Text>
+                <Text className="text-gray-400 dark:text-gray-500 mt-2">No products in category "{selectedCategoryFilterName}".</Text>
               )}
             </View>
           }
@@ -1304,7 +1754,7 @@ const ProductManagementScreen = () => {
                 disabled={isLoading}
               >
                 <Text className="text-base text-gray-900 dark:text-gray-100">
-                  {selectedCategoryFilter || 'All Categories'}
+                  {selectedCategoryFilterName || 'All Categories'}
                 </Text>
                 {isFilterAccordionOpen ? <ChevronUp size={20} color="#6b7280" /> : <ChevronDown size={20} color="#6b7280" />}
               </TouchableOpacity>
@@ -1312,16 +1762,16 @@ const ProductManagementScreen = () => {
                 <View className="mt-1 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 shadow-lg z-10">
                   <FlatList
                     data={categoriesForFilter}
-                    keyExtractor={(item) => item}
+                    keyExtractor={(item) => item.id || 'all'}
                     renderItem={({ item }) => (
                       <TouchableOpacity
                         onPress={() => {
-                          setSelectedCategoryFilter(item === 'All Categories' ? null : item);
+                          setSelectedCategoryFilter(item.id || null);
                           setIsFilterAccordionOpen(false);
                         }}
                         className="py-2.5 px-4 border-t border-gray-200 dark:border-gray-700"
                       >
-                        <Text className="text-base text-gray-900 dark:text-gray-100">{item}</Text>
+                        <Text className="text-base text-gray-900 dark:text-gray-100">{item.label}</Text>
                       </TouchableOpacity>
                     )}
                     ListEmptyComponent={<Text className="text-center py-3 text-gray-500 dark:text-gray-400">No categories found.</Text>}
@@ -1397,6 +1847,7 @@ const ProductManagementScreen = () => {
                 filteredCategoriesFromStore={filteredCategoriesForFormAccordion}
                 onSelectCategory={handleSelectCategoryFromAccordion}
                 onAddNewCategory={handleAddNewCategoryMode}
+                suppliers={suppliers}
                 isProductAccordionOpen={isProductAccordionOpen}
                 setIsProductAccordionOpen={setIsProductAccordionOpen}
                 productSearch={productSearch}
@@ -1404,6 +1855,7 @@ const ProductManagementScreen = () => {
                 filteredProductNames={filteredProductNamesForAccordion}
                 onSelectProduct={handleSelectProductFromAccordion}
                 onAddNewProduct={handleAddNewProductMode}
+                parentName={parentName}
               />
             </DialogContent>
           </KeyboardAvoidingView>
@@ -1419,6 +1871,7 @@ const ProductManagementScreen = () => {
             <View className="p-5">
               <Text className="text-gray-700 dark:text-gray-300 text-base">
                 Are you sure you want to delete the product "{selectedProduct?.name}"? This action will mark the product as inactive and cannot be directly undone through the app.
+                {selectedProduct && variantsByParent.has(selectedProduct.id) ? ' Its variants will be deleted too.' : ''}
               </Text>
             </View>
             <DialogFooter className="p-5 flex-row justify-end gap-x-3 border-t border-gray-200 dark:border-gray-700">
@@ -0,0 +1,169 @@
+// app/(tabs)/inventory/promises.tsx
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, FlatList, ScrollView, TouchableOpacity, RefreshControl, useColorScheme as rnColorScheme } from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Handshake, Trash2, Wallet } from 'lucide-react-native';
+import { format, isToday, parseISO } from 'date-fns';
+import { Text } from '~/components/ui/text';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent } from '~/components/ui/card';
+import { getColors } from '~/app/(tabs)/inventory/customers';
+import { Toaster } from '~/components/toaster/Toaster';
+import { useCommitmentStore } from '~/lib/stores/commitmentStore';
+import { PaymentCommitmentWithDetails } from '~/lib/stores/types';
+
+type PromiseFilter = 'DUE_TODAY' | 'UPCOMING' | 'KEPT' | 'PARTIALLY_KEPT' | 'BROKEN';
+
+const FILTERS: { value: PromiseFilter; label: string }[] = [
+    { value: 'DUE_TODAY', label: 'Due Today' },
+    { value: 'UPCOMING', label: 'Upcoming' },
+    { value: 'KEPT', label: 'Kept' },
+    { value: 'PARTIALLY_KEPT', label: 'Partially Kept' },
+    { value: 'BROKEN', label: 'Broken' },
+];
+
+const matchesFilter = (commitment: PaymentCommitmentWithDetails, filter: PromiseFilter): boolean => {
+    switch (filter) {
+        case 'DUE_TODAY':
+            return commitment.commitmentStatus === 'PENDING' && isToday(parseISO(commitment.promisedDate));
+        case 'UPCOMING':
+            return commitment.commitmentStatus === 'PENDING' && !isToday(parseISO(commitment.promisedDate));
+        default:
+            return commitment.commitmentStatus === filter;
+    }
+};
+
+export default function PromisesScreen() {
+    const router = useRouter();
+    const currentRNColorScheme = rnColorScheme();
+    const COLORS = getColors(currentRNColorScheme || 'light');
+    const { commitments, fetchCommitments, deleteCommitment, isLoading } = useCommitmentStore();
+    const [filter, setFilter] = useState<PromiseFilter>('DUE_TODAY');
+
+    useFocusEffect(
+        useCallback(() => {
+            fetchCommitments();
+        }, [fetchCommitments])
+    );
+
+    const counts = useMemo(() => {
+        return FILTERS.reduce<Record<PromiseFilter, number>>((acc, f) => {
+            acc[f.value] = commitments.filter((c) => matchesFilter(c, f.value)).length;
+            return acc;
+        }, {} as Record<PromiseFilter, number>);
+    }, [commitments]);
+
+    const visibleCommitments = useMemo(() => {
+        const list = commitments.filter((c) => matchesFilter(c, filter));
+        // Pending promises read best soonest first, closed ones most recent first
+        return filter === 'DUE_TODAY' || filter === 'UPCOMING' ? [...list].reverse() : list;
+    }, [commitments, filter]);
+
+    const statusColor = (commitment: PaymentCommitmentWithDetails) => {
+        switch (commitment.commitmentStatus) {
+            case 'KEPT':
+                return '#10B981';
+            case 'PARTIALLY_KEPT':
+                return COLORS.accent;
+            case 'BROKEN':
+                return COLORS.danger;
+            default:
+                return COLORS.secondary;
+        }
+    };
+
+    const handleDelete = async (commitment: PaymentCommitmentWithDetails) => {
+        try {
+            await deleteCommitment(commitment.id);
+            Toaster.success("Promise Removed", { description: `Promise from ${commitment.customerName} removed.` });
+        } catch (error: any) {
+            Toaster.error("Delete Failed", { description: error.message || 'Failed to delete the promise.' });
+        }
+    };
+
+    const renderCommitment = ({ item }: { item: PaymentCommitmentWithDetails }) => (
+        <Card className="mb-3 mx-1 bg-card border border-border">
+            <CardContent className="p-4">
+                <View className="flex-row justify-between items-start">
+                    <View className="flex-1 mr-2">
+                        <Text className="text-base font-semibold" style={{ color: COLORS.dark }}>{item.customerName}</Text>
+                        <Text className="text-xs" style={{ color: COLORS.gray }}>
+                            Promised for {format(parseISO(item.promisedDate), 'EEE, dd MMM yyyy')} · RCPT-{item.saleId.substring(0, 8).toUpperCase()}
+                        </Text>
+                        {item.notes ? (
+                            <Text className="text-xs mt-1" style={{ color: COLORS.dark }}>{item.notes}</Text>
+                        ) : null}
+                    </View>
+                    <View className="items-end">
+                        <Text className="text-base font-bold" style={{ color: COLORS.dark }}>₹{item.promisedAmount.toFixed(2)}</Text>
+                        <Text className="text-xs font-medium" style={{ color: statusColor(item) }}>
+                            Paid ₹{item.paidAmount.toFixed(2)}
+                        </Text>
+                    </View>
+                </View>
+                {item.commitmentStatus === 'PENDING' && (
+                    <View className="flex-row justify-end gap-x-2 mt-3">
+                        <Button size="sm" variant="ghost" onPress={() => handleDelete(item)} disabled={isLoading}>
+                            <Trash2 size={16} color={COLORS.danger} />
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            className="flex-row items-center"
+                            onPress={() => router.push({ pathname: '/(tabs)/inventory/repayment', params: { customerId: item.customerId } })}
+                        >
+                            <Wallet size={14} color={COLORS.primary} />
+                            <Text className="ml-1 text-xs">Collect</Text>
+                        </Button>
+                    </View>
+                )}
+            </CardContent>
+        </Card>
+    );
+
+    return (
+        <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+            <View className="flex-1 p-4 bg-transparent">
+                <View>
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+                        {FILTERS.map((f) => {
+                            const active = f.value === filter;
+                            return (
+                                <TouchableOpacity
+                                    key={f.value}
+                                    onPress={() => setFilter(f.value)}
+                                    className="px-3 py-1.5 mr-2 rounded-full border"
+                                    style={{
+                                        borderColor: active ? COLORS.primary : COLORS.border,
+                                        backgroundColor: active ? COLORS.lightPurple : COLORS.white,
+                                    }}
+                                >
+                                    <Text className="text-xs font-medium" style={{ color: active ? COLORS.primary : COLORS.gray }}>
+                                        {f.label} ({counts[f.value] || 0})
+                                    </Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </ScrollView>
+                </View>
+                <FlatList
+                    data={visibleCommitments}
+                    renderItem={renderCommitment}
+                    keyExtractor={(item) => item.id}
+                    showsVerticalScrollIndicator={false}
+                    refreshControl={<RefreshControl refreshing={isLoading} onRefresh={fetchCommitments} />}
+                    ListEmptyComponent={
+                        <View className="items-center py-10">
+                            <Handshake size={40} color={COLORS.gray} className="opacity-50" />
+                            <Text className="mt-3 text-muted-foreground">No promises here.</Text>
+                            <Text className="mt-1 text-xs text-muted-foreground text-center">
+                                Record a promise from a customer's Collect Payment screen.
+                            </Text>
+                        </View>
+                    }
+                />
+            </View>
+        </LinearGradient>
+    );
+}
@@ -0,0 +1,409 @@
+// app/(tabs)/inventory/purchase-order.tsx
+// New purchase order when opened without an id; otherwise the order's detail and goods receipt.
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, ScrollView, TouchableOpacity, Alert, useColorScheme as rnColorScheme } from 'react-native';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import DateTimePickerModal from 'react-native-modal-datetime-picker';
+import { CalendarDays, Search, Trash2 } from 'lucide-react-native';
+import { endOfDay, format, parseISO } from 'date-fns';
+import { Text } from '~/components/ui/text';
+import { Input } from '~/components/ui/input';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent } from '~/components/ui/card';
+import { getColors } from '~/app/(tabs)/inventory/customers';
+import { Toaster } from '~/components/toaster/Toaster';
+import { usePurchaseOrderStore } from '~/lib/stores/purchaseOrderStore';
+import { useSupplierStore } from '~/lib/stores/supplierStore';
+import { useProductStore } from '~/lib/stores/productStore';
+import { getSuggestedOrderQuantity, isLowStock } from '~/lib/utils/stockUtils';
+
+type Colors = ReturnType<typeof getColors>;
+
+interface DraftLine {
+    productId: string;
+    quantity: string;
+    unitCost: string;
+}
+
+interface ReceiptDraft {
+    quantity: string;
+    batchNumber: string;
+    expiryDate: Date | null;
+}
+
+const NewPurchaseOrderForm = ({ COLORS }: { COLORS: Colors }) => {
+    const router = useRouter();
+    const { suppliers, fetchSuppliers } = useSupplierStore();
+    const { products, fetchProducts } = useProductStore();
+    const { createOrder, isLoading } = usePurchaseOrderStore();
+
+    const [supplierId, setSupplierId] = useState<string | null>(null);
+    const [lines, setLines] = useState<DraftLine[]>([]);
+    const [productSearch, setProductSearch] = useState('');
+    const [expectedDate, setExpectedDate] = useState<Date | null>(null);
+    const [notes, setNotes] = useState('');
+    const [isDatePickerVisible, setIsDatePickerVisible] = useState(false);
+
+    useEffect(() => {
+        fetchSuppliers();
+        fetchProducts();
+    }, [fetchSuppliers, fetchProducts]);
+
+    // Products this supplier usually sends come first, low stock before the rest.
+    // Bundles are made up in the shop, so their components are ordered instead.
+    const productMatches = useMemo(() => {
+        const query = productSearch.trim().toLowerCase();
+        const picked = new Set(lines.map((l) => l.productId));
+        const rank = (p: (typeof products)[number]) =>
+            Number(p.supplierId === supplierId) * 2 + Number(isLowStock(p) || p.quantity <= 0);
+        return products
+            .filter((p) => !p.isBundle && !picked.has(p.id) && (!query || p.name.toLowerCase().includes(query)))
+            .sort((a, b) => rank(b) - rank(a))
+            .slice(0, 6);
+    }, [products, productSearch, lines, supplierId]);
+
+    const orderTotal = useMemo(
+        () => lines.reduce((sum, l) => sum + (parseFloat(l.quantity) || 0) * (parseFloat(l.unitCost) || 0), 0),
+        [lines]
+    );
+
+    const updateLine = (productId: string, changes: Partial<DraftLine>) => {
+        setLines((prev) => prev.map((l) => (l.productId === productId ? { ...l, ...changes } : l)));
+    };
+
+    const handleCreate = async () => {
+        if (!supplierId) {
+            Toaster.warning("Supplier Required", { description: 'Pick the supplier you are ordering from.' });
+            return;
+        }
+        const items = lines.map((l) => ({
+            productId: l.productId,
+            quantity: parseFloat(l.quantity) || 0,
+            unitCost: parseFloat(l.unitCost),
+        }));
+        if (items.some((i) => i.quantity <= 0 || isNaN(i.unitCost) || i.unitCost < 0)) {
+            Toaster.warning("Check Quantities", { description: 'Every product needs a quantity and an expected cost.' });
+            return;
+        }
+        try {
+            const order = await createOrder({
+                supplierId,
+                expectedDate: expectedDate ? endOfDay(expectedDate).toISOString() : null,
+                notes,
+                items,
+            });
+            Toaster.success("Purchase Order Created", { description: `${order.orderNumber} has been created.` });
+            router.replace({ pathname: '/(tabs)/inventory/purchase-order', params: { id: order.id } });
+        } catch (error: any) {
+            Toaster.error("Create Failed", { description: error.message || 'Failed to create purchase order.' });
+        }
+    };
+
+    return (
+        <ScrollView className="flex-1 p-4" keyboardShouldPersistTaps="handled">
+            <Text className="text-lg font-semibold mb-2" style={{ color: COLORS.dark }}>Supplier</Text>
+            {suppliers.length === 0 ? (
+                <Button variant="outline" className="mb-4" onPress={() => router.push('/(tabs)/inventory/suppliers')}>
+                    <Text>Add a supplier first</Text>
+                </Button>
+            ) : (
+                <View className="flex-row flex-wrap gap-2 mb-4">
+                    {suppliers.map((s) => {
+                        const active = s.id === supplierId;
+                        return (
+                            <TouchableOpacity
+                                key={s.id}
+                                onPress={() => setSupplierId(s.id)}
+                                className="px-3 py-1.5 rounded-full border"
+                                style={{
+                                    borderColor: active ? COLORS.primary : COLORS.border,
+                                    backgroundColor: active ? COLORS.lightPurple : COLORS.white,
+                                }}
+                            >
+                                <Text className="text-xs font-medium" style={{ color: active ? COLORS.primary : COLORS.gray }}>{s.name}</Text>
+                            </TouchableOpacity>
+                        );
+                    })}
+                </View>
+            )}
+
+            <Text className="text-lg font-semibold mb-2" style={{ color: COLORS.dark }}>Products</Text>
+            {lines.map((line) => {
+                const product = products.find((p) => p.id === line.productId);
+                return (
+                    <Card key={line.productId} className="mb-2 bg-card border border-border">
+                        <CardContent className="p-3">
+                            <View className="flex-row justify-between items-center mb-2">
+                                <Text className="font-semibold flex-1" style={{ color: COLORS.dark }}>{product?.name}</Text>
+                                <TouchableOpacity onPress={() => setLines((prev) => prev.filter((l) => l.productId !== line.productId))}>
+                                    <Trash2 size={18} color={COLORS.danger} />
+                                </TouchableOpacity>
+                            </View>
+                            <View className="flex-row gap-x-2">
+                                <View className="flex-1">
+                                    <Text className="text-xs mb-1" style={{ color: COLORS.gray }}>Quantity ({product?.unit})</Text>
+                                    <Input
+                                        value={line.quantity}
+                                        onChangeText={(text) => updateLine(line.productId, { quantity: text.replace(/[^0-9.]/g, '') })}
+                                        keyboardType="numeric"
+                                        className="h-10 border border-gray-300 dark:border-gray-600"
+                                    />
+                                </View>
+                                <View className="flex-1">
+                                    <Text className="text-xs mb-1" style={{ color: COLORS.gray }}>Expected cost (₹/unit)</Text>
+                                    <Input
+                                        value={line.unitCost}
+                                        onChangeText={(text) => updateLine(line.productId, { unitCost: text.replace(/[^0-9.]/g, '') })}
+                                        keyboardType="numeric"
+                                        className="h-10 border border-gray-300 dark:border-gray-600"
+                                    />
+                                </View>
+                            </View>
+                        </CardContent>
+                    </Card>
+                );
+            })}
+            <View className="flex-row items-center bg-muted rounded-lg px-3 mb-2">
+                <Search size={18} color={COLORS.gray} />
+                <Input
+                    placeholder="Add a product..."
+                    value={productSearch}
+                    onChangeText={setProductSearch}
+                    className="flex-1 h-11 border-0 bg-transparent ml-2"
+                />
+            </View>
+            {productMatches.map((p) => (
+                <TouchableOpacity
+                    key={p.id}
+                    className="py-2 px-3 border-b"
+                    style={{ borderColor: COLORS.border }}
+                    onPress={() => {
+                        setLines((prev) => [
+                            ...prev,
+                            { productId: p.id, quantity: getSuggestedOrderQuantity(p).toString(), unitCost: p.costPrice.toString() },
+                        ]);
+                        setProductSearch('');
+                    }}
+                >
+                    <Text style={{ color: COLORS.dark }}>{p.name}</Text>
+                    <Text className="text-xs" style={{ color: COLORS.gray }}>
+                        In stock: {p.quantity} {p.unit} · Cost ₹{p.costPrice.toFixed(2)}
+                    </Text>
+                </TouchableOpacity>
+            ))}
+
+            <View className="flex-row gap-x-2 mt-4 mb-2">
+                <Button variant="outline" className="flex-row items-center" onPress={() => setIsDatePickerVisible(true)}>
+                    <CalendarDays size={14} color={COLORS.primary} />
+                    <Text className="ml-1 text-xs">{expectedDate ? `Due ${format(expectedDate, 'dd MMM yyyy')}` : 'Expected date'}</Text>
+                </Button>
+            </View>
+            <Input
+                placeholder="Notes (optional)"
+                value={notes}
+                onChangeText={setNotes}
+                className="h-11 mb-3 border border-gray-300 dark:border-gray-600"
+            />
+            <View className="flex-row justify-between mb-3">
+                <Text className="font-semibold" style={{ color: COLORS.dark }}>Order Total</Text>
+                <Text className="font-bold" style={{ color: COLORS.primary }}>₹{orderTotal.toFixed(2)}</Text>
+            </View>
+            <Button
+                className='bg-[#a855f7] dark:bg-[#00b9f1] mb-10'
+                onPress={handleCreate}
+                disabled={isLoading || lines.length === 0}
+            >
+                <Text className="text-white">Create Purchase Order</Text>
+            </Button>
+
+            <DateTimePickerModal
+                isVisible={isDatePickerVisible}
+                mode="date"
+                date={expectedDate || new Date()}
+                minimumDate={new Date()}
+                onConfirm={(date) => {
+                    setExpectedDate(date);
+                    setIsDatePickerVisible(false);
+                }}
+                onCancel={() => setIsDatePickerVisible(false)}
+            />
+        </ScrollView>
+    );
+};
+
+const PurchaseOrderDetail = ({ id, COLORS }: { id: string; COLORS: Colors }) => {
+    const { orders, orderItems, fetchOrders, fetchOrderItems, receiveGoods, closeOrder, isLoading } = usePurchaseOrderStore();
+    const [receipts, setReceipts] = useState<Record<string, ReceiptDraft>>({});
+    const [datePickerItemId, setDatePickerItemId] = useState<string | null>(null);
+
+    useFocusEffect(
+        useCallback(() => {
+            fetchOrders();
+            fetchOrderItems(id);
+        }, [id, fetchOrders, fetchOrderItems])
+    );
+
+    const order = useMemo(() => orders.find((o) => o.id === id) || null, [orders, id]);
+    const canReceive = !!order && order.status !== 'CLOSED';
+
+    // Default each line to whatever is still due
+    useEffect(() => {
+        const drafts: Record<string, ReceiptDraft> = {};
+        orderItems.forEach((item) => {
+            const outstanding = item.quantityOrdered - item.quantityReceived;
+            drafts[item.id] = { quantity: outstanding > 0 ? outstanding.toString() : '', batchNumber: '', expiryDate: null };
+        });
+        setReceipts(drafts);
+    }, [orderItems]);
+
+    const updateReceipt = (itemId: string, changes: Partial<ReceiptDraft>) => {
+        setReceipts((prev) => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }));
+    };
+
+    const handleReceive = async () => {
+        if (!order) return;
+        const lines = orderItems
+            .map((item) => {
+                const draft = receipts[item.id];
+                return {
+                    itemId: item.id,
+                    quantity: parseFloat(draft?.quantity) || 0,
+                    batchNumber: draft?.batchNumber || null,
+                    expiryDate: draft?.expiryDate ? endOfDay(draft.expiryDate).toISOString() : null,
+                };
+            })
+            .filter((line) => line.quantity > 0);
+        try {
+            const status = await receiveGoods(order.id, lines);
+            Toaster.success("Goods Received", {
+                description: status === 'CLOSED' ? `${order.orderNumber} is fully received.` : `${order.orderNumber} is partially received.`,
+            });
+        } catch (error: any) {
+            Toaster.error("Receipt Failed", { description: error.message || 'Failed to receive goods.' });
+        }
+    };
+
+    const handleClose = () => {
+        if (!order) return;
+        Alert.alert(
+            'Close Order',
+            `Close ${order.orderNumber}? Anything not yet received will no longer be expected.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Close Order',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await closeOrder(order.id);
+                            Toaster.success("Order Closed", { description: `${order.orderNumber} has been closed.` });
+                        } catch (error: any) {
+                            Toaster.error("Close Failed", { description: error.message || 'Failed to close the order.' });
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    if (!order) {
+        return (
+            <View className="flex-1 items-center justify-center">
+                <Text className="text-muted-foreground">{isLoading ? 'Loading order...' : 'Purchase order not found.'}</Text>
+            </View>
+        );
+    }
+
+    return (
+        <ScrollView className="flex-1 p-4" keyboardShouldPersistTaps="handled">
+            <Card className="mb-4 bg-card border border-border">
+                <CardContent className="p-4">
+                    <Text className="text-lg font-semibold" style={{ color: COLORS.dark }}>{order.orderNumber} · {order.supplierName}</Text>
+                    <Text className="text-sm" style={{ color: COLORS.gray }}>
+                        Ordered {format(parseISO(order.orderDate), 'dd MMM yyyy')}
+                        {order.expectedDate ? ` · Due ${format(parseISO(order.expectedDate), 'dd MMM yyyy')}` : ''}
+                    </Text>
+                    {order.notes && <Text className="text-sm mt-1" style={{ color: COLORS.gray }}>{order.notes}</Text>}
+                    <View className="flex-row justify-between mt-3">
+                        <Text style={{ color: COLORS.dark }}>Ordered ₹{order.orderedValue.toFixed(2)}</Text>
+                        <Text style={{ color: COLORS.dark }}>Received ₹{order.receivedValue.toFixed(2)}</Text>
+                    </View>
+                </CardContent>
+            </Card>
+
+            {orderItems.map((item) => {
+                const outstanding = item.quantityOrdered - item.quantityReceived;
+                const draft = receipts[item.id];
+                return (
+                    <Card key={item.id} className="mb-2 bg-card border border-border">
+                        <CardContent className="p-3">
+                            <View className="flex-row justify-between">
+                                <Text className="font-semibold flex-1" style={{ color: COLORS.dark }}>{item.productName}</Text>
+                                <Text className="text-xs" style={{ color: COLORS.gray }}>₹{item.unitCost.toFixed(2)}/{item.unit}</Text>
+                            </View>
+                            <Text className="text-xs mb-2" style={{ color: outstanding > 0 ? COLORS.gray : COLORS.primary }}>
+                                Received {item.quantityReceived} of {item.quantityOrdered} {item.unit}
+                            </Text>
+                            {canReceive && outstanding > 0 && draft && (
+                                <View className="flex-row gap-x-2">
+                                    <Input
+                                        placeholder="Qty"
+                                        value={draft.quantity}
+                                        onChangeText={(text) => updateReceipt(item.id, { quantity: text.replace(/[^0-9.]/g, '') })}
+                                        keyboardType="numeric"
+                                        className="w-20 h-10 border border-gray-300 dark:border-gray-600"
+                                    />
+                                    <Input
+                                        placeholder="Batch no."
+                                        value={draft.batchNumber}
+                                        onChangeText={(text) => updateReceipt(item.id, { batchNumber: text })}
+                                        className="flex-1 h-10 border border-gray-300 dark:border-gray-600"
+                                    />
+                                    <Button variant="outline" size="sm" className="h-10 flex-row items-center" onPress={() => setDatePickerItemId(item.id)}>
+                                        <CalendarDays size={14} color={COLORS.primary} />
+                                        <Text className="ml-1 text-xs">{draft.expiryDate ? format(draft.expiryDate, 'dd MMM yy') : 'Expiry'}</Text>
+                                    </Button>
+                                </View>
+                            )}
+                        </CardContent>
+                    </Card>
+                );
+            })}
+
+            {canReceive && (
+                <View className="flex-row gap-x-2 mt-3 mb-10">
+                    <Button variant="outline" className="flex-1" onPress={handleClose} disabled={isLoading}>
+                        <Text style={{ color: COLORS.danger }}>Close Order</Text>
+                    </Button>
+                    <Button className='flex-1 bg-[#a855f7] dark:bg-[#00b9f1]' onPress={handleReceive} disabled={isLoading}>
+                        <Text className="text-white">Receive Goods</Text>
+                    </Button>
+                </View>
+            )}
+
+            <DateTimePickerModal
+                isVisible={datePickerItemId !== null}
+                mode="date"
+                date={(datePickerItemId && receipts[datePickerItemId]?.expiryDate) || new Date()}
+                onConfirm={(date) => {
+                    if (datePickerItemId) updateReceipt(datePickerItemId, { expiryDate: date });
+                    setDatePickerItemId(null);
+                }}
+                onCancel={() => setDatePickerItemId(null)}
+            />
+        </ScrollView>
+    );
+};
+
+export default function PurchaseOrderScreen() {
+    const { id } = useLocalSearchParams<{ id?: string }>();
+    const currentRNColorScheme = rnColorScheme();
+    const COLORS = getColors(currentRNColorScheme || 'light');
+
+    return (
+        <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+            {id ? <PurchaseOrderDetail id={id} COLORS={COLORS} /> : <NewPurchaseOrderForm COLORS={COLORS} />}
+        </LinearGradient>
+    );
+}
@@ -0,0 +1,125 @@
+// app/(tabs)/inventory/purchase-orders.tsx
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, FlatList, TouchableOpacity, RefreshControl, useColorScheme as rnColorScheme } from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ClipboardList, Plus } from 'lucide-react-native';
+import { format, parseISO } from 'date-fns';
+import { Text } from '~/components/ui/text';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent } from '~/components/ui/card';
+import { getColors } from '~/app/(tabs)/inventory/customers';
+import { usePurchaseOrderStore } from '~/lib/stores/purchaseOrderStore';
+import { PurchaseOrderStatus, PurchaseOrderWithTotals } from '~/lib/stores/types';
+
+const STATUS_FILTERS: { value: PurchaseOrderStatus; label: string }[] = [
+    { value: 'OPEN', label: 'Open' },
+    { value: 'PARTIAL', label: 'Partially Received' },
+    { value: 'CLOSED', label: 'Closed' },
+];
+
+export default function PurchaseOrdersScreen() {
+    const router = useRouter();
+    const currentRNColorScheme = rnColorScheme();
+    const COLORS = getColors(currentRNColorScheme || 'light');
+    const { orders, fetchOrders, isLoading } = usePurchaseOrderStore();
+    const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus>('OPEN');
+
+    useFocusEffect(
+        useCallback(() => {
+            fetchOrders();
+        }, [fetchOrders])
+    );
+
+    const statusColors: Record<PurchaseOrderStatus, string> = {
+        OPEN: COLORS.secondary,
+        PARTIAL: COLORS.accent,
+        CLOSED: COLORS.gray,
+    };
+
+    const counts = useMemo(() => {
+        const result: Record<PurchaseOrderStatus, number> = { OPEN: 0, PARTIAL: 0, CLOSED: 0 };
+        orders.forEach((o) => { result[o.status] += 1; });
+        return result;
+    }, [orders]);
+
+    const visibleOrders = useMemo(() => orders.filter((o) => o.status === statusFilter), [orders, statusFilter]);
+
+    const renderOrder = ({ item }: { item: PurchaseOrderWithTotals }) => (
+        <TouchableOpacity onPress={() => router.push({ pathname: '/(tabs)/inventory/purchase-order', params: { id: item.id } })}>
+            <Card className="mb-3 mx-1 bg-card border border-border">
+                <CardContent className="p-4">
+                    <View className="flex-row justify-between items-start">
+                        <View className="flex-1 mr-2">
+                            <Text className="text-base font-semibold" style={{ color: COLORS.dark }}>{item.orderNumber} · {item.supplierName}</Text>
+                            <Text className="text-xs" style={{ color: COLORS.gray }}>
+                                Ordered {format(parseISO(item.orderDate), 'dd MMM yyyy')}
+                                {item.expectedDate ? ` · Due ${format(parseISO(item.expectedDate), 'dd MMM yyyy')}` : ''}
+                            </Text>
+                            <Text className="text-xs mt-1" style={{ color: COLORS.gray }}>
+                                {item.itemCount} product{item.itemCount === 1 ? '' : 's'}
+                            </Text>
+                        </View>
+                        <View className="items-end">
+                            <Text className="text-base font-bold" style={{ color: COLORS.dark }}>₹{item.orderedValue.toFixed(2)}</Text>
+                            {item.status !== 'OPEN' && (
+                                <Text className="text-xs" style={{ color: COLORS.gray }}>Received ₹{item.receivedValue.toFixed(2)}</Text>
+                            )}
+                            <Text className="text-xs font-semibold mt-1" style={{ color: statusColors[item.status] }}>
+                                {STATUS_FILTERS.find((s) => s.value === item.status)?.label}
+                            </Text>
+                        </View>
+                    </View>
+                </CardContent>
+            </Card>
+        </TouchableOpacity>
+    );
+
+    return (
+        <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+            <View className="flex-1 p-4 bg-transparent">
+                <View className="flex-row justify-between items-center mb-3">
+                    <View className="flex-row flex-wrap gap-2 flex-1">
+                        {STATUS_FILTERS.map((s) => {
+                            const active = s.value === statusFilter;
+                            return (
+                                <TouchableOpacity
+                                    key={s.value}
+                                    onPress={() => setStatusFilter(s.value)}
+                                    className="px-3 py-1.5 rounded-full border"
+                                    style={{
+                                        borderColor: active ? COLORS.primary : COLORS.border,
+                                        backgroundColor: active ? COLORS.lightPurple : COLORS.white,
+                                    }}
+                                >
+                                    <Text className="text-xs font-medium" style={{ color: active ? COLORS.primary : COLORS.gray }}>
+                                        {s.label} ({counts[s.value]})
+                                    </Text>
+                                </TouchableOpacity>
+                            );
+                        })}
+                    </View>
+                    <Button size="icon" variant="ghost" onPress={() => router.push('/(tabs)/inventory/purchase-order')}>
+                        <Plus size={22} color={COLORS.primary} />
+                    </Button>
+                </View>
+                <FlatList
+                    data={visibleOrders}
+                    renderItem={renderOrder}
+                    keyExtractor={(item) => item.id}
+                    showsVerticalScrollIndicator={false}
+                    refreshControl={<RefreshControl refreshing={isLoading} onRefresh={fetchOrders} />}
+                    ListEmptyComponent={
+                        <View className="items-center py-10">
+                            <ClipboardList size={40} color={COLORS.gray} className="opacity-50" />
+                            <Text className="mt-3 text-muted-foreground">No {STATUS_FILTERS.find((s) => s.value === statusFilter)?.label.toLowerCase()} purchase orders.</Text>
+                            <Button variant="ghost" onPress={() => router.push('/(tabs)/inventory/purchase-order')}>
+                                <Text className="text-primary">New Purchase Order</Text>
+                            </Button>
+                        </View>
+                    }
+                />
+            </View>
+        </LinearGradient>
+    );
+}
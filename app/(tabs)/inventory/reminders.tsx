@@ -0,0 +1,207 @@
+// app/(tabs)/inventory/reminders.tsx
+import React, { useState, useCallback } from 'react';
+import { View, ScrollView, ActivityIndicator, RefreshControl, useColorScheme as rnColorScheme } from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { BellRing, MessageSquare, MessageCircle, CheckCircle2, Wallet } from 'lucide-react-native';
+import { format, parseISO } from 'date-fns';
+import { Text } from '~/components/ui/text';
+import { Input } from '~/components/ui/input';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent } from '~/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '~/components/ui/dialog';
+import { getColors } from '~/app/(tabs)/inventory/customers';
+import { Toaster } from '~/components/toaster/Toaster';
+import { useReminderStore } from '~/lib/stores/reminderStore';
+import { PaymentReminderWithDetails } from '~/lib/stores/types';
+import { buildReminderMessage, getReminderTitle, openReminderShare, ReminderChannel } from '~/lib/utils/reminderUtils';
+
+const SENT_VIA_LABELS: Record<string, string> = {
+    SMS: 'SMS',
+    WHATSAPP: 'WhatsApp',
+    IN_PERSON: 'In person',
+};
+
+export default function RemindersScreen() {
+    const router = useRouter();
+    const currentRNColorScheme = rnColorScheme();
+    const COLORS = getColors(currentRNColorScheme || 'light');
+    const {
+        pendingReminders,
+        sentReminders,
+        storeName,
+        refreshReminders,
+        markSent,
+        recordResponse,
+        isLoading,
+    } = useReminderStore();
+
+    const [responseReminder, setResponseReminder] = useState<PaymentReminderWithDetails | null>(null);
+    const [responseNotes, setResponseNotes] = useState('');
+
+    useFocusEffect(
+        useCallback(() => {
+            refreshReminders();
+        }, [refreshReminders])
+    );
+
+    const handleShare = async (reminder: PaymentReminderWithDetails, channel: ReminderChannel) => {
+        const opened = await openReminderShare(channel, reminder.customerPhone, buildReminderMessage(reminder, storeName));
+        if (!opened) {
+            Toaster.error("Could Not Open", { description: channel === 'WHATSAPP' ? 'WhatsApp is not available on this device.' : 'No messaging app is available.' });
+            return;
+        }
+        try {
+            await markSent(reminder.id, channel);
+        } catch (error: any) {
+            Toaster.error("Update Failed", { description: error.message || 'Failed to log the reminder.' });
+        }
+    };
+
+    const handleMarkInPerson = async (reminder: PaymentReminderWithDetails) => {
+        try {
+            await markSent(reminder.id, 'IN_PERSON');
+            Toaster.success("Reminder Logged", { description: `Reminder to ${reminder.customerName} marked as done.` });
+        } catch (error: any) {
+            Toaster.error("Update Failed", { description: error.message || 'Failed to log the reminder.' });
+        }
+    };
+
+    const handleSaveResponse = async () => {
+        if (!responseReminder) return;
+        try {
+            await recordResponse(responseReminder.id, responseNotes);
+            setResponseReminder(null);
+            setResponseNotes('');
+            Toaster.success("Response Saved");
+        } catch (error: any) {
+            Toaster.error("Update Failed", { description: error.message || 'Failed to save the response.' });
+        }
+    };
+
+    const renderPending = (reminder: PaymentReminderWithDetails) => (
+        <Card key={reminder.id} className="mb-3 bg-card border border-border">
+            <CardContent className="p-4">
+                <View className="flex-row justify-between items-start">
+                    <View className="flex-1 mr-2">
+                        <Text className="text-xs font-semibold" style={{ color: reminder.reminderType === 'OVERDUE' ? COLORS.danger : COLORS.secondary }}>
+                            {getReminderTitle(reminder)}
+                        </Text>
+                        <Text className="text-base font-semibold" style={{ color: COLORS.dark }}>{reminder.customerName}</Text>
+                        <Text className="text-xs" style={{ color: COLORS.gray }}>
+                            {reminder.customerPhone} · Due {format(parseISO(reminder.dueDate), 'dd MMM yyyy')}
+                        </Text>
+                    </View>
+                    <Text className="text-base font-bold" style={{ color: COLORS.dark }}>₹{reminder.balance.toFixed(2)}</Text>
+                </View>
+                <View className="flex-row flex-wrap gap-2 mt-3">
+                    <Button size="sm" variant="outline" className="flex-row items-center" onPress={() => handleShare(reminder, 'SMS')} disabled={isLoading}>
+                        <MessageSquare size={14} color={COLORS.primary} />
+                        <Text className="ml-1 text-xs">SMS</Text>
+                    </Button>
+                    <Button size="sm" variant="outline" className="flex-row items-center" onPress={() => handleShare(reminder, 'WHATSAPP')} disabled={isLoading}>
+                        <MessageCircle size={14} color="#10B981" />
+                        <Text className="ml-1 text-xs">WhatsApp</Text>
+                    </Button>
+                    <Button size="sm" variant="ghost" className="flex-row items-center" onPress={() => handleMarkInPerson(reminder)} disabled={isLoading}>
+                        <CheckCircle2 size={14} color={COLORS.gray} />
+                        <Text className="ml-1 text-xs">Told in person</Text>
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="ghost"
+                        className="flex-row items-center"
+                        onPress={() => router.push({ pathname: '/(tabs)/inventory/repayment', params: { customerId: reminder.customerId } })}
+                    >
+                        <Wallet size={14} color={COLORS.primary} />
+                        <Text className="ml-1 text-xs">Collect</Text>
+                    </Button>
+                </View>
+            </CardContent>
+        </Card>
+    );
+
+    const renderSent = (reminder: PaymentReminderWithDetails) => (
+        <Card key={reminder.id} className="mb-2 bg-card border border-border">
+            <CardContent className="p-3">
+                <View className="flex-row justify-between items-start">
+                    <View className="flex-1 mr-2">
+                        <Text className="text-sm font-semibold" style={{ color: COLORS.dark }}>{reminder.customerName}</Text>
+                        <Text className="text-xs" style={{ color: COLORS.gray }}>
+                            {getReminderTitle(reminder)} · {SENT_VIA_LABELS[reminder.sentVia || ''] || reminder.sentVia}
+                            {reminder.sentAt ? ` · ${format(parseISO(reminder.sentAt), 'dd MMM, hh:mm a')}` : ''}
+                        </Text>
+                        {reminder.responseNotes ? (
+                            <Text className="text-xs mt-1" style={{ color: COLORS.dark }}>Response: {reminder.responseNotes}</Text>
+                        ) : null}
+                    </View>
+                    <Button
+                        size="sm"
+                        variant="ghost"
+                        onPress={() => {
+                            setResponseReminder(reminder);
+                            setResponseNotes(reminder.responseNotes || '');
+                        }}
+                    >
+                        <Text className="text-xs text-primary">{reminder.responseReceived ? 'Edit Response' : 'Add Response'}</Text>
+                    </Button>
+                </View>
+            </CardContent>
+        </Card>
+    );
+
+    return (
+        <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+            <ScrollView
+                className="flex-1 bg-transparent"
+                contentContainerStyle={{ padding: 16 }}
+                refreshControl={<RefreshControl refreshing={isLoading} onRefresh={refreshReminders} />}
+            >
+                <Text className="text-lg font-semibold mb-3" style={{ color: COLORS.dark }}>Due Now</Text>
+                {isLoading && pendingReminders.length === 0 ? (
+                    <ActivityIndicator size="large" color={COLORS.primary} className="my-6" />
+                ) : pendingReminders.length === 0 ? (
+                    <View className="items-center py-8">
+                        <BellRing size={40} color={COLORS.gray} className="opacity-50" />
+                        <Text className="mt-3 text-muted-foreground">No reminders due. All caught up!</Text>
+                    </View>
+                ) : (
+                    pendingReminders.map(renderPending)
+                )}
+
+                {sentReminders.length > 0 && (
+                    <>
+                        <Text className="text-lg font-semibold mt-4 mb-3" style={{ color: COLORS.dark }}>Sent</Text>
+                        {sentReminders.map(renderSent)}
+                    </>
+                )}
+            </ScrollView>
+
+            <Dialog open={!!responseReminder} onOpenChange={(open) => { if (!open) setResponseReminder(null); }}>
+                <DialogContent className="p-0 bg-background rounded-lg shadow-lg max-w-md w-96 mx-auto">
+                    <DialogHeader className="p-4 border-b border-border">
+                        <DialogTitle className="text-xl font-bold text-foreground">Customer Response</DialogTitle>
+                        <Text className="text-sm text-muted-foreground">{responseReminder?.customerName}</Text>
+                    </DialogHeader>
+                    <View className="p-4">
+                        <Input
+                            placeholder="e.g. Will pay on Friday"
+                            value={responseNotes}
+                            onChangeText={setResponseNotes}
+                            multiline
+                            className="min-h-20 border border-gray-300 dark:border-gray-600"
+                        />
+                    </View>
+                    <DialogFooter className="p-4 flex-row justify-end gap-x-2 border-t border-border">
+                        <Button variant="outline" onPress={() => setResponseReminder(null)}>
+                            <Text>Cancel</Text>
+                        </Button>
+                        <Button className='bg-[#a855f7] dark:bg-[#00b9f1]' onPress={handleSaveResponse} disabled={isLoading}>
+                            <Text className="text-white">Save</Text>
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </LinearGradient>
+    );
+}
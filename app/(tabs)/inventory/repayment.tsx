@@ -0,0 +1,344 @@
+// app/(tabs)/inventory/repayment.tsx
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, FlatList, ActivityIndicator, Platform, useColorScheme as rnColorScheme } from 'react-native';
+import { useRouter, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Picker } from '@react-native-picker/picker';
+import { Wallet, ReceiptText, Handshake, CalendarDays } from 'lucide-react-native';
+import { addDays, format, parseISO } from 'date-fns';
+import DateTimePickerModal from 'react-native-modal-datetime-picker';
+import { Text } from '~/components/ui/text';
+import { Input } from '~/components/ui/input';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent } from '~/components/ui/card';
+import { Separator } from '~/components/ui/separator';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '~/components/ui/dialog';
+import { getColors } from '~/app/(tabs)/inventory/customers';
+import { Toaster } from '~/components/toaster/Toaster';
+import { useAuthStore } from '~/lib/stores/authStore';
+import { useCreditStore } from '~/lib/stores/creditStore';
+import { useCustomerStore } from '~/lib/stores/customerStore';
+import { useCommitmentStore } from '~/lib/stores/commitmentStore';
+import { OpenCreditSale } from '~/lib/stores/types';
+import { PAYMENT_METHODS } from '~/lib/constants';
+
+// Khata cannot be repaid with more khata
+const REPAYMENT_METHODS = PAYMENT_METHODS.filter((method) => method.value !== 'CREDIT_KHATA');
+
+export default function RepaymentScreen() {
+    const router = useRouter();
+    const { customerId } = useLocalSearchParams<{ customerId?: string }>();
+    const currentRNColorScheme = rnColorScheme();
+    const COLORS = getColors(currentRNColorScheme || 'light');
+    const userName = useAuthStore((state) => state.userName);
+    const customer = useCustomerStore((state) => state.customers.find((c) => c.id === customerId));
+    const { openCreditSales, fetchOpenCreditSales, recordRepayment, isLoading } = useCreditStore();
+
+    const [amount, setAmount] = useState('');
+    const [paymentMethod, setPaymentMethod] = useState(REPAYMENT_METHODS[0].value);
+    const [reference, setReference] = useState('');
+    const [receivedBy, setReceivedBy] = useState(userName || '');
+    const [notes, setNotes] = useState('');
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const addCommitment = useCommitmentStore((state) => state.addCommitment);
+    const [promiseSale, setPromiseSale] = useState<OpenCreditSale | null>(null);
+    const [promiseAmount, setPromiseAmount] = useState('');
+    const [promiseDate, setPromiseDate] = useState<Date>(addDays(new Date(), 1));
+    const [promiseNotes, setPromiseNotes] = useState('');
+    const [isDatePickerVisible, setIsDatePickerVisible] = useState(false);
+
+    useFocusEffect(
+        useCallback(() => {
+            if (customerId) {
+                fetchOpenCreditSales(customerId);
+            }
+        }, [customerId, fetchOpenCreditSales])
+    );
+
+    const totalDue = useMemo(
+        () => openCreditSales.reduce((sum, sale) => sum + sale.balance, 0),
+        [openCreditSales]
+    );
+
+    // Mirrors the oldest-first allocation done in recordCreditRepayment
+    const allocations = useMemo(() => {
+        let remaining = parseFloat(amount) || 0;
+        return openCreditSales.reduce<Record<string, number>>((acc, sale) => {
+            const applied = Math.min(Math.max(remaining, 0), sale.balance);
+            acc[sale.id] = applied;
+            remaining -= applied;
+            return acc;
+        }, {});
+    }, [amount, openCreditSales]);
+
+    const handleRecordPayment = async () => {
+        if (!customerId) return;
+        const value = parseFloat(amount);
+        if (isNaN(value) || value <= 0) {
+            Toaster.warning("Invalid Amount", { description: "Enter an amount greater than zero." });
+            return;
+        }
+        if (value > totalDue + 0.005) {
+            Toaster.warning("Amount Too High", { description: `Outstanding khata is only ₹${totalDue.toFixed(2)}.` });
+            return;
+        }
+        setIsProcessing(true);
+        try {
+            await recordRepayment({
+                customerId,
+                amount: value,
+                paymentMethod,
+                transactionReference: reference.trim() || null,
+                receivedBy: receivedBy.trim() || null,
+                notes: notes.trim() || null,
+            });
+            Toaster.success("Payment Recorded", { description: `₹${value.toFixed(2)} received from ${customer?.name || 'customer'}.` });
+            setAmount('');
+            setReference('');
+            setNotes('');
+            if (value >= totalDue - 0.005) {
+                router.back();
+            }
+        } catch (error: any) {
+            Toaster.error("Payment Failed", { description: error.message || "Failed to record payment." });
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const openPromiseDialog = (sale: OpenCreditSale) => {
+        setPromiseSale(sale);
+        setPromiseAmount(sale.balance.toFixed(2));
+        setPromiseDate(addDays(new Date(), 1));
+        setPromiseNotes('');
+    };
+
+    const handleSavePromise = async () => {
+        if (!promiseSale) return;
+        const value = parseFloat(promiseAmount);
+        if (isNaN(value) || value <= 0) {
+            Toaster.warning("Invalid Amount", { description: "Enter the amount the customer promised to pay." });
+            return;
+        }
+        try {
+            await addCommitment({
+                creditSaleId: promiseSale.id,
+                promisedAmount: value,
+                promisedDate: format(promiseDate, 'yyyy-MM-dd'),
+                notes: promiseNotes.trim() || null,
+            });
+            Toaster.success("Promise Recorded", { description: `₹${value.toFixed(2)} promised for ${format(promiseDate, 'EEE, dd MMM')}.` });
+            setPromiseSale(null);
+        } catch (error: any) {
+            Toaster.error("Promise Failed", { description: error.message || "Failed to record the promise." });
+        }
+    };
+
+    const renderCreditSale = ({ item }: { item: OpenCreditSale }) => {
+        const applied = allocations[item.id] || 0;
+        const overdue = new Date(item.dueDate) < new Date();
+        return (
+            <Card className="mb-3 mx-1 bg-card border border-border">
+                <CardContent className="p-4">
+                    <View className="flex-row justify-between items-start">
+                        <View className="flex-row items-center flex-1 mr-2">
+                            <View className="w-10 h-10 rounded-lg mr-3 items-center justify-center">
+                                <ReceiptText size={22} color={COLORS.primary} />
+                            </View>
+                            <View className="flex-1">
+                                <Text className="text-base font-semibold" style={{ color: COLORS.dark }}>
+                                    RCPT-{item.saleId.substring(0, 8).toUpperCase()}
+                                </Text>
+                                <Text className="text-xs" style={{ color: COLORS.gray }}>
+                                    {format(parseISO(item.saleTimestamp), 'dd MMM yyyy')} · Due {format(parseISO(item.dueDate), 'dd MMM yyyy')}
+                                </Text>
+                                {overdue && (
+                                    <Text className="text-xs font-medium" style={{ color: COLORS.danger }}>Overdue</Text>
+                                )}
+                            </View>
+                        </View>
+                        <View className="items-end">
+                            <Text className="text-sm font-bold" style={{ color: COLORS.dark }}>₹{item.balance.toFixed(2)}</Text>
+                            {item.paidAmount > 0 && (
+                                <Text className="text-xs" style={{ color: COLORS.gray }}>of ₹{item.creditAmount.toFixed(2)}</Text>
+                            )}
+                        </View>
+                    </View>
+                    <View className="flex-row justify-between items-center mt-2">
+                        <Button size="sm" variant="ghost" className="flex-row items-center px-0" onPress={() => openPromiseDialog(item)}>
+                            <Handshake size={14} color={COLORS.primary} />
+                            <Text className="ml-1 text-xs" style={{ color: COLORS.primary }}>Record Promise</Text>
+                        </Button>
+                        {applied > 0 && (
+                            <Text className="text-xs" style={{ color: COLORS.secondary }}>
+                                {applied >= item.balance - 0.005 ? 'Settles this bill' : `Applies ₹${applied.toFixed(2)}`}
+                            </Text>
+                        )}
+                    </View>
+                </CardContent>
+            </Card>
+        );
+    };
+
+    if (isLoading && openCreditSales.length === 0) {
+        return (
+            <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+                <View className="flex-1 justify-center items-center bg-transparent">
+                    <ActivityIndicator size="large" color={COLORS.primary} />
+                    <Text className="mt-2 text-muted-foreground native:text-gray-500">Loading Khata...</Text>
+                </View>
+            </LinearGradient>
+        );
+    }
+
+    if (!customerId || openCreditSales.length === 0) {
+        return (
+            <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+                <View className="flex-1 justify-center items-center bg-transparent p-4">
+                    <Wallet size={48} color={COLORS.gray} className="opacity-50" />
+                    <Text className="mt-4 text-lg text-muted-foreground native:text-gray-500">No outstanding khata</Text>
+                    <Button variant="ghost" onPress={() => router.back()}>
+                        <Text className="text-primary">Back to Customers</Text>
+                    </Button>
+                </View>
+            </LinearGradient>
+        );
+    }
+
+    return (
+        <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+            <View className="flex-1 p-4 bg-transparent">
+                <View className="flex-row justify-between items-center mb-3">
+                    <Text className="text-base font-semibold" style={{ color: COLORS.dark }}>
+                        {customer?.name || 'Customer'}
+                    </Text>
+                    <Text className="text-base font-bold" style={{ color: COLORS.danger }}>Due ₹{totalDue.toFixed(2)}</Text>
+                </View>
+                <FlatList
+                    data={openCreditSales}
+                    renderItem={renderCreditSale}
+                    keyExtractor={(item) => item.id}
+                    showsVerticalScrollIndicator={false}
+                    contentContainerStyle={{ paddingBottom: 12 }}
+                    keyboardShouldPersistTaps="handled"
+                />
+                <Separator className="my-2" style={{ backgroundColor: COLORS.gray }} />
+                <View className="flex-row gap-x-2 mb-3">
+                    <Input
+                        placeholder="Amount (₹)"
+                        keyboardType="numeric"
+                        value={amount}
+                        onChangeText={(text) => setAmount(text.replace(/[^0-9.]/g, ''))}
+                        className="flex-1 h-11 border border-gray-300 dark:border-gray-600"
+                        style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                        placeholderTextColor={COLORS.gray}
+                    />
+                    <Button variant="outline" className="h-11" onPress={() => setAmount(totalDue.toFixed(2))}>
+                        <Text>Full</Text>
+                    </Button>
+                </View>
+                <View className="rounded-md border mb-3" style={{ borderColor: COLORS.border, backgroundColor: COLORS.white }}>
+                    <Picker
+                        selectedValue={paymentMethod}
+                        onValueChange={(itemValue) => setPaymentMethod(itemValue)}
+                        style={{ height: Platform.OS === 'ios' ? 120 : 55, color: COLORS.dark, width: '100%' }}
+                        itemStyle={{ color: COLORS.dark, fontSize: 14 }}
+                    >
+                        {REPAYMENT_METHODS.map((method) => (
+                            <Picker.Item key={method.value} label={method.label} value={method.value} />
+                        ))}
+                    </Picker>
+                </View>
+                {paymentMethod !== 'CASH' && (
+                    <Input
+                        placeholder="Transaction reference (optional)"
+                        value={reference}
+                        onChangeText={setReference}
+                        className="h-11 mb-3 border border-gray-300 dark:border-gray-600"
+                        style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                        placeholderTextColor={COLORS.gray}
+                    />
+                )}
+                <Input
+                    placeholder="Received by"
+                    value={receivedBy}
+                    onChangeText={setReceivedBy}
+                    className="h-11 mb-3 border border-gray-300 dark:border-gray-600"
+                    style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                    placeholderTextColor={COLORS.gray}
+                />
+                <Input
+                    placeholder="Notes (optional)"
+                    value={notes}
+                    onChangeText={setNotes}
+                    className="h-11 mb-3 border border-gray-300 dark:border-gray-600"
+                    style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                    placeholderTextColor={COLORS.gray}
+                />
+                <Button
+                    className="h-12"
+                    style={{ backgroundColor: COLORS.primary }}
+                    onPress={handleRecordPayment}
+                    disabled={isProcessing || !(parseFloat(amount) > 0)}
+                >
+                    {isProcessing ? (
+                        <ActivityIndicator size="small" color={COLORS.white} />
+                    ) : (
+                        <Text className="font-semibold" style={{ color: COLORS.white }}>Record Payment</Text>
+                    )}
+                </Button>
+            </View>
+
+            <Dialog open={!!promiseSale} onOpenChange={(open) => { if (!open) setPromiseSale(null); }}>
+                <DialogContent className="p-0 bg-background rounded-lg shadow-lg max-w-md w-96 mx-auto">
+                    <DialogHeader className="p-4 border-b border-border">
+                        <DialogTitle className="text-xl font-bold text-foreground">Payment Promise</DialogTitle>
+                        <Text className="text-sm text-muted-foreground">
+                            {customer?.name} · RCPT-{promiseSale?.saleId.substring(0, 8).toUpperCase()}
+                        </Text>
+                    </DialogHeader>
+                    <View className="p-4">
+                        <Text className="mb-1 text-sm font-medium text-muted-foreground">Promised Amount (₹)</Text>
+                        <Input
+                            keyboardType="numeric"
+                            value={promiseAmount}
+                            onChangeText={(text) => setPromiseAmount(text.replace(/[^0-9.]/g, ''))}
+                            className="h-11 mb-3 border border-gray-300 dark:border-gray-600"
+                        />
+                        <Text className="mb-1 text-sm font-medium text-muted-foreground">Promised Date</Text>
+                        <Button variant="outline" className="h-11 mb-3 flex-row items-center justify-start" onPress={() => setIsDatePickerVisible(true)}>
+                            <CalendarDays size={16} color={COLORS.primary} />
+                            <Text className="ml-2">{format(promiseDate, 'EEE, dd MMM yyyy')}</Text>
+                        </Button>
+                        <Input
+                            placeholder="Notes (optional)"
+                            value={promiseNotes}
+                            onChangeText={setPromiseNotes}
+                            className="h-11 border border-gray-300 dark:border-gray-600"
+                        />
+                    </View>
+                    <DialogFooter className="p-4 flex-row justify-end gap-x-2 border-t border-border">
+                        <Button variant="outline" onPress={() => setPromiseSale(null)}>
+                            <Text>Cancel</Text>
+                        </Button>
+                        <Button className='bg-[#a855f7] dark:bg-[#00b9f1]' onPress={handleSavePromise}>
+                            <Text className="text-white">Save Promise</Text>
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+            <DateTimePickerModal
+                isVisible={isDatePickerVisible}
+                mode="date"
+                date={promiseDate}
+                minimumDate={new Date()}
+                onConfirm={(date) => {
+                    setPromiseDate(date);
+                    setIsDatePickerVisible(false);
+                }}
+                onCancel={() => setIsDatePickerVisible(false)}
+            />
+        </LinearGradient>
+    );
+}
@@ -0,0 +1,368 @@
+// app/(tabs)/inventory/stock-adjustments.tsx
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, FlatList, TouchableOpacity, RefreshControl, useColorScheme as rnColorScheme } from 'react-native';
+import { useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import DateTimePickerModal from 'react-native-modal-datetime-picker';
+import { ArrowUpDown, CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react-native';
+import { addMonths, endOfDay, endOfMonth, format, isPast, parseISO, startOfMonth } from 'date-fns';
+import { Text } from '~/components/ui/text';
+import { Input } from '~/components/ui/input';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent } from '~/components/ui/card';
+import { getColors } from '~/app/(tabs)/inventory/customers';
+import { Toaster } from '~/components/toaster/Toaster';
+import { useStockAdjustmentStore } from '~/lib/stores/stockAdjustmentStore';
+import { useProductStore } from '~/lib/stores/productStore';
+import { useBatchStore } from '~/lib/stores/batchStore';
+import { useSupplierStore } from '~/lib/stores/supplierStore';
+import { StockAdjustmentReason, StockAdjustmentWithDetails } from '~/lib/stores/types';
+import { STOCK_ADJUSTMENT_REASONS } from '~/lib/constants';
+import { allowsDecimalQuantity, formatQuantity, parseQuantity, roundQuantity, sanitizeQuantityInput } from '~/lib/utils/quantityUtils';
+
+const getReasonLabel = (reason: string) =>
+    STOCK_ADJUSTMENT_REASONS.find((r) => r.value === reason)?.label || reason;
+
+const QUANTITY_LABELS: Record<StockAdjustmentReason, string> = {
+    RECEIVED: 'Quantity received',
+    DAMAGE: 'Quantity damaged',
+    THEFT: 'Quantity missing',
+    EXPIRED: 'Quantity expired',
+    COUNT_CORRECTION: 'Counted quantity',
+};
+
+export default function StockAdjustmentsScreen() {
+    const { productId } = useLocalSearchParams<{ productId?: string }>();
+    const currentRNColorScheme = rnColorScheme();
+    const COLORS = getColors(currentRNColorScheme || 'light');
+    const { adjustments, summary, fetchAdjustments, fetchSummary, adjustStock, isLoading } = useStockAdjustmentStore();
+    const { products, fetchProducts } = useProductStore();
+    const { productBatches, fetchProductBatches, writeOff } = useBatchStore();
+    const { suppliers, fetchSuppliers } = useSupplierStore();
+
+    const [month, setMonth] = useState(() => startOfMonth(new Date()));
+    const [reason, setReason] = useState<StockAdjustmentReason>('RECEIVED');
+    const [quantityText, setQuantityText] = useState('');
+    const [notes, setNotes] = useState('');
+    const [batchNumber, setBatchNumber] = useState('');
+    const [unitCostText, setUnitCostText] = useState('');
+    const [expiryDate, setExpiryDate] = useState<Date | null>(null);
+    const [supplierChoice, setSupplierChoice] = useState<string | null | undefined>(undefined); // undefined: the product's usual supplier
+    const [isDatePickerVisible, setIsDatePickerVisible] = useState(false);
+
+    const product = useMemo(() => products.find((p) => p.id === productId) || null, [products, productId]);
+    const supplierId = supplierChoice === undefined ? product?.supplierId ?? null : supplierChoice;
+
+    const loadData = useCallback(async () => {
+        if (productId) {
+            await Promise.all([fetchAdjustments({ productId }), fetchProducts(), fetchProductBatches(productId), fetchSuppliers()]);
+            return;
+        }
+        const from = month.toISOString();
+        const to = endOfMonth(month).toISOString();
+        await Promise.all([fetchAdjustments({ from, to }), fetchSummary(from, to)]);
+    }, [productId, month, fetchAdjustments, fetchSummary, fetchProducts, fetchProductBatches, fetchSuppliers]);
+
+    useFocusEffect(
+        useCallback(() => {
+            loadData();
+        }, [loadData])
+    );
+
+    const enteredQuantity = parseQuantity(quantityText, product?.unit);
+    const newQuantity = useMemo(() => {
+        if (!product || isNaN(enteredQuantity)) return null;
+        switch (reason) {
+            case 'RECEIVED':
+                return roundQuantity(product.quantity + enteredQuantity);
+            case 'COUNT_CORRECTION':
+                return enteredQuantity;
+            default:
+                return roundQuantity(product.quantity - enteredQuantity);
+        }
+    }, [product, enteredQuantity, reason]);
+
+    const shrinkageValue = useMemo(
+        () => summary.filter((row) => row.valueAtCost < 0).reduce((sum, row) => sum + row.valueAtCost, 0),
+        [summary]
+    );
+
+    const handleSave = async () => {
+        if (!product || newQuantity === null) return;
+        if (newQuantity < 0) {
+            Toaster.error("Invalid Quantity", { description: `Only ${formatQuantity(product.quantity)} ${product.unit} in stock.` });
+            return;
+        }
+        if (newQuantity === product.quantity) {
+            Toaster.warning("No Change", { description: 'The stock level would stay the same.' });
+            return;
+        }
+        try {
+            // Every receipt becomes a batch so it carries its own cost; a blank cost keeps the current one
+            const unitCost = parseFloat(unitCostText);
+            const batch = reason === 'RECEIVED'
+                ? {
+                    batchNumber,
+                    expiryDate: expiryDate ? endOfDay(expiryDate).toISOString() : null,
+                    supplierId,
+                    unitCost: isNaN(unitCost) ? null : unitCost,
+                }
+                : null;
+            await adjustStock({ productId: product.id, newQuantity, reason, notes, batch });
+            await fetchProductBatches(product.id);
+            setQuantityText('');
+            setNotes('');
+            setBatchNumber('');
+            setUnitCostText('');
+            setExpiryDate(null);
+            setSupplierChoice(undefined);
+            Toaster.success("Stock Updated", { description: `${product.name}: ${formatQuantity(product.quantity)} → ${formatQuantity(newQuantity)} ${product.unit}` });
+        } catch (error: any) {
+            Toaster.error("Adjustment Failed", { description: error.message || 'Failed to adjust stock.' });
+        }
+    };
+
+    const handleWriteOff = async (batchId: string) => {
+        try {
+            await writeOff(batchId);
+            if (productId) await fetchAdjustments({ productId });
+            Toaster.success("Batch Written Off", { description: 'The stock was recorded as expired.' });
+        } catch (error: any) {
+            Toaster.error("Write Off Failed", { description: error.message || 'Failed to write off the batch.' });
+        }
+    };
+
+    const renderAdjustment = ({ item }: { item: StockAdjustmentWithDetails }) => {
+        const change = item.newQuantity - item.previousQuantity;
+        return (
+            <Card className="mb-2 mx-1 bg-card border border-border">
+                <CardContent className="p-3">
+                    <View className="flex-row justify-between items-start">
+                        <View className="flex-1 mr-2">
+                            {!productId && (
+                                <Text className="text-sm font-semibold" style={{ color: COLORS.dark }}>{item.productName}</Text>
+                            )}
+                            <Text className="text-xs font-medium" style={{ color: COLORS.primary }}>{getReasonLabel(item.adjustmentReason)}</Text>
+                            <Text className="text-xs" style={{ color: COLORS.gray }}>
+                                {format(parseISO(item.timestamp), 'dd MMM yyyy, hh:mm a')}
+                                {item.adjustedByName ? ` · by ${item.adjustedByName}` : ''}
+                            </Text>
+                            {item.notes ? (
+                                <Text className="text-xs mt-1" style={{ color: COLORS.dark }}>{item.notes}</Text>
+                            ) : null}
+                        </View>
+                        <View className="items-end">
+                            <Text className="text-base font-bold" style={{ color: change < 0 ? COLORS.danger : '#10B981' }}>
+                                {change > 0 ? '+' : ''}{change} {item.unit}
+                            </Text>
+                            <Text className="text-xs" style={{ color: COLORS.gray }}>
+                                {item.previousQuantity} → {item.newQuantity}
+                            </Text>
+                        </View>
+                    </View>
+                </CardContent>
+            </Card>
+        );
+    };
+
+    const header = productId ? (
+        <View>
+            {product && (
+                <Card className="mb-4 bg-card border border-border">
+                    <CardContent className="p-4">
+                        <Text className="text-lg font-semibold" style={{ color: COLORS.dark }}>{product.name}</Text>
+                        <Text className="text-sm mb-3" style={{ color: COLORS.gray }}>
+                            In stock: {formatQuantity(product.quantity)} {product.unit} · Cost ₹{product.costPrice.toFixed(2)}
+                        </Text>
+                        <View className="flex-row flex-wrap gap-2 mb-3">
+                            {STOCK_ADJUSTMENT_REASONS.map((r) => {
+                                const active = r.value === reason;
+                                return (
+                                    <TouchableOpacity
+                                        key={r.value}
+                                        onPress={() => setReason(r.value)}
+                                        className="px-3 py-1.5 rounded-full border"
+                                        style={{
+                                            borderColor: active ? COLORS.primary : COLORS.border,
+                                            backgroundColor: active ? COLORS.lightPurple : COLORS.white,
+                                        }}
+                                    >
+                                        <Text className="text-xs font-medium" style={{ color: active ? COLORS.primary : COLORS.gray }}>
+                                            {r.label}
+                                        </Text>
+                                    </TouchableOpacity>
+                                );
+                            })}
+                        </View>
+                        <Text className="text-sm font-medium mb-1" style={{ color: COLORS.dark }}>{QUANTITY_LABELS[reason]}</Text>
+                        <Input
+                            placeholder="0"
+                            value={quantityText}
+                            onChangeText={(text) => setQuantityText(sanitizeQuantityInput(text, product.unit))}
+                            keyboardType={allowsDecimalQuantity(product.unit) ? 'decimal-pad' : 'number-pad'}
+                            className="h-11 mb-2 border border-gray-300 dark:border-gray-600"
+                        />
+                        {reason === 'RECEIVED' && (
+                            <View className="flex-row gap-x-2 mb-2">
+                                <Input
+                                    placeholder="Batch no. (optional)"
+                                    value={batchNumber}
+                                    onChangeText={setBatchNumber}
+                                    className="flex-1 h-11 border border-gray-300 dark:border-gray-600"
+                                />
+                                <Button variant="outline" className="h-11 flex-row items-center" onPress={() => setIsDatePickerVisible(true)}>
+                                    <CalendarDays size={14} color={COLORS.primary} />
+                                    <Text className="ml-1 text-xs">{expiryDate ? format(expiryDate, 'dd MMM yyyy') : 'Expiry'}</Text>
+                                </Button>
+                            </View>
+                        )}
+                        {reason === 'RECEIVED' && (
+                            <Input
+                                placeholder={`Cost per ${product.unit} (₹${product.costPrice.toFixed(2)})`}
+                                value={unitCostText}
+                                onChangeText={(text) => setUnitCostText(text.replace(/[^0-9.]/g, ''))}
+                                keyboardType="decimal-pad"
+                                className="h-11 mb-2 border border-gray-300 dark:border-gray-600"
+                            />
+                        )}
+                        {reason === 'RECEIVED' && suppliers.length > 0 && (
+                            <View className="flex-row flex-wrap gap-2 mb-2">
+                                {[{ id: null, name: 'No supplier' }, ...suppliers].map((s) => {
+                                    const active = s.id === supplierId;
+                                    return (
+                                        <TouchableOpacity
+                                            key={s.id ?? 'none'}
+                                            onPress={() => setSupplierChoice(s.id)}
+                                            className="px-3 py-1.5 rounded-full border"
+                                            style={{
+                                                borderColor: active ? COLORS.primary : COLORS.border,
+                                                backgroundColor: active ? COLORS.lightPurple : COLORS.white,
+                                            }}
+                                        >
+                                            <Text className="text-xs font-medium" style={{ color: active ? COLORS.primary : COLORS.gray }}>
+                                                {s.name}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    );
+                                })}
+                            </View>
+                        )}
+                        <Input
+                            placeholder="Notes (optional)"
+                            value={notes}
+                            onChangeText={setNotes}
+                            className="h-11 mb-2 border border-gray-300 dark:border-gray-600"
+                        />
+                        {newQuantity !== null && (
+                            <Text className="text-sm mb-2" style={{ color: newQuantity < 0 ? COLORS.danger : COLORS.dark }}>
+                                Stock will be {formatQuantity(product.quantity)} → {formatQuantity(newQuantity)} {product.unit}
+                            </Text>
+                        )}
+                        <Button
+                            className='bg-[#a855f7] dark:bg-[#00b9f1]'
+                            onPress={handleSave}
+                            disabled={isLoading || newQuantity === null}
+                        >
+                            <Text className="text-white">Save Adjustment</Text>
+                        </Button>
+                    </CardContent>
+                </Card>
+            )}
+            {productBatches.length > 0 && (
+                <View className="mb-4">
+                    <Text className="text-lg font-semibold mb-3" style={{ color: COLORS.dark }}>Batches</Text>
+                    {productBatches.map((batch) => {
+                        const expired = !!batch.expiryDate && isPast(parseISO(batch.expiryDate));
+                        return (
+                            <View key={batch.id} className="flex-row justify-between items-center py-2 border-b" style={{ borderColor: COLORS.border }}>
+                                <View className="flex-1 mr-2">
+                                    <Text className="text-sm font-medium" style={{ color: COLORS.dark }}>
+                                        {batch.batchNumber || 'No batch no.'} · {batch.quantity} {product?.unit}
+                                    </Text>
+                                    <Text className="text-xs" style={{ color: expired ? COLORS.danger : COLORS.gray }}>
+                                        {batch.expiryDate
+                                            ? `${expired ? 'Expired' : 'Expires'} ${format(parseISO(batch.expiryDate), 'dd MMM yyyy')}`
+                                            : 'No expiry date'}
+                                    </Text>
+                                </View>
+                                {expired && (
+                                    <Button size="sm" variant="outline" onPress={() => handleWriteOff(batch.id)} disabled={isLoading}>
+                                        <Text className="text-xs" style={{ color: COLORS.danger }}>Write Off</Text>
+                                    </Button>
+                                )}
+                            </View>
+                        );
+                    })}
+                </View>
+            )}
+            <Text className="text-lg font-semibold mb-3" style={{ color: COLORS.dark }}>History</Text>
+        </View>
+    ) : (
+        <View>
+            <View className="flex-row items-center justify-between mb-3">
+                <TouchableOpacity onPress={() => setMonth((m) => addMonths(m, -1))} className="p-2">
+                    <ChevronLeft size={20} color={COLORS.primary} />
+                </TouchableOpacity>
+                <Text className="text-base font-semibold" style={{ color: COLORS.dark }}>{format(month, 'MMMM yyyy')}</Text>
+                <TouchableOpacity onPress={() => setMonth((m) => addMonths(m, 1))} className="p-2" disabled={month >= startOfMonth(new Date())}>
+                    <ChevronRight size={20} color={month >= startOfMonth(new Date()) ? COLORS.gray : COLORS.primary} />
+                </TouchableOpacity>
+            </View>
+            <Card className="mb-4 bg-card border border-border">
+                <CardContent className="p-4">
+                    <View className="flex-row justify-between mb-2">
+                        <Text className="text-sm font-semibold" style={{ color: COLORS.dark }}>Shrinkage at cost</Text>
+                        <Text className="text-sm font-bold" style={{ color: COLORS.danger }}>₹{Math.abs(shrinkageValue).toFixed(2)}</Text>
+                    </View>
+                    {summary.length === 0 ? (
+                        <Text className="text-xs" style={{ color: COLORS.gray }}>No stock adjustments this month.</Text>
+                    ) : (
+                        summary.map((row) => (
+                            <View key={row.reason} className="flex-row justify-between py-1">
+                                <Text className="text-xs" style={{ color: COLORS.gray }}>
+                                    {getReasonLabel(row.reason)} ({row.adjustmentCount})
+                                </Text>
+                                <Text className="text-xs font-medium" style={{ color: row.valueAtCost < 0 ? COLORS.danger : COLORS.dark }}>
+                                    {row.quantityChange > 0 ? '+' : ''}{row.quantityChange} units · ₹{row.valueAtCost.toFixed(2)}
+                                </Text>
+                            </View>
+                        ))
+                    )}
+                </CardContent>
+            </Card>
+            <Text className="text-lg font-semibold mb-3" style={{ color: COLORS.dark }}>Adjustments</Text>
+        </View>
+    );
+
+    return (
+        <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+            <View className="flex-1 p-4 bg-transparent">
+                <FlatList
+                    data={adjustments}
+                    renderItem={renderAdjustment}
+                    keyExtractor={(item) => item.id}
+                    ListHeaderComponent={header}
+                    showsVerticalScrollIndicator={false}
+                    keyboardShouldPersistTaps="handled"
+                    refreshControl={<RefreshControl refreshing={isLoading} onRefresh={loadData} />}
+                    ListEmptyComponent={
+                        <View className="items-center py-10">
+                            <ArrowUpDown size={40} color={COLORS.gray} className="opacity-50" />
+                            <Text className="mt-3 text-muted-foreground">No stock adjustments yet.</Text>
+                        </View>
+                    }
+                />
+            </View>
+            <DateTimePickerModal
+                isVisible={isDatePickerVisible}
+                mode="date"
+                date={expiryDate || new Date()}
+                onConfirm={(date) => {
+                    setExpiryDate(date);
+                    setIsDatePickerVisible(false);
+                }}
+                onCancel={() => setIsDatePickerVisible(false)}
+            />
+        </LinearGradient>
+    );
+}
@@ -0,0 +1,309 @@
+// app/(tabs)/inventory/stocktake.tsx
+// A single count session: enter counts by category or by scanning, review variances and apply.
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { View, FlatList, TouchableOpacity, Alert, TextInput, useColorScheme as rnColorScheme } from 'react-native';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ScanBarcode } from 'lucide-react-native';
+import { Text } from '~/components/ui/text';
+import { Input } from '~/components/ui/input';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent } from '~/components/ui/card';
+import { Toaster } from '~/components/toaster/Toaster';
+import { getColors } from '~/app/(tabs)/inventory/customers';
+import { useStocktakeStore } from '~/lib/stores/stocktakeStore';
+import { StocktakeItemWithProduct } from '~/lib/stores/types';
+import { allowsDecimalQuantity, formatQuantity, getQuantityStep, parseQuantity, roundQuantity, sanitizeQuantityInput } from '~/lib/utils/quantityUtils';
+import { roundCurrency } from '~/lib/utils/pricingUtils';
+
+type ItemFilter = 'ALL' | 'UNCOUNTED' | 'VARIANCE';
+
+const ITEM_FILTERS: { value: ItemFilter; label: string }[] = [
+    { value: 'ALL', label: 'All' },
+    { value: 'UNCOUNTED', label: 'Not Counted' },
+    { value: 'VARIANCE', label: 'Variances' },
+];
+
+// What the system expects on the shelf: the stock when the item was counted, or live stock until then
+const expectedOf = (item: StocktakeItemWithProduct) => item.systemQuantityAtCount ?? item.currentQuantity;
+
+const varianceOf = (item: StocktakeItemWithProduct) =>
+    item.countedQuantity == null ? 0 : roundQuantity(item.countedQuantity - expectedOf(item));
+
+export default function StocktakeScreen() {
+    const router = useRouter();
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const currentRNColorScheme = rnColorScheme();
+    const COLORS = getColors(currentRNColorScheme || 'light');
+    const { stocktakes, items, fetchStocktakes, fetchItems, recordCount, applyStocktake, cancelStocktake, isLoading } = useStocktakeStore();
+    const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+    const [itemFilter, setItemFilter] = useState<ItemFilter>('ALL');
+    const [scanText, setScanText] = useState('');
+    const [drafts, setDrafts] = useState<Record<string, string>>({}); // Counts still being typed
+    const scanInputRef = useRef<TextInput>(null);
+
+    useFocusEffect(
+        useCallback(() => {
+            if (!id) return;
+            fetchStocktakes();
+            fetchItems(id);
+        }, [id, fetchStocktakes, fetchItems])
+    );
+
+    const stocktake = stocktakes.find((s) => s.id === id);
+    const isOpen = stocktake?.status === 'OPEN';
+
+    const categories = useMemo(
+        () => Array.from(new Set(items.map((item) => item.category).filter((c): c is string => !!c))).sort(),
+        [items]
+    );
+
+    const visibleItems = useMemo(
+        () =>
+            items.filter((item) => {
+                if (categoryFilter && item.category !== categoryFilter) return false;
+                if (itemFilter === 'UNCOUNTED') return item.countedQuantity == null;
+                if (itemFilter === 'VARIANCE') return item.countedQuantity != null && varianceOf(item) !== 0;
+                return true;
+            }),
+        [items, categoryFilter, itemFilter]
+    );
+
+    const totals = useMemo(() => {
+        let counted = 0;
+        let shortageValue = 0;
+        let excessValue = 0;
+        let withVariance = 0;
+        items.forEach((item) => {
+            if (item.countedQuantity == null) return;
+            counted += 1;
+            const value = varianceOf(item) * item.costPrice;
+            if (value < 0) shortageValue += value;
+            if (value > 0) excessValue += value;
+            if (varianceOf(item) !== 0) withVariance += 1;
+        });
+        return {
+            counted,
+            withVariance,
+            shortageValue: roundCurrency(shortageValue),
+            excessValue: roundCurrency(excessValue),
+            netValue: roundCurrency(shortageValue + excessValue),
+        };
+    }, [items]);
+
+    const saveCount = async (item: StocktakeItemWithProduct, text: string) => {
+        const value = text.trim() === '' ? null : parseQuantity(text, item.unit);
+        setDrafts(({ [item.id]: _, ...rest }) => rest);
+        if (value != null && isNaN(value)) return;
+        if (value === item.countedQuantity) return;
+        try {
+            await recordCount(item.id, value);
+        } catch (error: any) {
+            Toaster.error("Count Not Saved", { description: error.message || 'Failed to save the count.' });
+        }
+    };
+
+    // Each scan counts one more of the product
+    const handleScan = async () => {
+        const code = scanText.trim();
+        if (!code) return;
+        setScanText('');
+        const item = items.find((i) => i.barcode === code || i.alternateCode === code);
+        if (!item) {
+            Toaster.warning("Not in This Count", { description: `No product in this stocktake has the code ${code}.` });
+        } else {
+            const counted = roundQuantity((item.countedQuantity ?? 0) + getQuantityStep(item));
+            try {
+                await recordCount(item.id, counted);
+                Toaster.success(item.productName, { description: `Counted ${formatQuantity(counted)} ${item.unit}` });
+            } catch (error: any) {
+                Toaster.error("Count Not Saved", { description: error.message || 'Failed to save the count.' });
+            }
+        }
+        scanInputRef.current?.focus();
+    };
+
+    const handleApply = () => {
+        if (!stocktake) return;
+        const uncounted = items.length - totals.counted;
+        Alert.alert(
+            'Apply Stocktake',
+            `Post ${totals.withVariance} stock correction${totals.withVariance === 1 ? '' : 's'} worth ₹${totals.netValue.toFixed(2)} at cost?` +
+                (uncounted > 0 ? `\n\n${uncounted} product${uncounted === 1 ? ' was' : 's were'} not counted and will be left as they are.` : ''),
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Apply',
+                    onPress: async () => {
+                        try {
+                            const adjusted = await applyStocktake(stocktake.id);
+                            Toaster.success("Stocktake Applied", { description: `${adjusted} product${adjusted === 1 ? '' : 's'} corrected.` });
+                        } catch (error: any) {
+                            Toaster.error("Apply Failed", { description: error.message || 'Failed to apply stocktake.' });
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const handleCancel = () => {
+        if (!stocktake) return;
+        Alert.alert('Cancel Stocktake', `Cancel "${stocktake.name}"? Stock will not be changed.`, [
+            { text: 'Keep Counting', style: 'cancel' },
+            {
+                text: 'Cancel Stocktake',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await cancelStocktake(stocktake.id);
+                        router.back();
+                    } catch (error: any) {
+                        Toaster.error("Cancel Failed", { description: error.message || 'Failed to cancel stocktake.' });
+                    }
+                },
+            },
+        ]);
+    };
+
+    const chip = (key: string, label: string, active: boolean, onPress: () => void) => (
+        <TouchableOpacity
+            key={key}
+            onPress={onPress}
+            className="px-3 py-1.5 rounded-full border"
+            style={{
+                borderColor: active ? COLORS.primary : COLORS.border,
+                backgroundColor: active ? COLORS.lightPurple : COLORS.white,
+            }}
+        >
+            <Text className="text-xs font-medium" style={{ color: active ? COLORS.primary : COLORS.gray }}>{label}</Text>
+        </TouchableOpacity>
+    );
+
+    const renderItem = ({ item }: { item: StocktakeItemWithProduct }) => {
+        const variance = varianceOf(item);
+        const movedSinceStart = roundQuantity(item.currentQuantity - item.expectedQuantity);
+        return (
+            <Card className="mb-2 mx-1 bg-card border border-border">
+                <CardContent className="p-3">
+                    <View className="flex-row items-center">
+                        <View className="flex-1 mr-2">
+                            <Text className="text-sm font-semibold" style={{ color: COLORS.dark }}>{item.productName}</Text>
+                            <Text className="text-xs" style={{ color: COLORS.gray }}>
+                                Expected {formatQuantity(expectedOf(item))} {item.unit}
+                                {item.countedQuantity == null && movedSinceStart !== 0
+                                    ? ` (${movedSinceStart < 0 ? 'sold' : 'received'} ${formatQuantity(Math.abs(movedSinceStart))} since start)`
+                                    : ''}
+                            </Text>
+                            {item.countedQuantity != null && variance !== 0 && (
+                                <Text className="text-xs font-semibold" style={{ color: variance < 0 ? COLORS.danger : COLORS.secondary }}>
+                                    {variance > 0 ? '+' : ''}{formatQuantity(variance)} {item.unit} · {variance < 0 ? '-' : ''}₹{Math.abs(roundCurrency(variance * item.costPrice)).toFixed(2)}
+                                </Text>
+                            )}
+                        </View>
+                        <Input
+                            className="w-20 h-10 text-center text-sm rounded-md border border-gray-300 dark:border-gray-600"
+                            keyboardType={allowsDecimalQuantity(item.unit) ? 'decimal-pad' : 'number-pad'}
+                            placeholder="Count"
+                            placeholderTextColor={COLORS.gray}
+                            value={drafts[item.id] ?? (item.countedQuantity == null ? '' : formatQuantity(item.countedQuantity))}
+                            onChangeText={(text) => setDrafts((prev) => ({ ...prev, [item.id]: sanitizeQuantityInput(text, item.unit) }))}
+                            onEndEditing={() => {
+                                if (drafts[item.id] !== undefined) saveCount(item, drafts[item.id]);
+                            }}
+                            editable={isOpen}
+                            style={{ backgroundColor: COLORS.white, color: COLORS.primary }}
+                        />
+                    </View>
+                </CardContent>
+            </Card>
+        );
+    };
+
+    const header = (
+        <View>
+            {stocktake && (
+                <Card className="mb-3 bg-card border border-border">
+                    <CardContent className="p-4">
+                        <Text className="text-base font-semibold" style={{ color: COLORS.dark }}>{stocktake.name}</Text>
+                        <Text className="text-xs" style={{ color: COLORS.gray }}>
+                            {stocktake.category || 'All products'} · {totals.counted} of {items.length} counted
+                            {stocktake.status === 'APPLIED' ? ' · Applied' : stocktake.status === 'CANCELLED' ? ' · Cancelled' : ''}
+                        </Text>
+                        <View className="flex-row justify-between mt-3">
+                            <View>
+                                <Text className="text-xs" style={{ color: COLORS.gray }}>Shortage</Text>
+                                <Text className="text-sm font-bold" style={{ color: COLORS.danger }}>₹{Math.abs(totals.shortageValue).toFixed(2)}</Text>
+                            </View>
+                            <View>
+                                <Text className="text-xs" style={{ color: COLORS.gray }}>Excess</Text>
+                                <Text className="text-sm font-bold" style={{ color: COLORS.secondary }}>₹{totals.excessValue.toFixed(2)}</Text>
+                            </View>
+                            <View className="items-end">
+                                <Text className="text-xs" style={{ color: COLORS.gray }}>Net at cost</Text>
+                                <Text className="text-sm font-bold" style={{ color: totals.netValue < 0 ? COLORS.danger : COLORS.dark }}>
+                                    {totals.netValue < 0 ? '-' : ''}₹{Math.abs(totals.netValue).toFixed(2)}
+                                </Text>
+                            </View>
+                        </View>
+                    </CardContent>
+                </Card>
+            )}
+            {isOpen && (
+                <View className="mb-3 flex-row items-center rounded-lg px-3 shadow-md" style={{ backgroundColor: COLORS.white }}>
+                    <ScanBarcode size={20} color={COLORS.secondary} />
+                    <Input
+                        ref={scanInputRef}
+                        placeholder="Scan to count one more..."
+                        className="flex-1 h-12 border-0 bg-transparent ml-2 text-base"
+                        placeholderTextColor={COLORS.gray}
+                        value={scanText}
+                        onChangeText={setScanText}
+                        onSubmitEditing={handleScan}
+                        blurOnSubmit={false}
+                        returnKeyType="done"
+                        style={{ color: COLORS.dark }}
+                    />
+                </View>
+            )}
+            <View className="flex-row flex-wrap gap-2 mb-2">
+                {ITEM_FILTERS.map((f) => chip(f.value, f.label, itemFilter === f.value, () => setItemFilter(f.value)))}
+            </View>
+            {categories.length > 1 && (
+                <View className="flex-row flex-wrap gap-2 mb-3">
+                    {chip('all-categories', 'All Categories', categoryFilter === null, () => setCategoryFilter(null))}
+                    {categories.map((c) => chip(c, c, categoryFilter === c, () => setCategoryFilter(c)))}
+                </View>
+            )}
+        </View>
+    );
+
+    return (
+        <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+            <FlatList
+                data={visibleItems}
+                renderItem={renderItem}
+                keyExtractor={(item) => item.id}
+                ListHeaderComponent={header}
+                ListEmptyComponent={
+                    <Text className="text-center py-8" style={{ color: COLORS.gray }}>
+                        {isLoading ? 'Loading...' : 'Nothing to show here.'}
+                    </Text>
+                }
+                contentContainerStyle={{ padding: 16, paddingBottom: isOpen ? 96 : 16 }}
+                keyboardShouldPersistTaps="handled"
+                showsVerticalScrollIndicator={false}
+            />
+            {isOpen && (
+                <View className="absolute bottom-0 left-0 right-0 flex-row gap-x-3 p-4" style={{ backgroundColor: COLORS.white }}>
+                    <Button variant="outline" className="flex-1" onPress={handleCancel} disabled={isLoading}>
+                        <Text style={{ color: COLORS.danger }}>Cancel Count</Text>
+                    </Button>
+                    <Button className="flex-1 bg-[#a855f7] dark:bg-[#00b9f1]" onPress={handleApply} disabled={isLoading || totals.counted === 0}>
+                        <Text className="text-white font-semibold">Apply Count</Text>
+                    </Button>
+                </View>
+            )}
+        </LinearGradient>
+    );
+}
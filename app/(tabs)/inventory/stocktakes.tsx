@@ -0,0 +1,172 @@
+// app/(tabs)/inventory/stocktakes.tsx
+import React, { useCallback, useState } from 'react';
+import { View, FlatList, TouchableOpacity, RefreshControl, useColorScheme as rnColorScheme } from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Picker } from '@react-native-picker/picker';
+import { ClipboardCheck, Plus } from 'lucide-react-native';
+import { format, parseISO } from 'date-fns';
+import { Text } from '~/components/ui/text';
+import { Input } from '~/components/ui/input';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent } from '~/components/ui/card';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '~/components/ui/dialog';
+import { Toaster } from '~/components/toaster/Toaster';
+import { getColors } from '~/app/(tabs)/inventory/customers';
+import { useStocktakeStore } from '~/lib/stores/stocktakeStore';
+import { useCategoryStore } from '~/lib/stores/categoryStore';
+import { StocktakeStatus, StocktakeWithTotals } from '~/lib/stores/types';
+import { sortCategoriesAsTree } from '~/lib/utils/categoryUtils';
+
+const STATUS_LABELS: Record<StocktakeStatus, string> = {
+    OPEN: 'In Progress',
+    APPLIED: 'Applied',
+    CANCELLED: 'Cancelled',
+};
+
+export default function StocktakesScreen() {
+    const router = useRouter();
+    const currentRNColorScheme = rnColorScheme();
+    const COLORS = getColors(currentRNColorScheme || 'light');
+    const { stocktakes, fetchStocktakes, startStocktake, isLoading } = useStocktakeStore();
+    const { categories, fetchCategories } = useCategoryStore();
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const [name, setName] = useState('');
+    const [categoryId, setCategoryId] = useState('');
+
+    useFocusEffect(
+        useCallback(() => {
+            fetchStocktakes();
+            fetchCategories();
+        }, [fetchStocktakes, fetchCategories])
+    );
+
+    const statusColors: Record<StocktakeStatus, string> = {
+        OPEN: COLORS.secondary,
+        APPLIED: COLORS.primary,
+        CANCELLED: COLORS.gray,
+    };
+
+    const openStartDialog = () => {
+        setName(`Stocktake ${format(new Date(), 'dd MMM yyyy')}`);
+        setCategoryId('');
+        setDialogOpen(true);
+    };
+
+    const handleStart = async () => {
+        if (!name.trim()) return;
+        try {
+            const stocktake = await startStocktake({ name, categoryId: categoryId || null });
+            setDialogOpen(false);
+            router.push({ pathname: '/(tabs)/inventory/stocktake', params: { id: stocktake.id } });
+        } catch (error: any) {
+            Toaster.error("Could Not Start", { description: error.message || 'Failed to start stocktake.' });
+        }
+    };
+
+    const renderStocktake = ({ item }: { item: StocktakeWithTotals }) => (
+        <TouchableOpacity onPress={() => router.push({ pathname: '/(tabs)/inventory/stocktake', params: { id: item.id } })}>
+            <Card className="mb-3 mx-1 bg-card border border-border">
+                <CardContent className="p-4">
+                    <View className="flex-row justify-between items-start">
+                        <View className="flex-1 mr-2">
+                            <Text className="text-base font-semibold" style={{ color: COLORS.dark }}>{item.name}</Text>
+                            <Text className="text-xs" style={{ color: COLORS.gray }}>
+                                {item.category || 'All products'} · Started {format(parseISO(item.startedAt), 'dd MMM yyyy, hh:mm a')}
+                            </Text>
+                            <Text className="text-xs mt-1" style={{ color: COLORS.gray }}>
+                                {item.countedCount} of {item.itemCount} counted
+                            </Text>
+                        </View>
+                        <View className="items-end">
+                            <Text
+                                className="text-base font-bold"
+                                style={{ color: item.varianceValue < 0 ? COLORS.danger : COLORS.dark }}
+                            >
+                                {item.varianceValue < 0 ? '-' : ''}₹{Math.abs(item.varianceValue).toFixed(2)}
+                            </Text>
+                            <Text className="text-xs" style={{ color: COLORS.gray }}>variance at cost</Text>
+                            <Text className="text-xs font-semibold mt-1" style={{ color: statusColors[item.status] }}>
+                                {STATUS_LABELS[item.status]}
+                            </Text>
+                        </View>
+                    </View>
+                </CardContent>
+            </Card>
+        </TouchableOpacity>
+    );
+
+    return (
+        <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+            <View className="flex-1 p-4 bg-transparent">
+                <View className="flex-row justify-between items-center mb-3">
+                    <Text className="text-sm flex-1 mr-2" style={{ color: COLORS.gray }}>
+                        Count what is on the shelf and post the differences in one go.
+                    </Text>
+                    <Button size="icon" variant="ghost" onPress={openStartDialog}>
+                        <Plus size={22} color={COLORS.primary} />
+                    </Button>
+                </View>
+                <FlatList
+                    data={stocktakes}
+                    renderItem={renderStocktake}
+                    keyExtractor={(item) => item.id}
+                    showsVerticalScrollIndicator={false}
+                    refreshControl={<RefreshControl refreshing={isLoading} onRefresh={fetchStocktakes} />}
+                    ListEmptyComponent={
+                        <View className="items-center py-10">
+                            <ClipboardCheck size={40} color={COLORS.gray} className="opacity-50" />
+                            <Text className="mt-3 text-muted-foreground">No stocktakes yet.</Text>
+                            <Button variant="ghost" onPress={openStartDialog}>
+                                <Text className="text-primary">Start a Stocktake</Text>
+                            </Button>
+                        </View>
+                    }
+                />
+            </View>
+
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogContent className="p-0 bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-11/12 mx-auto">
+                    <DialogHeader className="p-6 pb-4 border-b border-gray-200 dark:border-gray-700">
+                        <DialogTitle className="text-lg font-bold" style={{ color: COLORS.dark }}>Start Stocktake</DialogTitle>
+                    </DialogHeader>
+                    <View className="p-4">
+                        <Text className="mb-1 text-sm font-semibold" style={{ color: COLORS.dark }}>Name</Text>
+                        <Input
+                            value={name}
+                            onChangeText={setName}
+                            className="mb-3 h-11 border border-gray-300 dark:border-gray-600 rounded-md px-3"
+                            style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                        />
+                        <Text className="mb-1 text-sm font-semibold" style={{ color: COLORS.dark }}>Products to Count</Text>
+                        <View className="border border-gray-300 dark:border-gray-600 rounded-md h-12 justify-center">
+                            <Picker
+                                selectedValue={categoryId}
+                                onValueChange={(value) => setCategoryId(value)}
+                                style={{ color: COLORS.dark }}
+                                dropdownIconColor={COLORS.dark}
+                            >
+                                <Picker.Item label="All products" value="" />
+                                {/* A category includes its subcategories */}
+                                {sortCategoriesAsTree(categories).map(({ category, depth }) => (
+                                    <Picker.Item key={category.id} label={`${'  '.repeat(depth)}${category.name}`} value={category.id} />
+                                ))}
+                            </Picker>
+                        </View>
+                        <Text className="text-xs mt-2" style={{ color: COLORS.gray }}>
+                            Expected stock is taken now. Selling during the count is fine; sales after an item is counted are allowed for when the count is applied.
+                        </Text>
+                    </View>
+                    <DialogFooter className="p-4 flex-row justify-end gap-x-2 border-t border-gray-200 dark:border-gray-700">
+                        <Button variant="ghost" onPress={() => setDialogOpen(false)}>
+                            <Text style={{ color: COLORS.gray }}>Cancel</Text>
+                        </Button>
+                        <Button className="bg-[#a855f7] dark:bg-[#00b9f1]" onPress={handleStart} disabled={isLoading || !name.trim()}>
+                            <Text className="text-white font-semibold">Start Count</Text>
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </LinearGradient>
+    );
+}
@@ -0,0 +1,424 @@
+// ~/app/(tabs)/inventory/suppliers.tsx
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import { View, ScrollView, TouchableOpacity, ActivityIndicator, FlatList, Linking, useColorScheme as rnColorScheme } from 'react-native';
+import { Text } from '~/components/ui/text';
+import { Card, CardContent } from '~/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '~/components/ui/dialog';
+import { Input } from '~/components/ui/input';
+import { Button } from '~/components/ui/button';
+import { Plus, Pencil, Trash2, Search, XCircle, Phone, History } from 'lucide-react-native';
+import { useSupplierStore } from '~/lib/stores/supplierStore';
+import { useProductStore } from '~/lib/stores/productStore';
+import { Supplier } from '~/lib/stores/types';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Toaster } from '~/components/toaster/Toaster';
+import { format, parseISO } from 'date-fns';
+import { getColors } from '~/app/(tabs)/inventory/customers';
+
+const emptyForm = { name: '', contactPerson: '', phone: '', email: '', address: '' };
+
+const SupplierManagementScreen = () => {
+  const {
+    suppliers,
+    purchases,
+    fetchSuppliers,
+    addSupplier,
+    updateSupplier,
+    deleteSupplier,
+    fetchPurchases,
+    isLoading: storeIsLoading,
+    error: storeError,
+    clearError,
+  } = useSupplierStore();
+  const { products, fetchProducts } = useProductStore();
+
+  const currentRNColorScheme = rnColorScheme();
+  const COLORS = getColors(currentRNColorScheme || 'light');
+
+  const [initialLoading, setInitialLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formMode, setFormMode] = useState<'add' | 'edit'>('add');
+  const [deleteConfirmDialogOpen, setDeleteConfirmDialogOpen] = useState(false);
+  const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
+  const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  useEffect(() => {
+    const loadData = async () => {
+      setInitialLoading(true);
+      try {
+        await Promise.all([fetchSuppliers(), fetchProducts()]);
+      } catch (e: any) {
+        Toaster.error("Load Error", { description: e.message || "Failed to load suppliers." });
+      } finally {
+        setInitialLoading(false);
+      }
+    };
+    loadData();
+  }, [fetchSuppliers, fetchProducts]);
+
+  // Products that name each supplier as their usual source
+  const productsBySupplier = useMemo(() => {
+    const map: Record<string, string[]> = {};
+    products.forEach((p) => {
+      if (!p.supplierId) return;
+      (map[p.supplierId] = map[p.supplierId] || []).push(p.name);
+    });
+    return map;
+  }, [products]);
+
+  const filteredSuppliers = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return suppliers;
+    return suppliers.filter(
+      (s) =>
+        s.name.toLowerCase().includes(query) ||
+        (s.contactPerson || '').toLowerCase().includes(query) ||
+        (s.phone || '').includes(query)
+    );
+  }, [suppliers, searchQuery]);
+
+  const purchaseTotal = useMemo(() => purchases.reduce((sum, p) => sum + p.totalCost, 0), [purchases]);
+
+  const resetFormAndCloseDialog = useCallback(() => {
+    setForm(emptyForm);
+    setDialogOpen(false);
+    setFormMode('add');
+    setSelectedSupplier(null);
+    setFormError(null);
+    clearError();
+  }, [clearError]);
+
+  const isFormValid = useCallback(() => {
+    let msg = '';
+    if (form.name.trim() === '') {
+      msg = 'Supplier name is required.';
+    } else if (form.phone.trim() !== '' && form.phone.trim().length < 10) {
+      msg = 'Phone number seems too short. Please enter a valid number.';
+    }
+    if (msg) {
+      setFormError(msg);
+      Toaster.warning("Validation Error", { description: msg });
+      return false;
+    }
+    setFormError(null);
+    return true;
+  }, [form]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!isFormValid()) return;
+    const supplierName = form.name.trim();
+    try {
+      if (formMode === 'edit' && selectedSupplier) {
+        await updateSupplier(selectedSupplier.id, form);
+        Toaster.success("Supplier Updated", { description: `"${supplierName}" has been updated successfully.` });
+      } else {
+        await addSupplier(form);
+        Toaster.success("Supplier Added", { description: `"${supplierName}" has been added successfully.` });
+      }
+      resetFormAndCloseDialog();
+    } catch (error: any) {
+      const message = error.message || 'Failed to save supplier. Please try again.';
+      setFormError(message);
+      Toaster.error(formMode === 'edit' ? "Update Failed" : "Add Failed", { description: message });
+    }
+  }, [form, formMode, selectedSupplier, addSupplier, updateSupplier, isFormValid, resetFormAndCloseDialog]);
+
+  const handleEditClick = useCallback((supplier: Supplier) => {
+    setSelectedSupplier(supplier);
+    setForm({
+      name: supplier.name,
+      contactPerson: supplier.contactPerson || '',
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+      address: supplier.address || '',
+    });
+    setFormMode('edit');
+    setFormError(null);
+    clearError();
+    setDialogOpen(true);
+  }, [clearError]);
+
+  const handleDeleteConfirm = useCallback(async () => {
+    if (!selectedSupplier) return;
+    const supplierName = selectedSupplier.name;
+    try {
+      await deleteSupplier(selectedSupplier.id);
+      setDeleteConfirmDialogOpen(false);
+      setSelectedSupplier(null);
+      await fetchProducts();
+      Toaster.success("Supplier Deleted", { description: `"${supplierName}" has been deleted.` });
+    } catch (error: any) {
+      Toaster.error("Delete Failed", { description: error.message || "Failed to delete supplier." });
+    }
+  }, [selectedSupplier, deleteSupplier, fetchProducts]);
+
+  const handleHistoryClick = useCallback(async (supplier: Supplier) => {
+    setSelectedSupplier(supplier);
+    setHistoryDialogOpen(true);
+    await fetchPurchases(supplier.id);
+  }, [fetchPurchases]);
+
+  const handleCall = useCallback(async (phone: string) => {
+    try {
+      await Linking.openURL(`tel:${phone}`);
+    } catch {
+      Toaster.error("Call Failed", { description: "Could not open the phone dialer." });
+    }
+  }, []);
+
+  if (initialLoading) {
+    return (
+      <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+        <View className="flex-1 justify-center items-center bg-transparent">
+          <ActivityIndicator size="large" color={COLORS.primary} />
+          <Text className="mt-4 text-muted-foreground">Loading suppliers...</Text>
+        </View>
+      </LinearGradient>
+    );
+  }
+
+  const formFields: { key: keyof typeof emptyForm; label: string; placeholder: string; keyboardType?: 'phone-pad' | 'email-address' }[] = [
+    { key: 'name', label: 'Name', placeholder: 'Enter supplier or firm name' },
+    { key: 'contactPerson', label: 'Contact Person', placeholder: 'Who you deal with (optional)' },
+    { key: 'phone', label: 'Phone', placeholder: 'Enter phone number (optional)', keyboardType: 'phone-pad' },
+    { key: 'email', label: 'Email', placeholder: 'Enter email (optional)', keyboardType: 'email-address' },
+    { key: 'address', label: 'Address', placeholder: 'Enter address (optional)' },
+  ];
+
+  return (
+    <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+      <View className="flex-1 bg-transparent">
+        <View className="p-4">
+          <View className="flex-row justify-between items-center mb-2">
+            <Text className="text-2xl font-bold text-foreground">Manage Suppliers</Text>
+            <Button
+              onPress={() => {
+                resetFormAndCloseDialog();
+                setDialogOpen(true);
+              }}
+              disabled={storeIsLoading}
+              size="icon"
+              variant="ghost"
+            >
+              <Plus size={20} color="#3B82F6" />
+            </Button>
+          </View>
+
+          <View className="flex-row items-center bg-muted rounded-lg px-3">
+            <Search size={20} className="text-muted-foreground" />
+            <Input
+              placeholder="Search Name, Contact or Phone..."
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              className="flex-1 h-11 border-0 bg-transparent ml-2 text-base text-foreground"
+              placeholderTextColor="hsl(var(--muted-foreground))"
+            />
+            {searchQuery.length > 0 && (
+              <TouchableOpacity onPress={() => setSearchQuery('')} className="p-1">
+                <XCircle size={18} color="#EF4444" />
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        <FlatList
+          data={filteredSuppliers}
+          keyExtractor={(item) => item.id}
+          ListEmptyComponent={() => (
+            <View className="items-center justify-center py-10 px-4">
+              <Text className="text-muted-foreground text-center mb-4">
+                {searchQuery ? 'No suppliers match your search.' : 'No suppliers added yet.'}
+              </Text>
+              {!searchQuery && (
+                <Button
+                  onPress={() => {
+                    resetFormAndCloseDialog();
+                    setDialogOpen(true);
+                  }}
+                  variant="ghost"
+                >
+                  <Text className="text-primary">Add Supplier</Text>
+                </Button>
+              )}
+            </View>
+          )}
+          renderItem={({ item }) => {
+            const linkedProducts = productsBySupplier[item.id] || [];
+            return (
+              <Card className="mb-2 mx-4 bg-card">
+                <CardContent className="pt-4">
+                  <View className="flex-row items-start justify-between">
+                    <View className="flex-1 mr-2">
+                      <Text className="text-foreground font-semibold text-lg">{item.name}</Text>
+                      {item.contactPerson && <Text className="text-sm text-muted-foreground">{item.contactPerson}</Text>}
+                      {item.phone && <Text className="text-sm text-muted-foreground">{item.phone}</Text>}
+                      {item.address && <Text className="text-xs text-muted-foreground" numberOfLines={1}>{item.address}</Text>}
+                      {linkedProducts.length > 0 && (
+                        <Text className="text-xs mt-1" style={{ color: COLORS.primary }} numberOfLines={2}>
+                          Supplies: {linkedProducts.join(', ')}
+                        </Text>
+                      )}
+                    </View>
+                    <View className="flex-row gap-x-1">
+                      {item.phone && (
+                        <Button variant="ghost" size="icon" onPress={() => handleCall(item.phone!)}>
+                          <Phone size={20} color="#10B981" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" onPress={() => handleHistoryClick(item)} disabled={storeIsLoading}>
+                        <History size={20} color={COLORS.primary} />
+                      </Button>
+                      <Button variant="ghost" size="icon" onPress={() => handleEditClick(item)} disabled={storeIsLoading}>
+                        <Pencil size={20} color="#3B82F6" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onPress={() => {
+                          setSelectedSupplier(item);
+                          clearError();
+                          setDeleteConfirmDialogOpen(true);
+                        }}
+                        disabled={storeIsLoading}
+                      >
+                        <Trash2 size={20} color="#EF4444" />
+                      </Button>
+                    </View>
+                  </View>
+                </CardContent>
+              </Card>
+            );
+          }}
+          contentContainerStyle={{ paddingBottom: 20 }}
+        />
+
+        <Dialog open={dialogOpen} onOpenChange={(open) => {
+          if (!open) resetFormAndCloseDialog();
+          else setDialogOpen(open);
+        }}>
+          <DialogContent className="p-0 bg-background rounded-lg shadow-lg max-w-md w-96 mx-auto">
+            <DialogHeader className="p-4 border-b border-border">
+              <DialogTitle className="text-xl font-bold text-foreground">
+                {formMode === 'edit' ? 'Edit Supplier' : 'Add New Supplier'}
+              </DialogTitle>
+            </DialogHeader>
+            <ScrollView contentContainerStyle={{ padding: 16 }} keyboardShouldPersistTaps="handled">
+              <View className="space-y-4">
+                {formError && <Text className="text-destructive text-center">{formError}</Text>}
+                {formFields.map((field) => (
+                  <View key={field.key}>
+                    <Text className="mb-1 text-sm font-medium text-muted-foreground">
+                      {field.label} {field.key === 'name' && <Text className="text-destructive">*</Text>}
+                    </Text>
+                    <Input
+                      placeholder={field.placeholder}
+                      keyboardType={field.keyboardType || 'default'}
+                      autoCapitalize={field.keyboardType === 'email-address' ? 'none' : 'sentences'}
+                      value={form[field.key]}
+                      onChangeText={(text) => setForm((prev) => ({ ...prev, [field.key]: text }))}
+                      className="h-12 text-base border border-gray-300 dark:border-gray-600"
+                      editable={!storeIsLoading}
+                    />
+                  </View>
+                ))}
+              </View>
+            </ScrollView>
+            <DialogFooter className="p-4 flex-row justify-end gap-x-2 border-t border-border">
+              <Button variant="outline" onPress={resetFormAndCloseDialog} disabled={storeIsLoading}>
+                <Text>Cancel</Text>
+              </Button>
+              <Button className='bg-[#a855f7] dark:bg-[#00b9f1]' onPress={handleSubmit} disabled={storeIsLoading}>
+                <Text className="text-white dark:text-white">
+                  {storeIsLoading ? <ActivityIndicator size="small" color="hsl(var(--primary-foreground))" /> : (formMode === 'edit' ? 'Save Changes' : 'Add Supplier')}
+                </Text>
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={historyDialogOpen} onOpenChange={(open) => {
+          setHistoryDialogOpen(open);
+          if (!open) setSelectedSupplier(null);
+        }}>
+          <DialogContent className="p-0 bg-background rounded-lg shadow-lg max-w-md w-96 mx-auto">
+            <DialogHeader className="p-4 border-b border-border">
+              <DialogTitle className="text-xl font-bold text-foreground">Purchase History</DialogTitle>
+              <Text className="text-sm text-muted-foreground">{selectedSupplier?.name}</Text>
+            </DialogHeader>
+            {storeIsLoading ? (
+              <View className="py-10 items-center">
+                <ActivityIndicator size="large" color={COLORS.primary} />
+              </View>
+            ) : purchases.length === 0 ? (
+              <Text className="text-muted-foreground text-center py-8 px-4">
+                Nothing received from this supplier yet. Pick them when receiving stock to build a history.
+              </Text>
+            ) : (
+              <ScrollView style={{ maxHeight: 400 }} contentContainerStyle={{ padding: 16 }}>
+                {purchases.map((purchase) => (
+                  <View key={purchase.batchId} className="flex-row py-2 border-b border-border">
+                    <View className="flex-1 pr-2">
+                      <Text className="text-sm text-foreground">{purchase.productName}</Text>
+                      <Text className="text-xs text-muted-foreground">
+                        {format(parseISO(purchase.purchaseDate), 'dd MMM yyyy')}
+                        {purchase.batchNumber ? ` · Batch ${purchase.batchNumber}` : ''}
+                      </Text>
+                    </View>
+                    <View className="items-end">
+                      <Text className="text-sm font-semibold text-foreground">₹{purchase.totalCost.toFixed(2)}</Text>
+                      <Text className="text-xs text-muted-foreground">
+                        {purchase.quantity} {purchase.unit} × ₹{purchase.unitCost.toFixed(2)}
+                      </Text>
+                    </View>
+                  </View>
+                ))}
+                <View className="flex-row justify-between pt-3">
+                  <Text className="text-sm font-semibold text-foreground">Total Purchased</Text>
+                  <Text className="text-sm font-bold" style={{ color: COLORS.primary }}>₹{purchaseTotal.toFixed(2)}</Text>
+                </View>
+              </ScrollView>
+            )}
+            <DialogFooter className="p-4 flex-row justify-end border-t border-border">
+              <Button variant="outline" onPress={() => setHistoryDialogOpen(false)}>
+                <Text>Close</Text>
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={deleteConfirmDialogOpen} onOpenChange={(open) => {
+          setDeleteConfirmDialogOpen(open);
+          if (!open) {
+            setSelectedSupplier(null);
+            clearError();
+          }
+        }}>
+          <DialogContent className="p-6 bg-background rounded-lg shadow-lg max-w-md w-96 mx-auto">
+            <DialogHeader>
+              <DialogTitle className="text-xl font-bold text-foreground">Confirm Deletion</DialogTitle>
+            </DialogHeader>
+            <Text className="text-muted-foreground my-4">
+              Are you sure you want to delete "{selectedSupplier?.name}"? Products linked to this supplier will be unlinked.
+            </Text>
+            {storeError && <Text className="text-destructive text-center mb-2">{storeError}</Text>}
+            <DialogFooter className="flex-row justify-end gap-x-3">
+              <Button variant="outline" onPress={() => setDeleteConfirmDialogOpen(false)} disabled={storeIsLoading}>
+                <Text>Cancel</Text>
+              </Button>
+              <Button variant="destructive" onPress={handleDeleteConfirm} disabled={storeIsLoading}>
+                <Text className="text-destructive-foreground">
+                  {storeIsLoading ? <ActivityIndicator size="small" color="hsl(var(--destructive-foreground))" /> : 'Delete'}
+                </Text>
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </View>
+    </LinearGradient>
+  );
+};
+
+export default SupplierManagementScreen;
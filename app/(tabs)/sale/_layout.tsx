@@ -44,6 +44,12 @@ export default function SalesStackLayout() {
                     title: 'Receipts History',
                 }}
             />
+            <Stack.Screen
+                name="returns"
+                options={{
+                    title: 'Sale Return',
+                }}
+            />
         </Stack>
     );
 }
\ No newline at end of file
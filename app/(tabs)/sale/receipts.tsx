@@ -7,11 +7,14 @@ import * as Sharing from 'expo-sharing';
 import { Text } from '~/components/ui/text';
 import { Input } from '~/components/ui/input';
 import { Card, CardContent } from '~/components/ui/card';
-import { Search, FileText, Share2, Eye, UserCircle } from 'lucide-react-native';
+import { Search, FileText, Share2, Eye, UserCircle, Undo2 } from 'lucide-react-native';
 import { format, parseISO } from 'date-fns';
 import { useColorScheme } from '~/lib/useColorScheme';
 import { previewExistingReceipt } from '~/lib/utils/receiptUtils';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useAuthStore } from '~/lib/stores/authStore';
+import { getPaymentsForSales } from '~/lib/db/salePaymentOperations';
+import { formatPaymentBreakdown } from '~/lib/utils/paymentUtils';
 
 // Define the color palette based on theme
 export const getColors = (colorScheme: 'light' | 'dark') => ({
@@ -41,6 +44,8 @@ interface ReceiptHistoryItem {
     customerName?: string | null; // From Sales table (denormalized) or joined Customers table
     customerPhone?: string | null; // From Sales table or joined
     paymentType?: string | null; // From Sales table
+    salesStatus?: string | null; // COMPLETED, PARTIALLY_RETURNED or RETURNED
+    paymentBreakdown?: string; // e.g. "Cash ₹200.00 + UPI ₹300.00"
 }
 
 const db = getDatabase();
@@ -51,6 +56,7 @@ export default function ReceiptsScreen() {
     const { isDarkColorScheme } = useColorScheme(); // Your custom hook
     const currentRNColorScheme = rnColorScheme(); // From react-native
     const COLORS = getColors(currentRNColorScheme || 'light');
+    const currentUserId = useAuthStore((state) => state.userId);
 
     const [receipts, setReceipts] = useState<ReceiptHistoryItem[]>([]);
     const [isLoading, setIsLoading] = useState(true);
@@ -81,7 +87,8 @@ export default function ReceiptsScreen() {
                   s.totalAmount,
                   s.customerName, 
                   s.customerPhone,
-                  s.paymentType 
+                  s.paymentType,
+                  s.salesStatus
                 FROM Receipts r
                 JOIN Sales s ON r.saleId = s.id
             `;
@@ -101,6 +108,9 @@ export default function ReceiptsScreen() {
             sqlQuery += ` ORDER BY r.generatedAt DESC`;
 
             const result = await db.getAllAsync<ReceiptHistoryItem>(sqlQuery, params);
+            const paymentsBySale = currentUserId
+                ? await getPaymentsForSales(currentUserId, result.map(item => item.saleId))
+                : {};
             const formattedResult: ReceiptHistoryItem[] = result.map(item => ({
                 id: item.id,
                 saleId: item.saleId,
@@ -112,6 +122,8 @@ export default function ReceiptsScreen() {
                 customerName: item.customerName,
                 customerPhone: item.customerPhone,
                 paymentType: item.paymentType,
+                salesStatus: item.salesStatus,
+                paymentBreakdown: formatPaymentBreakdown(paymentsBySale[item.saleId], item.paymentType),
             }));
             setReceipts(formattedResult);
         } catch (error) {
@@ -122,7 +134,7 @@ export default function ReceiptsScreen() {
             setIsLoading(false);
             setRefreshing(false);
         }
-    }, [searchQuery]); // searchQuery is a dependency
+    }, [searchQuery, currentUserId]); // searchQuery is a dependency
 
     useEffect(() => {
         const handler = setTimeout(() => {
@@ -170,6 +182,10 @@ export default function ReceiptsScreen() {
         await previewExistingReceipt(filePath, receiptNumber);
     };
 
+    const handleReturnItems = (saleId: string, receiptNumber: string) => {
+        router.push({ pathname: '/(tabs)/sale/returns', params: { saleId, receiptNumber } });
+    };
+
     const flatListRef = React.useRef<FlatList>(null);
 
     useEffect(() => {
@@ -211,7 +227,12 @@ export default function ReceiptsScreen() {
                             )}
                             {item.paymentType && (
                                 <Text className="text-xs text-muted-foreground native:text-gray-600 mt-0.5">
-                                    Paid via: {item.paymentType}
+                                    Paid via: {item.paymentBreakdown || item.paymentType}
+                                </Text>
+                            )}
+                            {(item.salesStatus === 'PARTIALLY_RETURNED' || item.salesStatus === 'RETURNED') && (
+                                <Text className="text-xs font-medium mt-0.5" style={{ color: COLORS.danger }}>
+                                    {item.salesStatus === 'RETURNED' ? 'Returned' : 'Partially Returned'}
                                 </Text>
                             )}
                         </View>
@@ -231,6 +252,15 @@ export default function ReceiptsScreen() {
                                     </View>
                                 </View>
                             </TouchableOpacity>
+                            {item.salesStatus !== 'RETURNED' && (
+                                <TouchableOpacity
+                                    onPress={() => handleReturnItems(item.saleId, item.receiptNumber)}
+                                    className="p-2 bg-muted rounded-md flex-row items-center"
+                                >
+                                    <Undo2 size={18} color={COLORS.danger} />
+                                    <Text className="ml-1 text-xs" style={{ color: COLORS.danger }}>Return</Text>
+                                </TouchableOpacity>
+                            )}
                         </View>
                     </View>
                     {!item.filePath && (
@@ -0,0 +1,281 @@
+// app/(tabs)/sale/returns.tsx
+import React, { useState, useCallback, useMemo } from 'react';
+import { View, FlatList, TouchableOpacity, ActivityIndicator, Platform, useColorScheme as rnColorScheme } from 'react-native';
+import { useRouter, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Picker } from '@react-native-picker/picker';
+import { MinusCircle, PlusCircle, Undo2, Package } from 'lucide-react-native';
+import { format, parseISO } from 'date-fns';
+import { Text } from '~/components/ui/text';
+import { Input } from '~/components/ui/input';
+import { Button } from '~/components/ui/button';
+import { Card, CardContent } from '~/components/ui/card';
+import { Separator } from '~/components/ui/separator';
+import { getColors } from '~/app/(tabs)/sale';
+import { Toaster } from '~/components/toaster/Toaster';
+import { useAuthStore } from '~/lib/stores/authStore';
+import { useProductStore } from '~/lib/stores/productStore';
+import { useCustomerStore } from '~/lib/stores/customerStore';
+import { SaleItemForReturn, SaleReturn } from '~/lib/stores/types';
+import { createReturn, getReturnableSaleItems, getReturnsForSale, getSaleKhataBalance } from '~/lib/db/returnOperations';
+import { PAYMENT_METHODS } from '~/lib/constants';
+import { getPaymentMethodLabel } from '~/lib/utils/paymentUtils';
+import { formatQuantity, roundQuantity } from '~/lib/utils/quantityUtils';
+
+export default function ReturnsScreen() {
+    const router = useRouter();
+    const { saleId, receiptNumber } = useLocalSearchParams<{ saleId?: string; receiptNumber?: string }>();
+    const currentRNColorScheme = rnColorScheme();
+    const COLORS = getColors(currentRNColorScheme || 'light');
+    const currentUserId = useAuthStore((state) => state.userId);
+    const fetchProducts = useProductStore((state) => state.fetchProducts);
+
+    const [saleItems, setSaleItems] = useState<SaleItemForReturn[]>([]);
+    const [pastReturns, setPastReturns] = useState<SaleReturn[]>([]);
+    const [returnQuantities, setReturnQuantities] = useState<Record<string, number>>({});
+    const [reason, setReason] = useState('');
+    const [refundMethod, setRefundMethod] = useState(PAYMENT_METHODS[0].value);
+    const [khataBalance, setKhataBalance] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const loadSale = useCallback(async () => {
+        if (!saleId || !currentUserId) {
+            setIsLoading(false);
+            return;
+        }
+        setIsLoading(true);
+        try {
+            const [items, returns, khata] = await Promise.all([
+                getReturnableSaleItems(currentUserId, saleId),
+                getReturnsForSale(currentUserId, saleId),
+                getSaleKhataBalance(currentUserId, saleId),
+            ]);
+            setSaleItems(items);
+            setPastReturns(returns);
+            setKhataBalance(khata);
+            setReturnQuantities({});
+        } catch (error: any) {
+            Toaster.error("Load Error", { description: error.message || "Failed to load sale items." });
+        } finally {
+            setIsLoading(false);
+        }
+    }, [saleId, currentUserId]);
+
+    useFocusEffect(
+        useCallback(() => {
+            loadSale();
+        }, [loadSale])
+    );
+
+    const refundTotal = useMemo(() => {
+        return saleItems.reduce((sum, item) => {
+            const qty = returnQuantities[item.id] || 0;
+            const unitRefund = item.quantity > 0 ? item.subtotal / item.quantity : 0;
+            return sum + unitRefund * qty;
+        }, 0);
+    }, [saleItems, returnQuantities]);
+
+    // On a khata sale the refund first reduces what is still owed; only the rest is paid out
+    const offKhata = khataBalance != null ? Math.min(refundTotal, khataBalance) : 0;
+    const paidOut = Math.max(refundTotal - offKhata, 0);
+    const refundMethods = useMemo(() => PAYMENT_METHODS.filter((method) => method.value !== 'CREDIT_KHATA'), []);
+
+    const setReturnQuantity = (item: SaleItemForReturn, quantity: number) => {
+        const returnable = roundQuantity(item.quantity - item.returnedQuantity);
+        let next = roundQuantity(quantity);
+        if (next < 0) next = 0;
+        if (next > returnable) {
+            next = returnable;
+            Toaster.warning("Return Limit", { description: `Only ${returnable} of ${item.productName} can be returned.` });
+        }
+        setReturnQuantities((prev) => ({ ...prev, [item.id]: next }));
+    };
+
+    const handleConfirmReturn = async () => {
+        if (!saleId || !currentUserId) {
+            Toaster.error("Authentication Error", { description: "User not authenticated to record a return." });
+            return;
+        }
+        const items = Object.entries(returnQuantities)
+            .filter(([, quantity]) => quantity > 0)
+            .map(([saleItemId, quantity]) => ({ saleItemId, quantity }));
+        if (items.length === 0) {
+            Toaster.warning("Nothing to Return", { description: "Select at least one item and quantity to return." });
+            return;
+        }
+        setIsProcessing(true);
+        try {
+            const saleReturn = await createReturn(currentUserId, {
+                saleId,
+                items,
+                reason: reason.trim() || null,
+                refundMethod,
+            });
+            Toaster.success("Return Recorded", {
+                description: offKhata > 0
+                    ? `₹${offKhata.toFixed(2)} taken off the khata${paidOut > 0.005 ? ` and ₹${paidOut.toFixed(2)} refunded` : ''}. Stock updated.`
+                    : `Refund of ₹${saleReturn.totalAmount.toFixed(2)} recorded and stock updated.`,
+            });
+            setReason('');
+            await Promise.all([loadSale(), fetchProducts(), offKhata > 0 ? useCustomerStore.getState().fetchCustomers() : null]);
+        } catch (error: any) {
+            Toaster.error("Return Failed", { description: error.message || "Failed to record return." });
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const renderSaleItem = ({ item }: { item: SaleItemForReturn }) => {
+        const returnable = roundQuantity(item.quantity - item.returnedQuantity);
+        const selected = returnQuantities[item.id] || 0;
+        const unitRefund = item.quantity > 0 ? item.subtotal / item.quantity : 0;
+
+        return (
+            <Card className="mb-3 mx-1 bg-card border border-border">
+                <CardContent className="p-4">
+                    <View className="flex-row justify-between items-start">
+                        <View className="flex-row items-center flex-1 mr-2">
+                            <View className="w-10 h-10 rounded-lg mr-3 items-center justify-center">
+                                <Package size={22} color={COLORS.primary} />
+                            </View>
+                            <View className="flex-1">
+                                <Text className="text-base font-semibold" style={{ color: COLORS.dark }}>{item.productName}</Text>
+                                <Text className="text-xs" style={{ color: COLORS.gray }}>
+                                    Sold: {formatQuantity(item.quantity)} · Returned: {formatQuantity(item.returnedQuantity)} · ₹{unitRefund.toFixed(2)} each
+                                </Text>
+                            </View>
+                        </View>
+                    </View>
+                    <View className="flex-row justify-between items-center mt-3">
+                        {returnable > 0 ? (
+                            <View className="flex-row items-center">
+                                <TouchableOpacity onPress={() => setReturnQuantity(item, selected - 1)} disabled={selected <= 0} className="p-1.5">
+                                    <MinusCircle size={18} color={selected <= 0 ? COLORS.gray : COLORS.danger} />
+                                </TouchableOpacity>
+                                <Input
+                                    className="w-12 h-8 mx-1 text-center text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600"
+                                    keyboardType="numeric"
+                                    value={String(selected)}
+                                    onChangeText={(text) => {
+                                        const num = parseFloat(text.replace(/[^0-9.]/g, ''));
+                                        setReturnQuantity(item, isNaN(num) ? 0 : num);
+                                    }}
+                                    style={{ backgroundColor: COLORS.white, color: COLORS.primary }}
+                                />
+                                <TouchableOpacity onPress={() => setReturnQuantity(item, Math.min(selected + 1, returnable))} disabled={selected >= returnable} className="p-1.5">
+                                    <PlusCircle size={18} color={selected >= returnable ? COLORS.gray : COLORS.dark} />
+                                </TouchableOpacity>
+                            </View>
+                        ) : (
+                            <Text className="text-xs" style={{ color: COLORS.gray }}>Fully returned</Text>
+                        )}
+                        <Text className="text-sm font-bold" style={{ color: COLORS.primary }}>
+                            ₹{(unitRefund * selected).toFixed(2)}
+                        </Text>
+                    </View>
+                </CardContent>
+            </Card>
+        );
+    };
+
+    if (isLoading) {
+        return (
+            <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+                <View className="flex-1 justify-center items-center bg-transparent">
+                    <ActivityIndicator size="large" color={COLORS.primary} />
+                    <Text className="mt-2 text-muted-foreground native:text-gray-500">Loading Sale...</Text>
+                </View>
+            </LinearGradient>
+        );
+    }
+
+    if (!saleId || saleItems.length === 0) {
+        return (
+            <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+                <View className="flex-1 justify-center items-center bg-transparent p-4">
+                    <Undo2 size={48} color={COLORS.gray} className="opacity-50" />
+                    <Text className="mt-4 text-lg text-muted-foreground native:text-gray-500">No items to return</Text>
+                    <Button variant="ghost" onPress={() => router.back()}>
+                        <Text className="text-primary">Back to Receipts</Text>
+                    </Button>
+                </View>
+            </LinearGradient>
+        );
+    }
+
+    return (
+        <LinearGradient colors={[COLORS.white, COLORS.yellow]} style={{ flex: 1 }}>
+            <View className="flex-1 p-4 bg-transparent">
+                <Text className="text-base font-semibold mb-3" style={{ color: COLORS.dark }}>
+                    Return items from {receiptNumber || `RCPT-${saleId.substring(0, 8).toUpperCase()}`}
+                </Text>
+                <FlatList
+                    data={saleItems}
+                    renderItem={renderSaleItem}
+                    keyExtractor={(item) => item.id}
+                    showsVerticalScrollIndicator={false}
+                    contentContainerStyle={{ paddingBottom: 12 }}
+                    keyboardShouldPersistTaps="handled"
+                    ListFooterComponent={
+                        pastReturns.length > 0 ? (
+                            <View className="mt-2 mx-1">
+                                <Text className="text-sm font-medium mb-1" style={{ color: COLORS.gray }}>Previous Returns</Text>
+                                {pastReturns.map((r) => (
+                                    <Text key={r.id} className="text-xs" style={{ color: COLORS.gray }}>
+                                        {format(parseISO(r.timestamp), 'dd MMM yyyy, hh:mm a')} · ₹{r.totalAmount.toFixed(2)}
+                                        {r.refundMethod ? ` via ${getPaymentMethodLabel(r.refundMethod)}` : ''}{r.reason ? ` · ${r.reason}` : ''}
+                                    </Text>
+                                ))}
+                            </View>
+                        ) : null
+                    }
+                />
+                <Separator className="my-2" style={{ backgroundColor: COLORS.gray }} />
+                <Input
+                    placeholder="Reason for return (optional)"
+                    value={reason}
+                    onChangeText={setReason}
+                    className="h-11 mb-3 border border-gray-300 dark:border-gray-600"
+                    style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                    placeholderTextColor={COLORS.gray}
+                />
+                <Text className="text-sm font-medium mb-1" style={{ color: COLORS.gray }}>Refund Method</Text>
+                <View className="rounded-md border mb-3" style={{ borderColor: COLORS.border, backgroundColor: COLORS.white }}>
+                    <Picker
+                        selectedValue={refundMethod}
+                        onValueChange={(itemValue) => setRefundMethod(itemValue)}
+                        style={{ height: Platform.OS === 'ios' ? 120 : 55, color: COLORS.dark, width: '100%' }}
+                        itemStyle={{ color: COLORS.dark, fontSize: 14 }}
+                    >
+                        {refundMethods.map((method) => (
+                            <Picker.Item key={method.value} label={method.label} value={method.value} />
+                        ))}
+                    </Picker>
+                </View>
+                {offKhata > 0 && (
+                    <Text className="text-xs mb-2" style={{ color: COLORS.gray }}>
+                        ₹{offKhata.toFixed(2)} comes off the ₹{khataBalance!.toFixed(2)} still owed on khata
+                        {paidOut > 0.005 ? `; ₹${paidOut.toFixed(2)} is refunded by the method above.` : '; nothing is paid out.'}
+                    </Text>
+                )}
+                <View className="flex-row justify-between items-center mb-3">
+                    <Text className="text-base font-bold" style={{ color: COLORS.dark }}>Refund Total:</Text>
+                    <Text className="text-base font-bold" style={{ color: COLORS.primary }}>₹{refundTotal.toFixed(2)}</Text>
+                </View>
+                <Button
+                    className="h-12"
+                    style={{ backgroundColor: COLORS.primary }}
+                    onPress={handleConfirmReturn}
+                    disabled={isProcessing || refundTotal <= 0}
+                >
+                    {isProcessing ? (
+                        <ActivityIndicator size="small" color={COLORS.white} />
+                    ) : (
+                        <Text className="font-semibold" style={{ color: COLORS.white }}>Confirm Return</Text>
+                    )}
+                </Button>
+            </View>
+        </LinearGradient>
+    );
+}
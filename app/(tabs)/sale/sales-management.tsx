@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import {
   View,
   SafeAreaView,
@@ -7,10 +7,12 @@ import {
   ActivityIndicator,
   Image,
   RefreshControl,
-  // Alert, // We'll replace Alert with toast
+  ScrollView,
+  Alert,
+  TextInput,
 } from 'react-native';
 import { useRouter } from 'expo-router';
-import { Package, PlusCircle, MinusCircle, Search, UserPlus, Edit3, AlertCircle } from 'lucide-react-native';
+import { Package, PlusCircle, MinusCircle, Search, ScanBarcode, UserPlus, Edit3, AlertCircle, Clock, XCircle } from 'lucide-react-native';
 import { Text } from '~/components/ui/text';
 import { Input } from '~/components/ui/input';
 import { Button } from '~/components/ui/button';
@@ -19,6 +21,7 @@ import { useProductStore } from '~/lib/stores/productStore';
 import { Product } from '~/lib/models/product';
 import { useCustomerStore } from '~/lib/stores/customerStore';
 import { useCartStore } from '~/lib/stores/cartStore';
+import { useDraftSaleStore } from '~/lib/stores/draftSaleStore';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '~/components/ui/dialog';
 import { getColors } from '~/app/(tabs)/sale'; // Assuming this path is correct
@@ -26,14 +29,25 @@ import { useColorScheme as rnColorScheme } from 'react-native';
 // import { v4 as uuidv4 } from 'uuid'; // uuidv4 seems unused
 import { useAuthStore } from '~/lib/stores/authStore';
 import GlobalToaster, { Toaster } from '~/components/toaster/Toaster'; 
+import { format, parseISO } from 'date-fns';
+import {
+  allowsDecimalQuantity,
+  formatQuantity,
+  getQuantityStep,
+  parseQuantity,
+  quantityForAmount,
+  roundQuantity,
+  sanitizeQuantityInput,
+} from '~/lib/utils/quantityUtils';
 
 export default function SalesScreen() {
   const colorSchemeFromHook = rnColorScheme();
   const COLORS = getColors(colorSchemeFromHook || 'light');
   const router = useRouter();
-  const { products, fetchProducts } = useProductStore();
+  const { products, fetchProducts, findProductByCode } = useProductStore();
   const { customers, fetchCustomers, addCustomer, setSelectedCustomer } = useCustomerStore();
-  const { addToCart, selectedQuantities } = useCartStore();
+  const { addToCart, selectedQuantities, cartItems, setIsCartOpen, loadSalesSettings } = useCartStore();
+  const { draftSales, fetchDraftSales, holdCurrentSale, resumeDraftSale, deleteDraftSale } = useDraftSaleStore();
   const currentUserId = useAuthStore((state) => state.userId);
   const [searchQuery, setSearchQuery] = useState('');
   const [refreshing, setRefreshing] = useState(false);
@@ -44,11 +58,16 @@ export default function SalesScreen() {
   const [isAddingNewCustomer, setIsAddingNewCustomer] = useState(false);
   const [newCustomerForm, setNewCustomerForm] = useState({ name: '', phone: '', email: '' });
   const [isProcessing, setIsProcessing] = useState(false);
+  const searchInputRef = useRef<TextInput>(null);
+  const [quantityDrafts, setQuantityDrafts] = useState<Record<string, string>>({}); // Card quantities still being typed
+  const [amountProduct, setAmountProduct] = useState<Product | null>(null); // Loose product being sold by rupee amount
+  const [amountText, setAmountText] = useState('');
+  const [variantParent, setVariantParent] = useState<Product | null>(null); // Parent whose variants are being picked
 
   const loadInitialData = useCallback(async () => {
     setIsLoading(true);
     try {
-      await Promise.all([fetchProducts(), fetchCustomers()]);
+      await Promise.all([fetchProducts(), fetchCustomers(), fetchDraftSales(), loadSalesSettings()]);
     } catch (error) {
       console.error("Error fetching initial data:", error);
       const message = error instanceof Error ? error.message : "An unknown error occurred.";
@@ -56,7 +75,7 @@ export default function SalesScreen() {
     } finally {
       setIsLoading(false);
     }
-  }, [fetchProducts, fetchCustomers]);
+  }, [fetchProducts, fetchCustomers, fetchDraftSales, loadSalesSettings]);
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -92,12 +111,38 @@ export default function SalesScreen() {
     }
   }, [products, selectedQuantities]);
 
+  const variantsByParent = useMemo(() => {
+    const map = new Map<string, Product[]>();
+    products.forEach((p) => {
+      if (p.parentId) map.set(p.parentId, [...(map.get(p.parentId) ?? []), p]);
+    });
+    return map;
+  }, [products]);
+
+  // What can be sold under a parent card: its variants, plus the parent itself while it still has stock of its own
+  const getVariantOptions = useCallback(
+    (parentId: string): Product[] => {
+      const variants = variantsByParent.get(parentId);
+      if (!variants) return [];
+      const parent = products.find((p) => p.id === parentId);
+      return parent && (parent.quantity > 0 || selectedQuantities[parent.id]) ? [parent, ...variants] : variants;
+    },
+    [variantsByParent, products, selectedQuantities]
+  );
+
+  // Variants are sold from their parent's card, so a search that hits a variant shows the parent
   const filteredProducts = useMemo(() => {
-    if (!searchQuery) return displayProducts;
+    if (!searchQuery) return displayProducts.filter((product) => !product.parentId);
+    const matches = (product: Product) =>
+      product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      (product.category && product.category.toLowerCase().includes(searchQuery.toLowerCase())) ||
+      product.barcode === searchQuery.trim() ||
+      product.alternateCode === searchQuery.trim();
+    const parentIdsOfMatches = new Set(
+      displayProducts.filter((product) => product.parentId && matches(product)).map((product) => product.parentId)
+    );
     return displayProducts.filter(
-      (product) =>
-        product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (product.category && product.category.toLowerCase().includes(searchQuery.toLowerCase()))
+      (product) => !product.parentId && (matches(product) || parentIdsOfMatches.has(product.id))
     );
   }, [displayProducts, searchQuery]);
 
@@ -116,10 +161,10 @@ export default function SalesScreen() {
       if (!originalProduct) return;
       const currentSelectedQty = selectedQuantities[productId] || 0;
       if (currentSelectedQty >= originalProduct.quantity) {
-        Toaster.warning("Stock Limit", { description: `Maximum stock for ${originalProduct.name} is ${originalProduct.quantity}.` });
+        Toaster.warning("Stock Limit", { description: `Maximum stock for ${originalProduct.name} is ${formatQuantity(originalProduct.quantity)}.` });
         return;
       }
-      const newSelectedQty = currentSelectedQty + 1;
+      const newSelectedQty = roundQuantity(Math.min(currentSelectedQty + getQuantityStep(originalProduct), originalProduct.quantity));
       addToCart(originalProduct, newSelectedQty);
     },
     [products, addToCart, selectedQuantities]
@@ -131,12 +176,67 @@ export default function SalesScreen() {
       if (currentSelectedQty <= 0) return;
       const originalProduct = products.find((p) => p.id === productId);
       if (!originalProduct) return;
-      const newSelectedQty = currentSelectedQty - 1;
+      const newSelectedQty = roundQuantity(currentSelectedQty - getQuantityStep(originalProduct));
       addToCart(originalProduct, newSelectedQty);
     },
     [addToCart, selectedQuantities, products]
   );
 
+  // Keyboard-wedge scanners type the code and press Enter, so submitting the
+  // search box with an exact code adds one unit straight to the cart.
+  const handleCodeSubmit = useCallback(async () => {
+    const code = searchQuery.trim();
+    if (!code) return;
+    const product = await findProductByCode(code);
+    if (product) {
+      setSearchQuery('');
+      const inCart = selectedQuantities[product.id] || 0;
+      increaseListQuantity(product.id); // Warns on its own when stock runs out
+      if (inCart < product.quantity) {
+        const newQty = Math.min(inCart + getQuantityStep(product), product.quantity);
+        Toaster.success("Added to Cart", { description: `${product.name} × ${formatQuantity(newQty)}` });
+      }
+    } else if (!/\s/.test(code) && filteredProducts.length === 0) {
+      Alert.alert(
+        'Unknown Code',
+        `No product has the code ${code}. Create one now?`,
+        [
+          { text: 'Cancel', style: 'cancel', onPress: () => setSearchQuery('') },
+          {
+            text: 'Create Product',
+            onPress: () => {
+              setSearchQuery('');
+              router.push({ pathname: '/(tabs)/inventory/products', params: { barcode: code } });
+            },
+          },
+        ]
+      );
+    }
+    searchInputRef.current?.focus();
+  }, [searchQuery, findProductByCode, increaseListQuantity, selectedQuantities, filteredProducts.length, router]);
+
+  const amountQuantity = amountProduct ? quantityForAmount(parseFloat(amountText) || 0, amountProduct.sellingPrice) : 0;
+
+  const openAmountEntry = (product: Product) => {
+    setAmountText('');
+    setAmountProduct(product);
+  };
+
+  // "₹50 worth of sugar": the weight is worked out from the price and added to what is already in the cart
+  const handleAddByAmount = () => {
+    if (!amountProduct || amountQuantity <= 0) return;
+    const inCart = selectedQuantities[amountProduct.id] || 0;
+    let newQty = roundQuantity(inCart + amountQuantity);
+    if (newQty > amountProduct.quantity) {
+      newQty = amountProduct.quantity;
+      Toaster.warning("Stock Limit", { description: `Only ${formatQuantity(amountProduct.quantity)} ${amountProduct.unit} of ${amountProduct.name} in stock.` });
+    } else {
+      Toaster.success("Added to Cart", { description: `${amountProduct.name} × ${formatQuantity(amountQuantity)} ${amountProduct.unit}` });
+    }
+    addToCart(amountProduct, newQty);
+    setAmountProduct(null);
+  };
+
   const handleAddNewCustomer = async () => {
     if (!newCustomerForm.name.trim() || !newCustomerForm.phone.trim()) {
       Toaster.warning("Validation Error", { description: "Customer name and phone are required." });
@@ -182,10 +282,46 @@ export default function SalesScreen() {
     }
   };
 
+  const handleResumeHeldBill = async (draftSaleId: string) => {
+    setIsProcessing(true);
+    try {
+      // A bill already in progress is parked so nothing is lost during the swap
+      if (cartItems.length > 0) {
+        await holdCurrentSale();
+        Toaster.info("Current Bill Held", { description: "The bill in progress was parked." });
+      }
+      const { draftSale, adjustedItems } = await resumeDraftSale(draftSaleId);
+      setIsCartOpen(true);
+      Toaster.success("Bill Resumed", { description: `Resumed bill for ${draftSale.customerName || 'walk-in customer'}.` });
+      if (adjustedItems.length > 0) {
+        Toaster.warning("Stock Changed", { description: `Adjusted to current stock: ${adjustedItems.join(', ')}` });
+      }
+    } catch (error: any) {
+      Toaster.error("Resume Failed", { description: error instanceof Error ? error.message : "Failed to resume held bill." });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDiscardHeldBill = async (draftSaleId: string) => {
+    try {
+      await deleteDraftSale(draftSaleId);
+      Toaster.info("Held Bill Discarded");
+    } catch (error: any) {
+      Toaster.error("Discard Failed", { description: error instanceof Error ? error.message : "Failed to discard held bill." });
+    }
+  };
+
   const renderProductItem = ({ item }: { item: Product & { displayableStock?: number } }) => {
     const originalProductFromStore = products.find((p) => p.id === item.id);
-    const totalOriginalStoreStock = originalProductFromStore ? originalProductFromStore.quantity : 0;
-    const currentSelectedQtyOnCard = selectedQuantities[item.id] || 0;
+    const variantOptions = getVariantOptions(item.id);
+    const hasVariants = variantOptions.length > 0;
+    const totalOriginalStoreStock = hasVariants
+      ? variantOptions.reduce((sum, option) => sum + Math.max(option.quantity, 0), 0)
+      : originalProductFromStore ? originalProductFromStore.quantity : 0;
+    const currentSelectedQtyOnCard = hasVariants
+      ? variantOptions.reduce((sum, option) => sum + (selectedQuantities[option.id] || 0), 0)
+      : selectedQuantities[item.id] || 0;
     const stockAvailableForAddingToCart = totalOriginalStoreStock - currentSelectedQtyOnCard;
 
     return (
@@ -223,6 +359,31 @@ export default function SalesScreen() {
               {item.category}
             </Text>
           )}
+          {hasVariants ? (
+          <>
+          <View className="flex-row justify-between items-center mt-1">
+            <Text className="text-sm font-bold" style={{ color: COLORS.dark }}>
+              from ₹{Math.min(...variantOptions.map((option) => option.sellingPrice)).toFixed(2)}
+            </Text>
+            <TouchableOpacity
+              onPress={(e) => {
+                e.stopPropagation();
+                setVariantParent(originalProductFromStore || item);
+              }}
+              className="px-2 py-1 rounded-md"
+              style={{ backgroundColor: COLORS.secondary }}
+            >
+              <Text className="text-xs font-semibold" style={{ color: COLORS.white }}>
+                {currentSelectedQtyOnCard > 0 ? `Choose (${formatQuantity(currentSelectedQtyOnCard)})` : 'Choose'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+          <Text className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {variantOptions.length} options
+          </Text>
+          </>
+          ) : (
+          <>
           <View className="flex-row justify-between items-center mt-1">
             <Text className="text-sm font-bold" style={{ color: COLORS.dark }}>
               ₹{item.sellingPrice.toFixed(2)}
@@ -239,19 +400,24 @@ export default function SalesScreen() {
                 <MinusCircle size={16} color={currentSelectedQtyOnCard <= 0 ? COLORS.gray : COLORS.danger} />
               </TouchableOpacity>
               <Input
-                className="w-10 h-8 mx-2 text-center text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600"
-                keyboardType="number-pad"
-                value={String(currentSelectedQtyOnCard)}
+                className="w-12 h-8 mx-2 text-center text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600"
+                keyboardType={allowsDecimalQuantity(item.unit) ? 'decimal-pad' : 'number-pad'}
+                value={quantityDrafts[item.id] ?? formatQuantity(currentSelectedQtyOnCard)}
                 onTouchStart={(e) => e.stopPropagation()}
                 onFocus={(e) => e.stopPropagation()}
+                onEndEditing={() => setQuantityDrafts(({ [item.id]: _, ...rest }) => rest)}
                 onChangeText={(text) => {
+                  const cleaned = sanitizeQuantityInput(text, item.unit);
+                  setQuantityDrafts((prev) => ({ ...prev, [item.id]: cleaned }));
+                  if (cleaned.endsWith('.')) return; // Rest of the decimal is still coming
                   const op = products.find((p) => p.id === item.id);
                   const maxStock = op ? op.quantity : 0;
-                  let num = parseInt(text, 10);
-                  if (isNaN(num) || num < 0 || text === '') num = 0;
+                  let num = parseQuantity(cleaned, item.unit);
+                  if (isNaN(num) || num < 0) num = 0;
                   if (num > maxStock) {
                     num = maxStock;
-                    Toaster.warning("Stock Limit", { description: `Maximum available stock for ${op?.name} is ${maxStock}.` });
+                    setQuantityDrafts(({ [item.id]: _, ...rest }) => rest);
+                    Toaster.warning("Stock Limit", { description: `Maximum available stock for ${op?.name} is ${formatQuantity(maxStock)}.` });
                   }
                   if (op) {
                      addToCart(op, num);
@@ -272,9 +438,24 @@ export default function SalesScreen() {
               </TouchableOpacity>
             </View>
           </View>
-          <Text className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-            Stock: {stockAvailableForAddingToCart} {item.unit || 'piece'}
-          </Text>
+          <View className="flex-row justify-between items-center mt-1">
+            <Text className="text-xs text-gray-500 dark:text-gray-400">
+              Stock: {formatQuantity(stockAvailableForAddingToCart)} {item.unit || 'piece'}
+            </Text>
+            {allowsDecimalQuantity(item.unit) && stockAvailableForAddingToCart > 0 && (
+              <TouchableOpacity
+                onPress={(e) => {
+                  e.stopPropagation();
+                  openAmountEntry(originalProductFromStore || item);
+                }}
+                className="px-1"
+              >
+                <Text className="text-xs font-semibold" style={{ color: COLORS.primary }}>By ₹</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          </>
+          )}
         </View>
       </TouchableOpacity>
     );
@@ -285,16 +466,62 @@ export default function SalesScreen() {
       <SafeAreaView className="flex-1" style={{ backgroundColor: 'transparent' }}>
         <View className="flex-1 p-4 pt-2 bg-transparent">
           <View className="mb-4 flex-row items-center rounded-lg px-3 shadow-md" style={{ backgroundColor: COLORS.white }}>
-            <Search size={20} color={COLORS.secondary} />
+            <ScanBarcode size={20} color={COLORS.secondary} />
             <Input
-              placeholder="Search products..."
+              ref={searchInputRef}
+              placeholder="Search or scan barcode..."
               className="flex-1 h-12 border-0 bg-transparent ml-2 text-base font-medium"
               placeholderTextColor={COLORS.gray}
               value={searchQuery}
               onChangeText={setSearchQuery}
+              onSubmitEditing={handleCodeSubmit}
+              returnKeyType="search"
+              blurOnSubmit={false}
+              autoCorrect={false}
               style={{ color: COLORS.dark }}
             />
           </View>
+          {draftSales.length > 0 && (
+            <View className="mb-3">
+              <Text className="text-sm font-semibold mb-2" style={{ color: COLORS.dark }}>
+                Held Bills ({draftSales.length})
+              </Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+                {draftSales.map((draft) => (
+                  <TouchableOpacity
+                    key={draft.id}
+                    onPress={() => handleResumeHeldBill(draft.id)}
+                    disabled={isProcessing}
+                    className="mr-2 p-3 rounded-lg shadow-sm"
+                    style={{ backgroundColor: COLORS.white, minWidth: 150 }}
+                  >
+                    <View className="flex-row justify-between items-start">
+                      <Text className="text-sm font-semibold flex-1 mr-1" numberOfLines={1} style={{ color: COLORS.dark }}>
+                        {draft.customerName || 'Walk-in'}
+                      </Text>
+                      <TouchableOpacity onPress={() => handleDiscardHeldBill(draft.id)} className="pl-1">
+                        <XCircle size={16} color={COLORS.danger} />
+                      </TouchableOpacity>
+                    </View>
+                    <Text className="text-sm font-bold mt-1" style={{ color: COLORS.primary }}>
+                      ₹{draft.totalAmount.toFixed(2)}
+                    </Text>
+                    <View className="flex-row items-center mt-1">
+                      <Clock size={12} color={COLORS.gray} />
+                      <Text className="text-xs ml-1" style={{ color: COLORS.gray }}>
+                        {format(parseISO(draft.timestamp), 'hh:mm a')} · {draft.itemCount} item(s)
+                      </Text>
+                    </View>
+                    {draft.notes && (
+                      <Text className="text-xs italic mt-0.5" numberOfLines={1} style={{ color: COLORS.gray }}>
+                        {draft.notes}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+          )}
           {isLoading ? (
             <View className="flex-1 items-center justify-center">
               <ActivityIndicator size="large" color={COLORS.secondary} />
@@ -462,6 +689,90 @@ export default function SalesScreen() {
             </View>
           </DialogContent>
         </Dialog>
+        <Dialog open={!!amountProduct} onOpenChange={(open) => { if (!open) setAmountProduct(null); }}>
+          <DialogContent className="p-0 bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-11/12 mx-auto">
+            <DialogHeader className="p-6 pb-4 border-b border-gray-200 dark:border-gray-700">
+              <DialogTitle className="text-lg font-bold" style={{ color: COLORS.dark }}>
+                Sell {amountProduct?.name} by Amount
+              </DialogTitle>
+            </DialogHeader>
+            <View className="p-4">
+              <Input
+                placeholder="Amount (₹)"
+                value={amountText}
+                onChangeText={(text) => setAmountText(text.replace(/[^0-9.]/g, ''))}
+                keyboardType="decimal-pad"
+                autoFocus
+                className="mb-2 h-11 border border-gray-300 dark:border-gray-600 rounded-md px-3"
+                style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                placeholderTextColor={COLORS.gray}
+              />
+              {amountProduct && (
+                <Text className="text-sm mb-4" style={{ color: COLORS.gray }}>
+                  {amountQuantity > 0
+                    ? `${formatQuantity(amountQuantity)} ${amountProduct.unit} at ₹${amountProduct.sellingPrice.toFixed(2)}/${amountProduct.unit}`
+                    : `₹${amountProduct.sellingPrice.toFixed(2)} per ${amountProduct.unit}`}
+                </Text>
+              )}
+              <View className="flex-row justify-end gap-x-2">
+                <Button variant="ghost" onPress={() => setAmountProduct(null)} className="px-4 py-2">
+                  <Text style={{ color: COLORS.gray }}>Cancel</Text>
+                </Button>
+                <Button
+                  onPress={handleAddByAmount}
+                  disabled={amountQuantity <= 0}
+                  style={{ backgroundColor: COLORS.secondary }}
+                  className="px-4 py-2"
+                >
+                  <Text className="font-semibold" style={{ color: COLORS.white }}>Add to Cart</Text>
+                </Button>
+              </View>
+            </View>
+          </DialogContent>
+        </Dialog>
+        <Dialog open={!!variantParent} onOpenChange={(open) => { if (!open) setVariantParent(null); }}>
+          <DialogContent className="p-0 bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-11/12 mx-auto">
+            <DialogHeader className="p-6 pb-4 border-b border-gray-200 dark:border-gray-700">
+              <DialogTitle className="text-lg font-bold" style={{ color: COLORS.dark }}>
+                Choose {variantParent?.name}
+              </DialogTitle>
+            </DialogHeader>
+            <ScrollView className="p-4 max-h-96" keyboardShouldPersistTaps="handled">
+              {variantParent && getVariantOptions(variantParent.id).map((option) => {
+                const inCart = selectedQuantities[option.id] || 0;
+                const left = option.quantity - inCart;
+                return (
+                  <View key={option.id} className="flex-row items-center justify-between py-2 border-b border-gray-100 dark:border-gray-700">
+                    <View className="flex-1 mr-2">
+                      <Text className="text-sm font-semibold" style={{ color: COLORS.dark }}>
+                        {option.variantName || option.name}
+                      </Text>
+                      <Text className="text-xs" style={{ color: left > 0 ? COLORS.gray : COLORS.danger }}>
+                        ₹{option.sellingPrice.toFixed(2)} · {left > 0 ? `${formatQuantity(left)} ${option.unit || 'piece'} left` : 'Out of stock'}
+                      </Text>
+                    </View>
+                    <View className="flex-row items-center">
+                      <TouchableOpacity onPress={() => decreaseListQuantity(option.id)} disabled={inCart <= 0} className="p-1">
+                        <MinusCircle size={20} color={inCart <= 0 ? COLORS.gray : COLORS.danger} />
+                      </TouchableOpacity>
+                      <Text className="w-10 text-center text-sm font-medium" style={{ color: COLORS.primary }}>
+                        {formatQuantity(inCart)}
+                      </Text>
+                      <TouchableOpacity onPress={() => increaseListQuantity(option.id)} disabled={left <= 0} className="p-1">
+                        <PlusCircle size={20} color={left <= 0 ? COLORS.gray : COLORS.dark} />
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                );
+              })}
+            </ScrollView>
+            <View className="flex-row justify-end p-4 pt-2">
+              <Button onPress={() => setVariantParent(null)} style={{ backgroundColor: COLORS.secondary }} className="px-4 py-2">
+                <Text className="font-semibold" style={{ color: COLORS.white }}>Done</Text>
+              </Button>
+            </View>
+          </DialogContent>
+        </Dialog>
       </SafeAreaView>
     </LinearGradient>
   );
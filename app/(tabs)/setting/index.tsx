@@ -303,22 +303,44 @@ export default function SettingsScreen() {
         setDataLoading(true);
         try {
             await db.withTransactionSync(() => {
+                // Children before parents: foreign keys are enforced, and tables cleared
+                // through a parent find nothing once the parent rows are gone
                 const tablesToClearForUser = [
-                    'products', 'Categories', 'Suppliers', 'StockAdjustments',
-                    'ProductBatches', 'Sales', 'DraftSales', 'Reports',
-                    'ReportMetrics', 'AppUsage', 'Customers', 'SaleItems',
-                    'Receipts',
+                    'PaymentCommitments', 'PaymentReminders', 'CreditPayments', 'CustomerCreditHistory', 'CreditSales',
+                    'ReturnItems', 'Returns', 'SaleItemComponents', 'SaleItems', 'SalePayments', 'Receipts', 'Sales',
+                    'DraftSaleItems', 'DraftSales',
+                    'StocktakeItems', 'Stocktakes', 'PurchaseOrderItems', 'PurchaseOrders',
+                    'PriceHistory', 'ScheduledPriceChanges', 'PriceListItems', 'PriceLists', 'BundleComponents',
+                    'StockAdjustments', 'ProductBatches', 'products', 'Categories', 'Suppliers',
+                    'Customers', 'Reports', 'ReportMetrics', 'AppUsage',
                 ];
+                // Tables without a userId column, cleared through the parent that has one
+                const clearThroughParent: Record<string, string> = {
+                    PaymentCommitments: 'creditSaleId IN (SELECT cs.id FROM CreditSales cs JOIN Customers c ON cs.customerId = c.id WHERE c.userId = ?)',
+                    PaymentReminders: 'creditSaleId IN (SELECT cs.id FROM CreditSales cs JOIN Customers c ON cs.customerId = c.id WHERE c.userId = ?)',
+                    CreditPayments: 'creditSaleId IN (SELECT cs.id FROM CreditSales cs JOIN Customers c ON cs.customerId = c.id WHERE c.userId = ?)',
+                    CustomerCreditHistory: 'customerId IN (SELECT id FROM Customers WHERE userId = ?)',
+                    CreditSales: 'customerId IN (SELECT id FROM Customers WHERE userId = ?)',
+                    ReturnItems: 'returnId IN (SELECT r.id FROM Returns r JOIN Sales s ON r.saleId = s.id WHERE s.userId = ?)',
+                    Returns: 'saleId IN (SELECT id FROM Sales WHERE userId = ?)',
+                    SaleItemComponents: 'saleItemId IN (SELECT si.id FROM SaleItems si JOIN Sales s ON si.saleId = s.id WHERE s.userId = ?)',
+                    SaleItems: 'saleId IN (SELECT id FROM Sales WHERE userId = ?)',
+                    SalePayments: 'saleId IN (SELECT id FROM Sales WHERE userId = ?)',
+                    Receipts: 'saleId IN (SELECT id FROM Sales WHERE userId = ?)',
+                    DraftSaleItems: 'draftSaleId IN (SELECT id FROM DraftSales WHERE userId = ?)',
+                    StocktakeItems: 'stocktakeId IN (SELECT id FROM Stocktakes WHERE userId = ?)',
+                    PurchaseOrderItems: 'purchaseOrderId IN (SELECT id FROM PurchaseOrders WHERE userId = ?)',
+                    PriceListItems: 'priceListId IN (SELECT id FROM PriceLists WHERE userId = ?)',
+                    BundleComponents: 'bundleId IN (SELECT id FROM products WHERE userId = ?)',
+                };
                 for (const table of tablesToClearForUser) {
                     try {
                         const tableInfoPragma = db.getAllSync<{ name: string }>(`PRAGMA table_info(${table});`);
                         const hasUserIdColumn = tableInfoPragma.some(col => col.name === 'userId');
                         if (hasUserIdColumn) {
                             db.runSync(`DELETE FROM ${table} WHERE userId = ?`, [userId]);
-                        } else if (table === 'SaleItems') {
-                            db.runSync(`DELETE FROM SaleItems WHERE saleId IN (SELECT id FROM Sales WHERE userId = ?)`, [userId]);
-                        } else if (table === 'Receipts') {
-                            db.runSync(`DELETE FROM Receipts WHERE saleId IN (SELECT id FROM Sales WHERE userId = ?)`, [userId]);
+                        } else if (clearThroughParent[table]) {
+                            db.runSync(`DELETE FROM ${table} WHERE ${clearThroughParent[table]}`, [userId]);
                         }
                     } catch (e: any) {
                         console.warn(`Could not clear table ${table}: ${e.message}.`);
@@ -27,11 +27,14 @@ import {
     CreditCard,
     ArrowLeft,
     Edit3,
+    Layers,
     X
 } from 'lucide-react-native';
 import { useColorScheme } from '~/lib/useColorScheme';
 import { LinearGradient } from 'expo-linear-gradient';
 import GlobalToaster, { Toaster } from '~/components/toaster/Toaster'; 
+import { INVENTORY_VALUATION_METHODS } from '~/lib/constants';
+import { InventoryValuationMethod } from '~/lib/stores/types';
 
 // Define the color palette based on theme
 export const getColors = (colorScheme: 'light' | 'dark') => ({
@@ -57,6 +60,8 @@ interface StoreSettings {
     storeEmail: string;
     currencySymbol: string;
     taxRate: number;
+    pricesIncludeTax: boolean;
+    inventoryValuation: InventoryValuationMethod;
 }
 
 export default function StoreSettingsScreen() {
@@ -75,6 +80,8 @@ export default function StoreSettingsScreen() {
         storeEmail: '',
         currencySymbol: '₹',
         taxRate: 0,
+        pricesIncludeTax: false,
+        inventoryValuation: 'WEIGHTED_AVERAGE',
     });
 
     const [editFormData, setEditFormData] = useState<StoreSettings>({ ...formData });
@@ -89,7 +96,7 @@ export default function StoreSettingsScreen() {
         try {
             setIsLoading(true);
             const settings = await db.getFirstAsync<any>(
-                'SELECT storeName, storeAddress, storePhone, storeEmail, currencySymbol, taxRate FROM Settings WHERE userId = ? AND id = ?',
+                'SELECT storeName, storeAddress, storePhone, storeEmail, currencySymbol, taxRate, pricesIncludeTax, inventoryValuation FROM Settings WHERE userId = ? AND id = ?',
                 [userId, userId]
             );
 
@@ -100,6 +107,8 @@ export default function StoreSettingsScreen() {
                 storeEmail: settings?.storeEmail || '',
                 currencySymbol: settings?.currencySymbol || '₹',
                 taxRate: settings?.taxRate || 0,
+                pricesIncludeTax: !!settings?.pricesIncludeTax,
+                inventoryValuation: (settings?.inventoryValuation === 'FIFO' ? 'FIFO' : 'WEIGHTED_AVERAGE') as InventoryValuationMethod,
             };
 
             setFormData(defaultSettings);
@@ -139,7 +148,7 @@ export default function StoreSettingsScreen() {
         return Object.keys(errors).length === 0;
     };
 
-    const handleInputChange = (field: keyof StoreSettings, value: string | number) => {
+    const handleInputChange = (field: keyof StoreSettings, value: string | number | boolean) => {
         setEditFormData(prev => ({ ...prev, [field]: value }));
         if (validationErrors[field]) {
             setValidationErrors(prev => {
@@ -200,20 +209,20 @@ export default function StoreSettingsScreen() {
 
             if (existingSettings) {
                 await db.runAsync(
-                    'UPDATE Settings SET storeName = ?, storeAddress = ?, storePhone = ?, storeEmail = ?, currencySymbol = ?, taxRate = ?, updatedAt = ? WHERE userId = ? AND id = ?',
-                    [editFormData.storeName, editFormData.storeAddress, editFormData.storePhone, editFormData.storeEmail, editFormData.currencySymbol, editFormData.taxRate, now, userId, userId]
+                    'UPDATE Settings SET storeName = ?, storeAddress = ?, storePhone = ?, storeEmail = ?, currencySymbol = ?, taxRate = ?, pricesIncludeTax = ?, inventoryValuation = ?, updatedAt = ? WHERE userId = ? AND id = ?',
+                    [editFormData.storeName, editFormData.storeAddress, editFormData.storePhone, editFormData.storeEmail, editFormData.currencySymbol, editFormData.taxRate, editFormData.pricesIncludeTax ? 1 : 0, editFormData.inventoryValuation, now, userId, userId]
                 );
             } else {
                 await db.runAsync(
                     `INSERT INTO Settings (
                         id, userId, storeName, storeAddress, storePhone, storeEmail,
-                        currencySymbol, taxRate, defaultDiscountRate, darkMode, language,
+                        currencySymbol, taxRate, pricesIncludeTax, inventoryValuation, defaultDiscountRate, darkMode, language,
                         receiptFooter, backupFrequency, updatedAt
-                    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
                     [
                         userId, userId, editFormData.storeName, editFormData.storeAddress,
                         editFormData.storePhone, editFormData.storeEmail, editFormData.currencySymbol,
-                        editFormData.taxRate, 0, null, 'en', '', 'WEEKLY', now
+                        editFormData.taxRate, editFormData.pricesIncludeTax ? 1 : 0, editFormData.inventoryValuation, 0, null, 'en', '', 'WEEKLY', now
                     ]
                 );
             }
@@ -285,6 +294,8 @@ export default function StoreSettingsScreen() {
                         <Text className={`text-lg font-bold mb-4 ${isDarkColorScheme ? 'text-white' : 'text-gray-900'}`}>Financial Settings</Text>
                         <DisplayField icon={DollarSign} label="Currency Symbol" value={formData.currencySymbol} placeholder="₹" iconColor="#D97706" />
                         <DisplayField icon={Percent} label="Tax Rate (%)" value={formData.taxRate} placeholder="0" iconColor="#0891B2" />
+                        <DisplayField icon={CreditCard} label="Selling Prices" value={formData.pricesIncludeTax ? 'Include tax' : 'Exclude tax (added at checkout)'} placeholder="" iconColor="#7C3AED" />
+                        <DisplayField icon={Layers} label="Stock Costing" value={INVENTORY_VALUATION_METHODS.find((m) => m.value === formData.inventoryValuation)?.label || ''} placeholder="" iconColor="#059669" />
                     </View>
 
                     {/* Edit Button */}
@@ -408,6 +419,66 @@ export default function StoreSettingsScreen() {
                                             <Text className="text-red-500 text-sm mt-1">{validationErrors.taxRate}</Text>
                                         )}
                                     </View>
+
+                                    {/* Tax-inclusive pricing */}
+                                    <View className="mb-4">
+                                        <Text className={`text-sm font-medium mb-2 ${isDarkColorScheme ? 'text-gray-300' : 'text-gray-700'}`}>Selling Prices</Text>
+                                        <View className="flex-row gap-2">
+                                            {[false, true].map((includesTax) => {
+                                                const active = editFormData.pricesIncludeTax === includesTax;
+                                                return (
+                                                    <TouchableOpacity
+                                                        key={String(includesTax)}
+                                                        onPress={() => handleInputChange('pricesIncludeTax', includesTax)}
+                                                        className="flex-1 items-center py-3 rounded-lg border"
+                                                        style={{
+                                                            borderColor: active ? COLORS.primary : COLORS.border,
+                                                            backgroundColor: active ? COLORS.lightPurple : 'transparent',
+                                                        }}
+                                                    >
+                                                        <Text className="text-sm font-medium" style={{ color: active ? COLORS.primary : COLORS.gray }}>
+                                                            {includesTax ? 'Include tax' : 'Exclude tax'}
+                                                        </Text>
+                                                    </TouchableOpacity>
+                                                );
+                                            })}
+                                        </View>
+                                        <Text className={`text-xs mt-1 ${isDarkColorScheme ? 'text-gray-400' : 'text-gray-500'}`}>
+                                            {editFormData.pricesIncludeTax
+                                                ? 'Tax is taken out of the selling price at checkout.'
+                                                : 'Tax is added on top of the selling price at checkout.'}
+                                        </Text>
+                                    </View>
+
+                                    {/* Inventory valuation */}
+                                    <View className="mb-4">
+                                        <Text className={`text-sm font-medium mb-2 ${isDarkColorScheme ? 'text-gray-300' : 'text-gray-700'}`}>Stock Costing</Text>
+                                        <View className="flex-row gap-2">
+                                            {INVENTORY_VALUATION_METHODS.map((method) => {
+                                                const active = editFormData.inventoryValuation === method.value;
+                                                return (
+                                                    <TouchableOpacity
+                                                        key={method.value}
+                                                        onPress={() => handleInputChange('inventoryValuation', method.value)}
+                                                        className="flex-1 items-center py-3 rounded-lg border"
+                                                        style={{
+                                                            borderColor: active ? COLORS.primary : COLORS.border,
+                                                            backgroundColor: active ? COLORS.lightPurple : 'transparent',
+                                                        }}
+                                                    >
+                                                        <Text className="text-sm font-medium" style={{ color: active ? COLORS.primary : COLORS.gray }}>
+                                                            {method.label}
+                                                        </Text>
+                                                    </TouchableOpacity>
+                                                );
+                                            })}
+                                        </View>
+                                        <Text className={`text-xs mt-1 ${isDarkColorScheme ? 'text-gray-400' : 'text-gray-500'}`}>
+                                            {editFormData.inventoryValuation === 'FIFO'
+                                                ? 'Each sale is costed at the batches it is taken from.'
+                                                : 'Each sale is costed at the average cost of the stock on hand.'}
+                                        </Text>
+                                    </View>
                                 </View>
                             </ScrollView>
 
@@ -10,6 +10,7 @@ import { setAndroidNavigationBar } from '~/lib/android-navigation-bar';
 import { NAV_THEME } from '~/lib/constants';
 import { useAuthStore } from '~/lib/stores/authStore';
 import { initDatabase } from '~/lib/db/database';
+import { configureReminderNotifications } from '~/lib/utils/reminderUtils';
 // Uncomment for development testing (don't use in production)
 // import { seedDatabase, loginWithTestUser } from '~/lib/utils/dbSeeder';
 
@@ -49,6 +50,10 @@ export default function RootLayout() {
         
         // Initialize auth state
         await initializeAuth();
+
+        await configureReminderNotifications().catch((error) =>
+          console.warn('Could not configure reminder notifications:', error)
+        );
         
         setIsInitializing(false);
       } catch (error) {
@@ -0,0 +1,25 @@
+// components/CreditScoreBadge.tsx
+import React from 'react';
+import { View } from 'react-native';
+import { Text } from '~/components/ui/text';
+import { getCreditScoreBand } from '~/lib/utils/creditScoreUtils';
+
+interface CreditScoreBadgeProps {
+  score: number | null | undefined;
+  className?: string;
+}
+
+// Pill showing a customer's khata score, e.g. "72 · Fair"
+export function CreditScoreBadge({ score, className = '' }: CreditScoreBadgeProps) {
+  const band = getCreditScoreBand(score);
+  return (
+    <View
+      className={`flex-row items-center self-start px-2 py-0.5 rounded-full border ${className}`}
+      style={{ borderColor: band.color }}
+    >
+      <Text className="text-xs font-semibold" style={{ color: band.color }}>
+        {score != null ? `${score} · ${band.label}` : 'New'}
+      </Text>
+    </View>
+  );
+}
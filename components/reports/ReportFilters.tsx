@@ -4,6 +4,8 @@ import { View, TextInput, Button } from 'react-native'; // Using Button for simp
 import { Picker } from '@react-native-picker/picker';
 import { useReportStore, ReportFilterState } from '~/lib/stores/reportStore';
 import { Text } from '~/components/ui/text'; // Your custom Text component
+import { PAYMENT_METHODS } from '~/lib/constants';
+import { sortCategoriesAsTree } from '~/lib/utils/categoryUtils';
 
 export const ReportFilters: React.FC = () => {
   const { filters, setFilters, categories, fetchCategories } = useReportStore();
@@ -60,8 +62,9 @@ export const ReportFilters: React.FC = () => {
           style={{ backgroundColor: 'hsl(var(--input))', color: 'hsl(var(--foreground))' }}
         >
           <Picker.Item label="All Categories" value="all" />
-          {categories.map(cat => (
-            <Picker.Item key={cat.id} label={cat.name} value={cat.id} />
+          {/* A category also covers its subcategories, which are listed indented below it */}
+          {sortCategoriesAsTree(categories).map(({ category: cat, depth }) => (
+            <Picker.Item key={cat.id} label={`${'  '.repeat(depth)}${cat.name}`} value={cat.id} />
           ))}
         </Picker>
       </View>
@@ -74,9 +77,9 @@ export const ReportFilters: React.FC = () => {
           style={{ backgroundColor: 'hsl(var(--input))', color: 'hsl(var(--foreground))' }}
         >
           <Picker.Item label="All Payment Types" value="all" />
-          <Picker.Item label="Cash" value="CASH" />
-          <Picker.Item label="Card" value="CARD" />
-          <Picker.Item label="UPI" value="UPI" />
+          {PAYMENT_METHODS.map(method => (
+            <Picker.Item key={method.value} label={method.label} value={method.value} />
+          ))}
         </Picker>
       </View>
 
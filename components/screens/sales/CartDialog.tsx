@@ -18,6 +18,11 @@ import {
   Edit3,
   UserPlus,
   Search,
+  PauseCircle,
+  Clock,
+  Trash2,
+  Split,
+  Tag,
 } from 'lucide-react-native';
 import {
   Dialog,
@@ -29,6 +34,10 @@ import {
 import { useCartStore } from '~/lib/stores/cartStore';
 import { useProductStore } from '~/lib/stores/productStore';
 import { useCustomerStore } from '~/lib/stores/customerStore';
+import { useCreditStore } from '~/lib/stores/creditStore';
+import { CreditScoreBadge } from '~/components/CreditScoreBadge';
+import { useDraftSaleStore } from '~/lib/stores/draftSaleStore';
+import { usePriceChangeStore } from '~/lib/stores/priceChangeStore';
 import { Text as UIText } from '~/components/ui/text';
 import { Button } from '~/components/ui/button';
 import { Input } from '~/components/ui/input';
@@ -46,25 +55,48 @@ import { getColors } from '~/app/(tabs)/sale';
 import { useColorScheme as rnColorScheme } from 'react-native';
 import { useAuthStore } from '~/lib/stores/authStore';
 import debounce from 'lodash/debounce';
+import { PAYMENT_METHODS, DEFAULT_CREDIT_TERMS_DAYS, QUANTITY_DECIMALS } from '~/lib/constants';
+import { format, parseISO, addDays } from 'date-fns';
+import { PaymentTender } from '~/lib/stores/types';
+import { insertSalePayments } from '~/lib/db/salePaymentOperations';
+import { checkCreditLimit, createCreditSale } from '~/lib/db/creditOperations';
+import { takeStockAtCost } from '~/lib/db/valuationOperations';
+import { takeBundleStockAtCost } from '~/lib/db/bundleOperations';
+import { getInventoryValuationMethod } from '~/lib/db/settingsOperations';
+import {
+  summarizeTenders,
+  getSalePaymentType,
+  formatPaymentBreakdown,
+} from '~/lib/utils/paymentUtils';
+import { Discount, DiscountType, calculateCartTotals, formatDiscount, roundCurrency } from '~/lib/utils/pricingUtils';
+import { allowsDecimalQuantity, formatQuantity, getQuantityStep, parseQuantity, sanitizeQuantityInput } from '~/lib/utils/quantityUtils';
+import { getNextPriceBreak } from '~/lib/utils/priceListUtils';
 
 interface CartItem {
   id: string;
   name: string;
   sellingPrice: number;
+  catalogPrice: number;
   costPrice?: number;
   quantityInCart: number;
   imageUri?: string;
   category?: string;
+  lineDiscount?: Discount | null;
+  taxRate?: number | null;
+  unit?: string;
+  quantityStep?: number | null;
+  isBundle?: boolean;
 }
 
-const PAYMENT_METHODS = [
-  { label: 'Cash', value: 'CASH' },
-  { label: 'UPI', value: 'UPI' },
-  { label: 'Credit Card', value: 'CREDIT_CARD' },
-  { label: 'Debit Card', value: 'DEBIT_CARD' },
-  { label: 'Credit ', value: 'CREDIT_KHATA' },
-  { label: 'Other', value: 'OTHER' },
-];
+// What the discount dialog is editing: one cart line or the whole bill
+type DiscountTarget = { kind: 'LINE'; productId: string; name: string } | { kind: 'BILL' };
+
+interface TenderFormRow {
+  key: string;
+  paymentMethod: string;
+  amount: string;
+  reference: string;
+}
 
 interface DebouncedInputProps {
   value: string;
@@ -145,7 +177,15 @@ export default function CartDialog() {
     decreaseQuantity,
     removeCartItem,
     clearCart,
+    billDiscount,
+    taxOptions,
+    setLineDiscount,
+    setBillDiscount,
+    updateCartPrices,
+    priceList,
+    applyCustomerPriceList,
   } = useCartStore();
+  const applyDuePriceChanges = usePriceChangeStore((state) => state.applyDuePriceChanges);
   const { products, fetchProducts } = useProductStore();
   const {
     selectedCustomer,
@@ -156,6 +196,8 @@ export default function CartDialog() {
     fetchCustomers,
     addCustomer,
   } = useCustomerStore();
+  const creditScores = useCreditStore((state) => state.creditScores);
+  const { draftSales, fetchDraftSales, holdCurrentSale, resumeDraftSale, deleteDraftSale } = useDraftSaleStore();
   const currentUserId = useAuthStore((state) => state.userId);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isConfirmDialogOpen, setIsConfirmDialogOpen] = useState(false);
@@ -164,23 +206,148 @@ export default function CartDialog() {
   const [customerSearchQuery, setCustomerSearchQuery] = useState('');
   const [isAddingNewCustomer, setIsAddingNewCustomer] = useState(false);
   const [newCustomerForm, setNewCustomerForm] = useState({ name: '', phone: '', email: '' });
+  const [isHoldDialogOpen, setIsHoldDialogOpen] = useState(false);
+  const [holdNotes, setHoldNotes] = useState('');
+  const [isHeldBillsOpen, setIsHeldBillsOpen] = useState(false);
+  const [isSplitPayment, setIsSplitPayment] = useState(false);
+  const [tenderRows, setTenderRows] = useState<TenderFormRow[]>([]);
+  const [paymentReference, setPaymentReference] = useState('');
+  const [cashReceived, setCashReceived] = useState('');
+  const [creditTermsDays, setCreditTermsDays] = useState(String(DEFAULT_CREDIT_TERMS_DAYS));
+  const [discountTarget, setDiscountTarget] = useState<DiscountTarget | null>(null);
+  const [discountType, setDiscountType] = useState<DiscountType>('PERCENT');
+  const [discountValue, setDiscountValue] = useState('');
+  const [quantityDrafts, setQuantityDrafts] = useState<Record<string, string>>({}); // Quantities still being typed
 
-  const { subtotal, totalAmount, totalProfit } = useMemo(() => {
-    let currentSubtotal = 0;
-    let currentProfit = 0;
-    cartItems.forEach((item) => {
-      const itemSubtotal = item.sellingPrice * item.quantityInCart;
-      const costPrice = typeof item.costPrice === 'number' ? item.costPrice : 0;
-      const itemProfit = (item.sellingPrice - costPrice) * item.quantityInCart;
-      currentSubtotal += itemSubtotal;
-      currentProfit += itemProfit;
-    });
-    return {
-      subtotal: currentSubtotal,
-      totalAmount: currentSubtotal,
-      totalProfit: currentProfit,
-    };
-  }, [cartItems]);
+  useEffect(() => {
+    if (isCartOpen || isHeldBillsOpen) {
+      fetchDraftSales();
+    }
+  }, [isCartOpen, isHeldBillsOpen, fetchDraftSales]);
+
+  // Wholesale and other customer price lists replace the catalogue prices for the whole bill
+  useEffect(() => {
+    applyCustomerPriceList(selectedCustomer?.id ?? null);
+  }, [selectedCustomer?.id, selectedCustomer?.priceListId, applyCustomerPriceList]);
+
+  const cartTotals = useMemo(
+    () =>
+      calculateCartTotals(
+        cartItems.map((item) => ({ ...item, discount: item.lineDiscount })),
+        billDiscount,
+        taxOptions
+      ),
+    [cartItems, billDiscount, taxOptions]
+  );
+  const { grossTotal: subtotal, discountTotal, taxTotal, totalAmount, totalProfit } = cartTotals;
+  const pricedLines = useMemo(
+    () => Object.fromEntries(cartTotals.lines.map((line) => [line.id, line])),
+    [cartTotals]
+  );
+
+  const openDiscountDialog = (target: DiscountTarget) => {
+    const current =
+      target.kind === 'BILL'
+        ? billDiscount
+        : cartItems.find((item) => item.id === target.productId)?.lineDiscount;
+    setDiscountType(current?.type || 'PERCENT');
+    setDiscountValue(current ? String(current.value) : '');
+    setDiscountTarget(target);
+  };
+
+  const applyDiscount = (remove = false) => {
+    if (!discountTarget) return;
+    const value = parseFloat(discountValue);
+    if (!remove && (isNaN(value) || value < 0 || (discountType === 'PERCENT' && value > 100))) {
+      Alert.alert('Invalid Discount', discountType === 'PERCENT' ? 'Enter a percentage between 0 and 100.' : 'Enter a valid amount.');
+      return;
+    }
+    const discount: Discount | null = remove || value === 0 ? null : { type: discountType, value };
+    if (discountTarget.kind === 'BILL') {
+      setBillDiscount(discount);
+    } else {
+      setLineDiscount(discountTarget.productId, discount);
+    }
+    setDiscountTarget(null);
+  };
+
+  const tenders: PaymentTender[] = useMemo(() => {
+    const baseTenders: PaymentTender[] = isSplitPayment
+      ? tenderRows.map((row) => ({
+        paymentMethod: row.paymentMethod,
+        amount: parseFloat(row.amount) || 0,
+        reference: row.reference.trim() || null,
+      }))
+      : [{ paymentMethod: selectedPaymentMethod, amount: totalAmount, reference: paymentReference.trim() || null }];
+
+    // Cash received is recorded against the first cash tender; any other cash
+    // tenders are treated as exact so change is only counted once.
+    const received = parseFloat(cashReceived);
+    if (!isNaN(received)) {
+      const firstCashIndex = baseTenders.findIndex((t) => t.paymentMethod === 'CASH');
+      if (firstCashIndex !== -1) {
+        const otherCash = baseTenders
+          .filter((t, i) => t.paymentMethod === 'CASH' && i !== firstCashIndex)
+          .reduce((sum, t) => sum + t.amount, 0);
+        baseTenders[firstCashIndex] = { ...baseTenders[firstCashIndex], amountTendered: received - otherCash };
+      }
+    }
+    return baseTenders;
+  }, [isSplitPayment, tenderRows, selectedPaymentMethod, totalAmount, paymentReference, cashReceived]);
+
+  const tenderSummary = useMemo(() => {
+    const received = parseFloat(cashReceived);
+    return summarizeTenders(tenders, totalAmount, isNaN(received) ? null : received);
+  }, [tenders, totalAmount, cashReceived]);
+
+  const khataAmount = useMemo(
+    () => tenders.filter((t) => t.paymentMethod === 'CREDIT_KHATA').reduce((sum, t) => sum + t.amount, 0),
+    [tenders]
+  );
+  const creditTerms = parseInt(creditTermsDays, 10) > 0 ? parseInt(creditTermsDays, 10) : DEFAULT_CREDIT_TERMS_DAYS;
+
+  const resetPaymentState = () => {
+    setSelectedPaymentMethod(PAYMENT_METHODS[0].value);
+    setIsSplitPayment(false);
+    setTenderRows([]);
+    setPaymentReference('');
+    setCashReceived('');
+    setCreditTermsDays(String(DEFAULT_CREDIT_TERMS_DAYS));
+  };
+
+  const toggleSplitPayment = () => {
+    if (isSplitPayment) {
+      setIsSplitPayment(false);
+      setTenderRows([]);
+      return;
+    }
+    setTenderRows([
+      { key: uuidv4(), paymentMethod: selectedPaymentMethod, amount: totalAmount.toFixed(2), reference: paymentReference },
+    ]);
+    setIsSplitPayment(true);
+  };
+
+  const addTenderRow = () => {
+    const usedMethods = tenderRows.map((row) => row.paymentMethod);
+    const nextMethod = PAYMENT_METHODS.find((m) => !usedMethods.includes(m.value))?.value || PAYMENT_METHODS[0].value;
+    setTenderRows((prev) => [
+      ...prev,
+      {
+        key: uuidv4(),
+        paymentMethod: nextMethod,
+        amount: tenderSummary.remaining > 0 ? tenderSummary.remaining.toFixed(2) : '',
+        reference: '',
+      },
+    ]);
+  };
+
+  const updateTenderRow = (key: string, changes: Partial<TenderFormRow>) => {
+    setTenderRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const removeTenderRow = (key: string) => {
+    setTenderRows((prev) => prev.filter((row) => row.key !== key));
+  };
 
   const filteredCustomers = useMemo(() => {
     if (!customerSearchQuery) return customers;
@@ -245,15 +412,173 @@ export default function CartDialog() {
     }
   };
 
-  const confirmSale = async () => {
+  const handleHoldBill = async () => {
+    if (cartItems.length === 0) {
+      Alert.alert('Empty Cart', 'There is nothing to hold.');
+      return;
+    }
+    setIsProcessing(true);
+    try {
+      await holdCurrentSale(holdNotes);
+      resetPaymentState();
+      setHoldNotes('');
+      setIsHoldDialogOpen(false);
+      Alert.alert('Bill Held', 'The bill has been parked. Resume it from Held Bills when the customer returns.');
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        `Failed to hold bill: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const resumeHeldBill = async (draftSaleId: string) => {
+    setIsProcessing(true);
+    try {
+      const { adjustedItems } = await resumeDraftSale(draftSaleId);
+      setIsHeldBillsOpen(false);
+      setIsCartOpen(true);
+      if (adjustedItems.length > 0) {
+        Alert.alert(
+          'Stock Changed',
+          `Some items were adjusted to the stock available now: ${adjustedItems.join(', ')}`
+        );
+      }
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        `Failed to resume bill: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleResumeHeldBill = (draftSaleId: string) => {
+    if (cartItems.length === 0) {
+      resumeHeldBill(draftSaleId);
+      return;
+    }
+    Alert.alert('Bill In Progress', 'Hold the current bill and resume the selected one?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Hold & Resume',
+        onPress: async () => {
+          try {
+            await holdCurrentSale();
+            resetPaymentState();
+          } catch (error) {
+            Alert.alert(
+              'Error',
+              `Failed to hold current bill: ${error instanceof Error ? error.message : String(error)}`
+            );
+            return;
+          }
+          await resumeHeldBill(draftSaleId);
+        },
+      },
+    ]);
+  };
+
+  const handleDiscardHeldBill = (draftSaleId: string) => {
+    Alert.alert('Discard Held Bill', 'This held bill will be deleted. Continue?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteDraftSale(draftSaleId);
+          } catch (error) {
+            Alert.alert(
+              'Error',
+              `Failed to discard bill: ${error instanceof Error ? error.message : String(error)}`
+            );
+          }
+        },
+      },
+    ]);
+  };
+
+  const confirmSale = async (options: { creditOverride?: boolean; allowBelowCost?: boolean } = {}) => {
+    const { creditOverride = false, allowBelowCost = false } = options;
     if (cartItems.length === 0) {
       Alert.alert('Empty Cart', 'Please add items to the cart before proceeding.');
       return;
     }
+    // A scheduled price that took effect while the bill was open is charged from now on
+    const repricedItems = updateCartPrices(await applyDuePriceChanges());
+    if (repricedItems.length > 0) {
+      Alert.alert(
+        'Prices Updated',
+        `New prices took effect for ${repricedItems.join(', ')}. Check the total and confirm again.`
+      );
+      return;
+    }
+    // A change to cost alone reprices nothing above, so the lines are worked out
+    // again from the cart as it is now for the cost checks and profit below
+    const { cartItems: saleItems, billDiscount: saleBillDiscount, taxOptions: saleTaxOptions } = useCartStore.getState();
+    const saleTotals = calculateCartTotals(
+      saleItems.map((item) => ({ ...item, discount: item.lineDiscount })),
+      saleBillDiscount,
+      saleTaxOptions
+    );
+    const saleLines = Object.fromEntries(saleTotals.lines.map((line) => [line.id, line]));
     if (!selectedPaymentMethod) {
       Alert.alert('Payment Method Required', 'Please select a payment method.');
       return;
     }
+    if (tenderSummary.error) {
+      Alert.alert('Payment Incomplete', tenderSummary.error);
+      return;
+    }
+    if (!allowBelowCost) {
+      const belowCost = saleItems.filter((item) => {
+        const line = saleLines[item.id];
+        return line && line.discount > 0 && line.taxable < line.cost;
+      });
+      if (belowCost.length > 0) {
+        Alert.alert(
+          'Selling Below Cost',
+          `After discounts, ${belowCost.map((item) => item.name).join(', ')} will sell for less than cost. Continue?`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Sell Anyway', style: 'destructive', onPress: () => confirmSale({ ...options, allowBelowCost: true }) },
+          ]
+        );
+        return;
+      }
+    }
+    if (khataAmount > 0) {
+      if (!selectedCustomer || selectedCustomer.id.startsWith('temp-')) {
+        Alert.alert('Customer Required', 'Select a saved customer to put this sale on khata.');
+        return;
+      }
+      if (!creditOverride && currentUserId) {
+        try {
+          const limitCheck = await checkCreditLimit(currentUserId, selectedCustomer.id, khataAmount);
+          if (limitCheck.exceedsLimit) {
+            Alert.alert(
+              'Credit Limit Exceeded',
+              `${selectedCustomer.name} owes ₹${limitCheck.outstandingBalance.toFixed(2)} against a limit of ₹${limitCheck.creditLimit.toFixed(2)}. Adding ₹${khataAmount.toFixed(2)} would exceed it.`,
+              [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Override', style: 'destructive', onPress: () => confirmSale({ ...options, creditOverride: true }) },
+              ]
+            );
+            return;
+          }
+        } catch (error) {
+          Alert.alert(
+            'Error',
+            `Failed to check credit limit: ${error instanceof Error ? error.message : String(error)}`
+          );
+          return;
+        }
+      }
+    }
     setIsProcessing(true);
 
     try {
@@ -265,20 +590,25 @@ export default function CartDialog() {
       const db = getDatabase();
       const saleId = uuidv4();
       const saleTimestamp = new Date().toISOString();
+      const salePaymentType = getSalePaymentType(tenders);
+      const valuationMethod = await getInventoryValuationMethod(currentUserId);
 
       await db.withTransactionAsync(async () => {
         await db.runAsync(
-          `INSERT INTO Sales (id, userId, customerId, timestamp, totalAmount, totalProfit, subtotal, paymentType, salesStatus, customerName, customerPhone, customerEmail)
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          `INSERT INTO Sales (id, userId, customerId, timestamp, totalAmount, totalProfit, subtotal, discount, tax, paymentType, isPaid, salesStatus, customerName, customerPhone, customerEmail)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           [
             saleId,
             currentUserId,
             selectedCustomer?.id.startsWith('temp-') ? null : selectedCustomer?.id || null,
             saleTimestamp,
-            totalAmount,
-            totalProfit,
-            subtotal,
-            selectedPaymentMethod,
+            saleTotals.totalAmount,
+            saleTotals.totalProfit,
+            saleTotals.grossTotal,
+            saleTotals.discountTotal,
+            saleTotals.taxTotal,
+            salePaymentType,
+            khataAmount > 0 ? 0 : 1,
             'COMPLETED',
             selectedCustomer?.name || null,
             selectedCustomer?.phone || null,
@@ -286,41 +616,78 @@ export default function CartDialog() {
           ]
         );
 
+        await insertSalePayments(saleId, tenders);
+
+        if (khataAmount > 0 && selectedCustomer) {
+          await createCreditSale(currentUserId, {
+            saleId,
+            customerId: selectedCustomer.id,
+            creditAmount: khataAmount,
+            termsInDays: creditTerms,
+            approvedBy: creditOverride ? currentUserId : null,
+            notesOrReason: creditOverride ? 'Credit limit overridden at checkout' : null,
+          });
+        }
+
         const saleCartItems: CartItemForReceipt[] = [];
+        let saleProfit = 0;
 
-        for (const item of cartItems) {
+        for (const item of saleItems) {
           const saleItemId = uuidv4();
+          const line = saleLines[item.id];
+          // The cost booked is what the stock going out actually cost, which
+          // can differ from the product's listed cost under FIFO. A bundle's
+          // stock is its components', so those are what leave the shelf.
+          const unitCost = item.isBundle
+            ? await takeBundleStockAtCost(currentUserId, saleItemId, item.id, item.quantityInCart, valuationMethod)
+            : await takeStockAtCost(currentUserId, item.id, item.quantityInCart, valuationMethod);
+          const lineProfit = roundCurrency(line.taxable - roundCurrency(unitCost * item.quantityInCart));
+          saleProfit = roundCurrency(saleProfit + lineProfit);
           await db.runAsync(
-            `INSERT INTO SaleItems (id, saleId, productId, quantity, unitPrice, costPrice, subtotal, profit)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            `INSERT INTO SaleItems (id, saleId, productId, quantity, unitPrice, costPrice, discount, tax, subtotal, profit)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
             [
               saleItemId,
               saleId,
               item.id,
               item.quantityInCart,
               item.sellingPrice,
-              item.costPrice || 0,
-              item.sellingPrice * item.quantityInCart,
-              (item.sellingPrice - (item.costPrice || 0)) * item.quantityInCart,
+              unitCost,
+              line.discount,
+              line.tax,
+              line.total,
+              lineProfit,
             ]
           );
-          await db.runAsync(
-            'UPDATE products SET quantity = quantity - ?, updatedAt = ? WHERE id = ? AND userId = ?',
-            [item.quantityInCart, new Date().toISOString(), item.id, currentUserId]
-          );
+          if (!item.isBundle) {
+            await db.runAsync(
+              `UPDATE products SET quantity = ROUND(quantity - ?, ${QUANTITY_DECIMALS}), updatedAt = ? WHERE id = ? AND userId = ?`,
+              [item.quantityInCart, new Date().toISOString(), item.id, currentUserId]
+            );
+          }
           saleCartItems.push({
             name: item.name,
             quantityInCart: item.quantityInCart,
             sellingPrice: item.sellingPrice,
-            costPrice: item.costPrice || 0,
+            costPrice: unitCost,
             category: item.category,
+            discount: line.discount,
+            tax: line.tax,
           });
         }
+        if (saleProfit !== saleTotals.totalProfit) {
+          await db.runAsync('UPDATE Sales SET totalProfit = ? WHERE id = ?', [saleProfit, saleId]);
+        }
 
         const saleDetails: SaleDetailsForReceipt = {
           saleId,
           saleTimestamp,
-          totalAmount,
+          totalAmount: saleTotals.totalAmount,
+          subtotal: saleTotals.grossTotal,
+          discount: saleTotals.discountTotal,
+          tax: saleTotals.taxTotal,
+          taxBreakdown: saleTotals.taxBreakdown,
+          pricesIncludeTax: saleTotals.pricesIncludeTax,
           cartItems: saleCartItems,
           customer: selectedCustomer
             ? {
@@ -329,7 +696,8 @@ export default function CartDialog() {
               email: selectedCustomer.email,
             }
             : null,
-          paymentMethod: selectedPaymentMethod,
+          paymentMethod: salePaymentType,
+          payments: tenders,
         };
 
         const pdfUri = await generateAndShareReceipt(saleDetails);
@@ -368,8 +736,8 @@ export default function CartDialog() {
 
       clearCart();
       setSelectedCustomer(null);
-      setSelectedPaymentMethod(PAYMENT_METHODS[0].value);
-      await fetchProducts();
+      resetPaymentState();
+      await Promise.all([fetchProducts(), fetchCustomers()]);
     } catch (error) {
       console.error('Error confirming sale:', error);
       Alert.alert(
@@ -383,29 +751,42 @@ export default function CartDialog() {
   };
 
   const renderCartItem = ({ item }: { item: CartItem }) => {
+    const clearQuantityDraft = () =>
+      setQuantityDrafts(({ [item.id]: _, ...rest }) => rest);
+
     const handleQuantityChange = (text: string) => {
-      const newQuantity = parseInt(text.replace(/[^0-9]/g, ''), 10);
+      const cleaned = sanitizeQuantityInput(text, item.unit);
+      setQuantityDrafts((prev) => ({ ...prev, [item.id]: cleaned }));
+      const newQuantity = parseQuantity(cleaned, item.unit);
       const productInStore = products.find((p) => p.id === item.id);
       if (!productInStore) {
         console.error(`Product with ID ${item.id} not found in store`);
         return;
       }
-      if (isNaN(newQuantity) || text === '') {
-        increaseQuantity(item.id);
-        return;
-      }
-      if (newQuantity === 0) {
-        removeCartItem(item.id);
+      // Wait while the number is still being typed, e.g. "0." on the way to 0.5
+      if (isNaN(newQuantity) || cleaned.endsWith('.') || newQuantity === 0) {
         return;
       }
       if (newQuantity > productInStore.quantity) {
-        Alert.alert('Stock Limit Reached', `Max stock is ${productInStore.quantity}.`);
+        Alert.alert('Stock Limit Reached', `Max stock is ${formatQuantity(productInStore.quantity)}.`);
         useCartStore.getState().addToCart(productInStore, productInStore.quantity);
+        clearQuantityDraft();
         return;
       }
       useCartStore.getState().addToCart(productInStore, newQuantity);
     };
 
+    const handleQuantityEndEditing = () => {
+      const draft = quantityDrafts[item.id];
+      if (draft === undefined) return;
+      clearQuantityDraft();
+      if (parseQuantity(draft, item.unit) === 0) {
+        removeCartItem(item.id);
+      }
+    };
+
+    const nextPriceBreak = getNextPriceBreak(priceList, item.id, item.quantityInCart);
+
     return (
       <Card className="mb-3 bg-white dark:bg-gray-800 shadow-md rounded-xl overflow-hidden">
         <CardHeader className="py-1 px-4">
@@ -439,6 +820,16 @@ export default function CartDialog() {
               <UIText className="text-sm font-medium text-gray-900 dark:text-gray-100">
                 ₹{item.sellingPrice.toFixed(2)}
               </UIText>
+              {item.sellingPrice !== item.catalogPrice && (
+                <UIText className="text-xs line-through text-gray-500 dark:text-gray-400">
+                  ₹{item.catalogPrice.toFixed(2)}
+                </UIText>
+              )}
+              {nextPriceBreak && (
+                <UIText className="text-xs" style={{ color: COLORS.accent }}>
+                  {formatQuantity(nextPriceBreak.minQuantity)}+ at ₹{nextPriceBreak.price.toFixed(2)}
+                </UIText>
+              )}
             </View>
           </View>
         </CardHeader>
@@ -448,16 +839,17 @@ export default function CartDialog() {
               <TouchableOpacity onPress={() => decreaseQuantity(item.id)} className="p-1.5">
                 <MinusCircle
                   size={18}
-                  color={item.quantityInCart <= 1 ? COLORS.gray : COLORS.danger}
+                  color={item.quantityInCart <= getQuantityStep(item) ? COLORS.gray : COLORS.danger}
                 />
               </TouchableOpacity>
               <Input
-                className="w-10 h-8 text-center text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600"
-                value={item.quantityInCart.toString()}
+                className="w-14 h-8 text-center text-sm font-medium rounded-md border border-gray-300 dark:border-gray-600"
+                value={quantityDrafts[item.id] ?? formatQuantity(item.quantityInCart)}
                 onChangeText={handleQuantityChange}
-                keyboardType="number-pad"
+                onEndEditing={handleQuantityEndEditing}
+                keyboardType={allowsDecimalQuantity(item.unit) ? 'decimal-pad' : 'number-pad'}
                 selectTextOnFocus
-                maxLength={3}
+                maxLength={allowsDecimalQuantity(item.unit) ? 7 : 3}
                 style={{ backgroundColor: COLORS.white, color: COLORS.primary }}
               />
               <TouchableOpacity
@@ -480,9 +872,22 @@ export default function CartDialog() {
               </TouchableOpacity>
             </View>
             <View className="flex-row items-center gap-x-1">
-              <UIText className="text-sm font-bold" style={{ color: COLORS.primary }}>
-                ₹{(item.quantityInCart * item.sellingPrice).toFixed(2)}
-              </UIText>
+              <TouchableOpacity
+                onPress={() => openDiscountDialog({ kind: 'LINE', productId: item.id, name: item.name })}
+                className="p-1.5"
+              >
+                <Tag size={16} color={item.lineDiscount ? COLORS.accent : COLORS.gray} />
+              </TouchableOpacity>
+              <View className="items-end">
+                <UIText className="text-sm font-bold" style={{ color: COLORS.primary }}>
+                  ₹{(pricedLines[item.id]?.gross ?? item.quantityInCart * item.sellingPrice).toFixed(2)}
+                </UIText>
+                {item.lineDiscount && (
+                  <UIText className="text-xs" style={{ color: COLORS.accent }}>
+                    -{formatDiscount(item.lineDiscount)}
+                  </UIText>
+                )}
+              </View>
               <TouchableOpacity onPress={() => removeCartItem(item.id)} className="p-1.5">
                 <XCircle size={18} color={COLORS.danger} />
               </TouchableOpacity>
@@ -505,7 +910,7 @@ export default function CartDialog() {
           <ShoppingCart size={24} color={COLORS.white} />
           <View className="rounded-full items-center justify-center absolute -top-1 -right-0 min-w-6 h-6 px-1" style={{ backgroundColor: COLORS.danger }}>
             <UIText className="text-white font-bold text-xs">
-              {cartItems.reduce((sum, item) => sum + item.quantityInCart, 0)}
+              {formatQuantity(cartItems.reduce((sum, item) => sum + item.quantityInCart, 0))}
             </UIText>
           </View>
         </TouchableOpacity>
@@ -516,11 +921,25 @@ export default function CartDialog() {
           style={{ maxHeight: '90%', minHeight: 640 }}
         >
           <DialogHeader className="p-6 pb-1 border-b border-gray-200 dark:border-gray-700">
-            <View className="flex-row items-center">
-              <ShoppingCart size={24} color={COLORS.secondary} className="mr-2" />
-              <DialogTitle className="text-xl font-bold" style={{ color: COLORS.gray }}>
-                Current Sale
-              </DialogTitle>
+            <View className="flex-row items-center justify-between">
+              <View className="flex-row items-center">
+                <ShoppingCart size={24} color={COLORS.secondary} className="mr-2" />
+                <DialogTitle className="text-xl font-bold" style={{ color: COLORS.gray }}>
+                  Current Sale
+                </DialogTitle>
+              </View>
+              {draftSales.length > 0 && (
+                <TouchableOpacity
+                  onPress={() => setIsHeldBillsOpen(true)}
+                  className="flex-row items-center px-2 py-1 rounded-md"
+                  style={{ backgroundColor: COLORS.lightYellow }}
+                >
+                  <Clock size={14} color={COLORS.dark} />
+                  <UIText className="text-xs font-semibold ml-1" style={{ color: COLORS.dark }}>
+                    Held ({draftSales.length})
+                  </UIText>
+                </TouchableOpacity>
+              )}
             </View>
           </DialogHeader>
           <View style={{ padding: 16, width: '100%', flex: 1 }}>
@@ -533,6 +952,18 @@ export default function CartDialog() {
                 <UIText className="text-xs mt-1" style={{ color: COLORS.gray }}>
                   Select products to add them here
                 </UIText>
+                {draftSales.length > 0 && (
+                  <Button
+                    variant="outline"
+                    className="mt-4 h-10 border"
+                    style={{ borderColor: COLORS.border, backgroundColor: COLORS.white }}
+                    onPress={() => setIsHeldBillsOpen(true)}
+                  >
+                    <UIText className="font-semibold text-sm" style={{ color: COLORS.dark }}>
+                      Resume a Held Bill ({draftSales.length})
+                    </UIText>
+                  </Button>
+                )}
               </View>
             ) : (
               <View style={{ flex: 1, width: 320 }}>
@@ -554,6 +985,11 @@ export default function CartDialog() {
                             {selectedCustomer.phone}
                           </UIText>
                         )}
+                        {priceList && (
+                          <UIText className="text-xs font-medium" style={{ color: COLORS.accent }}>
+                            {priceList.name} prices
+                          </UIText>
+                        )}
                       </View>
                       <Button
                         variant="ghost"
@@ -596,36 +1032,167 @@ export default function CartDialog() {
                 />
                 <View style={{ paddingTop: 2, paddingHorizontal: 12 }}>
                   <View className="mb-3">
-                    <UIText
-                      className="text-sm font-medium mb-1"
-                      style={{ color: COLORS.gray }}
-                    >
-                      Payment Method
-                    </UIText>
-                    <View
-                      className="rounded-md border"
-                      style={{ borderColor: COLORS.border, backgroundColor: COLORS.white, width: '100%' }}
-                    >
-                      <Picker
-                        selectedValue={selectedPaymentMethod}
-                        onValueChange={(itemValue) => setSelectedPaymentMethod(itemValue)}
-                        style={{
-                          height: Platform.OS === 'ios' ? 120 : 55,
-                          color: COLORS.dark,
-                          width: '100%',
-                          paddingHorizontal: 8,
-                        }}
-                        itemStyle={{ color: COLORS.dark, fontSize: 14, paddingHorizontal: 8 }}
-                      >
-                        {PAYMENT_METHODS.map((method) => (
-                          <Picker.Item
-                            key={method.value}
-                            label={method.label}
-                            value={method.value}
-                          />
-                        ))}
-                      </Picker>
+                    <View className="flex-row justify-between items-center mb-1">
+                      <UIText className="text-sm font-medium" style={{ color: COLORS.gray }}>
+                        {isSplitPayment ? 'Payments' : 'Payment Method'}
+                      </UIText>
+                      <TouchableOpacity onPress={toggleSplitPayment} className="flex-row items-center px-2 py-1">
+                        <Split size={14} color={COLORS.secondary} />
+                        <UIText className="text-xs font-semibold ml-1" style={{ color: COLORS.secondary }}>
+                          {isSplitPayment ? 'Single Payment' : 'Split Payment'}
+                        </UIText>
+                      </TouchableOpacity>
                     </View>
+                    {isSplitPayment ? (
+                      <View>
+                        {tenderRows.map((row) => (
+                          <View
+                            key={row.key}
+                            className="mb-2 p-2 rounded-md border"
+                            style={{ borderColor: COLORS.border, backgroundColor: COLORS.white }}
+                          >
+                            <View className="flex-row items-center">
+                              <View style={{ flex: 1 }}>
+                                <Picker
+                                  selectedValue={row.paymentMethod}
+                                  onValueChange={(itemValue) => updateTenderRow(row.key, { paymentMethod: itemValue })}
+                                  style={{ height: Platform.OS === 'ios' ? 100 : 50, color: COLORS.dark }}
+                                  itemStyle={{ color: COLORS.dark, fontSize: 14 }}
+                                >
+                                  {PAYMENT_METHODS.map((method) => (
+                                    <Picker.Item key={method.value} label={method.label} value={method.value} />
+                                  ))}
+                                </Picker>
+                              </View>
+                              <TouchableOpacity
+                                onPress={() => removeTenderRow(row.key)}
+                                className="p-1.5"
+                                disabled={tenderRows.length <= 1}
+                              >
+                                <XCircle size={18} color={tenderRows.length <= 1 ? COLORS.gray : COLORS.danger} />
+                              </TouchableOpacity>
+                            </View>
+                            <View className="flex-row gap-x-2 mt-1">
+                              <Input
+                                placeholder="Amount"
+                                value={row.amount}
+                                onChangeText={(text) => updateTenderRow(row.key, { amount: text.replace(/[^0-9.]/g, '') })}
+                                keyboardType="decimal-pad"
+                                className="flex-1 h-9 text-sm border border-gray-300 dark:border-gray-600"
+                                style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                                placeholderTextColor={COLORS.gray}
+                              />
+                              {row.paymentMethod !== 'CASH' && (
+                                <Input
+                                  placeholder="Reference"
+                                  value={row.reference}
+                                  onChangeText={(text) => updateTenderRow(row.key, { reference: text })}
+                                  className="flex-1 h-9 text-sm border border-gray-300 dark:border-gray-600"
+                                  style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                                  placeholderTextColor={COLORS.gray}
+                                />
+                              )}
+                            </View>
+                          </View>
+                        ))}
+                        <View className="flex-row justify-between items-center">
+                          <TouchableOpacity onPress={addTenderRow} className="flex-row items-center py-1">
+                            <PlusCircle size={16} color={COLORS.primary} />
+                            <UIText className="text-xs font-semibold ml-1" style={{ color: COLORS.primary }}>
+                              Add Payment
+                            </UIText>
+                          </TouchableOpacity>
+                          <UIText
+                            className="text-xs font-semibold"
+                            style={{ color: Math.abs(tenderSummary.remaining) < 0.005 ? COLORS.gray : COLORS.danger }}
+                          >
+                            Remaining: ₹{tenderSummary.remaining.toFixed(2)}
+                          </UIText>
+                        </View>
+                      </View>
+                    ) : (
+                      <View>
+                        <View
+                          className="rounded-md border"
+                          style={{ borderColor: COLORS.border, backgroundColor: COLORS.white, width: '100%' }}
+                        >
+                          <Picker
+                            selectedValue={selectedPaymentMethod}
+                            onValueChange={(itemValue) => setSelectedPaymentMethod(itemValue)}
+                            style={{
+                              height: Platform.OS === 'ios' ? 120 : 55,
+                              color: COLORS.dark,
+                              width: '100%',
+                              paddingHorizontal: 8,
+                            }}
+                            itemStyle={{ color: COLORS.dark, fontSize: 14, paddingHorizontal: 8 }}
+                          >
+                            {PAYMENT_METHODS.map((method) => (
+                              <Picker.Item
+                                key={method.value}
+                                label={method.label}
+                                value={method.value}
+                              />
+                            ))}
+                          </Picker>
+                        </View>
+                        {selectedPaymentMethod !== 'CASH' && (
+                          <Input
+                            placeholder="Reference / Txn ID (optional)"
+                            value={paymentReference}
+                            onChangeText={setPaymentReference}
+                            className="h-9 mt-2 text-sm border border-gray-300 dark:border-gray-600"
+                            style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                            placeholderTextColor={COLORS.gray}
+                          />
+                        )}
+                      </View>
+                    )}
+                    {khataAmount > 0 && (
+                      <View className="mt-2 p-2 rounded-md" style={{ backgroundColor: COLORS.lightYellow }}>
+                        <View className="flex-row items-center justify-between">
+                          <UIText className="text-xs" style={{ color: COLORS.dark }}>
+                            Khata terms (days)
+                          </UIText>
+                          <Input
+                            value={creditTermsDays}
+                            onChangeText={(text) => setCreditTermsDays(text.replace(/[^0-9]/g, ''))}
+                            keyboardType="number-pad"
+                            maxLength={3}
+                            className="w-16 h-8 text-center text-sm border border-gray-300 dark:border-gray-600"
+                            style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                          />
+                        </View>
+                        <UIText className="text-xs mt-1" style={{ color: COLORS.dark }}>
+                          ₹{khataAmount.toFixed(2)} on khata, due {format(addDays(new Date(), creditTerms), 'dd MMM yyyy')}
+                        </UIText>
+                        {selectedCustomer && !selectedCustomer.id.startsWith('temp-') ? (
+                          <UIText className="text-xs" style={{ color: COLORS.gray }}>
+                            Outstanding ₹{(selectedCustomer.outstandingBalance || 0).toFixed(2)} / Limit ₹{(selectedCustomer.creditLimit || 0).toFixed(2)}
+                          </UIText>
+                        ) : (
+                          <UIText className="text-xs font-semibold" style={{ color: COLORS.danger }}>
+                            Select a customer for khata sales
+                          </UIText>
+                        )}
+                      </View>
+                    )}
+                    {tenderSummary.cashPortion > 0 && (
+                      <View className="flex-row items-center justify-between mt-2">
+                        <Input
+                          placeholder="Cash received"
+                          value={cashReceived}
+                          onChangeText={(text) => setCashReceived(text.replace(/[^0-9.]/g, ''))}
+                          keyboardType="decimal-pad"
+                          className="flex-1 h-9 mr-2 text-sm border border-gray-300 dark:border-gray-600"
+                          style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+                          placeholderTextColor={COLORS.gray}
+                        />
+                        <UIText className="text-sm font-semibold" style={{ color: COLORS.dark }}>
+                          Change: ₹{tenderSummary.changeDue.toFixed(2)}
+                        </UIText>
+                      </View>
+                    )}
                   </View>
                   <View className="mb-2">
                     <View className="flex-row justify-between items-center mt-4">
@@ -639,6 +1206,32 @@ export default function CartDialog() {
                         ₹{subtotal.toFixed(2)}
                       </UIText>
                     </View>
+                    <View className="flex-row justify-between items-center mt-2">
+                      <TouchableOpacity
+                        onPress={() => openDiscountDialog({ kind: 'BILL' })}
+                        className="flex-row items-center"
+                      >
+                        <Tag size={14} color={COLORS.secondary} />
+                        <UIText className="text-sm ml-1" style={{ color: COLORS.secondary }}>
+                          {billDiscount ? `Bill Discount (${formatDiscount(billDiscount)})` : 'Add Bill Discount'}
+                        </UIText>
+                      </TouchableOpacity>
+                      {discountTotal > 0 && (
+                        <UIText className="text-sm font-semibold" style={{ color: COLORS.accent }}>
+                          -₹{discountTotal.toFixed(2)}
+                        </UIText>
+                      )}
+                    </View>
+                    {taxTotal > 0 && (
+                      <View className="flex-row justify-between items-center mt-2">
+                        <UIText className="text-sm" style={{ color: COLORS.gray }}>
+                          {cartTotals.pricesIncludeTax ? 'Tax (included):' : 'Tax:'}
+                        </UIText>
+                        <UIText className="text-sm font-semibold" style={{ color: COLORS.dark }}>
+                          {cartTotals.pricesIncludeTax ? '' : '+'}₹{taxTotal.toFixed(2)}
+                        </UIText>
+                      </View>
+                    )}
                     <View className="flex-row justify-between items-center mt-2">
                       <UIText
                         className="text-base font-bold"
@@ -665,7 +1258,21 @@ export default function CartDialog() {
                       </UIText>
                     </View>
                   </View>
-                  <DialogFooter className="flex-row gap-x-2 mt-4">
+                  <Button
+                    variant="outline"
+                    className="w-full h-10 border border-gray-300 dark:border-gray-600 mt-2"
+                    style={{ backgroundColor: COLORS.white }}
+                    onPress={() => setIsHoldDialogOpen(true)}
+                    disabled={isProcessing}
+                  >
+                    <View className="flex-row items-center">
+                      <PauseCircle size={16} color={COLORS.secondary} />
+                      <UIText className="font-semibold text-sm ml-2" style={{ color: COLORS.dark }}>
+                        Hold Bill
+                      </UIText>
+                    </View>
+                  </Button>
+                  <DialogFooter className="flex-row gap-x-2 mt-2">
                     <Button
                       variant="outline"
                       className="flex-1 h-10 border border-gray-300 dark:border-gray-600 mt-1"
@@ -731,12 +1338,21 @@ export default function CartDialog() {
               </View>
             )}
             <UIText className="text-sm font-medium mb-2" style={{ color: COLORS.dark }}>
-              Payment Method:{' '}
+              Payment:{' '}
               <UIText className="font-semibold">
-                {PAYMENT_METHODS.find((p) => p.value === selectedPaymentMethod)?.label ||
-                  selectedPaymentMethod}
+                {formatPaymentBreakdown(tenders)}
               </UIText>
             </UIText>
+            {khataAmount > 0 && (
+              <UIText className="text-sm font-medium mb-2" style={{ color: COLORS.danger }}>
+                On Khata: ₹{khataAmount.toFixed(2)} (due {format(addDays(new Date(), creditTerms), 'dd MMM yyyy')})
+              </UIText>
+            )}
+            {tenderSummary.changeDue > 0 && (
+              <UIText className="text-sm font-medium mb-2" style={{ color: COLORS.dark }}>
+                Change Due: <UIText className="font-semibold">₹{tenderSummary.changeDue.toFixed(2)}</UIText>
+              </UIText>
+            )}
             <FlatList
               data={cartItems}
               renderItem={({ item }) => (
@@ -748,13 +1364,13 @@ export default function CartDialog() {
                     style={{ flex: 1, marginRight: 8, color: COLORS.gray }}
                   >
                     {item.name} {item.category ? `(${item.category})` : ''} ×{' '}
-                    {item.quantityInCart}
+                    {formatQuantity(item.quantityInCart)}{allowsDecimalQuantity(item.unit) ? ` ${item.unit}` : ''}
                   </UIText>
                   <UIText
                     className="text-sm font-semibold"
                     style={{ color: COLORS.accent }}
                   >
-                    ₹{(item.sellingPrice * item.quantityInCart).toFixed(2)}
+                    ₹{(pricedLines[item.id]?.net ?? item.sellingPrice * item.quantityInCart).toFixed(2)}
                   </UIText>
                 </View>
               )}
@@ -764,6 +1380,26 @@ export default function CartDialog() {
               contentContainerStyle={{ paddingBottom: 8 }}
             />
             <Separator className="my-2" style={{ backgroundColor: COLORS.gray }} />
+            {discountTotal > 0 && (
+              <View className="flex-row justify-between py-1">
+                <UIText className="text-sm" style={{ color: COLORS.gray }}>
+                  Discount:
+                </UIText>
+                <UIText className="text-sm font-semibold" style={{ color: COLORS.accent }}>
+                  -₹{discountTotal.toFixed(2)}
+                </UIText>
+              </View>
+            )}
+            {taxTotal > 0 && (
+              <View className="flex-row justify-between py-1">
+                <UIText className="text-sm" style={{ color: COLORS.gray }}>
+                  {cartTotals.pricesIncludeTax ? 'Tax (included):' : 'Tax:'}
+                </UIText>
+                <UIText className="text-sm font-semibold" style={{ color: COLORS.dark }}>
+                  ₹{taxTotal.toFixed(2)}
+                </UIText>
+              </View>
+            )}
             <View className="flex-row justify-between py-1">
               <UIText className="text-lg font-bold" style={{ color: COLORS.dark }}>
                 Total:
@@ -791,7 +1427,7 @@ export default function CartDialog() {
             <Button
               className="h-12 px-6"
               style={{ backgroundColor: COLORS.primary }}
-              onPress={confirmSale}
+              onPress={() => confirmSale()}
               disabled={isProcessing}
             >
               {isProcessing ? (
@@ -836,7 +1472,7 @@ export default function CartDialog() {
               onPress={() => {
                 clearCart();
                 setSelectedCustomer(null);
-                setSelectedPaymentMethod(PAYMENT_METHODS[0].value);
+                resetPaymentState();
                 setIsClearCartDialogOpen(false);
               }}
               disabled={isProcessing}
@@ -848,6 +1484,173 @@ export default function CartDialog() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      <Dialog open={!!discountTarget} onOpenChange={(open) => { if (!open) setDiscountTarget(null); }}>
+        <DialogContent className="p-0 bg-white dark:bg-gray-800 rounded-lg shadow-xl w-[90%] max-w-sm mx-auto">
+          <DialogHeader className="p-6 pb-4 border-b border-gray-200 dark:border-gray-700">
+            <DialogTitle className="text-xl font-bold" style={{ color: COLORS.primary }}>
+              {discountTarget?.kind === 'LINE' ? 'Item Discount' : 'Bill Discount'}
+            </DialogTitle>
+            {discountTarget?.kind === 'LINE' && (
+              <UIText className="text-sm" style={{ color: COLORS.gray }}>
+                {discountTarget.name}
+              </UIText>
+            )}
+          </DialogHeader>
+          <View className="p-4">
+            <View className="flex-row gap-x-2 mb-3">
+              {(['PERCENT', 'FLAT'] as DiscountType[]).map((type) => (
+                <TouchableOpacity
+                  key={type}
+                  onPress={() => setDiscountType(type)}
+                  className="flex-1 items-center py-2 rounded-md border"
+                  style={{
+                    borderColor: discountType === type ? COLORS.primary : COLORS.border,
+                    backgroundColor: discountType === type ? COLORS.primary : COLORS.white,
+                  }}
+                >
+                  <UIText className="text-sm font-semibold" style={{ color: discountType === type ? COLORS.white : COLORS.dark }}>
+                    {type === 'PERCENT' ? 'Percent (%)' : 'Amount (₹)'}
+                  </UIText>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Input
+              placeholder={discountType === 'PERCENT' ? 'e.g. 10' : 'e.g. 25'}
+              value={discountValue}
+              onChangeText={(text) => setDiscountValue(text.replace(/[^0-9.]/g, ''))}
+              keyboardType="decimal-pad"
+              className="h-11 border border-gray-300 dark:border-gray-600"
+              style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+              placeholderTextColor={COLORS.gray}
+            />
+          </View>
+          <DialogFooter className="p-4 pt-2 flex-row justify-end gap-x-3 border-t border-gray-200 dark:border-gray-700">
+            <Button
+              variant="outline"
+              className="h-12 px-5 border border-gray-300 dark:border-gray-600"
+              style={{ backgroundColor: COLORS.white }}
+              onPress={() => applyDiscount(true)}
+            >
+              <UIText className="font-semibold" style={{ color: COLORS.danger }}>
+                Remove
+              </UIText>
+            </Button>
+            <Button className="h-12 px-5" style={{ backgroundColor: COLORS.primary }} onPress={() => applyDiscount()}>
+              <UIText className="font-semibold" style={{ color: COLORS.white }}>
+                Apply
+              </UIText>
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      <Dialog open={isHoldDialogOpen} onOpenChange={setIsHoldDialogOpen}>
+        <DialogContent className="p-0 bg-white dark:bg-gray-800 rounded-lg shadow-xl w-[90%] max-w-sm mx-auto">
+          <DialogHeader className="p-6 pb-4 border-b border-gray-200 dark:border-gray-700">
+            <DialogTitle className="text-xl font-bold" style={{ color: COLORS.primary }}>
+              Hold Bill
+            </DialogTitle>
+          </DialogHeader>
+          <View className="p-4">
+            <UIText className="text-sm mb-3" style={{ color: COLORS.dark }}>
+              {selectedCustomer
+                ? `Park this bill for ${selectedCustomer.name}.`
+                : 'Park this bill and start a new one.'}
+            </UIText>
+            <Input
+              placeholder="Notes (optional)"
+              value={holdNotes}
+              onChangeText={setHoldNotes}
+              className="h-11 border border-gray-300 dark:border-gray-600"
+              style={{ backgroundColor: COLORS.white, color: COLORS.dark }}
+              placeholderTextColor={COLORS.gray}
+            />
+          </View>
+          <DialogFooter className="p-4 pt-2 flex-row justify-end gap-x-3 border-t border-gray-200 dark:border-gray-700">
+            <Button
+              variant="outline"
+              className="h-12 px-5 border border-gray-300 dark:border-gray-600"
+              style={{ backgroundColor: COLORS.white }}
+              onPress={() => setIsHoldDialogOpen(false)}
+              disabled={isProcessing}
+            >
+              <UIText className="font-semibold" style={{ color: COLORS.dark }}>
+                Cancel
+              </UIText>
+            </Button>
+            <Button
+              className="h-12 px-5"
+              style={{ backgroundColor: COLORS.primary }}
+              onPress={handleHoldBill}
+              disabled={isProcessing}
+            >
+              {isProcessing ? (
+                <ActivityIndicator size="small" color={COLORS.white} />
+              ) : (
+                <UIText className="font-semibold" style={{ color: COLORS.white }}>
+                  Hold
+                </UIText>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      <Dialog open={isHeldBillsOpen} onOpenChange={setIsHeldBillsOpen}>
+        <DialogContent
+          className="p-0 bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-lg w-11/12 mx-auto"
+          style={{ maxHeight: '80%' }}
+        >
+          <DialogHeader className="p-6 pb-4 border-b border-gray-200 dark:border-gray-700">
+            <DialogTitle className="text-xl font-bold" style={{ color: COLORS.gray }}>
+              Held Bills
+            </DialogTitle>
+          </DialogHeader>
+          <View className="p-4 w-80">
+            <FlatList
+              data={draftSales}
+              keyExtractor={(item) => item.id}
+              renderItem={({ item }) => (
+                <View className="py-3 px-2 border-b border-gray-200 dark:border-gray-700">
+                  <View className="flex-row justify-between items-center">
+                    <View className="flex-1 mr-2">
+                      <UIText className="text-base font-medium" style={{ color: COLORS.dark }}>
+                        {item.customerName || 'Walk-in Customer'}
+                      </UIText>
+                      <UIText className="text-xs" style={{ color: COLORS.gray }}>
+                        {format(parseISO(item.timestamp), 'hh:mm a')} · {item.itemCount} item(s) · ₹{item.totalAmount.toFixed(2)}
+                      </UIText>
+                      {item.notes && (
+                        <UIText className="text-xs italic" style={{ color: COLORS.gray }}>
+                          {item.notes}
+                        </UIText>
+                      )}
+                    </View>
+                    <Button
+                      size="sm"
+                      style={{ backgroundColor: COLORS.primary }}
+                      onPress={() => handleResumeHeldBill(item.id)}
+                      disabled={isProcessing}
+                    >
+                      <UIText className="text-xs font-semibold" style={{ color: COLORS.white }}>
+                        Resume
+                      </UIText>
+                    </Button>
+                    <TouchableOpacity onPress={() => handleDiscardHeldBill(item.id)} className="p-2 ml-1">
+                      <Trash2 size={18} color={COLORS.danger} />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+              ListEmptyComponent={
+                <View className="items-center py-4">
+                  <UIText style={{ color: COLORS.gray }}>No held bills.</UIText>
+                </View>
+              }
+              style={{ maxHeight: 400 }}
+              showsVerticalScrollIndicator={true}
+            />
+          </View>
+        </DialogContent>
+      </Dialog>
       <Dialog
         open={isCustomerModalOpen}
         onOpenChange={(open) => {
@@ -945,11 +1748,15 @@ export default function CartDialog() {
                         setCustomerSearchQuery('');
                       }}
                     >
-                      <UIText className="text-base font-medium" style={{ color: COLORS.dark }}>
-                        {item.name}
-                      </UIText>
+                      <View className="flex-row justify-between items-center">
+                        <UIText className="text-base font-medium" style={{ color: COLORS.dark }}>
+                          {item.name}
+                        </UIText>
+                        {item.id in creditScores && <CreditScoreBadge score={creditScores[item.id]} />}
+                      </View>
                       <UIText className="text-xs" style={{ color: COLORS.gray }}>
                         {item.phone}
+                        {item.outstandingBalance > 0 ? ` · Owes ₹${item.outstandingBalance.toFixed(2)}` : ''}
                       </UIText>
                     </TouchableOpacity>
                   )}
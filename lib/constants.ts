@@ -16,3 +16,78 @@ export const NAV_THEME = {
     text: 'hsl(0 0% 98%)', // foreground
   },
 };
+
+export const PAYMENT_METHODS = [
+  { label: 'Cash', value: 'CASH' },
+  { label: 'UPI', value: 'UPI' },
+  { label: 'Credit Card', value: 'CREDIT_CARD' },
+  { label: 'Debit Card', value: 'DEBIT_CARD' },
+  { label: 'Credit (Khata)', value: 'CREDIT_KHATA' },
+  { label: 'Other', value: 'OTHER' },
+];
+
+// CreditPayments.paymentMethod for khata taken off by a sale return rather than paid
+export const KHATA_RETURN_METHOD = 'RETURN';
+
+// Why stock was changed by hand. RECEIVED adds stock, COUNT_CORRECTION sets it, the rest take it away.
+export const STOCK_ADJUSTMENT_REASONS = [
+  { label: 'Received', value: 'RECEIVED' },
+  { label: 'Damaged', value: 'DAMAGE' },
+  { label: 'Theft / Missing', value: 'THEFT' },
+  { label: 'Expired', value: 'EXPIRED' },
+  { label: 'Count Correction', value: 'COUNT_CORRECTION' },
+] as const;
+
+// Where a change to a product's prices came from
+export const PRICE_CHANGE_SOURCES = [
+  { label: 'Edited', value: 'EDIT' },
+  { label: 'CSV Import', value: 'IMPORT' },
+  { label: 'Scheduled', value: 'SCHEDULED' },
+] as const;
+
+// How sold stock is costed. Weighted average re-prices the whole stock on every
+// receipt; FIFO charges each sale the cost of the batches it is taken from.
+export const INVENTORY_VALUATION_METHODS = [
+  { label: 'Weighted Average', value: 'WEIGHTED_AVERAGE' },
+  { label: 'FIFO', value: 'FIFO' },
+] as const;
+
+// Units sold loose by weight or volume; these take decimal quantities
+export const LOOSE_UNITS = ['kg', 'g', 'l', 'ml'];
+
+// Default +/- step for loose products sold by the kg or litre
+export const DEFAULT_LOOSE_QUANTITY_STEP = 0.25;
+
+// Decimal places kept for quantities, i.e. to the gram for kg
+export const QUANTITY_DECIMALS = 3;
+
+// Units a product can be sold in, as offered in the product form
+export const PRODUCT_UNITS = ['piece', 'kg', 'g', 'l', 'ml', 'dozen', 'box', 'packet'];
+
+// Columns understood by the product CSV import, in export order
+export const PRODUCT_CSV_COLUMNS = [
+  { label: 'Name', value: 'name' },
+  { label: 'Category', value: 'category' },
+  { label: 'Cost Price', value: 'costPrice' },
+  { label: 'Selling Price', value: 'sellingPrice' },
+  { label: 'Quantity', value: 'quantity' },
+  { label: 'Unit', value: 'unit' },
+  { label: 'Barcode', value: 'barcode' },
+] as const;
+
+// Reorder level for products that do not set their own
+export const DEFAULT_REORDER_LEVEL = 5;
+
+// Batches expiring within this many days show up in the expiring-soon list
+export const EXPIRY_WARNING_DAYS = 7;
+
+// Held (parked) bills are discarded once they are older than this
+export const DRAFT_SALE_EXPIRY_HOURS = 12;
+
+// Default repayment period for khata (credit) sales
+export const DEFAULT_CREDIT_TERMS_DAYS = 30;
+
+// Khata reminder schedule: days before the due date, then every N days once overdue
+export const REMINDER_DAYS_BEFORE_DUE = 3;
+export const OVERDUE_REMINDER_INTERVAL_DAYS = 7;
+export const REMINDER_NOTIFICATION_HOUR = 9;
@@ -0,0 +1,141 @@
+import { ProductBatch, ProductBatchWithProduct } from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+import { addDays, endOfDay } from 'date-fns';
+import { QUANTITY_DECIMALS } from '../constants';
+
+const db = getDatabase();
+
+export interface NewBatchInput {
+  batchNumber?: string | null;
+  expiryDate?: string | null;
+  manufactureDate?: string | null;
+  supplierId?: string | null;
+  purchaseDate?: string | null;
+  unitCost?: number | null; // Defaults to the product's cost price
+}
+
+// Earliest expiry first; batches without an expiry date go last, oldest first
+const FEFO_ORDER = 'expiryDate IS NULL, expiryDate ASC, createdAt ASC';
+
+// Adds a batch of received stock. Does not touch products.quantity.
+// Meant to be called from inside the caller's own transaction.
+export const insertProductBatch = async (
+  userId: string,
+  productId: string,
+  quantity: number,
+  batch: NewBatchInput
+): Promise<ProductBatch> => {
+  const now = new Date().toISOString();
+  let unitCost = batch.unitCost;
+  if (unitCost == null) {
+    const product = await db.getFirstAsync<{ costPrice: number }>(
+      'SELECT costPrice FROM products WHERE id = ? AND userId = ?',
+      [productId, userId]
+    );
+    unitCost = Number(product?.costPrice) || 0;
+  }
+  const productBatch: ProductBatch = {
+    id: uuidv4(),
+    userId,
+    productId,
+    batchNumber: batch.batchNumber?.trim() || null,
+    quantity,
+    manufactureDate: batch.manufactureDate || null,
+    expiryDate: batch.expiryDate || null,
+    supplierId: batch.supplierId || null,
+    purchaseDate: batch.purchaseDate || now,
+    receivedQuantity: quantity,
+    unitCost,
+    createdAt: now,
+  };
+  await db.runAsync(
+    `INSERT INTO ProductBatches (id, userId, productId, batchNumber, quantity, manufactureDate, expiryDate, supplierId, purchaseDate, receivedQuantity, unitCost, createdAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      productBatch.id,
+      productBatch.userId,
+      productBatch.productId,
+      productBatch.batchNumber ?? null,
+      productBatch.quantity,
+      productBatch.manufactureDate ?? null,
+      productBatch.expiryDate ?? null,
+      productBatch.supplierId ?? null,
+      productBatch.purchaseDate ?? null,
+      productBatch.receivedQuantity ?? null,
+      productBatch.unitCost ?? null,
+      productBatch.createdAt,
+    ]
+  );
+  return productBatch;
+};
+
+// Takes stock out of the product's batches, earliest expiry first, and
+// returns how much came out and what it cost (batches without a recorded cost
+// count at the product's cost price). Stock that was never received into a
+// batch is simply not tracked here, so a shortfall is not an error.
+// Meant to be called inside the caller's transaction.
+export const deductFromBatches = async (
+  userId: string,
+  productId: string,
+  quantity: number
+): Promise<{ quantity: number; cost: number }> => {
+  const batches = await db.getAllAsync<{ id: string; quantity: number; unitCost: number | null }>(
+    `SELECT id, quantity, unitCost FROM ProductBatches
+     WHERE userId = ? AND productId = ? AND quantity > 0
+     ORDER BY ${FEFO_ORDER}`,
+    [userId, productId]
+  );
+  const product = await db.getFirstAsync<{ costPrice: number }>(
+    'SELECT costPrice FROM products WHERE id = ? AND userId = ?',
+    [productId, userId]
+  );
+  let remaining = quantity;
+  let cost = 0;
+  for (const batch of batches) {
+    if (remaining <= 0) break;
+    const taken = Math.min(remaining, Number(batch.quantity) || 0);
+    await db.runAsync(`UPDATE ProductBatches SET quantity = ROUND(quantity - ?, ${QUANTITY_DECIMALS}) WHERE id = ?`, [taken, batch.id]);
+    cost += taken * (batch.unitCost != null ? Number(batch.unitCost) : Number(product?.costPrice) || 0);
+    remaining -= taken;
+  }
+  return { quantity: quantity - remaining, cost };
+};
+
+export const getProductBatches = async (userId: string, productId: string): Promise<ProductBatch[]> => {
+  try {
+    const rows = await db.getAllAsync<ProductBatch>(
+      `SELECT * FROM ProductBatches
+       WHERE userId = ? AND productId = ? AND quantity > 0
+       ORDER BY ${FEFO_ORDER}`,
+      [userId, productId]
+    );
+    return rows.map(row => ({ ...row, quantity: Number(row.quantity) || 0 }));
+  } catch (error: any) {
+    console.error('Error fetching product batches from DB:', error.message);
+    throw new Error('Failed to fetch product batches.');
+  }
+};
+
+// Batches with stock left that expire within the given days, including ones already expired
+export const getExpiringBatches = async (userId: string, withinDays: number): Promise<ProductBatchWithProduct[]> => {
+  const horizon = endOfDay(addDays(new Date(), withinDays)).toISOString();
+  try {
+    const rows = await db.getAllAsync<ProductBatchWithProduct>(
+      `SELECT b.*, p.name as productName, p.unit, p.costPrice
+       FROM ProductBatches b
+       JOIN products p ON b.productId = p.id
+       WHERE b.userId = ? AND b.quantity > 0 AND b.expiryDate IS NOT NULL AND b.expiryDate <= ? AND p.isActive = 1
+       ORDER BY b.expiryDate ASC`,
+      [userId, horizon]
+    );
+    return rows.map(row => ({
+      ...row,
+      quantity: Number(row.quantity) || 0,
+      costPrice: Number(row.costPrice) || 0,
+    }));
+  } catch (error: any) {
+    console.error('Error fetching expiring batches from DB:', error.message);
+    throw new Error('Failed to fetch expiring batches.');
+  }
+};
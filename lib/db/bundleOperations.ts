@@ -0,0 +1,223 @@
+import { BundleComponentWithProduct, InventoryValuationMethod } from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+import { QUANTITY_DECIMALS } from '../constants';
+import { applyReceiptCost, takeStockAtCost } from './valuationOperations';
+import { getBundleAvailability, getBundleCost } from '../utils/bundleUtils';
+import { roundCurrency } from '../utils/pricingUtils';
+import { formatQuantity, roundQuantity } from '../utils/quantityUtils';
+
+const db = getDatabase();
+
+export interface BundleComponentInput {
+  productId: string;
+  quantity: number; // Per bundle
+}
+
+type ComponentRow = {
+  bundleId: string;
+  componentId: string;
+  name: string;
+  quantity: number;
+  stock: number;
+  costPrice: number;
+  isActive: number;
+};
+
+const getComponentRows = async (userId: string, bundleId?: string): Promise<ComponentRow[]> => {
+  const rows = await db.getAllAsync<ComponentRow>(
+    `SELECT bc.bundleId, bc.componentId, p.name, bc.quantity, p.quantity as stock, p.costPrice, p.isActive
+     FROM BundleComponents bc
+     JOIN products b ON bc.bundleId = b.id
+     JOIN products p ON bc.componentId = p.id
+     WHERE b.userId = ?${bundleId ? ' AND bc.bundleId = ?' : ''}`,
+    bundleId ? [userId, bundleId] : [userId]
+  );
+  return rows.map(row => ({
+    ...row,
+    quantity: Number(row.quantity) || 0,
+    stock: Number(row.stock) || 0,
+    costPrice: Number(row.costPrice) || 0,
+  }));
+};
+
+// Fills in each bundle's stock and cost from its components; other products
+// are returned as they are. Bundles keep no stock of their own.
+export const withBundleStock = async <T extends { id: string; isBundle?: boolean | number; quantity: number; costPrice: number }>(
+  userId: string,
+  products: T[]
+): Promise<T[]> => {
+  if (!products.some(p => p.isBundle)) return products;
+  const byBundle = new Map<string, ComponentRow[]>();
+  for (const row of await getComponentRows(userId)) {
+    byBundle.set(row.bundleId, [...(byBundle.get(row.bundleId) ?? []), row]);
+  }
+  return products.map(product => {
+    if (!product.isBundle) return product;
+    const components = byBundle.get(product.id) ?? [];
+    return { ...product, quantity: getBundleAvailability(components), costPrice: getBundleCost(components) };
+  });
+};
+
+export const getBundleComponents = async (userId: string, bundleId: string): Promise<BundleComponentWithProduct[]> => {
+  try {
+    const rows = await db.getAllAsync<BundleComponentWithProduct>(
+      `SELECT bc.*, p.name as productName, p.unit, p.quantity as stock, p.costPrice, p.sellingPrice, p.isActive
+       FROM BundleComponents bc
+       JOIN products b ON bc.bundleId = b.id
+       JOIN products p ON bc.componentId = p.id
+       WHERE bc.bundleId = ? AND b.userId = ?
+       ORDER BY p.name COLLATE NOCASE`,
+      [bundleId, userId]
+    );
+    return rows.map(row => ({
+      ...row,
+      quantity: Number(row.quantity) || 0,
+      stock: Number(row.stock) || 0,
+      costPrice: Number(row.costPrice) || 0,
+      sellingPrice: Number(row.sellingPrice) || 0,
+      isActive: !!row.isActive,
+    }));
+  } catch (error: any) {
+    console.error('Error fetching bundle components from DB:', error.message);
+    throw new Error('Failed to fetch bundle components.');
+  }
+};
+
+// Replaces the bundle's components. Components must be ordinary products:
+// a bundle inside a bundle, or the bundle itself, is refused.
+export const setBundleComponents = async (
+  userId: string,
+  bundleId: string,
+  components: BundleComponentInput[]
+): Promise<void> => {
+  const merged = new Map<string, number>();
+  for (const component of components) {
+    if (!(component.quantity > 0)) {
+      throw new Error('Each component needs a quantity above zero.');
+    }
+    merged.set(component.productId, roundQuantity((merged.get(component.productId) ?? 0) + component.quantity));
+  }
+  if (merged.size === 0) {
+    throw new Error('Add at least one product to the bundle.');
+  }
+  if (merged.has(bundleId)) {
+    throw new Error('A bundle cannot contain itself.');
+  }
+
+  try {
+    const bundle = await db.getFirstAsync<{ isBundle: number }>(
+      'SELECT isBundle FROM products WHERE id = ? AND userId = ? AND isActive = 1',
+      [bundleId, userId]
+    );
+    if (!bundle || !bundle.isBundle) {
+      throw new Error('Bundle not found or access denied.');
+    }
+    for (const productId of merged.keys()) {
+      const product = await db.getFirstAsync<{ name: string; isBundle: number }>(
+        'SELECT name, isBundle FROM products WHERE id = ? AND userId = ? AND isActive = 1',
+        [productId, userId]
+      );
+      if (!product) {
+        throw new Error('Component product not found or access denied.');
+      }
+      if (product.isBundle) {
+        throw new Error(`"${product.name}" is a bundle and cannot be a component.`);
+      }
+    }
+
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM BundleComponents WHERE bundleId = ?', [bundleId]);
+      for (const [productId, quantity] of merged) {
+        await db.runAsync(
+          'INSERT INTO BundleComponents (id, bundleId, componentId, quantity) VALUES (?, ?, ?, ?)',
+          [uuidv4(), bundleId, productId, quantity]
+        );
+      }
+      // Keep the stored cost near the components' so anything reading the table directly is close
+      const cost = getBundleCost(await getComponentRows(userId, bundleId));
+      await db.runAsync(
+        'UPDATE products SET costPrice = ?, updatedAt = ? WHERE id = ? AND userId = ?',
+        [cost, new Date().toISOString(), bundleId, userId]
+      );
+    });
+  } catch (error: any) {
+    if (error.message.includes('not found') || error.message.includes('cannot be')) {
+      throw error;
+    }
+    console.error('Error saving bundle components in DB:', error.message);
+    throw new Error('Failed to save the bundle components.');
+  }
+};
+
+// Takes the components of sold bundles off the shelf and returns the cost of
+// one bundle, booked from what each component's stock actually cost. What went
+// in is kept against the sale item so a return puts back the same products.
+// Refuses to take a component below zero, which rolls the sale back.
+// Meant to be called from inside the caller's own transaction.
+export const takeBundleStockAtCost = async (
+  userId: string,
+  saleItemId: string,
+  bundleId: string,
+  quantity: number,
+  method: InventoryValuationMethod
+): Promise<number> => {
+  const components = await getComponentRows(userId, bundleId);
+  if (components.length === 0) {
+    throw new Error('This bundle has no components set.');
+  }
+  let cost = 0;
+  for (const component of components) {
+    const needed = roundQuantity(component.quantity * quantity);
+    if (!component.isActive || needed > component.stock) {
+      throw new Error(
+        `Not enough ${component.name} for this bundle: need ${formatQuantity(needed)}, have ${formatQuantity(Math.max(component.stock, 0))}.`
+      );
+    }
+    const unitCost = await takeStockAtCost(userId, component.componentId, needed, method);
+    cost += unitCost * needed;
+    await db.runAsync(
+      `UPDATE products SET quantity = ROUND(quantity - ?, ${QUANTITY_DECIMALS}), updatedAt = ? WHERE id = ? AND userId = ?`,
+      [needed, new Date().toISOString(), component.componentId, userId]
+    );
+    await db.runAsync(
+      'INSERT INTO SaleItemComponents (id, saleItemId, componentId, quantity, unitCost) VALUES (?, ?, ?, ?, ?)',
+      [uuidv4(), saleItemId, component.componentId, component.quantity, unitCost]
+    );
+  }
+  return quantity > 0 ? roundCurrency(cost / quantity) : 0;
+};
+
+// Puts the components of returned bundles back on the shelf at the cost they
+// were sold at, as the bundle was made up when sold. Sales from before that
+// was recorded fall back to the bundle's current make-up at current cost.
+// Meant to be called from inside the caller's own transaction.
+export const returnBundleStock = async (
+  userId: string,
+  saleItemId: string,
+  bundleId: string,
+  quantity: number
+): Promise<void> => {
+  const sold = await db.getAllAsync<{ componentId: string; quantity: number; unitCost: number | null }>(
+    'SELECT componentId, quantity, unitCost FROM SaleItemComponents WHERE saleItemId = ?',
+    [saleItemId]
+  );
+  const components = sold.length > 0
+    ? sold.map(row => ({ componentId: row.componentId, quantity: Number(row.quantity) || 0, unitCost: Number(row.unitCost) || 0 }))
+    : (await getComponentRows(userId, bundleId)).map(row => ({ componentId: row.componentId, quantity: row.quantity, unitCost: null }));
+  for (const component of components) {
+    const returned = roundQuantity(component.quantity * quantity);
+    const product = await db.getFirstAsync<{ quantity: number }>(
+      'SELECT quantity FROM products WHERE id = ? AND userId = ?',
+      [component.componentId, userId]
+    );
+    if (!product) continue; // Deleted since the sale
+    if (component.unitCost != null) {
+      await applyReceiptCost(userId, component.componentId, Number(product.quantity) || 0, returned, component.unitCost);
+    }
+    await db.runAsync(
+      `UPDATE products SET quantity = ROUND(quantity + ?, ${QUANTITY_DECIMALS}), updatedAt = ? WHERE id = ? AND userId = ?`,
+      [returned, new Date().toISOString(), component.componentId, userId]
+    );
+  }
+};
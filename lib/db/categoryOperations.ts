@@ -4,6 +4,35 @@ import { v4 as uuidv4 } from 'uuid';
 
 const db = getDatabase();
 
+// A category can sit under any other category of the user's, as long as that
+// does not put it under itself or one of its own subcategories
+const assertValidParent = async (userId: string, categoryId: string | null, parentId: string): Promise<void> => {
+  if (parentId === categoryId) {
+    throw new Error('A category cannot be its own parent.');
+  }
+  const parent = await db.getFirstAsync<{ id: string }>(
+    'SELECT id FROM Categories WHERE id = ? AND userId = ?',
+    [parentId, userId]
+  );
+  if (!parent) {
+    throw new Error('Parent category not found or access denied.');
+  }
+  if (categoryId) {
+    const loop = await db.getFirstAsync<{ id: string }>(
+      `WITH RECURSIVE ancestors(id) AS (
+         SELECT parentId FROM Categories WHERE id = ?
+         UNION
+         SELECT c.parentId FROM Categories c JOIN ancestors a ON c.id = a.id
+       )
+       SELECT id FROM ancestors WHERE id = ?`,
+      [parentId, categoryId]
+    );
+    if (loop) {
+      throw new Error('A category cannot be moved under one of its own subcategories.');
+    }
+  }
+};
+
 export const addCategory = async (
   userId: string,
   category: Omit<Category, 'id' | 'userId' | 'createdAt'>
@@ -17,6 +46,7 @@ export const addCategory = async (
     userId,
     name: category.name,
     description: category.description || null,
+    parentId: category.parentId || null,
     createdAt: timestamp,
   };
 
@@ -29,24 +59,28 @@ export const addCategory = async (
     if (existing) {
       throw new Error('Category name already exists.');
     }
+    if (newCategory.parentId) {
+      await assertValidParent(userId, null, newCategory.parentId);
+    }
 
     await db.runAsync(
       `
       INSERT INTO Categories (
-        id, userId, name, description, createdAt
-      ) VALUES (?, ?, ?, ?, ?)
+        id, userId, name, description, parentId, createdAt
+      ) VALUES (?, ?, ?, ?, ?, ?)
       `,
       [
         newCategory.id,
         newCategory.userId,
         newCategory.name,
         newCategory.description ?? null,
+        newCategory.parentId ?? null,
         newCategory.createdAt,
       ]
     );
     return newCategory;
   } catch (error: any) {
-    if (error.message.includes('Category name already exists.')) {
+    if (error.message.includes('Category name already exists.') || error.message.includes('Parent category')) {
       throw error;
     }
     // Check for SQLite specific unique constraint error (if a UNIQUE constraint is added later)
@@ -80,8 +114,8 @@ export const updateCategory = async (
   const timestamp = new Date().toISOString();
   try {
     // Verify the category belongs to this user first
-    const categoryOwnership = await db.getFirstAsync<{ id: string }>(
-      'SELECT id FROM Categories WHERE id = ? AND userId = ?',
+    const categoryOwnership = await db.getFirstAsync<{ id: string; name: string }>(
+      'SELECT id, name FROM Categories WHERE id = ? AND userId = ?',
       [id, userId]
     );
 
@@ -99,6 +133,9 @@ export const updateCategory = async (
         throw new Error('Category name already exists for another category.');
       }
     }
+    if (updates.parentId) {
+      await assertValidParent(userId, id, updates.parentId);
+    }
 
     // Build the SET part of the SQL query dynamically
     const updateEntries = Object.entries(updates).filter(([_, value]) => value !== undefined);
@@ -115,10 +152,19 @@ export const updateCategory = async (
     const fields = updateEntries.map(([key]) => `${key} = ?`).join(', ');
     const values = updateEntries.map(([_, value]) => value);
 
-    await db.runAsync(
-      `UPDATE Categories SET ${fields}, createdAt = ? WHERE id = ? AND userId = ?`,
-      [...values, timestamp, id, userId]
-    );
+    // Products keep a copy of the name for receipts and exports, so a rename is passed on to them
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(
+        `UPDATE Categories SET ${fields}, createdAt = ? WHERE id = ? AND userId = ?`,
+        [...values, timestamp, id, userId]
+      );
+      if (updates.name && updates.name !== categoryOwnership.name) {
+        await db.runAsync(
+          'UPDATE products SET category = ?, updatedAt = ? WHERE categoryId = ? AND userId = ?',
+          [updates.name, timestamp, id, userId]
+        );
+      }
+    });
 
     const updatedCategory = await db.getFirstAsync<Category>(
       'SELECT * FROM Categories WHERE id = ? AND userId = ?',
@@ -127,7 +173,11 @@ export const updateCategory = async (
     if (!updatedCategory) throw new Error('Category not found after update.');
     return updatedCategory;
   } catch (error: any) {
-    if (error.message.includes('Category name already exists')) {
+    if (
+      error.message.includes('Category name already exists') ||
+      error.message.includes('not found') ||
+      error.message.includes('cannot be')
+    ) {
       throw error;
     }
     if (error.message.includes('SQLITE_CONSTRAINT') && error.message.includes('Categories.name')) {
@@ -142,7 +192,7 @@ export const deleteCategory = async (userId: string, id: string): Promise<void>
   try {
     // Check if the category is associated with any products
     const associatedProducts = await db.getFirstAsync<{ count: number }>(
-      'SELECT COUNT(*) as count FROM Products WHERE category = (SELECT name FROM Categories WHERE id = ? AND userId = ?)',
+      'SELECT COUNT(*) as count FROM products WHERE categoryId = ? AND userId = ? AND isActive = 1',
       [id, userId]
     );
 
@@ -150,6 +200,15 @@ export const deleteCategory = async (userId: string, id: string): Promise<void>
       throw new Error('Cannot delete category because it is associated with one or more products.');
     }
 
+    const subcategories = await db.getFirstAsync<{ count: number }>(
+      'SELECT COUNT(*) as count FROM Categories WHERE parentId = ? AND userId = ?',
+      [id, userId]
+    );
+
+    if (subcategories && subcategories.count > 0) {
+      throw new Error('Cannot delete category because it has subcategories. Move or delete them first.');
+    }
+
     // Only delete if the category belongs to this user
     await db.runAsync(
       'DELETE FROM Categories WHERE id = ? AND userId = ?',
@@ -0,0 +1,229 @@
+import { CommitmentStatus, PaymentCommitment, PaymentCommitmentWithDetails } from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+import { endOfDay, parseISO, startOfDay } from 'date-fns';
+import { KHATA_RETURN_METHOD } from '../constants';
+
+const db = getDatabase();
+
+// Amounts within this tolerance are treated as equal (floating point rupees)
+const AMOUNT_EPSILON = 0.005;
+
+export interface CreateCommitmentInput {
+  creditSaleId: string;
+  promisedAmount: number;
+  promisedDate: string; // Calendar date, yyyy-MM-dd, in local time
+  notes?: string | null;
+}
+
+/*
+ * A promise is judged on what the customer repays between making it and the
+ * end of the promised day. Each repayment counts towards one promise only:
+ * promises take the repayments in their window oldest due first. Repayments
+ * are allocated oldest bill first, so the money may land on a different credit
+ * sale than the one promised against.
+ */
+const getPaidTowardsCommitments = async (scope: { userId: string } | { customerId: string }): Promise<Map<string, number>> => {
+  const where = 'userId' in scope ? 'c.userId = ?' : 'cs.customerId = ?';
+  const param = 'userId' in scope ? scope.userId : scope.customerId;
+  const commitments = await db.getAllAsync<{ id: string; customerId: string; promisedAmount: number; promisedDate: string; createdAt: string }>(
+    `SELECT pc.id, cs.customerId, pc.promisedAmount, pc.promisedDate, pc.createdAt
+     FROM PaymentCommitments pc
+     JOIN CreditSales cs ON pc.creditSaleId = cs.id
+     JOIN Customers c ON cs.customerId = c.id
+     WHERE ${where}
+     ORDER BY pc.promisedDate ASC, pc.createdAt ASC`,
+    [param]
+  );
+  // A repayment spread over several bills shares one paymentDate, so it is put back together here.
+  // Goods returned against the khata are not money paid, so they never keep a promise.
+  const payments = await db.getAllAsync<{ customerId: string; paymentDate: string; amount: number }>(
+    `SELECT cs.customerId, cp.paymentDate, SUM(cp.paymentAmount) as amount
+     FROM CreditPayments cp
+     JOIN CreditSales cs ON cp.creditSaleId = cs.id
+     JOIN Customers c ON cs.customerId = c.id
+     WHERE ${where} AND cp.paymentMethod != ?
+     GROUP BY cs.customerId, cp.paymentDate
+     ORDER BY cp.paymentDate ASC`,
+    [param, KHATA_RETURN_METHOD]
+  );
+
+  const used = new Set<number>();
+  const paid = new Map<string, number>();
+  for (const commitment of commitments) {
+    const promisedAmount = Number(commitment.promisedAmount) || 0;
+    let total = 0;
+    payments.forEach((payment, index) => {
+      if (total + AMOUNT_EPSILON >= promisedAmount || used.has(index)) return;
+      if (payment.customerId !== commitment.customerId) return;
+      if (payment.paymentDate < commitment.createdAt || payment.paymentDate > commitment.promisedDate) return;
+      used.add(index);
+      total += Number(payment.amount) || 0;
+    });
+    paid.set(commitment.id, total);
+  }
+  return paid;
+};
+
+const resolveStatus = (promisedAmount: number, paidAmount: number, isPastDue: boolean): CommitmentStatus => {
+  if (paidAmount + AMOUNT_EPSILON >= promisedAmount) return 'KEPT';
+  if (!isPastDue) return 'PENDING';
+  return paidAmount > AMOUNT_EPSILON ? 'PARTIALLY_KEPT' : 'BROKEN';
+};
+
+export const createPaymentCommitment = async (userId: string, input: CreateCommitmentInput): Promise<PaymentCommitment> => {
+  if (!(input.promisedAmount > 0)) {
+    throw new Error('Promised amount must be greater than zero.');
+  }
+  const promisedDate = endOfDay(parseISO(input.promisedDate));
+  if (isNaN(promisedDate.getTime())) {
+    throw new Error('Promised date is not valid.');
+  }
+  if (promisedDate < startOfDay(new Date())) {
+    throw new Error('Promised date cannot be in the past.');
+  }
+
+  try {
+    const creditSale = await db.getFirstAsync<{ id: string }>(
+      `SELECT cs.id FROM CreditSales cs
+       JOIN Customers c ON cs.customerId = c.id
+       WHERE cs.id = ? AND c.userId = ?`,
+      [input.creditSaleId, userId]
+    );
+    if (!creditSale) {
+      throw new Error('Credit sale not found or access denied.');
+    }
+
+    const commitment: PaymentCommitment = {
+      id: uuidv4(),
+      creditSaleId: input.creditSaleId,
+      promisedAmount: input.promisedAmount,
+      // Stored as the end of the promised day so payments any time that day count
+      promisedDate: promisedDate.toISOString(),
+      commitmentStatus: 'PENDING',
+      notes: input.notes?.trim() || null,
+      createdAt: new Date().toISOString(),
+    };
+    await db.runAsync(
+      `INSERT INTO PaymentCommitments (id, creditSaleId, promisedAmount, promisedDate, commitmentStatus, notes, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        commitment.id,
+        commitment.creditSaleId,
+        commitment.promisedAmount,
+        commitment.promisedDate,
+        commitment.commitmentStatus,
+        commitment.notes ?? null,
+        commitment.createdAt,
+      ]
+    );
+    return commitment;
+  } catch (error: any) {
+    if (error.message.includes('not found')) {
+      throw error;
+    }
+    console.error('Error creating payment commitment in DB:', error.message);
+    throw new Error('Failed to record the payment promise.');
+  }
+};
+
+/**
+ * Re-evaluates the customer's pending promises after a repayment. Meant to be
+ * called from inside the repayment's own transaction.
+ */
+export const matchCommitmentsForCustomer = async (customerId: string): Promise<void> => {
+  const pending = await db.getAllAsync<{ id: string; promisedAmount: number; promisedDate: string }>(
+    `SELECT pc.id, pc.promisedAmount, pc.promisedDate
+     FROM PaymentCommitments pc
+     JOIN CreditSales cs ON pc.creditSaleId = cs.id
+     WHERE cs.customerId = ? AND pc.commitmentStatus = 'PENDING'`,
+    [customerId]
+  );
+  if (pending.length === 0) return;
+  const paid = await getPaidTowardsCommitments({ customerId });
+  const now = new Date();
+  for (const row of pending) {
+    const status = resolveStatus(Number(row.promisedAmount) || 0, paid.get(row.id) ?? 0, new Date(row.promisedDate) < now);
+    if (status !== 'PENDING') {
+      await db.runAsync('UPDATE PaymentCommitments SET commitmentStatus = ? WHERE id = ?', [status, row.id]);
+    }
+  }
+};
+
+// Closes out pending promises whose day has passed as partially kept or broken.
+// Run by the daily khata jobs; listing promises only works the status out.
+export const resolveLapsedCommitments = async (userId: string): Promise<void> => {
+  try {
+    const lapsed = await db.getAllAsync<{ id: string; promisedAmount: number }>(
+      `SELECT pc.id, pc.promisedAmount
+       FROM PaymentCommitments pc
+       JOIN CreditSales cs ON pc.creditSaleId = cs.id
+       JOIN Customers c ON cs.customerId = c.id
+       WHERE c.userId = ? AND pc.commitmentStatus = 'PENDING' AND pc.promisedDate < ?`,
+      [userId, new Date().toISOString()]
+    );
+    if (lapsed.length === 0) return;
+    const paid = await getPaidTowardsCommitments({ userId });
+    await db.withTransactionAsync(async () => {
+      for (const row of lapsed) {
+        const status = resolveStatus(Number(row.promisedAmount) || 0, paid.get(row.id) ?? 0, true);
+        await db.runAsync('UPDATE PaymentCommitments SET commitmentStatus = ? WHERE id = ?', [status, row.id]);
+      }
+    });
+  } catch (error: any) {
+    console.error('Error resolving lapsed payment commitments in DB:', error.message);
+    throw new Error('Failed to update lapsed payment promises.');
+  }
+};
+
+export const getPaymentCommitments = async (userId: string): Promise<PaymentCommitmentWithDetails[]> => {
+  try {
+    const rows = await db.getAllAsync<PaymentCommitmentWithDetails>(
+      `SELECT pc.*, cs.saleId, c.id as customerId, c.name as customerName, c.phone as customerPhone
+       FROM PaymentCommitments pc
+       JOIN CreditSales cs ON pc.creditSaleId = cs.id
+       JOIN Customers c ON cs.customerId = c.id
+       WHERE c.userId = ?
+       ORDER BY pc.promisedDate DESC`,
+      [userId]
+    );
+    const paid = await getPaidTowardsCommitments({ userId });
+    const now = new Date();
+    return rows.map(row => {
+      const promisedAmount = Number(row.promisedAmount) || 0;
+      const paidAmount = paid.get(row.id) ?? 0;
+      return {
+        ...row,
+        promisedAmount,
+        paidAmount,
+        // A promise that lapsed since the daily job ran shows as it will be closed out
+        commitmentStatus: row.commitmentStatus === 'PENDING'
+          ? resolveStatus(promisedAmount, paidAmount, new Date(row.promisedDate) < now)
+          : row.commitmentStatus,
+      };
+    });
+  } catch (error: any) {
+    console.error('Error fetching payment commitments from DB:', error.message);
+    throw new Error('Failed to fetch payment promises.');
+  }
+};
+
+export const deletePaymentCommitment = async (userId: string, commitmentId: string): Promise<void> => {
+  try {
+    const result = await db.runAsync(
+      `DELETE FROM PaymentCommitments WHERE id = ? AND creditSaleId IN (
+         SELECT cs.id FROM CreditSales cs JOIN Customers c ON cs.customerId = c.id WHERE c.userId = ?
+       )`,
+      [commitmentId, userId]
+    );
+    if (result.changes === 0) {
+      throw new Error('Payment promise not found or access denied.');
+    }
+  } catch (error: any) {
+    if (error.message.includes('not found')) {
+      throw error;
+    }
+    console.error('Error deleting payment commitment from DB:', error.message);
+    throw new Error('Failed to delete the payment promise.');
+  }
+};
@@ -0,0 +1,192 @@
+import { CustomerCreditHistory } from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+import { addMonths, differenceInCalendarDays, endOfMonth, format, isSameDay, parseISO, startOfMonth } from 'date-fns';
+import { calculateCreditScore } from '../utils/creditScoreUtils';
+import { KHATA_RETURN_METHOD } from '../constants';
+
+const db = getDatabase();
+
+interface CreditSaleRow {
+  id: string;
+  customerId: string;
+  creditAmount: number;
+  dueDate: string;
+  saleTimestamp: string;
+}
+
+interface CreditPaymentRow {
+  creditSaleId: string;
+  customerId: string;
+  paymentAmount: number;
+  paymentDate: string;
+  paymentMethod: string;
+  dueDate: string;
+}
+
+// Days a payment came in after its bill was due, 0 when on time
+const paymentDelayDays = (payment: CreditPaymentRow): number =>
+  Math.max(differenceInCalendarDays(parseISO(payment.paymentDate), parseISO(payment.dueDate)), 0);
+
+// Khata that was past due and still unpaid at the given moment
+const overdueBalanceAt = (sales: CreditSaleRow[], payments: CreditPaymentRow[], at: Date): number => {
+  const atIso = at.toISOString();
+  return sales.reduce((sum, sale) => {
+    if (sale.dueDate >= atIso || sale.saleTimestamp > atIso) return sum;
+    const paid = payments
+      .filter(p => p.creditSaleId === sale.id && p.paymentDate <= atIso)
+      .reduce((total, p) => total + (Number(p.paymentAmount) || 0), 0);
+    return sum + Math.max((Number(sale.creditAmount) || 0) - paid, 0);
+  }, 0);
+};
+
+const buildCustomerHistory = (
+  customerId: string,
+  sales: CreditSaleRow[],
+  payments: CreditPaymentRow[],
+  now: Date,
+  computedAt: string
+): CustomerCreditHistory[] => {
+  if (sales.length === 0) return [];
+  const firstMonth = startOfMonth(parseISO(sales.map(s => s.saleTimestamp).sort()[0]));
+  const rows: CustomerCreditHistory[] = [];
+
+  let cumulativeCredit = 0;
+  let cumulativePayments = 0;
+  let cumulativeLate = 0;
+  let cumulativeDelay = 0;
+
+  for (let month = firstMonth; month <= now; month = addMonths(month, 1)) {
+    const period = format(month, 'yyyy-MM');
+    const monthSales = sales.filter(s => format(parseISO(s.saleTimestamp), 'yyyy-MM') === period);
+    // Returned goods lower what is owed but are not repayments, so they do not count towards the score
+    const monthPayments = payments.filter(
+      p => p.paymentMethod !== KHATA_RETURN_METHOD && format(parseISO(p.paymentDate), 'yyyy-MM') === period
+    );
+    const latePayments = monthPayments.filter(p => paymentDelayDays(p) > 0);
+    const monthDelay = latePayments.reduce((sum, p) => sum + paymentDelayDays(p), 0);
+
+    cumulativeCredit += monthSales.reduce((sum, s) => sum + (Number(s.creditAmount) || 0), 0);
+    cumulativePayments += monthPayments.length;
+    cumulativeLate += latePayments.length;
+    cumulativeDelay += monthDelay;
+
+    const periodEnd = endOfMonth(month) < now ? endOfMonth(month) : now;
+    rows.push({
+      id: uuidv4(),
+      customerId,
+      period,
+      totalCreditAmount: monthSales.reduce((sum, s) => sum + (Number(s.creditAmount) || 0), 0),
+      totalRepaidAmount: monthPayments.reduce((sum, p) => sum + (Number(p.paymentAmount) || 0), 0),
+      latePaymentCount: latePayments.length,
+      averagePaymentDelay: latePayments.length > 0 ? Math.round(monthDelay / latePayments.length) : 0,
+      // Score reflects the customer's whole record up to the end of the period
+      creditScore: calculateCreditScore({
+        totalCredit: cumulativeCredit,
+        paymentCount: cumulativePayments,
+        latePaymentCount: cumulativeLate,
+        averageDelayDays: cumulativeLate > 0 ? cumulativeDelay / cumulativeLate : 0,
+        overdueBalance: overdueBalanceAt(sales, payments, periodEnd),
+      }),
+      computedAt,
+    });
+  }
+  return rows;
+};
+
+/**
+ * Rebuilds the monthly CustomerCreditHistory rows for every customer of the
+ * user who has taken khata. Runs at most once a day unless forced.
+ * Returns false when the run was skipped.
+ */
+export const runCreditHistoryJob = async (userId: string, force: boolean = false): Promise<boolean> => {
+  const now = new Date();
+  try {
+    if (!force) {
+      const lastRun = await db.getFirstAsync<{ computedAt: string | null }>(
+        `SELECT MAX(h.computedAt) as computedAt FROM CustomerCreditHistory h
+         JOIN Customers c ON h.customerId = c.id
+         WHERE c.userId = ?`,
+        [userId]
+      );
+      if (lastRun?.computedAt && isSameDay(parseISO(lastRun.computedAt), now)) {
+        return false;
+      }
+    }
+
+    const sales = await db.getAllAsync<CreditSaleRow>(
+      `SELECT cs.id, cs.customerId, cs.creditAmount, cs.dueDate, s.timestamp as saleTimestamp
+       FROM CreditSales cs
+       JOIN Sales s ON cs.saleId = s.id
+       JOIN Customers c ON cs.customerId = c.id
+       WHERE c.userId = ?`,
+      [userId]
+    );
+    const payments = await db.getAllAsync<CreditPaymentRow>(
+      `SELECT cp.creditSaleId, cs.customerId, cp.paymentAmount, cp.paymentDate, cp.paymentMethod, cs.dueDate
+       FROM CreditPayments cp
+       JOIN CreditSales cs ON cp.creditSaleId = cs.id
+       JOIN Customers c ON cs.customerId = c.id
+       WHERE c.userId = ?`,
+      [userId]
+    );
+
+    const customerIds = Array.from(new Set(sales.map(s => s.customerId)));
+    const computedAt = now.toISOString();
+
+    await db.withTransactionAsync(async () => {
+      for (const customerId of customerIds) {
+        const rows = buildCustomerHistory(
+          customerId,
+          sales.filter(s => s.customerId === customerId),
+          payments.filter(p => p.customerId === customerId),
+          now,
+          computedAt
+        );
+        await db.runAsync('DELETE FROM CustomerCreditHistory WHERE customerId = ?', [customerId]);
+        for (const row of rows) {
+          await db.runAsync(
+            `INSERT INTO CustomerCreditHistory (id, customerId, period, totalCreditAmount, totalRepaidAmount, latePaymentCount, averagePaymentDelay, creditScore, computedAt)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+              row.id,
+              row.customerId,
+              row.period,
+              row.totalCreditAmount,
+              row.totalRepaidAmount,
+              row.latePaymentCount,
+              row.averagePaymentDelay,
+              row.creditScore,
+              row.computedAt ?? null,
+            ]
+          );
+        }
+      }
+    });
+    return true;
+  } catch (error: any) {
+    console.error('Error building customer credit history in DB:', error.message);
+    throw new Error('Failed to update customer credit scores.');
+  }
+};
+
+// Latest credit score per customer, keyed by customer id
+export const getLatestCreditScores = async (userId: string): Promise<Record<string, number | null>> => {
+  try {
+    const rows = await db.getAllAsync<{ customerId: string; creditScore: number | null }>(
+      `SELECT h.customerId, h.creditScore FROM CustomerCreditHistory h
+       JOIN Customers c ON h.customerId = c.id
+       WHERE c.userId = ? AND h.period = (
+         SELECT MAX(h2.period) FROM CustomerCreditHistory h2 WHERE h2.customerId = h.customerId
+       )`,
+      [userId]
+    );
+    return rows.reduce<Record<string, number | null>>((acc, row) => {
+      acc[row.customerId] = row.creditScore != null ? Number(row.creditScore) : null;
+      return acc;
+    }, {});
+  } catch (error: any) {
+    console.error('Error fetching credit scores from DB:', error.message);
+    throw new Error('Failed to fetch customer credit scores.');
+  }
+};
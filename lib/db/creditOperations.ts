@@ -0,0 +1,276 @@
+import { CreditLimitCheck, CreditPayment, CreditSale, CustomerLedgerEntry, OpenCreditSale } from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+import { addDays } from 'date-fns';
+import { DEFAULT_CREDIT_TERMS_DAYS, KHATA_RETURN_METHOD } from '../constants';
+import { getPaymentMethodLabel } from '../utils/paymentUtils';
+import { matchCommitmentsForCustomer } from './commitmentOperations';
+
+const db = getDatabase();
+
+export interface CreateCreditSaleInput {
+  saleId: string;
+  customerId: string;
+  creditAmount: number;
+  termsInDays?: number;
+  approvedBy?: string | null;
+  notesOrReason?: string | null;
+}
+
+export const checkCreditLimit = async (
+  userId: string,
+  customerId: string,
+  additionalCredit: number
+): Promise<CreditLimitCheck> => {
+  try {
+    const customer = await db.getFirstAsync<{ creditLimit: number; outstandingBalance: number }>(
+      'SELECT creditLimit, outstandingBalance FROM Customers WHERE id = ? AND userId = ?',
+      [customerId, userId]
+    );
+    if (!customer) {
+      throw new Error('Customer not found or access denied.');
+    }
+    const creditLimit = Number(customer.creditLimit) || 0;
+    const outstandingBalance = Number(customer.outstandingBalance) || 0;
+    return {
+      creditLimit,
+      outstandingBalance,
+      available: Math.max(creditLimit - outstandingBalance, 0),
+      exceedsLimit: outstandingBalance + additionalCredit > creditLimit,
+    };
+  } catch (error: any) {
+    if (error.message.includes('not found')) {
+      throw error;
+    }
+    console.error('Error checking credit limit in DB:', error.message);
+    throw new Error('Failed to check credit limit.');
+  }
+};
+
+// Records the khata portion of a sale and raises the customer's balance.
+// Meant to be called from inside the sale's own transaction.
+export const createCreditSale = async (userId: string, input: CreateCreditSaleInput): Promise<CreditSale> => {
+  if (!(input.creditAmount > 0)) {
+    throw new Error('Credit amount must be greater than zero.');
+  }
+  const termsInDays = input.termsInDays && input.termsInDays > 0 ? Math.round(input.termsInDays) : DEFAULT_CREDIT_TERMS_DAYS;
+  const now = new Date();
+  const creditSale: CreditSale = {
+    id: uuidv4(),
+    saleId: input.saleId,
+    customerId: input.customerId,
+    creditAmount: input.creditAmount,
+    dueDate: addDays(now, termsInDays).toISOString(),
+    termsInDays,
+    interestRate: 0,
+    creditStatus: 'OUTSTANDING',
+    approvedBy: input.approvedBy || null,
+    notesOrReason: input.notesOrReason || null,
+  };
+
+  const customer = await db.getFirstAsync<{ id: string }>(
+    'SELECT id FROM Customers WHERE id = ? AND userId = ?',
+    [input.customerId, userId]
+  );
+  if (!customer) {
+    throw new Error('Customer not found or access denied.');
+  }
+
+  await db.runAsync(
+    `INSERT INTO CreditSales (id, saleId, customerId, creditAmount, dueDate, termsInDays, interestRate, creditStatus, approvedBy, notesOrReason)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      creditSale.id,
+      creditSale.saleId,
+      creditSale.customerId,
+      creditSale.creditAmount,
+      creditSale.dueDate,
+      creditSale.termsInDays,
+      creditSale.interestRate,
+      creditSale.creditStatus,
+      creditSale.approvedBy ?? null,
+      creditSale.notesOrReason ?? null,
+    ]
+  );
+  await db.runAsync(
+    'UPDATE Customers SET outstandingBalance = COALESCE(outstandingBalance, 0) + ?, updatedAt = ? WHERE id = ? AND userId = ?',
+    [creditSale.creditAmount, now.toISOString(), input.customerId, userId]
+  );
+  return creditSale;
+};
+
+export interface RecordRepaymentInput {
+  customerId: string;
+  amount: number;
+  paymentMethod: string;
+  transactionReference?: string | null;
+  receivedBy?: string | null;
+  notes?: string | null;
+}
+
+export const getOpenCreditSales = async (userId: string, customerId: string): Promise<OpenCreditSale[]> => {
+  try {
+    const rows = await db.getAllAsync<OpenCreditSale>(
+      `SELECT cs.*, s.timestamp as saleTimestamp,
+              COALESCE((SELECT SUM(cp.paymentAmount) FROM CreditPayments cp WHERE cp.creditSaleId = cs.id), 0) as paidAmount
+       FROM CreditSales cs
+       JOIN Sales s ON cs.saleId = s.id
+       WHERE cs.customerId = ? AND s.userId = ? AND cs.creditStatus != 'PAID'
+       ORDER BY s.timestamp ASC`,
+      [customerId, userId]
+    );
+    return rows.map(row => {
+      const creditAmount = Number(row.creditAmount) || 0;
+      const paidAmount = Number(row.paidAmount) || 0;
+      return {
+        ...row,
+        creditAmount,
+        paidAmount,
+        balance: Math.max(creditAmount - paidAmount, 0),
+        termsInDays: Number(row.termsInDays) || 0,
+        interestRate: Number(row.interestRate) || 0,
+      };
+    });
+  } catch (error: any) {
+    console.error('Error fetching open credit sales from DB:', error.message);
+    throw new Error('Failed to fetch open credit sales.');
+  }
+};
+
+// Spreads a repayment over the customer's open credit sales, oldest first.
+// Each credit sale touched gets its own CreditPayments row.
+export const recordCreditRepayment = async (userId: string, input: RecordRepaymentInput): Promise<CreditPayment[]> => {
+  if (!(input.amount > 0)) {
+    throw new Error('Repayment amount must be greater than zero.');
+  }
+  if (!input.paymentMethod) {
+    throw new Error('Payment method is required.');
+  }
+
+  const paymentDate = new Date().toISOString();
+  const payments: CreditPayment[] = [];
+
+  try {
+    await db.withTransactionAsync(async () => {
+      const customer = await db.getFirstAsync<{ id: string }>(
+        'SELECT id FROM Customers WHERE id = ? AND userId = ?',
+        [input.customerId, userId]
+      );
+      if (!customer) {
+        throw new Error('Customer not found or access denied.');
+      }
+
+      const openSales = await getOpenCreditSales(userId, input.customerId);
+      const totalDue = openSales.reduce((sum, sale) => sum + sale.balance, 0);
+      if (input.amount > totalDue + 0.005) {
+        throw new Error(`Repayment exceeds the outstanding khata of ₹${totalDue.toFixed(2)}.`);
+      }
+
+      let remaining = input.amount;
+      for (const sale of openSales) {
+        if (remaining <= 0.005) break;
+        if (sale.balance <= 0) continue;
+        const applied = Math.min(remaining, sale.balance);
+        remaining -= applied;
+
+        const payment: CreditPayment = {
+          id: uuidv4(),
+          creditSaleId: sale.id,
+          paymentAmount: applied,
+          paymentDate,
+          paymentMethod: input.paymentMethod,
+          receivedBy: input.receivedBy || null,
+          transactionReference: input.transactionReference?.trim() || null,
+          notes: input.notes?.trim() || null,
+        };
+        await db.runAsync(
+          `INSERT INTO CreditPayments (id, creditSaleId, paymentAmount, paymentDate, paymentMethod, receivedBy, transactionReference, notes)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            payment.id,
+            payment.creditSaleId,
+            payment.paymentAmount,
+            payment.paymentDate,
+            payment.paymentMethod,
+            payment.receivedBy ?? null,
+            payment.transactionReference ?? null,
+            payment.notes ?? null,
+          ]
+        );
+        payments.push(payment);
+
+        const settled = sale.balance - applied <= 0.005;
+        await db.runAsync(
+          'UPDATE CreditSales SET creditStatus = ? WHERE id = ?',
+          [settled ? 'PAID' : 'PARTIALLY_PAID', sale.id]
+        );
+        if (settled) {
+          await db.runAsync('UPDATE Sales SET isPaid = 1 WHERE id = ? AND userId = ?', [sale.saleId, userId]);
+        }
+      }
+
+      await db.runAsync(
+        'UPDATE Customers SET outstandingBalance = MAX(COALESCE(outstandingBalance, 0) - ?, 0), updatedAt = ? WHERE id = ? AND userId = ?',
+        [input.amount, paymentDate, input.customerId, userId]
+      );
+      await matchCommitmentsForCustomer(input.customerId);
+    });
+    return payments;
+  } catch (error: any) {
+    if (error.message.includes('not found') || error.message.includes('exceeds the outstanding')) {
+      throw error;
+    }
+    console.error('Error recording credit repayment in DB:', error.message);
+    throw new Error('Failed to record repayment. Please try again.');
+  }
+};
+
+export const getCustomerLedger = async (userId: string, customerId: string): Promise<CustomerLedgerEntry[]> => {
+  try {
+    const debits = await db.getAllAsync<{ id: string; saleId: string; creditAmount: number; saleTimestamp: string }>(
+      `SELECT cs.id, cs.saleId, cs.creditAmount, s.timestamp as saleTimestamp
+       FROM CreditSales cs
+       JOIN Sales s ON cs.saleId = s.id
+       WHERE cs.customerId = ? AND s.userId = ?`,
+      [customerId, userId]
+    );
+    const credits = await db.getAllAsync<CreditPayment & { saleId: string }>(
+      `SELECT cp.*, cs.saleId
+       FROM CreditPayments cp
+       JOIN CreditSales cs ON cp.creditSaleId = cs.id
+       JOIN Sales s ON cs.saleId = s.id
+       WHERE cs.customerId = ? AND s.userId = ?`,
+      [customerId, userId]
+    );
+
+    const entries: Omit<CustomerLedgerEntry, 'runningBalance'>[] = [
+      ...debits.map(row => ({
+        id: row.id,
+        date: row.saleTimestamp,
+        type: 'DEBIT' as const,
+        description: `Sale RCPT-${row.saleId.substring(0, 8).toUpperCase()}`,
+        amount: Number(row.creditAmount) || 0,
+      })),
+      ...credits.map(row => ({
+        id: row.id,
+        date: row.paymentDate,
+        type: 'CREDIT' as const,
+        description: row.paymentMethod === KHATA_RETURN_METHOD
+          ? `Goods returned from RCPT-${row.saleId.substring(0, 8).toUpperCase()}`
+          : `Payment (${getPaymentMethodLabel(row.paymentMethod)})${row.transactionReference ? ` Ref ${row.transactionReference}` : ''} for RCPT-${row.saleId.substring(0, 8).toUpperCase()}`,
+        amount: Number(row.paymentAmount) || 0,
+      })),
+    ];
+    // Debits sort before credits made at the same instant
+    entries.sort((a, b) => a.date.localeCompare(b.date) || (a.type === b.type ? 0 : a.type === 'DEBIT' ? -1 : 1));
+
+    let balance = 0;
+    return entries.map(entry => {
+      balance += entry.type === 'DEBIT' ? entry.amount : -entry.amount;
+      return { ...entry, runningBalance: balance };
+    });
+  } catch (error: any) {
+    console.error('Error fetching customer ledger from DB:', error.message);
+    throw new Error('Failed to fetch customer ledger.');
+  }
+};
@@ -24,6 +24,7 @@ export const addCustomer = async (
     outstandingBalance: 0,
     loyaltyPoints: 0,
     lastPurchaseDate: null,
+    priceListId: customer.priceListId || null,
     createdAt: timestamp,
     updatedAt: timestamp,
   };
@@ -42,8 +43,8 @@ export const addCustomer = async (
       `
       INSERT INTO Customers (
         id, userId, name, phone, email, address, totalPurchases, 
-        outstandingBalance, creditLimit, loyaltyPoints, lastPurchaseDate, createdAt, updatedAt
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        outstandingBalance, creditLimit, loyaltyPoints, lastPurchaseDate, priceListId, createdAt, updatedAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `,
       [
         newCustomer.id,
@@ -57,6 +58,7 @@ export const addCustomer = async (
         newCustomer.creditLimit,
         newCustomer.loyaltyPoints,
         newCustomer.lastPurchaseDate ?? null,
+        newCustomer.priceListId ?? null,
         newCustomer.createdAt,
         newCustomer.updatedAt,
       ]
@@ -2,6 +2,8 @@
 
 import * as SQLite from 'expo-sqlite';
 import { Platform } from 'react-native'; // Import Platform
+import { v4 as uuidv4 } from 'uuid';
+import { LOOSE_UNITS } from '../constants';
 
 // Open or create the database with type annotation
 const db: SQLite.SQLiteDatabase = SQLite.openDatabaseSync('pettiKadai.db');
@@ -68,7 +70,7 @@ export const initDatabase = (): void => {
         name TEXT NOT NULL,
         costPrice REAL NOT NULL,
         sellingPrice REAL NOT NULL,
-        quantity INTEGER NOT NULL DEFAULT 0,
+        quantity REAL NOT NULL DEFAULT 0,
         unit TEXT NOT NULL DEFAULT 'piece',
         category TEXT,
         imageUri TEXT,
@@ -86,6 +88,102 @@ export const initDatabase = (): void => {
         db.execSync(`ALTER TABLE products ADD COLUMN isActive INTEGER DEFAULT 1`);
         console.log("[DB] Added missing column 'isActive' to products table");
       }
+      // --- Patch: Add missing column 'taxRate' if not exists (NULL uses the store rate) ---
+      const productTaxColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('products') WHERE name = 'taxRate'`
+      );
+
+      if (productTaxColumnCheck && productTaxColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE products ADD COLUMN taxRate REAL`);
+        console.log("[DB] Added missing column 'taxRate' to products table");
+      }
+      // --- Patch: Add missing column 'supplierId' if not exists ---
+      const productSupplierColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('products') WHERE name = 'supplierId'`
+      );
+
+      if (productSupplierColumnCheck && productSupplierColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE products ADD COLUMN supplierId TEXT`);
+        console.log("[DB] Added missing column 'supplierId' to products table");
+      }
+      // --- Patch: Add missing columns 'reorderLevel' and 'reorderQuantity' if not exists ---
+      // Low stock used to mean below 5; a level of 4 keeps that for existing whole-unit
+      // products. Loose-unit products start at 5, so exactly 5 kg or l now also counts as low.
+      const productReorderColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('products') WHERE name = 'reorderLevel'`
+      );
+
+      if (productReorderColumnCheck && productReorderColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE products ADD COLUMN reorderLevel REAL DEFAULT 5`);
+        db.execSync(`ALTER TABLE products ADD COLUMN reorderQuantity REAL DEFAULT 0`);
+        db.execSync(
+          `UPDATE products SET reorderLevel = 4 WHERE COALESCE(unit, '') NOT IN (${LOOSE_UNITS.map(u => `'${u}'`).join(', ')})`
+        );
+        console.log("[DB] Added missing columns 'reorderLevel' and 'reorderQuantity' to products table");
+      }
+      // --- Patch: Add missing columns 'barcode' and 'alternateCode' if not exists ---
+      const productBarcodeColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('products') WHERE name = 'barcode'`
+      );
+
+      if (productBarcodeColumnCheck && productBarcodeColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE products ADD COLUMN barcode TEXT`);
+        db.execSync(`ALTER TABLE products ADD COLUMN alternateCode TEXT`);
+        console.log("[DB] Added missing columns 'barcode' and 'alternateCode' to products table");
+      }
+      db.execSync(`CREATE INDEX IF NOT EXISTS idx_products_user_barcode ON products(userId, barcode)`);
+      db.execSync(`CREATE INDEX IF NOT EXISTS idx_products_user_alternate_code ON products(userId, alternateCode)`);
+      // A code belongs to one active product; the app checks first, these catch saves that race past the check
+      try {
+        db.execSync(`CREATE UNIQUE INDEX IF NOT EXISTS idx_products_user_barcode_unique ON products(userId, barcode) WHERE isActive = 1 AND barcode IS NOT NULL`);
+        db.execSync(`CREATE UNIQUE INDEX IF NOT EXISTS idx_products_user_alternate_code_unique ON products(userId, alternateCode) WHERE isActive = 1 AND alternateCode IS NOT NULL`);
+      } catch (indexError: any) {
+        // Duplicates saved before the index existed have to be fixed by hand first
+        console.warn("[DB] Could not add unique product code indexes; duplicate codes exist:", indexError.message);
+      }
+      // --- Patch: Add missing column 'quantityStep' if not exists ---
+      // Older tables declare quantity INTEGER; SQLite still keeps decimal values there as REAL
+      const productStepColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('products') WHERE name = 'quantityStep'`
+      );
+
+      if (productStepColumnCheck && productStepColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE products ADD COLUMN quantityStep REAL`);
+        console.log("[DB] Added missing column 'quantityStep' to products table");
+      }
+      // --- Patch: Add missing columns 'parentId' and 'variantName' if not exists ---
+      // A variant is a full product row (own price, cost, stock, barcode, unit) under a parent product
+      const productVariantColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('products') WHERE name = 'parentId'`
+      );
+
+      if (productVariantColumnCheck && productVariantColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE products ADD COLUMN parentId TEXT`);
+        db.execSync(`ALTER TABLE products ADD COLUMN variantName TEXT`);
+        console.log("[DB] Added missing columns 'parentId' and 'variantName' to products table");
+      }
+      db.execSync(`CREATE INDEX IF NOT EXISTS idx_products_user_parent ON products(userId, parentId)`);
+      // --- Patch: Add missing column 'categoryId' if not exists ---
+      // category keeps the name for receipts and exports; categoryId is the link that survives renames
+      const productCategoryIdColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('products') WHERE name = 'categoryId'`
+      );
+
+      if (productCategoryIdColumnCheck && productCategoryIdColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE products ADD COLUMN categoryId TEXT`);
+        console.log("[DB] Added missing column 'categoryId' to products table");
+      }
+      db.execSync(`CREATE INDEX IF NOT EXISTS idx_products_user_category ON products(userId, categoryId)`);
+      // --- Patch: Add missing column 'isBundle' if not exists ---
+      // A bundle holds no stock of its own; its stock and cost come from BundleComponents
+      const productIsBundleColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('products') WHERE name = 'isBundle'`
+      );
+
+      if (productIsBundleColumnCheck && productIsBundleColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE products ADD COLUMN isBundle INTEGER DEFAULT 0`);
+        console.log("[DB] Added missing column 'isBundle' to products table");
+      }
 
 
       // Categories Table - Added userId (if categories are per-user)
@@ -109,6 +207,48 @@ export const initDatabase = (): void => {
         db.execSync(`ALTER TABLE Categories ADD COLUMN imageUri TEXT`);
         console.log("[DB] Added missing column 'imageUri' to Categories table");
       }
+      // --- Patch: Add missing column 'parentId' if not exists ---
+      // NULL for a top-level category, e.g. Pulses has Groceries as its parent
+      const categoryParentColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('Categories') WHERE name = 'parentId'`
+      );
+
+      if (categoryParentColumnCheck && categoryParentColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE Categories ADD COLUMN parentId TEXT`);
+        console.log("[DB] Added missing column 'parentId' to Categories table");
+      }
+
+      // --- Migration: Link products to categories by id ---
+      // Products used to refer to their category by name only. Any name without a
+      // Categories row gets one, then every unlinked product is matched by name.
+      const unlinkedCategoryNames = db.getAllSync<{ userId: string; category: string }>(
+        `SELECT DISTINCT p.userId, TRIM(p.category) as category FROM products p
+         WHERE p.categoryId IS NULL AND p.category IS NOT NULL AND TRIM(p.category) != ''
+           AND NOT EXISTS (
+             SELECT 1 FROM Categories c WHERE c.userId = p.userId AND LOWER(c.name) = LOWER(TRIM(p.category))
+           )`
+      );
+      const createdCategoryKeys = new Set<string>();
+      for (const row of unlinkedCategoryNames) {
+        const key = `${row.userId}:${row.category.toLowerCase()}`;
+        if (createdCategoryKeys.has(key)) continue;
+        createdCategoryKeys.add(key);
+        db.runSync(
+          'INSERT INTO Categories (id, userId, name, description, createdAt) VALUES (?, ?, ?, NULL, ?)',
+          [uuidv4(), row.userId, row.category, new Date().toISOString()]
+        );
+      }
+      const linkedProducts = db.runSync(
+        `UPDATE products SET categoryId = (
+           SELECT c.id FROM Categories c
+           WHERE c.userId = products.userId AND LOWER(c.name) = LOWER(TRIM(products.category))
+           ORDER BY c.createdAt LIMIT 1
+         )
+         WHERE categoryId IS NULL AND category IS NOT NULL AND TRIM(category) != ''`
+      );
+      if (linkedProducts.changes > 0) {
+        console.log(`[DB] Linked ${linkedProducts.changes} products to their categories by id`);
+      }
 
       // Suppliers Table - Added userId (if suppliers are per-user)
       db.execSync(`
@@ -140,6 +280,15 @@ export const initDatabase = (): void => {
           FOREIGN KEY (productId) REFERENCES Products(id)
         );
       `);
+      // --- Patch: Add missing column 'notes' if not exists ---
+      const adjustmentColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('StockAdjustments') WHERE name = 'notes'`
+      );
+
+      if (adjustmentColumnCheck && adjustmentColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE StockAdjustments ADD COLUMN notes TEXT`);
+        console.log("[DB] Added missing column 'notes' to StockAdjustments table");
+      }
 
       // Product Batches Table - Added userId (links to user who added batch)
       db.execSync(`
@@ -159,6 +308,24 @@ export const initDatabase = (): void => {
           FOREIGN KEY (supplierId) REFERENCES Suppliers(id)
         );
       `);
+      // --- Patch: Add missing columns 'receivedQuantity' and 'unitCost' if not exists ---
+      // quantity runs down as stock is sold; these keep what was originally bought and at what price
+      const batchReceivedColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('ProductBatches') WHERE name = 'receivedQuantity'`
+      );
+
+      if (batchReceivedColumnCheck && batchReceivedColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE ProductBatches ADD COLUMN receivedQuantity REAL`);
+        console.log("[DB] Added missing column 'receivedQuantity' to ProductBatches table");
+      }
+      const batchUnitCostColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('ProductBatches') WHERE name = 'unitCost'`
+      );
+
+      if (batchUnitCostColumnCheck && batchUnitCostColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE ProductBatches ADD COLUMN unitCost REAL`);
+        console.log("[DB] Added missing column 'unitCost' to ProductBatches table");
+      }
 
       // Sales Table - Added userId
       db.execSync(`
@@ -210,6 +377,21 @@ export const initDatabase = (): void => {
         );
       `);
 
+      // SalePayments Table (Implicitly user-specific via Sales.userId) - one row per tender of a sale
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS SalePayments (
+          id TEXT PRIMARY KEY,
+          saleId TEXT NOT NULL,
+          paymentMethod TEXT NOT NULL,
+          amount REAL NOT NULL,
+          reference TEXT,
+          amountTendered REAL,
+          changeGiven REAL DEFAULT 0,
+          createdAt TEXT DEFAULT (datetime('now')),
+          FOREIGN KEY (saleId) REFERENCES Sales(id)
+        );
+      `);
+
       // DraftSales Table - Added userId
       db.execSync(`
         CREATE TABLE IF NOT EXISTS DraftSales (
@@ -224,6 +406,26 @@ export const initDatabase = (): void => {
           FOREIGN KEY (userId) REFERENCES Users(id) -- ADDED
         );
       `);
+      // --- Patch: Add missing column 'customerId' if not exists ---
+      const draftSalesColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('DraftSales') WHERE name = 'customerId'`
+      );
+
+      if (draftSalesColumnCheck && draftSalesColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE DraftSales ADD COLUMN customerId TEXT`);
+        console.log("[DB] Added missing column 'customerId' to DraftSales table");
+      }
+
+      // --- Patch: Add missing bill discount columns to DraftSales if not exists ---
+      const draftSalesBillDiscountCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('DraftSales') WHERE name = 'billDiscount'`
+      );
+
+      if (draftSalesBillDiscountCheck && draftSalesBillDiscountCheck.count === 0) {
+        db.execSync(`ALTER TABLE DraftSales ADD COLUMN billDiscountType TEXT`); // PERCENT or FLAT; null means none
+        db.execSync(`ALTER TABLE DraftSales ADD COLUMN billDiscount REAL DEFAULT 0`);
+        console.log("[DB] Added missing columns 'billDiscountType' and 'billDiscount' to DraftSales table");
+      }
 
       // DraftSaleItems Table (Implicitly user-specific via DraftSales.userId) - No direct userId
       db.execSync(`
@@ -238,6 +440,17 @@ export const initDatabase = (): void => {
           FOREIGN KEY (productId) REFERENCES Products(id)
         );
       `);
+      // --- Patch: Add missing held price and discount columns to DraftSaleItems if not exists ---
+      const draftSaleItemsDiscountCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('DraftSaleItems') WHERE name = 'discount'`
+      );
+
+      if (draftSaleItemsDiscountCheck && draftSaleItemsDiscountCheck.count === 0) {
+        db.execSync(`ALTER TABLE DraftSaleItems ADD COLUMN catalogPrice REAL`); // Catalogue price when held; unitPrice may be a price list price
+        db.execSync(`ALTER TABLE DraftSaleItems ADD COLUMN discountType TEXT`); // PERCENT or FLAT; null means none
+        db.execSync(`ALTER TABLE DraftSaleItems ADD COLUMN discount REAL DEFAULT 0`);
+        console.log("[DB] Added missing columns 'catalogPrice', 'discountType' and 'discount' to DraftSaleItems table");
+      }
 
       // Returns Table (Implicitly user-specific via Sales.userId) - No direct userId
       db.execSync(`
@@ -250,6 +463,15 @@ export const initDatabase = (): void => {
           FOREIGN KEY (saleId) REFERENCES Sales(id)
         );
       `);
+      // --- Patch: Add missing column 'refundMethod' if not exists ---
+      const returnsColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('Returns') WHERE name = 'refundMethod'`
+      );
+
+      if (returnsColumnCheck && returnsColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE Returns ADD COLUMN refundMethod TEXT`);
+        console.log("[DB] Added missing column 'refundMethod' to Returns table");
+      }
 
       // ReturnItems Table (Implicitly user-specific) - No direct userId
       db.execSync(`
@@ -419,6 +641,24 @@ export const initDatabase = (): void => {
         db.execSync(`ALTER TABLE Users ADD COLUMN profileImage TEXT`);
         console.log("[DB] Added missing column 'profileImage' to Users table");
       }
+      // --- Patch: Add missing column 'pricesIncludeTax' if not exists ---
+      const settingsTaxColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('Settings') WHERE name = 'pricesIncludeTax'`
+      );
+
+      if (settingsTaxColumnCheck && settingsTaxColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE Settings ADD COLUMN pricesIncludeTax INTEGER DEFAULT 0`);
+        console.log("[DB] Added missing column 'pricesIncludeTax' to Settings table");
+      }
+      // --- Patch: Add missing column 'inventoryValuation' if not exists ---
+      const settingsValuationColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('Settings') WHERE name = 'inventoryValuation'`
+      );
+
+      if (settingsValuationColumnCheck && settingsValuationColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE Settings ADD COLUMN inventoryValuation TEXT DEFAULT 'WEIGHTED_AVERAGE'`);
+        console.log("[DB] Added missing column 'inventoryValuation' to Settings table");
+      }
       // AppUsage Table - Added userId
       db.execSync(`
         CREATE TABLE IF NOT EXISTS AppUsage (
@@ -451,6 +691,16 @@ export const initDatabase = (): void => {
           -- Consider adding UNIQUE(userId, phone) if phone must be unique per user
         );
       `);
+      // --- Patch: Add missing column 'priceListId' if not exists ---
+      // NULL means the customer pays the normal selling price
+      const customerPriceListColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('Customers') WHERE name = 'priceListId'`
+      );
+
+      if (customerPriceListColumnCheck && customerPriceListColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE Customers ADD COLUMN priceListId TEXT`);
+        console.log("[DB] Added missing column 'priceListId' to Customers table");
+      }
 
       // CreditSales Table (Implicitly user-specific via Sales.userId or Customers.userId) - No direct userId needed
       db.execSync(`
@@ -529,6 +779,167 @@ export const initDatabase = (): void => {
           FOREIGN KEY (customerId) REFERENCES Customers(id)
         );
       `);
+      // --- Patch: Add missing column 'computedAt' if not exists ---
+      const creditHistoryColumnCheck = db.getFirstSync<{ count: number }>(
+        `SELECT COUNT(*) as count FROM pragma_table_info('CustomerCreditHistory') WHERE name = 'computedAt'`
+      );
+
+      if (creditHistoryColumnCheck && creditHistoryColumnCheck.count === 0) {
+        db.execSync(`ALTER TABLE CustomerCreditHistory ADD COLUMN computedAt TEXT`);
+        console.log("[DB] Added missing column 'computedAt' to CustomerCreditHistory table");
+      }
+
+      // PurchaseOrders Table
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS PurchaseOrders (
+          id TEXT PRIMARY KEY,
+          userId TEXT NOT NULL,
+          supplierId TEXT NOT NULL,
+          orderNumber TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'OPEN', -- OPEN, PARTIAL, CLOSED
+          orderDate TEXT NOT NULL,
+          expectedDate TEXT,
+          notes TEXT,
+          createdAt TEXT DEFAULT (datetime('now')),
+          updatedAt TEXT DEFAULT (datetime('now')),
+          FOREIGN KEY (userId) REFERENCES Users(id),
+          FOREIGN KEY (supplierId) REFERENCES Suppliers(id)
+        );
+      `);
+
+      // PurchaseOrderItems Table (Implicitly user-specific via PurchaseOrders.userId) - No direct userId
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS PurchaseOrderItems (
+          id TEXT PRIMARY KEY,
+          purchaseOrderId TEXT NOT NULL,
+          productId TEXT NOT NULL,
+          quantityOrdered REAL NOT NULL,
+          quantityReceived REAL NOT NULL DEFAULT 0,
+          unitCost REAL NOT NULL,
+          FOREIGN KEY (purchaseOrderId) REFERENCES PurchaseOrders(id),
+          FOREIGN KEY (productId) REFERENCES Products(id)
+        );
+      `);
+
+      // Stocktakes Table (physical count sessions)
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS Stocktakes (
+          id TEXT PRIMARY KEY,
+          userId TEXT NOT NULL,
+          name TEXT NOT NULL,
+          category TEXT, -- Only this category's products; NULL counts everything
+          status TEXT NOT NULL DEFAULT 'OPEN', -- OPEN, APPLIED, CANCELLED
+          startedAt TEXT NOT NULL,
+          appliedAt TEXT,
+          FOREIGN KEY (userId) REFERENCES Users(id)
+        );
+      `);
+
+      // StocktakeItems Table (Implicitly user-specific via Stocktakes.userId) - No direct userId
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS StocktakeItems (
+          id TEXT PRIMARY KEY,
+          stocktakeId TEXT NOT NULL,
+          productId TEXT NOT NULL,
+          expectedQuantity REAL NOT NULL, -- Stock when the count started
+          countedQuantity REAL,
+          systemQuantityAtCount REAL, -- Stock when this item was counted; sales after that carry over
+          countedAt TEXT,
+          FOREIGN KEY (stocktakeId) REFERENCES Stocktakes(id),
+          FOREIGN KEY (productId) REFERENCES Products(id)
+        );
+      `);
+
+      // PriceHistory Table (every change to a product's cost or selling price)
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS PriceHistory (
+          id TEXT PRIMARY KEY,
+          userId TEXT NOT NULL, -- Who made the change
+          productId TEXT NOT NULL,
+          oldCostPrice REAL NOT NULL,
+          newCostPrice REAL NOT NULL,
+          oldSellingPrice REAL NOT NULL,
+          newSellingPrice REAL NOT NULL,
+          source TEXT NOT NULL, -- EDIT, IMPORT or SCHEDULED
+          scheduledPriceChangeId TEXT, -- Set when a scheduled change was applied
+          changedAt TEXT NOT NULL,
+          FOREIGN KEY (userId) REFERENCES Users(id),
+          FOREIGN KEY (productId) REFERENCES Products(id)
+        );
+      `);
+      db.execSync(`CREATE INDEX IF NOT EXISTS idx_price_history_product ON PriceHistory(productId, changedAt)`);
+
+      // ScheduledPriceChanges Table (new prices that take effect on a later date)
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS ScheduledPriceChanges (
+          id TEXT PRIMARY KEY,
+          userId TEXT NOT NULL,
+          productId TEXT NOT NULL,
+          newCostPrice REAL, -- NULL leaves the cost price as it is
+          newSellingPrice REAL, -- NULL leaves the selling price as it is
+          effectiveDate TEXT NOT NULL, -- yyyy-MM-dd; applied on the first app start or checkout from that day
+          status TEXT NOT NULL DEFAULT 'PENDING', -- PENDING, APPLIED or CANCELLED
+          notes TEXT,
+          createdAt TEXT NOT NULL,
+          appliedAt TEXT,
+          FOREIGN KEY (userId) REFERENCES Users(id),
+          FOREIGN KEY (productId) REFERENCES Products(id)
+        );
+      `);
+
+      // PriceLists Table (named prices for groups of customers, e.g. Wholesale)
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS PriceLists (
+          id TEXT PRIMARY KEY,
+          userId TEXT NOT NULL,
+          name TEXT NOT NULL,
+          discountPercent REAL NOT NULL DEFAULT 0, -- Off the selling price of products without their own price
+          notes TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (userId) REFERENCES Users(id)
+        );
+      `);
+
+      // PriceListItems Table (a product's price on a list; extra rows with a higher minQuantity are quantity breaks)
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS PriceListItems (
+          id TEXT PRIMARY KEY,
+          priceListId TEXT NOT NULL,
+          productId TEXT NOT NULL,
+          minQuantity REAL NOT NULL DEFAULT 1,
+          price REAL NOT NULL,
+          FOREIGN KEY (priceListId) REFERENCES PriceLists(id),
+          FOREIGN KEY (productId) REFERENCES Products(id),
+          UNIQUE(priceListId, productId, minQuantity)
+        );
+      `);
+
+      // BundleComponents Table (the products, and how many of each, that make up one bundle)
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS BundleComponents (
+          id TEXT PRIMARY KEY,
+          bundleId TEXT NOT NULL,
+          componentId TEXT NOT NULL,
+          quantity REAL NOT NULL, -- Per bundle, in the component's own unit
+          FOREIGN KEY (bundleId) REFERENCES Products(id),
+          FOREIGN KEY (componentId) REFERENCES Products(id),
+          UNIQUE(bundleId, componentId)
+        );
+      `);
+
+      // SaleItemComponents Table (what went into each bundle sold, so a return restocks the same products)
+      db.execSync(`
+        CREATE TABLE IF NOT EXISTS SaleItemComponents (
+          id TEXT PRIMARY KEY,
+          saleItemId TEXT NOT NULL, -- SaleItems.id; written just before its sale item, so not a foreign key
+          componentId TEXT NOT NULL,
+          quantity REAL NOT NULL, -- Per bundle sold
+          unitCost REAL NOT NULL DEFAULT 0, -- What each unit of the component cost when sold
+          FOREIGN KEY (componentId) REFERENCES Products(id)
+        );
+      `);
+      db.execSync(`CREATE INDEX IF NOT EXISTS idx_sale_item_components_sale_item ON SaleItemComponents(saleItemId)`);
 
       // Check if Settings has a default global row
       const settingsExists = db.getFirstSync<{ count: number }>(
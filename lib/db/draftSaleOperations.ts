@@ -0,0 +1,192 @@
+import { DraftSale, DraftSaleItem } from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+import { DRAFT_SALE_EXPIRY_HOURS } from '../constants';
+import { calculateCartTotals, Discount } from '../utils/pricingUtils';
+
+const db = getDatabase();
+
+export interface DraftSaleLineInput {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  catalogPrice: number;
+  discount?: Discount | null;
+}
+
+export interface CreateDraftSaleInput {
+  items: DraftSaleLineInput[];
+  customerId?: string | null;
+  customerName?: string | null;
+  customerPhone?: string | null;
+  notes?: string | null;
+  billDiscount?: Discount | null;
+}
+
+// Run at app start and when a bill is held; listing held bills only hides expired ones
+export const deleteExpiredDraftSales = async (userId: string): Promise<number> => {
+  try {
+    const now = new Date().toISOString();
+    let removed = 0;
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(
+        `DELETE FROM DraftSaleItems WHERE draftSaleId IN (
+           SELECT id FROM DraftSales WHERE userId = ? AND expiryTime IS NOT NULL AND expiryTime <= ?
+         )`,
+        [userId, now]
+      );
+      const result = await db.runAsync(
+        'DELETE FROM DraftSales WHERE userId = ? AND expiryTime IS NOT NULL AND expiryTime <= ?',
+        [userId, now]
+      );
+      removed = result.changes;
+    });
+    return removed;
+  } catch (error: any) {
+    console.error('Error deleting expired draft sales from DB:', error.message);
+    throw new Error('Failed to clean up expired held bills.');
+  }
+};
+
+export const getDraftSales = async (userId: string): Promise<DraftSale[]> => {
+  try {
+    // Expired drafts are left out so they never show up as resumable
+    const rows = await db.getAllAsync<DraftSale>(
+      `SELECT d.*, (SELECT COUNT(*) FROM DraftSaleItems di WHERE di.draftSaleId = d.id) as itemCount
+       FROM DraftSales d
+       WHERE d.userId = ? AND (d.expiryTime IS NULL OR d.expiryTime > ?)
+       ORDER BY d.timestamp DESC`,
+      [userId, new Date().toISOString()]
+    );
+    return rows.map(row => ({
+      ...row,
+      totalAmount: Number(row.totalAmount) || 0,
+      billDiscount: Number(row.billDiscount) || 0,
+      itemCount: Number(row.itemCount) || 0,
+    }));
+  } catch (error: any) {
+    console.error('Error fetching draft sales from DB:', error.message);
+    throw new Error('Failed to fetch held bills.');
+  }
+};
+
+export const getDraftSaleItems = async (userId: string, draftSaleId: string): Promise<DraftSaleItem[]> => {
+  try {
+    const rows = await db.getAllAsync<DraftSaleItem>(
+      `SELECT di.* FROM DraftSaleItems di
+       JOIN DraftSales d ON di.draftSaleId = d.id
+       WHERE di.draftSaleId = ? AND d.userId = ?`,
+      [draftSaleId, userId]
+    );
+    return rows.map(row => ({
+      ...row,
+      quantity: Number(row.quantity) || 0,
+      unitPrice: Number(row.unitPrice) || 0,
+      catalogPrice: row.catalogPrice != null ? Number(row.catalogPrice) : null,
+      discount: Number(row.discount) || 0,
+      subtotal: Number(row.subtotal) || 0,
+    }));
+  } catch (error: any) {
+    console.error('Error fetching draft sale items from DB:', error.message);
+    throw new Error('Failed to fetch held bill items.');
+  }
+};
+
+export const createDraftSale = async (userId: string, input: CreateDraftSaleInput): Promise<DraftSale> => {
+  const lines = input.items.filter(item => item.quantity > 0);
+  if (lines.length === 0) {
+    throw new Error('Cannot hold an empty bill.');
+  }
+
+  const id = uuidv4();
+  const timestamp = new Date().toISOString();
+  const expiryTime = new Date(Date.now() + DRAFT_SALE_EXPIRY_HOURS * 60 * 60 * 1000).toISOString();
+  // Totals after line and bill discounts, before tax, as the held bills list shows them
+  const totals = calculateCartTotals(
+    lines.map(line => ({ id: line.productId, sellingPrice: line.unitPrice, quantityInCart: line.quantity, discount: line.discount })),
+    input.billDiscount
+  );
+  const totalAmount = totals.totalAmount;
+  const billDiscount = input.billDiscount && input.billDiscount.value > 0 ? input.billDiscount : null;
+
+  const draftSale: DraftSale = {
+    id,
+    userId,
+    timestamp,
+    totalAmount,
+    customerId: input.customerId || null,
+    customerName: input.customerName || null,
+    customerPhone: input.customerPhone || null,
+    notes: input.notes || null,
+    expiryTime,
+    billDiscountType: billDiscount?.type ?? null,
+    billDiscount: billDiscount?.value ?? 0,
+    itemCount: lines.length,
+  };
+
+  try {
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(
+        `INSERT INTO DraftSales (id, userId, timestamp, totalAmount, customerId, customerName, customerPhone, notes, expiryTime, billDiscountType, billDiscount)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          draftSale.id,
+          userId,
+          draftSale.timestamp,
+          draftSale.totalAmount,
+          draftSale.customerId ?? null,
+          draftSale.customerName ?? null,
+          draftSale.customerPhone ?? null,
+          draftSale.notes ?? null,
+          draftSale.expiryTime ?? null,
+          draftSale.billDiscountType ?? null,
+          draftSale.billDiscount ?? 0,
+        ]
+      );
+      for (const [index, line] of lines.entries()) {
+        const discount = line.discount && line.discount.value > 0 ? line.discount : null;
+        await db.runAsync(
+          `INSERT INTO DraftSaleItems (id, draftSaleId, productId, quantity, unitPrice, catalogPrice, discountType, discount, subtotal)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            uuidv4(),
+            id,
+            line.productId,
+            line.quantity,
+            line.unitPrice,
+            line.catalogPrice,
+            discount?.type ?? null,
+            discount?.value ?? 0,
+            totals.lines[index].gross - totals.lines[index].lineDiscount,
+          ]
+        );
+      }
+    });
+    return draftSale;
+  } catch (error: any) {
+    console.error('Error adding draft sale to DB:', error.message);
+    throw new Error('Failed to hold bill. Please try again.');
+  }
+};
+
+export const deleteDraftSale = async (userId: string, draftSaleId: string): Promise<void> => {
+  try {
+    await db.withTransactionAsync(async () => {
+      const existing = await db.getFirstAsync<{ id: string }>(
+        'SELECT id FROM DraftSales WHERE id = ? AND userId = ?',
+        [draftSaleId, userId]
+      );
+      if (!existing) {
+        throw new Error('Held bill not found or access denied.');
+      }
+      await db.runAsync('DELETE FROM DraftSaleItems WHERE draftSaleId = ?', [draftSaleId]);
+      await db.runAsync('DELETE FROM DraftSales WHERE id = ? AND userId = ?', [draftSaleId, userId]);
+    });
+  } catch (error: any) {
+    if (error.message.includes('not found')) {
+      throw error;
+    }
+    console.error('Error deleting draft sale from DB:', error.message);
+    throw new Error('Failed to delete held bill. Please try again.');
+  }
+};
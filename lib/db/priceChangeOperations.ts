@@ -0,0 +1,250 @@
+import { format } from 'date-fns';
+import {
+  PriceChangeSource,
+  PriceHistoryEntry,
+  ScheduledPriceChange,
+  ScheduledPriceChangeWithProduct,
+} from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+import { roundCurrency } from '../utils/pricingUtils';
+
+const db = getDatabase();
+
+export interface PriceChangeInput {
+  productId: string;
+  oldCostPrice: number;
+  newCostPrice: number;
+  oldSellingPrice: number;
+  newSellingPrice: number;
+  source: PriceChangeSource;
+  scheduledPriceChangeId?: string | null;
+}
+
+export interface NewScheduledPriceChangeInput {
+  productId: string;
+  newCostPrice?: number | null;
+  newSellingPrice?: number | null;
+  effectiveDate: string; // yyyy-MM-dd
+  notes?: string | null;
+}
+
+export interface AppliedPriceChange {
+  productId: string;
+  productName: string;
+  costPrice: number;
+  sellingPrice: number;
+}
+
+const today = (): string => format(new Date(), 'yyyy-MM-dd');
+
+// Writes a history row when either price actually moved; otherwise does nothing.
+// Meant to be called from inside the caller's own transaction.
+export const recordPriceChange = async (userId: string, change: PriceChangeInput): Promise<void> => {
+  const oldCost = roundCurrency(Number(change.oldCostPrice) || 0);
+  const newCost = roundCurrency(Number(change.newCostPrice) || 0);
+  const oldSelling = roundCurrency(Number(change.oldSellingPrice) || 0);
+  const newSelling = roundCurrency(Number(change.newSellingPrice) || 0);
+  if (oldCost === newCost && oldSelling === newSelling) return;
+
+  await db.runAsync(
+    `INSERT INTO PriceHistory (id, userId, productId, oldCostPrice, newCostPrice, oldSellingPrice, newSellingPrice, source, scheduledPriceChangeId, changedAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      uuidv4(),
+      userId,
+      change.productId,
+      oldCost,
+      newCost,
+      oldSelling,
+      newSelling,
+      change.source,
+      change.scheduledPriceChangeId ?? null,
+      new Date().toISOString(),
+    ]
+  );
+};
+
+export const getPriceHistory = async (userId: string, productId: string): Promise<PriceHistoryEntry[]> => {
+  try {
+    const rows = await db.getAllAsync<PriceHistoryEntry>(
+      `SELECT ph.*, u.name as changedByName
+       FROM PriceHistory ph
+       LEFT JOIN Users u ON ph.userId = u.id
+       WHERE ph.userId = ? AND ph.productId = ?
+       ORDER BY ph.changedAt DESC`,
+      [userId, productId]
+    );
+    return rows.map(row => ({
+      ...row,
+      oldCostPrice: Number(row.oldCostPrice) || 0,
+      newCostPrice: Number(row.newCostPrice) || 0,
+      oldSellingPrice: Number(row.oldSellingPrice) || 0,
+      newSellingPrice: Number(row.newSellingPrice) || 0,
+    }));
+  } catch (error: any) {
+    console.error('Error fetching price history from DB:', error.message);
+    throw new Error('Failed to fetch price history.');
+  }
+};
+
+// Pending changes first, soonest date first; past ones after, newest first
+export const getScheduledPriceChanges = async (
+  userId: string,
+  productId?: string | null
+): Promise<ScheduledPriceChangeWithProduct[]> => {
+  try {
+    const rows = await db.getAllAsync<ScheduledPriceChangeWithProduct>(
+      `SELECT spc.*, p.name as productName, p.costPrice, p.sellingPrice
+       FROM ScheduledPriceChanges spc
+       JOIN products p ON spc.productId = p.id
+       WHERE spc.userId = ?${productId ? ' AND spc.productId = ?' : ''}
+       ORDER BY CASE WHEN spc.status = 'PENDING' THEN 0 ELSE 1 END,
+                CASE WHEN spc.status = 'PENDING' THEN spc.effectiveDate END ASC,
+                spc.effectiveDate DESC, spc.createdAt DESC`,
+      productId ? [userId, productId] : [userId]
+    );
+    return rows.map(row => ({
+      ...row,
+      newCostPrice: row.newCostPrice == null ? null : Number(row.newCostPrice),
+      newSellingPrice: row.newSellingPrice == null ? null : Number(row.newSellingPrice),
+      costPrice: Number(row.costPrice) || 0,
+      sellingPrice: Number(row.sellingPrice) || 0,
+    }));
+  } catch (error: any) {
+    console.error('Error fetching scheduled price changes from DB:', error.message);
+    throw new Error('Failed to fetch scheduled price changes.');
+  }
+};
+
+export const schedulePriceChange = async (
+  userId: string,
+  input: NewScheduledPriceChangeInput
+): Promise<ScheduledPriceChange> => {
+  const newCostPrice = input.newCostPrice == null ? null : roundCurrency(input.newCostPrice);
+  const newSellingPrice = input.newSellingPrice == null ? null : roundCurrency(input.newSellingPrice);
+  if (newCostPrice == null && newSellingPrice == null) {
+    throw new Error('Enter a new cost price, selling price or both.');
+  }
+  if ((newCostPrice != null && !(newCostPrice >= 0)) || (newSellingPrice != null && !(newSellingPrice >= 0))) {
+    throw new Error('Prices cannot be negative.');
+  }
+  // A change for today is just an edit, and edits are made on the product itself
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.effectiveDate) || input.effectiveDate <= today()) {
+    throw new Error('Pick a date after today. To change the price now, edit the product.');
+  }
+
+  const change: ScheduledPriceChange = {
+    id: uuidv4(),
+    userId,
+    productId: input.productId,
+    newCostPrice,
+    newSellingPrice,
+    effectiveDate: input.effectiveDate,
+    status: 'PENDING',
+    notes: input.notes?.trim() || null,
+    createdAt: new Date().toISOString(),
+    appliedAt: null,
+  };
+
+  try {
+    const product = await db.getFirstAsync<{ id: string }>(
+      'SELECT id FROM products WHERE id = ? AND userId = ? AND isActive = 1',
+      [input.productId, userId]
+    );
+    if (!product) {
+      throw new Error('Product not found or access denied.');
+    }
+
+    await db.runAsync(
+      `INSERT INTO ScheduledPriceChanges (id, userId, productId, newCostPrice, newSellingPrice, effectiveDate, status, notes, createdAt, appliedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        change.id,
+        userId,
+        change.productId,
+        change.newCostPrice,
+        change.newSellingPrice,
+        change.effectiveDate,
+        change.status,
+        change.notes ?? null,
+        change.createdAt,
+        null,
+      ]
+    );
+    return change;
+  } catch (error: any) {
+    if (error.message.includes('not found')) {
+      throw error;
+    }
+    console.error('Error scheduling price change in DB:', error.message);
+    throw new Error('Failed to schedule the price change.');
+  }
+};
+
+export const cancelScheduledPriceChange = async (userId: string, id: string): Promise<void> => {
+  try {
+    await db.runAsync(
+      "UPDATE ScheduledPriceChanges SET status = 'CANCELLED' WHERE id = ? AND userId = ? AND status = 'PENDING'",
+      [id, userId]
+    );
+  } catch (error: any) {
+    console.error('Error cancelling scheduled price change in DB:', error.message);
+    throw new Error('Failed to cancel the price change.');
+  }
+};
+
+// Puts every pending change whose date has come into effect, oldest date first,
+// so the latest one wins when several have fallen due. Changes for products
+// deleted since are cancelled. Returns the products whose prices moved.
+export const applyDuePriceChanges = async (userId: string): Promise<AppliedPriceChange[]> => {
+  const applied = new Map<string, AppliedPriceChange>();
+  try {
+    await db.withTransactionAsync(async () => {
+      const dueChanges = await db.getAllAsync<ScheduledPriceChange>(
+        `SELECT * FROM ScheduledPriceChanges
+         WHERE userId = ? AND status = 'PENDING' AND effectiveDate <= ?
+         ORDER BY effectiveDate ASC, createdAt ASC`,
+        [userId, today()]
+      );
+      for (const change of dueChanges) {
+        const now = new Date().toISOString();
+        const product = await db.getFirstAsync<{ name: string; costPrice: number; sellingPrice: number; isActive: number }>(
+          'SELECT name, costPrice, sellingPrice, isActive FROM products WHERE id = ? AND userId = ?',
+          [change.productId, userId]
+        );
+        if (!product || !product.isActive) {
+          await db.runAsync("UPDATE ScheduledPriceChanges SET status = 'CANCELLED' WHERE id = ?", [change.id]);
+          continue;
+        }
+
+        const oldCostPrice = Number(product.costPrice) || 0;
+        const oldSellingPrice = Number(product.sellingPrice) || 0;
+        const costPrice = change.newCostPrice == null ? oldCostPrice : Number(change.newCostPrice);
+        const sellingPrice = change.newSellingPrice == null ? oldSellingPrice : Number(change.newSellingPrice);
+        await db.runAsync(
+          'UPDATE products SET costPrice = ?, sellingPrice = ?, updatedAt = ? WHERE id = ? AND userId = ?',
+          [costPrice, sellingPrice, now, change.productId, userId]
+        );
+        await recordPriceChange(userId, {
+          productId: change.productId,
+          oldCostPrice,
+          newCostPrice: costPrice,
+          oldSellingPrice,
+          newSellingPrice: sellingPrice,
+          source: 'SCHEDULED',
+          scheduledPriceChangeId: change.id,
+        });
+        await db.runAsync(
+          "UPDATE ScheduledPriceChanges SET status = 'APPLIED', appliedAt = ? WHERE id = ?",
+          [now, change.id]
+        );
+        applied.set(change.productId, { productId: change.productId, productName: product.name, costPrice, sellingPrice });
+      }
+    });
+    return Array.from(applied.values());
+  } catch (error: any) {
+    console.error('Error applying scheduled price changes in DB:', error.message);
+    throw new Error('Failed to apply scheduled price changes.');
+  }
+};
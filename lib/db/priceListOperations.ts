@@ -0,0 +1,281 @@
+import {
+  PriceList,
+  PriceListItem,
+  PriceListItemWithProduct,
+  PriceListWithCounts,
+  PriceListWithItems,
+} from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+import { roundCurrency } from '../utils/pricingUtils';
+import { roundQuantity } from '../utils/quantityUtils';
+
+const db = getDatabase();
+
+export interface PriceListInput {
+  name: string;
+  discountPercent?: number;
+  notes?: string | null;
+}
+
+export interface PriceListItemInput {
+  priceListId: string;
+  productId: string;
+  minQuantity?: number; // Defaults to 1, the list price itself
+  price: number;
+}
+
+const validatePriceListInput = (input: Partial<PriceListInput>) => {
+  if (input.name !== undefined && !input.name.trim()) {
+    throw new Error('Price list name is required.');
+  }
+  if (input.discountPercent !== undefined && !(input.discountPercent >= 0 && input.discountPercent <= 100)) {
+    throw new Error('Discount must be between 0 and 100 percent.');
+  }
+};
+
+const assertUniqueName = async (userId: string, name: string, excludeId?: string) => {
+  const existing = await db.getFirstAsync<{ id: string }>(
+    `SELECT id FROM PriceLists WHERE userId = ? AND LOWER(name) = LOWER(?)${excludeId ? ' AND id != ?' : ''}`,
+    excludeId ? [userId, name.trim(), excludeId] : [userId, name.trim()]
+  );
+  if (existing) {
+    throw new Error('A price list with this name already exists.');
+  }
+};
+
+const assertOwnPriceList = async (userId: string, priceListId: string) => {
+  const priceList = await db.getFirstAsync<{ id: string }>(
+    'SELECT id FROM PriceLists WHERE id = ? AND userId = ?',
+    [priceListId, userId]
+  );
+  if (!priceList) {
+    throw new Error('Price list not found or access denied.');
+  }
+};
+
+const mapPriceList = <T extends PriceList>(row: T): T => ({
+  ...row,
+  discountPercent: Number(row.discountPercent) || 0,
+});
+
+const mapPriceListItem = <T extends PriceListItem>(row: T): T => ({
+  ...row,
+  minQuantity: Number(row.minQuantity) || 1,
+  price: Number(row.price) || 0,
+});
+
+export const getPriceLists = async (userId: string): Promise<PriceListWithCounts[]> => {
+  try {
+    const rows = await db.getAllAsync<PriceListWithCounts>(
+      `SELECT pl.*,
+              (SELECT COUNT(DISTINCT pli.productId) FROM PriceListItems pli
+                 JOIN products p ON pli.productId = p.id AND p.isActive = 1
+                WHERE pli.priceListId = pl.id) as productCount,
+              (SELECT COUNT(*) FROM Customers c WHERE c.priceListId = pl.id AND c.userId = pl.userId) as customerCount
+       FROM PriceLists pl
+       WHERE pl.userId = ?
+       ORDER BY pl.name COLLATE NOCASE`,
+      [userId]
+    );
+    return rows.map(row => ({
+      ...mapPriceList(row),
+      productCount: Number(row.productCount) || 0,
+      customerCount: Number(row.customerCount) || 0,
+    }));
+  } catch (error: any) {
+    console.error('Error fetching price lists from DB:', error.message);
+    throw new Error('Failed to fetch price lists.');
+  }
+};
+
+// Items of active products only, by product name and then quantity break
+export const getPriceListItems = async (userId: string, priceListId: string): Promise<PriceListItemWithProduct[]> => {
+  try {
+    const rows = await db.getAllAsync<PriceListItemWithProduct>(
+      `SELECT pli.*, p.name as productName, p.sellingPrice, p.unit
+       FROM PriceListItems pli
+       JOIN PriceLists pl ON pli.priceListId = pl.id
+       JOIN products p ON pli.productId = p.id
+       WHERE pl.id = ? AND pl.userId = ? AND p.isActive = 1
+       ORDER BY p.name COLLATE NOCASE, pli.minQuantity ASC`,
+      [priceListId, userId]
+    );
+    return rows.map(row => ({ ...mapPriceListItem(row), sellingPrice: Number(row.sellingPrice) || 0 }));
+  } catch (error: any) {
+    console.error('Error fetching price list items from DB:', error.message);
+    throw new Error('Failed to fetch price list items.');
+  }
+};
+
+// The list the cart prices against when this customer is selected; null when none is assigned
+export const getCustomerPriceList = async (userId: string, customerId: string): Promise<PriceListWithItems | null> => {
+  try {
+    const priceList = await db.getFirstAsync<PriceList>(
+      `SELECT pl.* FROM PriceLists pl
+       JOIN Customers c ON c.priceListId = pl.id
+       WHERE c.id = ? AND c.userId = ? AND pl.userId = ?`,
+      [customerId, userId, userId]
+    );
+    if (!priceList) return null;
+
+    const items = await db.getAllAsync<PriceListItem>(
+      'SELECT * FROM PriceListItems WHERE priceListId = ? ORDER BY productId, minQuantity ASC',
+      [priceList.id]
+    );
+    return { ...mapPriceList(priceList), items: items.map(mapPriceListItem) };
+  } catch (error: any) {
+    console.error('Error fetching customer price list from DB:', error.message);
+    throw new Error('Failed to fetch the customer price list.');
+  }
+};
+
+export const addPriceList = async (userId: string, input: PriceListInput): Promise<PriceList> => {
+  validatePriceListInput(input);
+  const timestamp = new Date().toISOString();
+  const priceList: PriceList = {
+    id: uuidv4(),
+    userId,
+    name: input.name.trim(),
+    discountPercent: roundCurrency(input.discountPercent ?? 0),
+    notes: input.notes?.trim() || null,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+
+  try {
+    await assertUniqueName(userId, priceList.name);
+    await db.runAsync(
+      `INSERT INTO PriceLists (id, userId, name, discountPercent, notes, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        priceList.id,
+        userId,
+        priceList.name,
+        priceList.discountPercent,
+        priceList.notes ?? null,
+        priceList.createdAt,
+        priceList.updatedAt,
+      ]
+    );
+    return priceList;
+  } catch (error: any) {
+    if (error.message.includes('already exists')) {
+      throw error;
+    }
+    console.error('Error adding price list to DB:', error.message);
+    throw new Error('Failed to add price list.');
+  }
+};
+
+export const updatePriceList = async (userId: string, id: string, updates: Partial<PriceListInput>): Promise<void> => {
+  validatePriceListInput(updates);
+  try {
+    await assertOwnPriceList(userId, id);
+    if (updates.name !== undefined) {
+      await assertUniqueName(userId, updates.name, id);
+    }
+    const fields: string[] = [];
+    const values: (string | number | null)[] = [];
+    if (updates.name !== undefined) {
+      fields.push('name = ?');
+      values.push(updates.name.trim());
+    }
+    if (updates.discountPercent !== undefined) {
+      fields.push('discountPercent = ?');
+      values.push(roundCurrency(updates.discountPercent));
+    }
+    if (updates.notes !== undefined) {
+      fields.push('notes = ?');
+      values.push(updates.notes?.trim() || null);
+    }
+    if (fields.length === 0) return;
+
+    await db.runAsync(
+      `UPDATE PriceLists SET ${fields.join(', ')}, updatedAt = ? WHERE id = ? AND userId = ?`,
+      [...values, new Date().toISOString(), id, userId]
+    );
+  } catch (error: any) {
+    if (error.message.includes('not found') || error.message.includes('already exists')) {
+      throw error;
+    }
+    console.error('Error updating price list in DB:', error.message);
+    throw new Error('Failed to update price list.');
+  }
+};
+
+// Customers on the list go back to normal selling prices
+export const deletePriceList = async (userId: string, id: string): Promise<void> => {
+  try {
+    await assertOwnPriceList(userId, id);
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('UPDATE Customers SET priceListId = NULL WHERE priceListId = ? AND userId = ?', [id, userId]);
+      await db.runAsync('DELETE FROM PriceListItems WHERE priceListId = ?', [id]);
+      await db.runAsync('DELETE FROM PriceLists WHERE id = ? AND userId = ?', [id, userId]);
+    });
+  } catch (error: any) {
+    if (error.message.includes('not found')) {
+      throw error;
+    }
+    console.error('Error deleting price list from DB:', error.message);
+    throw new Error('Failed to delete price list.');
+  }
+};
+
+// Adds the price, or replaces the one already set for the same product and quantity
+export const setPriceListItem = async (userId: string, input: PriceListItemInput): Promise<void> => {
+  const minQuantity = roundQuantity(input.minQuantity ?? 1);
+  const price = roundCurrency(input.price);
+  if (!(minQuantity > 0)) {
+    throw new Error('Minimum quantity must be more than zero.');
+  }
+  if (!(price >= 0)) {
+    throw new Error('Price cannot be negative.');
+  }
+
+  try {
+    await assertOwnPriceList(userId, input.priceListId);
+    const product = await db.getFirstAsync<{ id: string }>(
+      'SELECT id FROM products WHERE id = ? AND userId = ? AND isActive = 1',
+      [input.productId, userId]
+    );
+    if (!product) {
+      throw new Error('Product not found or access denied.');
+    }
+
+    const existing = await db.getFirstAsync<{ id: string }>(
+      'SELECT id FROM PriceListItems WHERE priceListId = ? AND productId = ? AND minQuantity = ?',
+      [input.priceListId, input.productId, minQuantity]
+    );
+    await db.withTransactionAsync(async () => {
+      if (existing) {
+        await db.runAsync('UPDATE PriceListItems SET price = ? WHERE id = ?', [price, existing.id]);
+      } else {
+        await db.runAsync(
+          'INSERT INTO PriceListItems (id, priceListId, productId, minQuantity, price) VALUES (?, ?, ?, ?, ?)',
+          [uuidv4(), input.priceListId, input.productId, minQuantity, price]
+        );
+      }
+      await db.runAsync('UPDATE PriceLists SET updatedAt = ? WHERE id = ?', [new Date().toISOString(), input.priceListId]);
+    });
+  } catch (error: any) {
+    if (error.message.includes('not found')) {
+      throw error;
+    }
+    console.error('Error saving price list item in DB:', error.message);
+    throw new Error('Failed to save the price.');
+  }
+};
+
+export const removePriceListItem = async (userId: string, itemId: string): Promise<void> => {
+  try {
+    await db.runAsync(
+      `DELETE FROM PriceListItems
+       WHERE id = ? AND priceListId IN (SELECT id FROM PriceLists WHERE userId = ?)`,
+      [itemId, userId]
+    );
+  } catch (error: any) {
+    console.error('Error removing price list item from DB:', error.message);
+    throw new Error('Failed to remove the price.');
+  }
+};
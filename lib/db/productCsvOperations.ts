@@ -0,0 +1,259 @@
+import { ProductModel } from '../models/product';
+import { ProductCsvField, ProductCsvMapping, ProductImportResult, ProductImportRow } from '../stores/types';
+import { getDatabase } from './database';
+import { addCategory } from './categoryOperations';
+import { applyStockAdjustment } from './stockAdjustmentOperations';
+import { DEFAULT_REORDER_LEVEL, PRODUCT_CSV_COLUMNS, PRODUCT_UNITS } from '../constants';
+import { allowsDecimalQuantity, roundQuantity } from '../utils/quantityUtils';
+import { toCsv } from '../utils/csvUtils';
+
+const db = getDatabase();
+
+// Header names spreadsheets commonly use for each field, lower-cased
+const HEADER_ALIASES: Record<ProductCsvField, string[]> = {
+  name: ['name', 'product', 'product name', 'item', 'item name'],
+  category: ['category', 'category name', 'group'],
+  costPrice: ['cost', 'cost price', 'purchase price', 'buying price'],
+  sellingPrice: ['price', 'selling price', 'sale price', 'mrp', 'rate'],
+  quantity: ['quantity', 'qty', 'stock', 'quantity in stock'],
+  unit: ['unit', 'uom', 'units'],
+  barcode: ['barcode', 'code', 'ean', 'sku', 'upc'],
+};
+
+// Picks a column for each field by its header; fields with no matching header are left unmapped
+export const guessProductCsvMapping = (headers: string[]): ProductCsvMapping => {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  const mapping = {} as ProductCsvMapping;
+  PRODUCT_CSV_COLUMNS.forEach(({ value }) => {
+    const index = normalized.findIndex(header => HEADER_ALIASES[value].includes(header));
+    mapping[value] = index >= 0 ? index : null;
+  });
+  return mapping;
+};
+
+// Amounts may come with a rupee sign or thousands separators
+const parseAmount = (text: string): number => {
+  const cleaned = text.replace(/[₹,\s]/g, '');
+  return cleaned === '' ? NaN : Number(cleaned);
+};
+
+// Validates the data rows (header excluded) and matches each to an existing
+// product, by barcode first and then by name. Nothing is written.
+export const previewProductImport = async (
+  userId: string,
+  rows: string[][],
+  mapping: ProductCsvMapping
+): Promise<ProductImportRow[]> => {
+  try {
+    const products = await db.getAllAsync<{ id: string; name: string; barcode: string | null; alternateCode: string | null; unit: string }>(
+      'SELECT id, name, barcode, alternateCode, unit FROM products WHERE userId = ? AND isActive = 1',
+      [userId]
+    );
+    const byName = new Map(products.map(p => [p.name.trim().toLowerCase(), p]));
+    const byCode = new Map<string, typeof products[number]>();
+    products.forEach(p => {
+      if (p.barcode) byCode.set(p.barcode, p);
+      if (p.alternateCode) byCode.set(p.alternateCode, p);
+    });
+    const categories = await db.getAllAsync<{ name: string }>('SELECT name FROM Categories WHERE userId = ?', [userId]);
+    const categoryNames = new Map(categories.map(c => [c.name.toLowerCase(), c.name]));
+    const seen = new Map<string, number>(); // Name, code or product already used by an earlier row
+
+    return rows.map((cells, index) => {
+      const rowNumber = index + 2;
+      const errors: string[] = [];
+      const cell = (field: ProductCsvField): string => {
+        const column = mapping[field];
+        return column == null ? '' : (cells[column] ?? '').trim();
+      };
+
+      const name = cell('name');
+      const barcode = cell('barcode') || null;
+      const codeMatch = barcode ? byCode.get(barcode) : undefined;
+      const nameMatch = name ? byName.get(name.toLowerCase()) : undefined;
+      if (codeMatch && nameMatch && codeMatch.id !== nameMatch.id) {
+        errors.push(`Barcode ${barcode} belongs to "${codeMatch.name}"`);
+      }
+      const match = codeMatch ?? nameMatch ?? null;
+      if (!name && !match) {
+        errors.push('Name is required');
+      }
+
+      const unitText = cell('unit').toLowerCase();
+      const unit = PRODUCT_UNITS.includes(unitText) ? unitText : null;
+      if (unitText && !unit) {
+        errors.push(`Unknown unit "${cell('unit')}"`);
+      }
+
+      const readPrice = (field: ProductCsvField, label: string): number | null => {
+        const text = cell(field);
+        if (!text) {
+          if (!match) errors.push(`${label} is required`);
+          return null;
+        }
+        const value = parseAmount(text);
+        if (!(value > 0)) {
+          errors.push(`${label} must be a number above 0`);
+          return null;
+        }
+        return value;
+      };
+      const costPrice = readPrice('costPrice', 'Cost price');
+      const sellingPrice = readPrice('sellingPrice', 'Selling price');
+
+      let quantity: number | null = null;
+      const quantityText = cell('quantity');
+      if (quantityText) {
+        const value = parseAmount(quantityText);
+        const effectiveUnit = unit ?? match?.unit ?? 'piece';
+        if (!(value >= 0)) {
+          errors.push('Quantity must be 0 or more');
+        } else if (!allowsDecimalQuantity(effectiveUnit) && !Number.isInteger(value)) {
+          errors.push(`Quantity must be a whole number for ${effectiveUnit}`);
+        } else {
+          quantity = roundQuantity(value);
+        }
+      }
+
+      const keys = [
+        name && `name:${name.toLowerCase()}`,
+        barcode && `code:${barcode}`,
+        match && `id:${match.id}`,
+      ].filter((key): key is string => !!key);
+      const duplicateOf = keys.map(key => seen.get(key)).find(n => n != null);
+      if (duplicateOf != null) {
+        errors.push(`Same product as row ${duplicateOf}`);
+      }
+      keys.forEach(key => {
+        if (!seen.has(key)) seen.set(key, rowNumber);
+      });
+
+      const categoryText = cell('category');
+      return {
+        rowNumber,
+        name: name || match?.name || '',
+        category: categoryText ? categoryNames.get(categoryText.toLowerCase()) ?? categoryText : null,
+        costPrice,
+        sellingPrice,
+        quantity,
+        unit,
+        barcode,
+        productId: match?.id ?? null,
+        errors,
+      };
+    });
+  } catch (error: any) {
+    console.error('Error checking product import in DB:', error.message);
+    throw new Error('Failed to check the import file.');
+  }
+};
+
+// Creates and updates products from previewed rows in one transaction; rows
+// with errors are skipped. Missing categories are created, and stock changes
+// on existing products are logged as count corrections.
+export const importProductRows = async (userId: string, rows: ProductImportRow[]): Promise<ProductImportResult> => {
+  const result: ProductImportResult = { created: 0, updated: 0, categoriesCreated: 0 };
+  try {
+    await db.withTransactionAsync(async () => {
+      const categories = await db.getAllAsync<{ name: string }>('SELECT name FROM Categories WHERE userId = ?', [userId]);
+      const categoryNames = new Map(categories.map(c => [c.name.toLowerCase(), c.name]));
+
+      for (const row of rows) {
+        if (row.errors.length > 0) continue;
+
+        let category = row.category;
+        if (category) {
+          const known = categoryNames.get(category.toLowerCase());
+          if (known) {
+            category = known;
+          } else {
+            await addCategory(userId, { name: category, description: null });
+            categoryNames.set(category.toLowerCase(), category);
+            result.categoriesCreated += 1;
+          }
+        }
+
+        if (row.productId) {
+          const existing = await ProductModel.getById(row.productId, userId);
+          if (!existing) {
+            throw new Error(`Row ${row.rowNumber}: product not found.`);
+          }
+          await ProductModel.update(
+            row.productId,
+            {
+              name: row.name,
+              ...(category ? { category } : {}),
+              ...(row.costPrice != null ? { costPrice: row.costPrice } : {}),
+              ...(row.sellingPrice != null ? { sellingPrice: row.sellingPrice } : {}),
+              ...(row.unit ? { unit: row.unit } : {}),
+              ...(row.barcode ? { barcode: row.barcode } : {}),
+            },
+            userId,
+            'IMPORT'
+          );
+          // A bundle's quantity is worked out from its components, so it is not imported
+          if (row.quantity != null && row.quantity !== existing.quantity && !existing.isBundle) {
+            await applyStockAdjustment(userId, {
+              productId: row.productId,
+              newQuantity: row.quantity,
+              reason: 'COUNT_CORRECTION',
+              notes: 'CSV import',
+            });
+          }
+          result.updated += 1;
+        } else {
+          await ProductModel.create({
+            userId,
+            name: row.name,
+            category: category ?? undefined,
+            costPrice: row.costPrice ?? 0,
+            sellingPrice: row.sellingPrice ?? 0,
+            quantity: row.quantity ?? 0,
+            unit: row.unit ?? 'piece',
+            barcode: row.barcode,
+            reorderLevel: DEFAULT_REORDER_LEVEL,
+            reorderQuantity: 0,
+            rating: 0,
+            discount: 0,
+            image: '',
+            isActive: true,
+          });
+          result.created += 1;
+        }
+      }
+    });
+    return result;
+  } catch (error: any) {
+    if (error.message.includes('already') || error.message.startsWith('Row ')) {
+      throw error;
+    }
+    console.error('Error importing products to DB:', error.message);
+    throw new Error('Failed to import products. Nothing was saved.');
+  }
+};
+
+// Active products as CSV, with the same columns the import reads
+export const getProductsCsv = async (userId: string): Promise<string> => {
+  try {
+    const products = await db.getAllAsync<{
+      name: string;
+      category: string | null;
+      costPrice: number;
+      sellingPrice: number;
+      quantity: number;
+      unit: string | null;
+      barcode: string | null;
+    }>(
+      `SELECT name, category, costPrice, sellingPrice, quantity, unit, barcode
+       FROM products WHERE userId = ? AND isActive = 1 ORDER BY name`,
+      [userId]
+    );
+    return toCsv([
+      PRODUCT_CSV_COLUMNS.map(column => column.label),
+      ...products.map(p => [p.name, p.category, p.costPrice, p.sellingPrice, p.quantity, p.unit || 'piece', p.barcode]),
+    ]);
+  } catch (error: any) {
+    console.error('Error exporting products from DB:', error.message);
+    throw new Error('Failed to export products.');
+  }
+};
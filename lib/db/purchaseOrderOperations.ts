@@ -0,0 +1,273 @@
+import {
+  PurchaseOrder,
+  PurchaseOrderItem,
+  PurchaseOrderItemWithProduct,
+  PurchaseOrderStatus,
+  PurchaseOrderWithTotals,
+} from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+import { applyStockAdjustment } from './stockAdjustmentOperations';
+
+const db = getDatabase();
+
+export interface NewPurchaseOrderInput {
+  supplierId: string;
+  expectedDate?: string | null;
+  notes?: string | null;
+  items: { productId: string; quantity: number; unitCost: number }[];
+}
+
+export interface GoodsReceiptLine {
+  itemId: string;
+  quantity: number;
+  batchNumber?: string | null;
+  expiryDate?: string | null;
+}
+
+export const createPurchaseOrder = async (userId: string, input: NewPurchaseOrderInput): Promise<PurchaseOrder> => {
+  const items = input.items.filter(item => item.quantity > 0);
+  if (items.length === 0) {
+    throw new Error('Add at least one product to the order.');
+  }
+  if (items.some(item => !(item.unitCost >= 0))) {
+    throw new Error('Expected cost must be zero or more.');
+  }
+
+  const timestamp = new Date().toISOString();
+  let order: PurchaseOrder | null = null;
+  try {
+    await db.withTransactionAsync(async () => {
+      const supplier = await db.getFirstAsync<{ id: string }>(
+        'SELECT id FROM Suppliers WHERE id = ? AND userId = ?',
+        [input.supplierId, userId]
+      );
+      if (!supplier) {
+        throw new Error('Supplier not found or access denied.');
+      }
+      const count = await db.getFirstAsync<{ count: number }>(
+        'SELECT COUNT(*) as count FROM PurchaseOrders WHERE userId = ?',
+        [userId]
+      );
+
+      order = {
+        id: uuidv4(),
+        userId,
+        supplierId: input.supplierId,
+        orderNumber: `PO-${String((count?.count ?? 0) + 1).padStart(4, '0')}`,
+        status: 'OPEN',
+        orderDate: timestamp,
+        expectedDate: input.expectedDate || null,
+        notes: input.notes?.trim() || null,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      await db.runAsync(
+        `INSERT INTO PurchaseOrders (id, userId, supplierId, orderNumber, status, orderDate, expectedDate, notes, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          order.id,
+          order.userId,
+          order.supplierId,
+          order.orderNumber,
+          order.status,
+          order.orderDate,
+          order.expectedDate ?? null,
+          order.notes ?? null,
+          order.createdAt,
+          order.updatedAt,
+        ]
+      );
+      for (const item of items) {
+        await db.runAsync(
+          `INSERT INTO PurchaseOrderItems (id, purchaseOrderId, productId, quantityOrdered, quantityReceived, unitCost)
+           VALUES (?, ?, ?, ?, 0, ?)`,
+          [uuidv4(), order.id, item.productId, item.quantity, item.unitCost]
+        );
+      }
+    });
+    return order!;
+  } catch (error: any) {
+    if (error.message.includes('not found')) {
+      throw error;
+    }
+    console.error('Error creating purchase order in DB:', error.message);
+    throw new Error('Failed to create purchase order. Please try again.');
+  }
+};
+
+// Newest first; all statuses when status is omitted
+export const getPurchaseOrders = async (
+  userId: string,
+  status?: PurchaseOrderStatus
+): Promise<PurchaseOrderWithTotals[]> => {
+  try {
+    const rows = await db.getAllAsync<PurchaseOrderWithTotals>(
+      `SELECT po.*, s.name as supplierName,
+              COUNT(poi.id) as itemCount,
+              COALESCE(SUM(poi.quantityOrdered * poi.unitCost), 0) as orderedValue,
+              COALESCE(SUM(poi.quantityReceived * poi.unitCost), 0) as receivedValue
+       FROM PurchaseOrders po
+       JOIN Suppliers s ON po.supplierId = s.id
+       LEFT JOIN PurchaseOrderItems poi ON poi.purchaseOrderId = po.id
+       WHERE po.userId = ?${status ? ' AND po.status = ?' : ''}
+       GROUP BY po.id
+       ORDER BY po.orderDate DESC`,
+      status ? [userId, status] : [userId]
+    );
+    return rows.map(row => ({
+      ...row,
+      itemCount: Number(row.itemCount) || 0,
+      orderedValue: Number(row.orderedValue) || 0,
+      receivedValue: Number(row.receivedValue) || 0,
+    }));
+  } catch (error: any) {
+    console.error('Error fetching purchase orders from DB:', error.message);
+    throw new Error('Failed to fetch purchase orders.');
+  }
+};
+
+export const getPurchaseOrderItems = async (
+  userId: string,
+  purchaseOrderId: string
+): Promise<PurchaseOrderItemWithProduct[]> => {
+  try {
+    const rows = await db.getAllAsync<PurchaseOrderItemWithProduct>(
+      `SELECT poi.*, p.name as productName, p.unit
+       FROM PurchaseOrderItems poi
+       JOIN PurchaseOrders po ON poi.purchaseOrderId = po.id
+       JOIN products p ON poi.productId = p.id
+       WHERE poi.purchaseOrderId = ? AND po.userId = ?
+       ORDER BY p.name`,
+      [purchaseOrderId, userId]
+    );
+    return rows.map(row => ({
+      ...row,
+      quantityOrdered: Number(row.quantityOrdered) || 0,
+      quantityReceived: Number(row.quantityReceived) || 0,
+      unitCost: Number(row.unitCost) || 0,
+    }));
+  } catch (error: any) {
+    console.error('Error fetching purchase order items from DB:', error.message);
+    throw new Error('Failed to fetch purchase order items.');
+  }
+};
+
+// Books received goods against the order: stock goes up through a RECEIVED
+// adjustment, each line becomes a batch (cost layer) from the order's supplier,
+// and the product's cost price moves to the weighted average of old and new stock.
+export const receivePurchaseOrder = async (
+  userId: string,
+  purchaseOrderId: string,
+  lines: GoodsReceiptLine[]
+): Promise<PurchaseOrderStatus> => {
+  const receipts = lines.filter(line => line.quantity > 0);
+  if (receipts.length === 0) {
+    throw new Error('Enter a received quantity for at least one product.');
+  }
+
+  let status: PurchaseOrderStatus = 'OPEN';
+  try {
+    await db.withTransactionAsync(async () => {
+      const order = await db.getFirstAsync<PurchaseOrder>(
+        'SELECT * FROM PurchaseOrders WHERE id = ? AND userId = ?',
+        [purchaseOrderId, userId]
+      );
+      if (!order) {
+        throw new Error('Purchase order not found or access denied.');
+      }
+      if (order.status === 'CLOSED') {
+        throw new Error('This purchase order is already closed.');
+      }
+      const timestamp = new Date().toISOString();
+
+      for (const line of receipts) {
+        const item = await db.getFirstAsync<PurchaseOrderItem>(
+          'SELECT * FROM PurchaseOrderItems WHERE id = ? AND purchaseOrderId = ?',
+          [line.itemId, purchaseOrderId]
+        );
+        if (!item) {
+          throw new Error('Purchase order item not found.');
+        }
+        const outstanding = Number(item.quantityOrdered) - Number(item.quantityReceived);
+        if (line.quantity > outstanding) {
+          throw new Error(`Cannot receive more than the ${outstanding} still due on this order.`);
+        }
+
+        const product = await db.getFirstAsync<{ quantity: number }>(
+          'SELECT quantity FROM products WHERE id = ? AND userId = ?',
+          [item.productId, userId]
+        );
+        if (!product) {
+          throw new Error('Product not found or access denied.');
+        }
+
+        await applyStockAdjustment(userId, {
+          productId: item.productId,
+          newQuantity: (Number(product.quantity) || 0) + line.quantity,
+          reason: 'RECEIVED',
+          notes: `Received on ${order.orderNumber}`,
+          batch: {
+            batchNumber: line.batchNumber,
+            expiryDate: line.expiryDate,
+            supplierId: order.supplierId,
+            purchaseDate: timestamp,
+            unitCost: Number(item.unitCost) || 0,
+          },
+        });
+        await db.runAsync(
+          'UPDATE PurchaseOrderItems SET quantityReceived = quantityReceived + ? WHERE id = ?',
+          [line.quantity, item.id]
+        );
+      }
+
+      const progress = await db.getFirstAsync<{ ordered: number; received: number; fullyReceived: number }>(
+        `SELECT SUM(quantityOrdered) as ordered, SUM(quantityReceived) as received,
+                MIN(quantityReceived >= quantityOrdered) as fullyReceived
+         FROM PurchaseOrderItems WHERE purchaseOrderId = ?`,
+        [purchaseOrderId]
+      );
+      status = progress && Number(progress.fullyReceived) === 1
+        ? 'CLOSED'
+        : Number(progress?.received) > 0 ? 'PARTIAL' : 'OPEN';
+      await db.runAsync(
+        'UPDATE PurchaseOrders SET status = ?, updatedAt = ? WHERE id = ?',
+        [status, timestamp, purchaseOrderId]
+      );
+    });
+    return status;
+  } catch (error: any) {
+    if (
+      error.message.includes('not found') ||
+      error.message.includes('already closed') ||
+      error.message.includes('Cannot receive')
+    ) {
+      throw error;
+    }
+    console.error('Error receiving purchase order in DB:', error.message);
+    throw new Error('Failed to receive goods. Please try again.');
+  }
+};
+
+// Closes an order that will not be delivered in full; what was received stays
+export const closePurchaseOrder = async (userId: string, purchaseOrderId: string): Promise<void> => {
+  try {
+    const order = await db.getFirstAsync<{ id: string }>(
+      'SELECT id FROM PurchaseOrders WHERE id = ? AND userId = ?',
+      [purchaseOrderId, userId]
+    );
+    if (!order) {
+      throw new Error('Purchase order not found or access denied.');
+    }
+    await db.runAsync(
+      `UPDATE PurchaseOrders SET status = 'CLOSED', updatedAt = ? WHERE id = ? AND userId = ?`,
+      [new Date().toISOString(), purchaseOrderId, userId]
+    );
+  } catch (error: any) {
+    if (error.message.includes('not found')) {
+      throw error;
+    }
+    console.error('Error closing purchase order in DB:', error.message);
+    throw new Error('Failed to close purchase order.');
+  }
+};
@@ -0,0 +1,215 @@
+import { PaymentReminder, PaymentReminderWithDetails, ReminderType } from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+import { addDays, startOfDay } from 'date-fns';
+import { OVERDUE_REMINDER_INTERVAL_DAYS, REMINDER_DAYS_BEFORE_DUE } from '../constants';
+
+const db = getDatabase();
+
+const mapReminderRow = <T extends PaymentReminder>(row: T): T => ({
+  ...row,
+  reminderSent: Boolean(row.reminderSent),
+  responseReceived: Boolean(row.responseReceived),
+});
+
+// Reminder dates for one credit sale, from the first reminder up to `until`
+const buildSchedule = (dueDate: Date, until: Date): { reminderType: ReminderType; reminderDate: Date }[] => {
+  const due = startOfDay(dueDate);
+  const schedule: { reminderType: ReminderType; reminderDate: Date }[] = [
+    { reminderType: 'BEFORE_DUE', reminderDate: addDays(due, -REMINDER_DAYS_BEFORE_DUE) },
+    { reminderType: 'ON_DUE', reminderDate: due },
+  ];
+  let overdue = addDays(due, OVERDUE_REMINDER_INTERVAL_DAYS);
+  while (overdue <= until) {
+    schedule.push({ reminderType: 'OVERDUE', reminderDate: overdue });
+    overdue = addDays(overdue, OVERDUE_REMINDER_INTERVAL_DAYS);
+  }
+  return schedule;
+};
+
+/**
+ * Creates any missing reminders for the user's open credit sales and drops
+ * unsent ones whose sale has since been paid off. Overdue reminders are only
+ * generated one interval ahead, so calling this daily keeps the weekly chain
+ * going.
+ * Returns the newly created reminders and the ids of the removed ones.
+ */
+export const generatePaymentReminders = async (
+  userId: string
+): Promise<{ created: PaymentReminder[]; removedIds: string[] }> => {
+  const created: PaymentReminder[] = [];
+  const horizon = addDays(startOfDay(new Date()), OVERDUE_REMINDER_INTERVAL_DAYS);
+
+  try {
+    let removedIds: string[] = [];
+    await db.withTransactionAsync(async () => {
+      const stale = await db.getAllAsync<{ id: string }>(
+        `SELECT pr.id FROM PaymentReminders pr
+         JOIN CreditSales cs ON pr.creditSaleId = cs.id
+         JOIN Customers c ON cs.customerId = c.id
+         WHERE c.userId = ? AND cs.creditStatus = 'PAID' AND pr.reminderSent = 0`,
+        [userId]
+      );
+      removedIds = stale.map(row => row.id);
+      for (const id of removedIds) {
+        await db.runAsync('DELETE FROM PaymentReminders WHERE id = ?', [id]);
+      }
+
+      const openSales = await db.getAllAsync<{ id: string; dueDate: string }>(
+        `SELECT cs.id, cs.dueDate FROM CreditSales cs
+         JOIN Customers c ON cs.customerId = c.id
+         WHERE c.userId = ? AND cs.creditStatus != 'PAID' AND cs.dueDate IS NOT NULL`,
+        [userId]
+      );
+
+      for (const sale of openSales) {
+        const existing = await db.getAllAsync<{ reminderType: string; reminderDate: string }>(
+          'SELECT reminderType, reminderDate FROM PaymentReminders WHERE creditSaleId = ?',
+          [sale.id]
+        );
+        const existingKeys = new Set(existing.map(r => `${r.reminderType}|${r.reminderDate}`));
+
+        for (const entry of buildSchedule(new Date(sale.dueDate), horizon)) {
+          const reminderDate = entry.reminderDate.toISOString();
+          if (existingKeys.has(`${entry.reminderType}|${reminderDate}`)) continue;
+
+          const reminder: PaymentReminder = {
+            id: uuidv4(),
+            creditSaleId: sale.id,
+            reminderType: entry.reminderType,
+            reminderDate,
+            reminderSent: false,
+            sentVia: null,
+            sentAt: null,
+            responseReceived: false,
+            responseNotes: null,
+          };
+          await db.runAsync(
+            `INSERT INTO PaymentReminders (id, creditSaleId, reminderType, reminderDate, reminderSent, responseReceived)
+             VALUES (?, ?, ?, ?, 0, 0)`,
+            [reminder.id, reminder.creditSaleId, reminder.reminderType, reminder.reminderDate]
+          );
+          created.push(reminder);
+        }
+      }
+    });
+    return { created, removedIds };
+  } catch (error: any) {
+    console.error('Error generating payment reminders in DB:', error.message);
+    throw new Error('Failed to generate payment reminders.');
+  }
+};
+
+const REMINDER_DETAILS_SELECT = `
+  SELECT pr.*, cs.saleId, cs.dueDate, c.id as customerId, c.name as customerName, c.phone as customerPhone,
+         cs.creditAmount - COALESCE((SELECT SUM(cp.paymentAmount) FROM CreditPayments cp WHERE cp.creditSaleId = cs.id), 0) as balance
+  FROM PaymentReminders pr
+  JOIN CreditSales cs ON pr.creditSaleId = cs.id
+  JOIN Customers c ON cs.customerId = c.id`;
+
+// Unsent reminders that have come due, for the in-app list
+export const getPendingReminders = async (userId: string): Promise<PaymentReminderWithDetails[]> => {
+  try {
+    const rows = await db.getAllAsync<PaymentReminderWithDetails>(
+      `${REMINDER_DETAILS_SELECT}
+       WHERE c.userId = ? AND pr.reminderSent = 0 AND cs.creditStatus != 'PAID' AND pr.reminderDate <= ?
+       ORDER BY pr.reminderDate ASC`,
+      [userId, new Date().toISOString()]
+    );
+    return rows.map(row => mapReminderRow({ ...row, balance: Number(row.balance) || 0 }));
+  } catch (error: any) {
+    console.error('Error fetching pending reminders from DB:', error.message);
+    throw new Error('Failed to fetch payment reminders.');
+  }
+};
+
+// Future reminders, used to schedule local notifications
+export const getUpcomingReminders = async (userId: string): Promise<PaymentReminderWithDetails[]> => {
+  try {
+    const rows = await db.getAllAsync<PaymentReminderWithDetails>(
+      `${REMINDER_DETAILS_SELECT}
+       WHERE c.userId = ? AND pr.reminderSent = 0 AND cs.creditStatus != 'PAID' AND pr.reminderDate > ?
+       ORDER BY pr.reminderDate ASC`,
+      [userId, new Date().toISOString()]
+    );
+    return rows.map(row => mapReminderRow({ ...row, balance: Number(row.balance) || 0 }));
+  } catch (error: any) {
+    console.error('Error fetching upcoming reminders from DB:', error.message);
+    throw new Error('Failed to fetch payment reminders.');
+  }
+};
+
+// Reminders already sent, most recent first
+export const getSentReminders = async (userId: string, limit: number = 50): Promise<PaymentReminderWithDetails[]> => {
+  try {
+    const rows = await db.getAllAsync<PaymentReminderWithDetails>(
+      `${REMINDER_DETAILS_SELECT}
+       WHERE c.userId = ? AND pr.reminderSent = 1
+       ORDER BY pr.sentAt DESC
+       LIMIT ?`,
+      [userId, limit]
+    );
+    return rows.map(row => mapReminderRow({ ...row, balance: Number(row.balance) || 0 }));
+  } catch (error: any) {
+    console.error('Error fetching sent reminders from DB:', error.message);
+    throw new Error('Failed to fetch payment reminders.');
+  }
+};
+
+const assertReminderOwnership = async (userId: string, reminderId: string): Promise<void> => {
+  const owned = await db.getFirstAsync<{ id: string }>(
+    `SELECT pr.id FROM PaymentReminders pr
+     JOIN CreditSales cs ON pr.creditSaleId = cs.id
+     JOIN Customers c ON cs.customerId = c.id
+     WHERE pr.id = ? AND c.userId = ?`,
+    [reminderId, userId]
+  );
+  if (!owned) {
+    throw new Error('Reminder not found or access denied.');
+  }
+};
+
+export const markReminderSent = async (userId: string, reminderId: string, sentVia: string): Promise<void> => {
+  try {
+    await assertReminderOwnership(userId, reminderId);
+    await db.runAsync(
+      'UPDATE PaymentReminders SET reminderSent = 1, sentVia = ?, sentAt = ? WHERE id = ?',
+      [sentVia, new Date().toISOString(), reminderId]
+    );
+  } catch (error: any) {
+    if (error.message.includes('not found')) {
+      throw error;
+    }
+    console.error('Error marking reminder as sent in DB:', error.message);
+    throw new Error('Failed to update reminder.');
+  }
+};
+
+export const recordReminderResponse = async (userId: string, reminderId: string, responseNotes: string): Promise<void> => {
+  try {
+    await assertReminderOwnership(userId, reminderId);
+    await db.runAsync(
+      'UPDATE PaymentReminders SET responseReceived = 1, responseNotes = ? WHERE id = ?',
+      [responseNotes.trim() || null, reminderId]
+    );
+  } catch (error: any) {
+    if (error.message.includes('not found')) {
+      throw error;
+    }
+    console.error('Error recording reminder response in DB:', error.message);
+    throw new Error('Failed to update reminder.');
+  }
+};
+
+// Store name used to sign reminder messages, falling back to the app-wide settings row
+export const getReminderStoreName = async (userId: string): Promise<string | null> => {
+  try {
+    const settings =
+      (await db.getFirstAsync<{ storeName: string }>('SELECT storeName FROM Settings WHERE userId = ? AND id = ?', [userId, userId])) ||
+      (await db.getFirstAsync<{ storeName: string }>('SELECT storeName FROM Settings WHERE id = "app_settings"'));
+    return settings?.storeName || null;
+  } catch (error: any) {
+    console.error('Error fetching store name for reminders from DB:', error.message);
+    return null;
+  }
+};
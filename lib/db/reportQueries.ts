@@ -5,22 +5,37 @@ import { ProductModel } from '~/lib/models/product'; // For fetching real produc
 import { getAllCategories as dbGetAllCategories } from '~/lib/db/categoryOperations'; // For fetching real categories
 import { getDatabase } from './database'; // For direct DB access if needed
 import { Category as AppCategory } from '~/lib/stores/types'; // Full category type from your app
+import { getPaymentsForSales } from './salePaymentOperations';
+import { formatPaymentBreakdown } from '~/lib/utils/paymentUtils';
+import { getCategoryDescendantIds } from '~/lib/utils/categoryUtils';
 
 // --- Types ---
 export interface Category {
   id: string;
   name: string;
+  parentId?: string | null;
 }
 
+// Matches products in the bound category or any of its subcategories
+const CATEGORY_TREE_FILTER = `p.categoryId IN (
+  WITH RECURSIVE tree(id) AS (
+    SELECT ?
+    UNION
+    SELECT c.id FROM Categories c JOIN tree t ON c.parentId = t.id
+  )
+  SELECT id FROM tree
+)`;
+
 
 export interface SalesDataItem {
   id: string;
   date: string; // YYYY-MM-DD
   subtotal: number;
-  paymentType: 'CASH' | 'CARD' | 'UPI';
+  paymentType: string; // Single method, or SPLIT when the sale was paid with several tenders
+  paymentBreakdown?: string; // e.g. "Cash ₹200.00 + UPI ₹300.00"
   productId?: string; // Optional: if sales are product-specific
   productName?: string;
-  categoryId?: string; // Ensure this matches product.category which is categoryId
+  categoryId?: string; // Categories.id of the product
 }
 
 export interface InventoryDataItem {
@@ -65,7 +80,7 @@ export const getCategories = async (userId: string): Promise<Category[]> => {
   console.log('[DB_ReportQueries] Fetching REAL categories for user', userId);
   try {
     const categoriesFromDb: AppCategory[] = await dbGetAllCategories(userId);
-    return categoriesFromDb.map(cat => ({ id: cat.id, name: cat.name }));
+    return categoriesFromDb.map(cat => ({ id: cat.id, name: cat.name, parentId: cat.parentId ?? null }));
   } catch (error) {
     console.error("[DB_ReportQueries] Error fetching real categories:", error);
     return [];
@@ -89,36 +104,41 @@ export const getSalesData = async (
         strftime('%Y-%m-%d', s.timestamp) as date,
         si.subtotal, /* This should be sum of sale items for a sale, or individual items if needed */
         s.paymentType,
-        p.id as productId,
-        p.name as productName,
-        p.category as categoryId /* Product.category is categoryId */
+        COALESCE(pp.id, p.id) as productId, /* Variants roll up to their parent */
+        COALESCE(pp.name, p.name) as productName,
+        p.categoryId
       FROM Sales s
       JOIN SaleItems si ON s.id = si.saleId /* Assumes one sale item per row for simplicity, adjust if needed */
       JOIN products p ON si.productId = p.id
+      LEFT JOIN products pp ON p.parentId = pp.id
       WHERE s.userId = ? AND date(s.timestamp) BETWEEN date(?) AND date(?)
     `;
     const params: any[] = [userId, fromDate, toDate];
 
     if (paymentType) {
-      query += ` AND s.paymentType = ?`;
-      params.push(paymentType);
+      // A split sale matches every method that was used in it
+      query += ` AND (s.paymentType = ? OR EXISTS (SELECT 1 FROM SalePayments sp WHERE sp.saleId = s.id AND sp.paymentMethod = ?))`;
+      params.push(paymentType, paymentType);
     }
     if (productId) {
-      query += ` AND p.id = ?`;
-      params.push(productId);
+      query += ` AND (p.id = ? OR p.parentId = ?)`;
+      params.push(productId, productId);
     }
     if (categoryId) {
-      query += ` AND p.category = ?`;
+      query += ` AND ${CATEGORY_TREE_FILTER}`;
       params.push(categoryId);
     }
     query += ` ORDER BY s.timestamp DESC`;
 
     const salesFromDb = await db.getAllAsync<any>(query, params);
+    const saleIds: string[] = Array.from(new Set(salesFromDb.map(row => row.id as string)));
+    const paymentsBySale = await getPaymentsForSales(userId, saleIds);
     return salesFromDb.map(row => ({
       id: row.id, // This would be sale ID, if you need unique per sale item, might need si.id
       date: row.date,
       subtotal: Number(row.subtotal) || 0,
       paymentType: row.paymentType as SalesDataItem['paymentType'],
+      paymentBreakdown: formatPaymentBreakdown(paymentsBySale[row.id], row.paymentType),
       productId: row.productId,
       productName: row.productName,
       categoryId: row.categoryId,
@@ -140,18 +160,28 @@ export const getInventoryData = async (
     const allCategories = await getCategories(userId); // Fetch user-specific categories
 
     const categoryMap = new Map(allCategories.map(cat => [cat.id, cat.name]));
+    const categoryIds = categoryId ? getCategoryDescendantIds(allCategories, categoryId) : null;
+
+    // Variant stock is counted under the parent
+    const variantStock = new Map<string, number>();
+    allProducts.forEach(product => {
+      if (product.parentId) {
+        variantStock.set(product.parentId, (variantStock.get(product.parentId) || 0) + product.quantity);
+      }
+    });
 
     const filteredProducts = allProducts.filter(product =>
+      !product.parentId &&
       (!productId || product.id === productId) &&
-      (!categoryId || product.category === categoryId)
+      (!categoryIds || (!!product.categoryId && categoryIds.has(product.categoryId)))
     );
 
     return filteredProducts.map(product => ({
       id: product.id,
       name: product.name,
-      quantity: product.quantity,
-      categoryId: product.category || '',
-      categoryName: product.category ? categoryMap.get(product.category) || product.category : '',
+      quantity: product.quantity + (variantStock.get(product.id) || 0),
+      categoryId: product.categoryId || '',
+      categoryName: (product.categoryId && categoryMap.get(product.categoryId)) || product.category || '',
     }));
   } catch (error) {
     console.error("[DB_ReportQueries] Error fetching real inventory data:", error);
@@ -171,28 +201,30 @@ export const getProductPerformanceData = async (
   try {
     let query = `
       SELECT
-        p.id as productId,
-        p.name as productName,
-        p.category as categoryId, /* Product.category is categoryId */
+        COALESCE(pp.id, p.id) as productId, /* Variants roll up to their parent */
+        COALESCE(pp.name, p.name) as productName,
+        COALESCE(pp.categoryId, p.categoryId) as categoryId,
         SUM(si.quantity) as unitsSold,
-        SUM(si.subtotal) as revenue, /* si.subtotal is already item_price * quantity - discount + tax */
-        SUM(si.quantity * p.costPrice) as totalCost /* Calculate total cost for sold items */
+        /* si.subtotal is item_price * quantity - discount + tax; take the tax off and keep only units not returned */
+        SUM((si.subtotal - COALESCE(si.tax, 0)) * (si.quantity - COALESCE(si.returnedQuantity, 0)) / si.quantity) as revenue,
+        SUM(si.costPrice * (si.quantity - COALESCE(si.returnedQuantity, 0))) as totalCost /* Cost stamped on each line when it was sold */
       FROM SaleItems si
       JOIN Sales s ON si.saleId = s.id
       JOIN products p ON si.productId = p.id
-      WHERE s.userId = ? AND date(s.timestamp) BETWEEN date(?) AND date(?)
+      LEFT JOIN products pp ON p.parentId = pp.id
+      WHERE s.userId = ? AND date(s.timestamp) BETWEEN date(?) AND date(?) AND si.quantity > 0
     `;
     const params: any[] = [userId, fromDate, toDate];
 
     if (productId) {
-      query += ` AND p.id = ?`;
-      params.push(productId);
+      query += ` AND (p.id = ? OR p.parentId = ?)`;
+      params.push(productId, productId);
     }
     if (categoryId) {
-      query += ` AND p.category = ?`;
+      query += ` AND ${CATEGORY_TREE_FILTER}`;
       params.push(categoryId);
     }
-    query += ` GROUP BY p.id, p.name, p.category ORDER BY revenue DESC`;
+    query += ` GROUP BY COALESCE(pp.id, p.id) ORDER BY revenue DESC`;
 
     const results = await db.getAllAsync<any>(query, params);
 
@@ -219,9 +251,8 @@ export const getProductPerformanceData = async (
 };
 
 export const getMetricsData = async (
-userId: string, fromDate: string, paymentType: string | null, productId: string | null, categoryId: string | null, category: string | null): Promise<MetricItem[]> => {
-  console.log(`[DB_ReportQueries] Fetching REAL metrics for user ${userId}: From: ${fromDate}, Pay: ${paymentType}, Prod: ${productId}, Cat: ${categoryId}`);
-  const toDate = format(new Date(), 'yyyy-MM-dd');
+userId: string, fromDate: string, toDate: string, paymentType: string | null, productId: string | null, categoryId: string | null): Promise<MetricItem[]> => {
+  console.log(`[DB_ReportQueries] Fetching REAL metrics for user ${userId}: ${fromDate} to ${toDate}, Pay: ${paymentType}, Prod: ${productId}, Cat: ${categoryId}`);
   try {
     const sales = await getSalesData(userId, fromDate, toDate, paymentType, productId, categoryId);
     const totalRevenue = sales.reduce((sum, s) => sum + s.subtotal, 0);
@@ -0,0 +1,245 @@
+import { SaleItemForReturn, SaleReturn } from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+import { applyReceiptCost } from './valuationOperations';
+import { returnBundleStock } from './bundleOperations';
+import { KHATA_RETURN_METHOD, QUANTITY_DECIMALS } from '../constants';
+
+const db = getDatabase();
+
+export interface ReturnLineInput {
+  saleItemId: string;
+  quantity: number;
+}
+
+export interface CreateReturnInput {
+  saleId: string;
+  items: ReturnLineInput[];
+  reason?: string | null;
+  refundMethod: string;
+}
+
+export const getReturnableSaleItems = async (userId: string, saleId: string): Promise<SaleItemForReturn[]> => {
+  try {
+    // Only list items of sales that belong to this user
+    const rows = await db.getAllAsync<SaleItemForReturn>(
+      `SELECT si.id, si.productId, p.name as productName, si.quantity,
+              COALESCE(si.returnedQuantity, 0) as returnedQuantity, si.unitPrice, si.subtotal
+       FROM SaleItems si
+       JOIN Sales s ON si.saleId = s.id
+       LEFT JOIN products p ON si.productId = p.id
+       WHERE si.saleId = ? AND s.userId = ?`,
+      [saleId, userId]
+    );
+    return rows.map(row => ({
+      ...row,
+      productName: row.productName || 'Unknown Product',
+      quantity: Number(row.quantity) || 0,
+      returnedQuantity: Number(row.returnedQuantity) || 0,
+      unitPrice: Number(row.unitPrice) || 0,
+      subtotal: Number(row.subtotal) || 0,
+    }));
+  } catch (error: any) {
+    console.error('Error fetching sale items for return from DB:', error.message);
+    throw new Error('Failed to fetch sale items.');
+  }
+};
+
+export const getReturnsForSale = async (userId: string, saleId: string): Promise<SaleReturn[]> => {
+  try {
+    const rows = await db.getAllAsync<SaleReturn>(
+      `SELECT r.* FROM Returns r
+       JOIN Sales s ON r.saleId = s.id
+       WHERE r.saleId = ? AND s.userId = ?
+       ORDER BY r.timestamp DESC`,
+      [saleId, userId]
+    );
+    return rows.map(row => ({ ...row, totalAmount: Number(row.totalAmount) || 0 }));
+  } catch (error: any) {
+    console.error('Error fetching returns from DB:', error.message);
+    throw new Error('Failed to fetch returns.');
+  }
+};
+
+// What the customer still owes on the sale's khata, or null when no part
+// of the sale went on khata.
+export const getSaleKhataBalance = async (userId: string, saleId: string): Promise<number | null> => {
+  try {
+    const row = await db.getFirstAsync<{ creditAmount: number; paidAmount: number }>(
+      `SELECT cs.creditAmount,
+              COALESCE((SELECT SUM(cp.paymentAmount) FROM CreditPayments cp WHERE cp.creditSaleId = cs.id), 0) as paidAmount
+       FROM CreditSales cs
+       JOIN Sales s ON cs.saleId = s.id
+       WHERE cs.saleId = ? AND s.userId = ?`,
+      [saleId, userId]
+    );
+    if (!row) return null;
+    return Math.max((Number(row.creditAmount) || 0) - (Number(row.paidAmount) || 0), 0);
+  } catch (error: any) {
+    console.error('Error fetching khata balance for sale from DB:', error.message);
+    throw new Error('Failed to fetch the khata balance for this sale.');
+  }
+};
+
+// Records a return against a sale, restocks the returned products and
+// marks the sale as partially or fully returned. Refund per unit is taken
+// from the stored line subtotal so any line-level adjustments carry over.
+// On a khata sale the refund first comes off what is still owed on it, as a
+// CreditPayments entry of its own; only the rest is paid out by the chosen
+// refund method.
+export const createReturn = async (userId: string, input: CreateReturnInput): Promise<SaleReturn> => {
+  const lines = input.items.filter(item => item.quantity > 0);
+  if (lines.length === 0) {
+    throw new Error('Select at least one item to return.');
+  }
+  if (!input.refundMethod) {
+    throw new Error('Refund method is required.');
+  }
+
+  const returnId = uuidv4();
+  const timestamp = new Date().toISOString();
+  let totalAmount = 0;
+  let refundMethod = input.refundMethod;
+
+  try {
+    await db.withTransactionAsync(async () => {
+      const sale = await db.getFirstAsync<{ id: string }>(
+        'SELECT id FROM Sales WHERE id = ? AND userId = ?',
+        [input.saleId, userId]
+      );
+      if (!sale) {
+        throw new Error('Sale not found or access denied.');
+      }
+
+      const returnItems: { id: string; saleItemId: string; productId: string; quantity: number; unitPrice: number; subtotal: number; costPrice: number }[] = [];
+
+      for (const line of lines) {
+        const saleItem = await db.getFirstAsync<{ id: string; productId: string; quantity: number; returnedQuantity: number | null; subtotal: number; costPrice: number }>(
+          'SELECT id, productId, quantity, returnedQuantity, subtotal, costPrice FROM SaleItems WHERE id = ? AND saleId = ?',
+          [line.saleItemId, input.saleId]
+        );
+        if (!saleItem) {
+          throw new Error('Sale item not found.');
+        }
+        const soldQuantity = Number(saleItem.quantity) || 0;
+        const alreadyReturned = Number(saleItem.returnedQuantity) || 0;
+        const returnable = soldQuantity - alreadyReturned;
+        if (line.quantity > returnable) {
+          throw new Error(`Cannot return more than was sold. Only ${returnable} left to return for this item.`);
+        }
+
+        const refundUnitPrice = soldQuantity > 0 ? (Number(saleItem.subtotal) || 0) / soldQuantity : 0;
+        const lineSubtotal = refundUnitPrice * line.quantity;
+        totalAmount += lineSubtotal;
+        returnItems.push({
+          id: uuidv4(),
+          saleItemId: saleItem.id,
+          productId: saleItem.productId,
+          quantity: line.quantity,
+          unitPrice: refundUnitPrice,
+          subtotal: lineSubtotal,
+          costPrice: Number(saleItem.costPrice) || 0,
+        });
+      }
+
+      const creditSale = await db.getFirstAsync<{ id: string; customerId: string; creditAmount: number }>(
+        'SELECT id, customerId, creditAmount FROM CreditSales WHERE saleId = ?',
+        [input.saleId]
+      );
+      if (!creditSale && input.refundMethod === 'CREDIT_KHATA') {
+        throw new Error('This sale has no khata to refund against. Choose another refund method.');
+      }
+      if (creditSale) {
+        const creditAmount = Number(creditSale.creditAmount) || 0;
+        const paid = await db.getFirstAsync<{ paidAmount: number }>(
+          'SELECT COALESCE(SUM(paymentAmount), 0) as paidAmount FROM CreditPayments WHERE creditSaleId = ?',
+          [creditSale.id]
+        );
+        const paidAmount = Number(paid?.paidAmount) || 0;
+        const offKhata = Math.min(totalAmount, Math.max(creditAmount - paidAmount, 0));
+        if (offKhata > 0) {
+          // The sale's debit stays as it was; the ledger shows the return as a credit against it
+          await db.runAsync(
+            `INSERT INTO CreditPayments (id, creditSaleId, paymentAmount, paymentDate, paymentMethod, receivedBy, transactionReference, notes)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [uuidv4(), creditSale.id, offKhata, timestamp, KHATA_RETURN_METHOD, null, returnId, input.reason || null]
+          );
+          const settled = creditAmount - offKhata - paidAmount <= 0.005;
+          await db.runAsync(
+            'UPDATE CreditSales SET creditStatus = ? WHERE id = ?',
+            [settled ? 'PAID' : 'PARTIALLY_PAID', creditSale.id]
+          );
+          if (settled) {
+            await db.runAsync('UPDATE Sales SET isPaid = 1 WHERE id = ? AND userId = ?', [input.saleId, userId]);
+          }
+          await db.runAsync(
+            'UPDATE Customers SET outstandingBalance = MAX(COALESCE(outstandingBalance, 0) - ?, 0), updatedAt = ? WHERE id = ? AND userId = ?',
+            [offKhata, timestamp, creditSale.customerId, userId]
+          );
+        }
+        if (totalAmount - offKhata <= 0.005) {
+          refundMethod = 'CREDIT_KHATA';
+        }
+      }
+
+      await db.runAsync(
+        `INSERT INTO Returns (id, saleId, timestamp, totalAmount, reason, refundMethod)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [returnId, input.saleId, timestamp, totalAmount, input.reason || null, refundMethod]
+      );
+
+      for (const item of returnItems) {
+        await db.runAsync(
+          `INSERT INTO ReturnItems (id, returnId, saleItemId, productId, quantity, unitPrice, subtotal)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [item.id, returnId, item.saleItemId, item.productId, item.quantity, item.unitPrice, item.subtotal]
+        );
+        await db.runAsync(
+          'UPDATE SaleItems SET returnedQuantity = COALESCE(returnedQuantity, 0) + ? WHERE id = ?',
+          [item.quantity, item.saleItemId]
+        );
+        // Returned stock goes back at the cost it was sold at; a bundle goes back as its components
+        const product = await db.getFirstAsync<{ quantity: number; isBundle: number | null }>(
+          'SELECT quantity, isBundle FROM products WHERE id = ? AND userId = ?',
+          [item.productId, userId]
+        );
+        if (product?.isBundle) {
+          await returnBundleStock(userId, item.saleItemId, item.productId, item.quantity);
+          continue;
+        }
+        if (product) {
+          await applyReceiptCost(userId, item.productId, Number(product.quantity) || 0, item.quantity, item.costPrice);
+        }
+        await db.runAsync(
+          `UPDATE products SET quantity = ROUND(quantity + ?, ${QUANTITY_DECIMALS}), updatedAt = ? WHERE id = ? AND userId = ?`,
+          [item.quantity, timestamp, item.productId, userId]
+        );
+      }
+
+      const remaining = await db.getFirstAsync<{ remaining: number }>(
+        'SELECT SUM(quantity - COALESCE(returnedQuantity, 0)) as remaining FROM SaleItems WHERE saleId = ?',
+        [input.saleId]
+      );
+      const salesStatus = remaining && Number(remaining.remaining) > 0 ? 'PARTIALLY_RETURNED' : 'RETURNED';
+      await db.runAsync(
+        'UPDATE Sales SET salesStatus = ? WHERE id = ? AND userId = ?',
+        [salesStatus, input.saleId, userId]
+      );
+    });
+
+    return {
+      id: returnId,
+      saleId: input.saleId,
+      timestamp,
+      totalAmount,
+      reason: input.reason || null,
+      refundMethod,
+    };
+  } catch (error: any) {
+    if (error.message.includes('Cannot return more') || error.message.includes('not found') || error.message.includes('no khata')) {
+      throw error;
+    }
+    console.error('Error recording return in DB:', error.message);
+    throw new Error('Failed to record return. Please try again.');
+  }
+};
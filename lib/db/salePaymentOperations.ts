@@ -0,0 +1,69 @@
+import { PaymentTender, SalePayment } from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+
+const db = getDatabase();
+
+// Writes the tenders of a sale. Meant to be called from inside the sale's
+// own transaction, so it does not open one of its own.
+export const insertSalePayments = async (saleId: string, tenders: PaymentTender[]): Promise<SalePayment[]> => {
+  const createdAt = new Date().toISOString();
+  const payments: SalePayment[] = tenders.map(tender => {
+    const amountTendered = tender.paymentMethod === 'CASH' && tender.amountTendered != null ? tender.amountTendered : null;
+    return {
+      id: uuidv4(),
+      saleId,
+      paymentMethod: tender.paymentMethod,
+      amount: tender.amount,
+      reference: tender.reference?.trim() || null,
+      amountTendered,
+      changeGiven: amountTendered != null && amountTendered > tender.amount ? amountTendered - tender.amount : 0,
+      createdAt,
+    };
+  });
+
+  for (const payment of payments) {
+    await db.runAsync(
+      `INSERT INTO SalePayments (id, saleId, paymentMethod, amount, reference, amountTendered, changeGiven, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        payment.id,
+        payment.saleId,
+        payment.paymentMethod,
+        payment.amount,
+        payment.reference ?? null,
+        payment.amountTendered ?? null,
+        payment.changeGiven,
+        payment.createdAt,
+      ]
+    );
+  }
+  return payments;
+};
+
+export const getPaymentsForSales = async (userId: string, saleIds: string[]): Promise<Record<string, SalePayment[]>> => {
+  if (saleIds.length === 0) return {};
+  try {
+    const placeholders = saleIds.map(() => '?').join(', ');
+    const rows = await db.getAllAsync<SalePayment>(
+      `SELECT sp.* FROM SalePayments sp
+       JOIN Sales s ON sp.saleId = s.id
+       WHERE s.userId = ? AND sp.saleId IN (${placeholders})
+       ORDER BY sp.createdAt ASC`,
+      [userId, ...saleIds]
+    );
+    return rows.reduce<Record<string, SalePayment[]>>((acc, row) => {
+      const payment: SalePayment = {
+        ...row,
+        amount: Number(row.amount) || 0,
+        amountTendered: row.amountTendered != null ? Number(row.amountTendered) : null,
+        changeGiven: Number(row.changeGiven) || 0,
+      };
+      (acc[row.saleId] = acc[row.saleId] || []).push(payment);
+      return acc;
+    }, {});
+  } catch (error: any) {
+    console.error('Error fetching sale payments from DB:', error.message);
+    throw new Error('Failed to fetch sale payments.');
+  }
+};
@@ -0,0 +1,48 @@
+import { InventoryValuationMethod } from '../stores/types';
+import { getDatabase } from './database';
+
+const db = getDatabase();
+
+type SettingsRow = { taxRate: number; defaultDiscountRate: number; pricesIncludeTax: number };
+
+export interface SalesSettings {
+  taxRate: number;
+  defaultDiscountRate: number;
+  pricesIncludeTax: boolean;
+}
+
+// Checkout defaults from the user's settings row, falling back to the app-wide row
+export const getSalesSettings = async (userId: string): Promise<SalesSettings> => {
+  try {
+    const settings =
+      (await db.getFirstAsync<SettingsRow>(
+        'SELECT taxRate, defaultDiscountRate, pricesIncludeTax FROM Settings WHERE userId = ? AND id = ?',
+        [userId, userId]
+      )) ||
+      (await db.getFirstAsync<SettingsRow>('SELECT taxRate, defaultDiscountRate, pricesIncludeTax FROM Settings WHERE id = "app_settings"'));
+    return {
+      taxRate: Number(settings?.taxRate) || 0,
+      defaultDiscountRate: Number(settings?.defaultDiscountRate) || 0,
+      pricesIncludeTax: Boolean(settings?.pricesIncludeTax),
+    };
+  } catch (error: any) {
+    console.error('Error fetching sales settings from DB:', error.message);
+    throw new Error('Failed to load sales settings.');
+  }
+};
+
+// Costing method for sold stock, from the user's settings row or the app-wide row
+export const getInventoryValuationMethod = async (userId: string): Promise<InventoryValuationMethod> => {
+  try {
+    const settings =
+      (await db.getFirstAsync<{ inventoryValuation: string | null }>(
+        'SELECT inventoryValuation FROM Settings WHERE userId = ? AND id = ?',
+        [userId, userId]
+      )) ||
+      (await db.getFirstAsync<{ inventoryValuation: string | null }>('SELECT inventoryValuation FROM Settings WHERE id = "app_settings"'));
+    return settings?.inventoryValuation === 'FIFO' ? 'FIFO' : 'WEIGHTED_AVERAGE';
+  } catch (error: any) {
+    console.error('Error fetching inventory valuation method from DB:', error.message);
+    throw new Error('Failed to load inventory valuation method.');
+  }
+};
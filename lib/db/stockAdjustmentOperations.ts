@@ -0,0 +1,215 @@
+import { StockAdjustment, StockAdjustmentReason, StockAdjustmentSummary, StockAdjustmentWithDetails } from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+import { format, parseISO } from 'date-fns';
+import { deductFromBatches, insertProductBatch, NewBatchInput } from './batchOperations';
+import { applyReceiptCost } from './valuationOperations';
+import { roundQuantity } from '../utils/quantityUtils';
+
+const db = getDatabase();
+
+export interface StockAdjustmentInput {
+  productId: string;
+  newQuantity: number;
+  reason: StockAdjustmentReason;
+  notes?: string | null;
+  batch?: NewBatchInput | null; // Received stock goes into a new batch when given
+}
+
+// Sets a product's stock and logs the change in StockAdjustments. Increases
+// can open a batch, and a batch with a unit cost re-averages the product's
+// cost price; decreases come out of batches earliest expiry first.
+// Meant to be called from inside the caller's own transaction.
+export const applyStockAdjustment = async (
+  userId: string,
+  input: StockAdjustmentInput,
+  options: { skipBatchDeduction?: boolean } = {}
+): Promise<StockAdjustment> => {
+  if (!(input.newQuantity >= 0)) {
+    throw new Error('Stock cannot go below zero.');
+  }
+  const product = await db.getFirstAsync<{ quantity: number; isBundle: number | null }>(
+    'SELECT quantity, isBundle FROM products WHERE id = ? AND userId = ?',
+    [input.productId, userId]
+  );
+  if (!product) {
+    throw new Error('Product not found or access denied.');
+  }
+  if (product.isBundle) {
+    throw new Error('A bundle has no stock of its own. Adjust its components instead.');
+  }
+
+  const adjustment: StockAdjustment = {
+    id: uuidv4(),
+    userId,
+    productId: input.productId,
+    previousQuantity: Number(product.quantity) || 0,
+    newQuantity: roundQuantity(input.newQuantity),
+    adjustmentReason: input.reason,
+    notes: input.notes?.trim() || null,
+    timestamp: new Date().toISOString(),
+  };
+
+  await db.runAsync(
+    'UPDATE products SET quantity = ?, updatedAt = ? WHERE id = ? AND userId = ?',
+    [adjustment.newQuantity, adjustment.timestamp, adjustment.productId, userId]
+  );
+  const change = roundQuantity(adjustment.newQuantity - adjustment.previousQuantity);
+  if (change > 0 && input.batch) {
+    if (input.batch.unitCost != null) {
+      await applyReceiptCost(userId, adjustment.productId, adjustment.previousQuantity, change, input.batch.unitCost);
+    }
+    await insertProductBatch(userId, adjustment.productId, change, input.batch);
+  } else if (change < 0 && !options.skipBatchDeduction) {
+    await deductFromBatches(userId, adjustment.productId, -change);
+  }
+  await db.runAsync(
+    `INSERT INTO StockAdjustments (id, userId, productId, previousQuantity, newQuantity, adjustmentReason, notes, timestamp)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      adjustment.id,
+      adjustment.userId,
+      adjustment.productId,
+      adjustment.previousQuantity,
+      adjustment.newQuantity,
+      adjustment.adjustmentReason,
+      adjustment.notes ?? null,
+      adjustment.timestamp,
+    ]
+  );
+  return adjustment;
+};
+
+export const recordStockAdjustment = async (userId: string, input: StockAdjustmentInput): Promise<StockAdjustment> => {
+  let adjustment: StockAdjustment | null = null;
+  try {
+    await db.withTransactionAsync(async () => {
+      adjustment = await applyStockAdjustment(userId, input);
+    });
+    return adjustment!;
+  } catch (error: any) {
+    if (error.message.includes('not found') || error.message.includes('below zero') || error.message.includes('bundle')) {
+      throw error;
+    }
+    console.error('Error recording stock adjustment in DB:', error.message);
+    throw new Error('Failed to adjust stock. Please try again.');
+  }
+};
+
+// Empties a batch and books its stock as expired
+export const writeOffBatch = async (userId: string, batchId: string): Promise<StockAdjustment> => {
+  let adjustment: StockAdjustment | null = null;
+  try {
+    await db.withTransactionAsync(async () => {
+      const batch = await db.getFirstAsync<{ productId: string; quantity: number; batchNumber: string | null; expiryDate: string | null; productQuantity: number }>(
+        `SELECT b.productId, b.quantity, b.batchNumber, b.expiryDate, p.quantity as productQuantity
+         FROM ProductBatches b
+         JOIN products p ON b.productId = p.id
+         WHERE b.id = ? AND b.userId = ? AND p.userId = ?`,
+        [batchId, userId, userId]
+      );
+      if (!batch) {
+        throw new Error('Batch not found or access denied.');
+      }
+      const batchQuantity = Number(batch.quantity) || 0;
+      if (batchQuantity <= 0) {
+        throw new Error('This batch has no stock left to write off.');
+      }
+
+      await db.runAsync('UPDATE ProductBatches SET quantity = 0 WHERE id = ?', [batchId]);
+      const label = batch.batchNumber ? `Batch ${batch.batchNumber}` : 'Batch';
+      adjustment = await applyStockAdjustment(
+        userId,
+        {
+          productId: batch.productId,
+          newQuantity: Math.max((Number(batch.productQuantity) || 0) - batchQuantity, 0),
+          reason: 'EXPIRED',
+          notes: batch.expiryDate
+            ? `${label} written off, expired ${format(parseISO(batch.expiryDate), 'dd MMM yyyy')}`
+            : `${label} written off`,
+        },
+        { skipBatchDeduction: true }
+      );
+    });
+    return adjustment!;
+  } catch (error: any) {
+    if (error.message.includes('not found') || error.message.includes('no stock left')) {
+      throw error;
+    }
+    console.error('Error writing off batch in DB:', error.message);
+    throw new Error('Failed to write off batch. Please try again.');
+  }
+};
+
+// Newest first; all products when productId is omitted
+export const getStockAdjustments = async (
+  userId: string,
+  options: { productId?: string; from?: string; to?: string } = {}
+): Promise<StockAdjustmentWithDetails[]> => {
+  const conditions = ['sa.userId = ?'];
+  const params: string[] = [userId];
+  if (options.productId) {
+    conditions.push('sa.productId = ?');
+    params.push(options.productId);
+  }
+  if (options.from) {
+    conditions.push('sa.timestamp >= ?');
+    params.push(options.from);
+  }
+  if (options.to) {
+    conditions.push('sa.timestamp <= ?');
+    params.push(options.to);
+  }
+
+  try {
+    const rows = await db.getAllAsync<StockAdjustmentWithDetails>(
+      `SELECT sa.*, p.name as productName, p.unit, p.costPrice, u.name as adjustedByName
+       FROM StockAdjustments sa
+       JOIN products p ON sa.productId = p.id
+       LEFT JOIN Users u ON sa.userId = u.id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY sa.timestamp DESC`,
+      params
+    );
+    return rows.map(row => ({
+      ...row,
+      previousQuantity: Number(row.previousQuantity) || 0,
+      newQuantity: Number(row.newQuantity) || 0,
+      costPrice: Number(row.costPrice) || 0,
+    }));
+  } catch (error: any) {
+    console.error('Error fetching stock adjustments from DB:', error.message);
+    throw new Error('Failed to fetch stock adjustments.');
+  }
+};
+
+// Net stock change per reason over a period, valued at today's cost price
+export const getStockAdjustmentSummary = async (
+  userId: string,
+  from: string,
+  to: string
+): Promise<StockAdjustmentSummary[]> => {
+  try {
+    const rows = await db.getAllAsync<StockAdjustmentSummary>(
+      `SELECT sa.adjustmentReason as reason,
+              COUNT(*) as adjustmentCount,
+              SUM(sa.newQuantity - sa.previousQuantity) as quantityChange,
+              SUM((sa.newQuantity - sa.previousQuantity) * p.costPrice) as valueAtCost
+       FROM StockAdjustments sa
+       JOIN products p ON sa.productId = p.id
+       WHERE sa.userId = ? AND sa.timestamp >= ? AND sa.timestamp <= ?
+       GROUP BY sa.adjustmentReason
+       ORDER BY valueAtCost ASC`,
+      [userId, from, to]
+    );
+    return rows.map(row => ({
+      ...row,
+      adjustmentCount: Number(row.adjustmentCount) || 0,
+      quantityChange: Number(row.quantityChange) || 0,
+      valueAtCost: Number(row.valueAtCost) || 0,
+    }));
+  } catch (error: any) {
+    console.error('Error fetching stock adjustment summary from DB:', error.message);
+    throw new Error('Failed to fetch stock adjustment summary.');
+  }
+};
@@ -0,0 +1,253 @@
+import { Stocktake, StocktakeItemWithProduct, StocktakeWithTotals } from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+import { applyStockAdjustment } from './stockAdjustmentOperations';
+import { roundCurrency } from '../utils/pricingUtils';
+import { roundQuantity } from '../utils/quantityUtils';
+
+const db = getDatabase();
+
+export interface NewStocktakeInput {
+  name: string;
+  categoryId?: string | null; // Counts this category and its subcategories
+}
+
+// Opens a count session and snapshots the expected stock of every product in
+// scope. Parents with variants are left out; their variants are counted instead.
+export const startStocktake = async (userId: string, input: NewStocktakeInput): Promise<Stocktake> => {
+  const stocktake: Stocktake = {
+    id: uuidv4(),
+    userId,
+    name: input.name.trim(),
+    category: null,
+    status: 'OPEN',
+    startedAt: new Date().toISOString(),
+    appliedAt: null,
+  };
+
+  try {
+    await db.withTransactionAsync(async () => {
+      const open = await db.getFirstAsync<{ name: string }>(
+        "SELECT name FROM Stocktakes WHERE userId = ? AND status = 'OPEN'",
+        [userId]
+      );
+      if (open) {
+        throw new Error(`"${open.name}" is still in progress. Apply or cancel it first.`);
+      }
+      if (input.categoryId) {
+        const category = await db.getFirstAsync<{ name: string }>(
+          'SELECT name FROM Categories WHERE id = ? AND userId = ?',
+          [input.categoryId, userId]
+        );
+        if (!category) {
+          throw new Error('Category not found or access denied.');
+        }
+        stocktake.category = category.name;
+      }
+
+      const products = await db.getAllAsync<{ id: string; quantity: number }>(
+        `SELECT id, quantity FROM products
+         WHERE userId = ? AND isActive = 1${input.categoryId ? ` AND categoryId IN (
+           WITH RECURSIVE tree(id) AS (
+             SELECT ? UNION SELECT c.id FROM Categories c JOIN tree t ON c.parentId = t.id
+           )
+           SELECT id FROM tree
+         )` : ''}
+           AND COALESCE(isBundle, 0) = 0
+           AND NOT EXISTS (SELECT 1 FROM products v WHERE v.parentId = products.id AND v.isActive = 1)`,
+        input.categoryId ? [userId, input.categoryId] : [userId]
+      );
+      if (products.length === 0) {
+        throw new Error('There are no products to count.');
+      }
+
+      await db.runAsync(
+        `INSERT INTO Stocktakes (id, userId, name, category, status, startedAt, appliedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [stocktake.id, userId, stocktake.name, stocktake.category, stocktake.status, stocktake.startedAt, null]
+      );
+      for (const product of products) {
+        await db.runAsync(
+          `INSERT INTO StocktakeItems (id, stocktakeId, productId, expectedQuantity, countedQuantity, systemQuantityAtCount, countedAt)
+           VALUES (?, ?, ?, ?, NULL, NULL, NULL)`,
+          [uuidv4(), stocktake.id, product.id, Number(product.quantity) || 0]
+        );
+      }
+    });
+    return stocktake;
+  } catch (error: any) {
+    if (error.message.includes('in progress') || error.message.includes('no products') || error.message.includes('not found')) {
+      throw error;
+    }
+    console.error('Error starting stocktake in DB:', error.message);
+    throw new Error('Failed to start stocktake.');
+  }
+};
+
+export const getStocktakes = async (userId: string): Promise<StocktakeWithTotals[]> => {
+  try {
+    const rows = await db.getAllAsync<StocktakeWithTotals>(
+      `SELECT st.*,
+              COUNT(sti.id) as itemCount,
+              COUNT(sti.countedQuantity) as countedCount,
+              COALESCE(SUM((sti.countedQuantity - sti.systemQuantityAtCount) * p.costPrice), 0) as varianceValue
+       FROM Stocktakes st
+       LEFT JOIN StocktakeItems sti ON sti.stocktakeId = st.id
+       LEFT JOIN products p ON sti.productId = p.id
+       WHERE st.userId = ?
+       GROUP BY st.id
+       ORDER BY st.startedAt DESC`,
+      [userId]
+    );
+    return rows.map(row => ({
+      ...row,
+      itemCount: Number(row.itemCount) || 0,
+      countedCount: Number(row.countedCount) || 0,
+      varianceValue: roundCurrency(Number(row.varianceValue) || 0),
+    }));
+  } catch (error: any) {
+    console.error('Error fetching stocktakes from DB:', error.message);
+    throw new Error('Failed to fetch stocktakes.');
+  }
+};
+
+export const getStocktakeItems = async (userId: string, stocktakeId: string): Promise<StocktakeItemWithProduct[]> => {
+  try {
+    const rows = await db.getAllAsync<StocktakeItemWithProduct>(
+      `SELECT sti.*, p.name as productName, p.category, p.unit, p.quantityStep, p.barcode, p.alternateCode,
+              p.costPrice, p.quantity as currentQuantity
+       FROM StocktakeItems sti
+       JOIN Stocktakes st ON sti.stocktakeId = st.id
+       JOIN products p ON sti.productId = p.id
+       WHERE sti.stocktakeId = ? AND st.userId = ?
+       ORDER BY p.category, p.name`,
+      [stocktakeId, userId]
+    );
+    return rows.map(row => ({
+      ...row,
+      expectedQuantity: Number(row.expectedQuantity) || 0,
+      currentQuantity: Number(row.currentQuantity) || 0,
+      costPrice: Number(row.costPrice) || 0,
+      unit: row.unit || 'piece',
+    }));
+  } catch (error: any) {
+    console.error('Error fetching stocktake items from DB:', error.message);
+    throw new Error('Failed to fetch stocktake items.');
+  }
+};
+
+// Saves a count, noting the stock the system held at that moment so that
+// sales made afterwards are not mistaken for a shortage. null clears the count.
+// Returns that stock so the caller can show the variance without a reload.
+export const recordStocktakeCount = async (
+  userId: string,
+  stocktakeItemId: string,
+  countedQuantity: number | null
+): Promise<number | null> => {
+  if (countedQuantity != null && !(countedQuantity >= 0)) {
+    throw new Error('Counted quantity cannot be negative.');
+  }
+  try {
+    const item = await db.getFirstAsync<{ status: string; currentQuantity: number }>(
+      `SELECT st.status, p.quantity as currentQuantity
+       FROM StocktakeItems sti
+       JOIN Stocktakes st ON sti.stocktakeId = st.id
+       JOIN products p ON sti.productId = p.id
+       WHERE sti.id = ? AND st.userId = ?`,
+      [stocktakeItemId, userId]
+    );
+    if (!item) {
+      throw new Error('Stocktake item not found or access denied.');
+    }
+    if (item.status !== 'OPEN') {
+      throw new Error('This stocktake is already closed.');
+    }
+
+    if (countedQuantity == null) {
+      await db.runAsync(
+        'UPDATE StocktakeItems SET countedQuantity = NULL, systemQuantityAtCount = NULL, countedAt = NULL WHERE id = ?',
+        [stocktakeItemId]
+      );
+      return null;
+    }
+    const systemQuantity = Number(item.currentQuantity) || 0;
+    await db.runAsync(
+      'UPDATE StocktakeItems SET countedQuantity = ?, systemQuantityAtCount = ?, countedAt = ? WHERE id = ?',
+      [roundQuantity(countedQuantity), systemQuantity, new Date().toISOString(), stocktakeItemId]
+    );
+    return systemQuantity;
+  } catch (error: any) {
+    if (error.message.includes('not found') || error.message.includes('closed')) {
+      throw error;
+    }
+    console.error('Error recording stocktake count in DB:', error.message);
+    throw new Error('Failed to save the count.');
+  }
+};
+
+// Posts every counted difference as a count correction in one transaction.
+// Stock that moved after an item was counted is carried over on top of the
+// count. Uncounted items are left as they are. Returns the adjustments made.
+export const applyStocktake = async (userId: string, stocktakeId: string): Promise<number> => {
+  let adjusted = 0;
+  try {
+    await db.withTransactionAsync(async () => {
+      const stocktake = await db.getFirstAsync<Stocktake>(
+        'SELECT * FROM Stocktakes WHERE id = ? AND userId = ?',
+        [stocktakeId, userId]
+      );
+      if (!stocktake) {
+        throw new Error('Stocktake not found or access denied.');
+      }
+      if (stocktake.status !== 'OPEN') {
+        throw new Error('This stocktake is already closed.');
+      }
+
+      const items = await db.getAllAsync<{ productId: string; countedQuantity: number; systemQuantityAtCount: number; currentQuantity: number }>(
+        `SELECT sti.productId, sti.countedQuantity, sti.systemQuantityAtCount, p.quantity as currentQuantity
+         FROM StocktakeItems sti
+         JOIN products p ON sti.productId = p.id
+         WHERE sti.stocktakeId = ? AND sti.countedQuantity IS NOT NULL`,
+        [stocktakeId]
+      );
+      for (const item of items) {
+        const currentQuantity = Number(item.currentQuantity) || 0;
+        const movedSinceCount = currentQuantity - (Number(item.systemQuantityAtCount) || 0);
+        const newQuantity = Math.max(roundQuantity(Number(item.countedQuantity) + movedSinceCount), 0);
+        if (newQuantity === currentQuantity) continue;
+        await applyStockAdjustment(userId, {
+          productId: item.productId,
+          newQuantity,
+          reason: 'COUNT_CORRECTION',
+          notes: `Stocktake: ${stocktake.name}`,
+        });
+        adjusted += 1;
+      }
+
+      await db.runAsync(
+        "UPDATE Stocktakes SET status = 'APPLIED', appliedAt = ? WHERE id = ? AND userId = ?",
+        [new Date().toISOString(), stocktakeId, userId]
+      );
+    });
+    return adjusted;
+  } catch (error: any) {
+    if (error.message.includes('not found') || error.message.includes('closed')) {
+      throw error;
+    }
+    console.error('Error applying stocktake in DB:', error.message);
+    throw new Error('Failed to apply stocktake. No stock was changed.');
+  }
+};
+
+// Counts are kept for reference; stock is not touched
+export const cancelStocktake = async (userId: string, stocktakeId: string): Promise<void> => {
+  try {
+    await db.runAsync(
+      "UPDATE Stocktakes SET status = 'CANCELLED' WHERE id = ? AND userId = ? AND status = 'OPEN'",
+      [stocktakeId, userId]
+    );
+  } catch (error: any) {
+    console.error('Error cancelling stocktake in DB:', error.message);
+    throw new Error('Failed to cancel stocktake.');
+  }
+};
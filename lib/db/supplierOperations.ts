@@ -0,0 +1,173 @@
+import { Supplier, SupplierPurchase } from '../stores/types';
+import { getDatabase } from './database';
+import { v4 as uuidv4 } from 'uuid';
+
+const db = getDatabase();
+
+export type SupplierInput = Omit<Supplier, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+export const addSupplier = async (userId: string, supplier: SupplierInput): Promise<Supplier> => {
+  const timestamp = new Date().toISOString();
+  const newSupplier: Supplier = {
+    id: uuidv4(),
+    userId,
+    name: supplier.name.trim(),
+    contactPerson: supplier.contactPerson?.trim() || null,
+    phone: supplier.phone?.trim() || null,
+    email: supplier.email?.trim() || null,
+    address: supplier.address?.trim() || null,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+
+  try {
+    // Names are how suppliers get picked elsewhere, so keep them unique per user
+    const existing = await db.getFirstAsync<{ id: string }>(
+      'SELECT id FROM Suppliers WHERE LOWER(name) = LOWER(?) AND userId = ?',
+      [newSupplier.name, userId]
+    );
+    if (existing) {
+      throw new Error('A supplier with this name already exists.');
+    }
+
+    await db.runAsync(
+      `INSERT INTO Suppliers (id, userId, name, contactPerson, phone, email, address, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        newSupplier.id,
+        newSupplier.userId,
+        newSupplier.name,
+        newSupplier.contactPerson ?? null,
+        newSupplier.phone ?? null,
+        newSupplier.email ?? null,
+        newSupplier.address ?? null,
+        newSupplier.createdAt,
+        newSupplier.updatedAt,
+      ]
+    );
+    return newSupplier;
+  } catch (error: any) {
+    if (error.message.includes('already exists')) {
+      throw error;
+    }
+    console.error('Error adding supplier to DB:', error.message);
+    throw new Error('Failed to add supplier. Please try again.');
+  }
+};
+
+export const getAllSuppliers = async (userId: string): Promise<Supplier[]> => {
+  try {
+    return await db.getAllAsync<Supplier>(
+      'SELECT * FROM Suppliers WHERE userId = ? ORDER BY name',
+      [userId]
+    );
+  } catch (error: any) {
+    console.error('Error fetching suppliers from DB:', error.message);
+    throw new Error('Failed to fetch suppliers.');
+  }
+};
+
+export const updateSupplier = async (
+  userId: string,
+  id: string,
+  updates: Partial<SupplierInput>
+): Promise<Supplier> => {
+  const timestamp = new Date().toISOString();
+  try {
+    const supplierOwnership = await db.getFirstAsync<{ id: string }>(
+      'SELECT id FROM Suppliers WHERE id = ? AND userId = ?',
+      [id, userId]
+    );
+    if (!supplierOwnership) {
+      throw new Error('Supplier not found or access denied.');
+    }
+
+    if (updates.name) {
+      const existing = await db.getFirstAsync<{ id: string }>(
+        'SELECT id FROM Suppliers WHERE LOWER(name) = LOWER(?) AND id != ? AND userId = ?',
+        [updates.name.trim(), id, userId]
+      );
+      if (existing) {
+        throw new Error('Another supplier already exists with this name.');
+      }
+    }
+
+    const updateEntries = Object.entries(updates)
+      .filter(([_, value]) => value !== undefined)
+      .map(([key, value]) => [key, typeof value === 'string' ? value.trim() || null : value] as const);
+    if (updateEntries.length > 0) {
+      const fields = updateEntries.map(([key]) => `${key} = ?`).join(', ');
+      const values = updateEntries.map(([_, value]) => value ?? null);
+      await db.runAsync(
+        `UPDATE Suppliers SET ${fields}, updatedAt = ? WHERE id = ? AND userId = ?`,
+        [...values, timestamp, id, userId]
+      );
+    }
+
+    const updatedSupplier = await db.getFirstAsync<Supplier>(
+      'SELECT * FROM Suppliers WHERE id = ? AND userId = ?',
+      [id, userId]
+    );
+    if (!updatedSupplier) throw new Error('Supplier not found after update.');
+    return updatedSupplier;
+  } catch (error: any) {
+    if (error.message.includes('not found') || error.message.includes('already exists')) {
+      throw error;
+    }
+    console.error('Error updating supplier in DB:', error.message);
+    throw new Error('Failed to update supplier.');
+  }
+};
+
+// Products are unlinked; a supplier with received batches or purchase orders is kept for their history
+export const deleteSupplier = async (userId: string, id: string): Promise<void> => {
+  try {
+    await db.withTransactionAsync(async () => {
+      const purchases = await db.getFirstAsync<{ count: number }>(
+        `SELECT (SELECT COUNT(*) FROM ProductBatches WHERE supplierId = ? AND userId = ?)
+              + (SELECT COUNT(*) FROM PurchaseOrders WHERE supplierId = ? AND userId = ?) as count`,
+        [id, userId, id, userId]
+      );
+      if (purchases && purchases.count > 0) {
+        throw new Error('This supplier has purchase history and cannot be deleted.');
+      }
+      await db.runAsync(
+        'UPDATE products SET supplierId = NULL WHERE supplierId = ? AND userId = ?',
+        [id, userId]
+      );
+      await db.runAsync('DELETE FROM Suppliers WHERE id = ? AND userId = ?', [id, userId]);
+    });
+  } catch (error: any) {
+    if (error.message.includes('purchase history')) {
+      throw error;
+    }
+    console.error('Error deleting supplier from DB:', error.message);
+    throw new Error('Failed to delete supplier.');
+  }
+};
+
+// Batches received from the supplier, newest first
+export const getSupplierPurchases = async (userId: string, supplierId: string): Promise<SupplierPurchase[]> => {
+  try {
+    const rows = await db.getAllAsync<SupplierPurchase>(
+      `SELECT b.id as batchId, b.productId, p.name as productName, p.unit, b.batchNumber,
+              COALESCE(b.receivedQuantity, b.quantity) as quantity,
+              COALESCE(b.unitCost, p.costPrice) as unitCost,
+              COALESCE(b.purchaseDate, b.createdAt) as purchaseDate,
+              b.expiryDate
+       FROM ProductBatches b
+       JOIN products p ON b.productId = p.id
+       WHERE b.userId = ? AND b.supplierId = ?
+       ORDER BY COALESCE(b.purchaseDate, b.createdAt) DESC`,
+      [userId, supplierId]
+    );
+    return rows.map(row => {
+      const quantity = Number(row.quantity) || 0;
+      const unitCost = Number(row.unitCost) || 0;
+      return { ...row, quantity, unitCost, totalCost: quantity * unitCost };
+    });
+  } catch (error: any) {
+    console.error('Error fetching supplier purchases from DB:', error.message);
+    throw new Error('Failed to fetch purchase history.');
+  }
+};
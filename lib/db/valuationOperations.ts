@@ -0,0 +1,59 @@
+import { InventoryValuationMethod } from '../stores/types';
+import { getDatabase } from './database';
+import { deductFromBatches } from './batchOperations';
+import { roundCurrency } from '../utils/pricingUtils';
+
+const db = getDatabase();
+
+// Moves the product's cost price to the weighted average of the stock already
+// on hand and the stock coming in, and returns the new cost.
+// Meant to be called from inside the caller's own transaction.
+export const applyReceiptCost = async (
+  userId: string,
+  productId: string,
+  onHand: number,
+  quantity: number,
+  unitCost: number
+): Promise<number> => {
+  const product = await db.getFirstAsync<{ costPrice: number }>(
+    'SELECT costPrice FROM products WHERE id = ? AND userId = ?',
+    [productId, userId]
+  );
+  if (!product) {
+    throw new Error('Product not found or access denied.');
+  }
+  // Negative stock has no cost to average against
+  const existing = Math.max(onHand, 0);
+  const averageCost = existing + quantity > 0
+    ? roundCurrency((existing * (Number(product.costPrice) || 0) + quantity * unitCost) / (existing + quantity))
+    : unitCost;
+  await db.runAsync(
+    'UPDATE products SET costPrice = ? WHERE id = ? AND userId = ?',
+    [averageCost, productId, userId]
+  );
+  return averageCost;
+};
+
+// Takes sold stock out of the product's batches and returns the cost per unit
+// to book against the sale. Stock always leaves earliest expiry first; the
+// valuation method only decides the cost. Under weighted average that is the
+// product's current average. Under FIFO each unit costs what the batch it came
+// from cost; stock that never went into a batch is charged at the average.
+// Meant to be called from inside the caller's own transaction.
+export const takeStockAtCost = async (
+  userId: string,
+  productId: string,
+  quantity: number,
+  method: InventoryValuationMethod
+): Promise<number> => {
+  const product = await db.getFirstAsync<{ costPrice: number }>(
+    'SELECT costPrice FROM products WHERE id = ? AND userId = ?',
+    [productId, userId]
+  );
+  const averageCost = Number(product?.costPrice) || 0;
+  const taken = await deductFromBatches(userId, productId, quantity);
+  if (method !== 'FIFO' || !(quantity > 0)) {
+    return averageCost;
+  }
+  return roundCurrency((taken.cost + (quantity - taken.quantity) * averageCost) / quantity);
+};
@@ -1,4 +1,8 @@
 import { getDatabase as getDb } from '../db/database';
+import { DEFAULT_REORDER_LEVEL } from '../constants';
+import { recordPriceChange } from '../db/priceChangeOperations';
+import { withBundleStock } from '../db/bundleOperations';
+import { PriceChangeSource } from '../stores/types';
 
 // Simple ID generator for React Native
 function generateId(): string {
@@ -22,7 +26,18 @@ export interface Product {
     quantity: number;
     unit: string;         // Correctly string
     category?: string;    // Correctly string?
+    categoryId?: string | null; // Categories.id; category keeps a copy of its name
     imageUri?: string;    // Correctly string?
+    taxRate?: number | null; // Percent; null uses the store tax rate
+    supplierId?: string | null; // Usual supplier
+    reorderLevel?: number; // Low stock at or below this quantity
+    reorderQuantity?: number; // Usual order size; 0 means not set
+    barcode?: string | null; // Printed barcode (EAN/UPC), unique per user
+    alternateCode?: string | null; // Shelf or supplier code, unique per user alongside barcodes
+    quantityStep?: number | null; // +/- step when selling; null uses the unit's default
+    parentId?: string | null; // Set on variants: the product they are a size or pack of
+    variantName?: string | null; // e.g. "500 g" or "Pack of 4"; the name becomes "Parent (variant)"
+    isBundle?: boolean; // Made of other products (BundleComponents); stock and cost come from them
     createdAt: string;
     updatedAt: string;
 }
@@ -30,6 +45,97 @@ export interface Product {
 // Modified to include userId in the input
 export type ProductInput = Omit<Product, 'id' | 'createdAt' | 'updatedAt'>;
 
+const normalizeCode = (code?: string | null): string | null => code?.trim() || null;
+
+// A code may belong to only one active product, whether as its barcode or its alternate code
+const assertCodesAvailable = async (
+  userId: string,
+  codes: (string | null)[],
+  excludeProductId: string | null
+): Promise<void> => {
+  const db = getDb();
+  const wanted = codes.filter((code): code is string => !!code);
+  if (wanted.length === 2 && wanted[0] === wanted[1]) {
+    throw new Error('Barcode and alternate code must be different.');
+  }
+  for (const code of wanted) {
+    const clash = await db.getFirstAsync<{ name: string }>(
+      `SELECT name FROM products
+       WHERE userId = ? AND isActive = 1 AND id != ? AND (barcode = ? OR alternateCode = ?)`,
+      [userId, excludeProductId ?? '', code, code]
+    );
+    if (clash) {
+      throw new Error(`Code ${code} is already used by "${clash.name}".`);
+    }
+  }
+};
+
+// The unique code indexes can still refuse a save that passed the check above, e.g. two at
+// once; this turns that into the same message the check gives
+const rethrowCodeClash = async (
+  error: any,
+  userId: string,
+  codes: (string | null)[],
+  excludeProductId: string | null
+): Promise<never> => {
+  if (String(error?.message).includes('UNIQUE constraint failed')) {
+    await assertCodesAvailable(userId, codes, excludeProductId);
+    throw new Error('This code is already used by another product.');
+  }
+  throw error;
+};
+
+const variantDisplayName = (parentName: string, variantName: string): string => `${parentName} (${variantName})`;
+
+// Works out a variant's full name from its parent; variants only go one level deep
+const resolveVariantName = async (userId: string, parentId: string, variantName?: string | null): Promise<string> => {
+  const db = getDb();
+  const label = variantName?.trim();
+  if (!label) {
+    throw new Error('Variant name is required.');
+  }
+  const parent = await db.getFirstAsync<{ name: string; parentId: string | null }>(
+    `SELECT name, parentId FROM products WHERE id = ? AND userId = ? AND isActive = 1`,
+    [parentId, userId]
+  );
+  if (!parent) {
+    throw new Error('Parent product not found or not authorized');
+  }
+  if (parent.parentId) {
+    throw new Error('A variant cannot have variants of its own.');
+  }
+  return variantDisplayName(parent.name, label);
+};
+
+// Links a product to a category row. An id wins over a name; a name with no
+// matching category (older callers) is kept as text without a link.
+const resolveCategory = async (
+  userId: string,
+  categoryId?: string | null,
+  categoryName?: string | null
+): Promise<{ categoryId: string | null; category: string | undefined }> => {
+  const db = getDb();
+  if (categoryId) {
+    const category = await db.getFirstAsync<{ id: string; name: string }>(
+      `SELECT id, name FROM Categories WHERE id = ? AND userId = ?`,
+      [categoryId, userId]
+    );
+    if (!category) {
+      throw new Error('Category not found or not authorized');
+    }
+    return { categoryId: category.id, category: category.name };
+  }
+  const name = categoryName?.trim();
+  if (!name) {
+    return { categoryId: null, category: undefined };
+  }
+  const match = await db.getFirstAsync<{ id: string; name: string }>(
+    `SELECT id, name FROM Categories WHERE userId = ? AND LOWER(name) = LOWER(?) ORDER BY createdAt LIMIT 1`,
+    [userId, name]
+  );
+  return match ? { categoryId: match.id, category: match.name } : { categoryId: null, category: name };
+};
+
 export const ProductModel = {
   // Get all products for a specific user
   getAll: async (userId: string): Promise<Product[]> => {
@@ -38,7 +144,7 @@ export const ProductModel = {
       `SELECT * FROM products WHERE userId = ? AND isActive = 1 ORDER BY name`, 
       [userId]
     );
-    return result;
+    return withBundleStock(userId, result);
   },
 
   // Get product by ID (ensuring it belongs to the user)
@@ -48,7 +154,17 @@ export const ProductModel = {
       `SELECT * FROM products WHERE id = ? AND userId = ?`, 
       [id, userId]
     );
-    return result;
+    return result ? (await withBundleStock(userId, [result]))[0] : null;
+  },
+
+  // Find an active product by its barcode or alternate code
+  getByCode: async (code: string, userId: string): Promise<Product | null> => {
+    const db = getDb();
+    const result = await db.getFirstAsync<Product>(
+      `SELECT * FROM products WHERE userId = ? AND isActive = 1 AND (barcode = ? OR alternateCode = ?)`,
+      [userId, code.trim(), code.trim()]
+    );
+    return result ? (await withBundleStock(userId, [result]))[0] : null;
   },
 
   // Create a new product with userId
@@ -58,15 +174,33 @@ export const ProductModel = {
     const newProduct: Product = {
       id: generateId(),
       ...product,
+      barcode: normalizeCode(product.barcode),
+      alternateCode: normalizeCode(product.alternateCode),
       unit: product.unit || 'piece', // Provide default value
+      parentId: product.parentId || null,
+      variantName: product.parentId ? product.variantName?.trim() || null : null,
+      isBundle: !!product.isBundle,
       isActive: true,
       createdAt: now,
       updatedAt: now,
     };
+    await assertCodesAvailable(newProduct.userId, [newProduct.barcode ?? null, newProduct.alternateCode ?? null], null);
+    if (newProduct.isBundle) {
+      if (newProduct.parentId) {
+        throw new Error('A variant cannot be a bundle.');
+      }
+      // Stock and cost follow the components once they are set
+      newProduct.quantity = 0;
+      newProduct.costPrice = 0;
+    }
+    if (newProduct.parentId) {
+      newProduct.name = await resolveVariantName(newProduct.userId, newProduct.parentId, newProduct.variantName);
+    }
+    Object.assign(newProduct, await resolveCategory(newProduct.userId, product.categoryId, product.category));
   
     await db.runAsync(
-      `INSERT INTO products (id, userId, name, costPrice, sellingPrice, quantity, unit, category, imageUri, isActive, createdAt, updatedAt) 
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO products (id, userId, name, costPrice, sellingPrice, quantity, unit, category, categoryId, imageUri, taxRate, supplierId, reorderLevel, reorderQuantity, barcode, alternateCode, quantityStep, parentId, variantName, isBundle, isActive, createdAt, updatedAt) 
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         newProduct.id,
         newProduct.userId, // Include userId in insert
@@ -76,18 +210,36 @@ export const ProductModel = {
         newProduct.quantity,
         newProduct.unit,
         newProduct.category || null,
+        newProduct.categoryId ?? null,
         newProduct.imageUri || null,
+        newProduct.taxRate ?? null,
+        newProduct.supplierId || null,
+        newProduct.reorderLevel ?? DEFAULT_REORDER_LEVEL,
+        newProduct.reorderQuantity ?? 0,
+        newProduct.barcode ?? null,
+        newProduct.alternateCode ?? null,
+        newProduct.quantityStep ?? null,
+        newProduct.parentId ?? null,
+        newProduct.variantName ?? null,
+        newProduct.isBundle ? 1 : 0,
         newProduct.isActive,
         newProduct.createdAt,
         newProduct.updatedAt,
       ]
-    );
+    ).catch(error => rethrowCodeClash(error, newProduct.userId, [newProduct.barcode ?? null, newProduct.alternateCode ?? null], null));
     
     return newProduct;
   },
 
-  // Modified update method to include userId security check
-  update: async (id: string, product: Partial<ProductInput>, userId: string): Promise<Product> => {
+  // Modified update method to include userId security check.
+  // Quantity is left alone: stock changes go through StockAdjustments (stockAdjustmentOperations).
+  // Price changes are written to PriceHistory, tagged with where they came from.
+  update: async (
+    id: string,
+    product: Partial<ProductInput>,
+    userId: string,
+    priceChangeSource: PriceChangeSource = 'EDIT'
+  ): Promise<Product> => {
     const db = getDb();
     
     // First get the existing product, ensuring it belongs to the user
@@ -103,8 +255,25 @@ export const ProductModel = {
     const updatedProduct: Product = {
       ...existingProduct,
       ...product,
+      quantity: existingProduct.quantity,
+      parentId: existingProduct.parentId, // A product cannot be moved under another parent
+      isBundle: existingProduct.isBundle,
+      // A bundle's cost is its components'; setBundleComponents keeps it up to date
+      costPrice: existingProduct.isBundle ? existingProduct.costPrice : product.costPrice ?? existingProduct.costPrice,
       updatedAt: new Date().toISOString(),
     };
+    updatedProduct.barcode = normalizeCode(updatedProduct.barcode);
+    updatedProduct.alternateCode = normalizeCode(updatedProduct.alternateCode);
+    await assertCodesAvailable(userId, [updatedProduct.barcode, updatedProduct.alternateCode], id);
+    if (updatedProduct.parentId) {
+      updatedProduct.name = await resolveVariantName(userId, updatedProduct.parentId, updatedProduct.variantName);
+    }
+    // Re-link only when the caller changed the category, by id or (older callers) by name
+    if (product.categoryId !== undefined) {
+      Object.assign(updatedProduct, await resolveCategory(userId, product.categoryId, product.categoryId ? null : product.category));
+    } else if (product.category !== undefined && product.category !== existingProduct.category) {
+      Object.assign(updatedProduct, await resolveCategory(userId, null, product.category));
+    }
 
     // Then update it
     await db.runAsync(
@@ -112,10 +281,18 @@ export const ProductModel = {
         name = ?,
         costPrice = ?,
         sellingPrice = ?,
-        quantity = ?,
         unit = ?,
         category = ?,
+        categoryId = ?,
         imageUri = ?,
+        taxRate = ?,
+        supplierId = ?,
+        reorderLevel = ?,
+        reorderQuantity = ?,
+        barcode = ?,
+        alternateCode = ?,
+        quantityStep = ?,
+        variantName = ?,
         isActive = ?,
         updatedAt = ?
       WHERE id = ? AND userId = ?`,
@@ -123,35 +300,65 @@ export const ProductModel = {
         updatedProduct.name,
         updatedProduct.costPrice,
         updatedProduct.sellingPrice,
-        updatedProduct.quantity,
         updatedProduct.unit,
         updatedProduct.category || null,
+        updatedProduct.categoryId ?? null,
         updatedProduct.imageUri || null,
+        updatedProduct.taxRate ?? null,
+        updatedProduct.supplierId || null,
+        updatedProduct.reorderLevel ?? DEFAULT_REORDER_LEVEL,
+        updatedProduct.reorderQuantity ?? 0,
+        updatedProduct.barcode ?? null,
+        updatedProduct.alternateCode ?? null,
+        updatedProduct.quantityStep ?? null,
+        updatedProduct.parentId ? updatedProduct.variantName?.trim() || null : null,
         updatedProduct.isActive,
         updatedProduct.updatedAt,
         id,
         userId, // Add userId for security check
       ]
-    );
+    ).catch(error => rethrowCodeClash(error, userId, [updatedProduct.barcode ?? null, updatedProduct.alternateCode ?? null], id));
     
-    return updatedProduct;
+    await recordPriceChange(userId, {
+      productId: id,
+      oldCostPrice: existingProduct.costPrice,
+      newCostPrice: updatedProduct.costPrice,
+      oldSellingPrice: existingProduct.sellingPrice,
+      newSellingPrice: updatedProduct.sellingPrice,
+      source: priceChangeSource,
+    });
+
+    // Variants carry the parent's name in their own
+    if (!updatedProduct.parentId && updatedProduct.name !== existingProduct.name) {
+      await db.runAsync(
+        `UPDATE products SET name = ? || ' (' || variantName || ')', updatedAt = ? WHERE parentId = ? AND userId = ?`,
+        [updatedProduct.name, updatedProduct.updatedAt, id, userId]
+      );
+    }
+
+    return (await withBundleStock(userId, [updatedProduct]))[0];
   },
 
-  // Delete a product (with userId security check)
+  // Delete a product (with userId security check); a parent takes its variants with it
   delete: async (id: string, userId: string): Promise<void> => {
     const db = getDb();
     await db.runAsync(
-      `UPDATE products SET isActive = 0, updatedAt = ? WHERE id = ? AND userId = ?`,
-      [new Date().toISOString(), id, userId]
+      `UPDATE products SET isActive = 0, updatedAt = ? WHERE (id = ? OR parentId = ?) AND userId = ?`,
+      [new Date().toISOString(), id, id, userId]
     );
   },
 
-  // Get low stock products for a specific user
+  // Get products at or below their own reorder level for a specific user.
+  // Parents with variants and bundles hold no stock of their own, so only their variants
+  // and components count.
   getLowStock: async (userId: string): Promise<Product[]> => {
     const db = getDb();
     const result = await db.getAllAsync<Product>(
-      'SELECT * FROM products WHERE quantity < 5 AND userId = ? ORDER BY quantity',
-      [userId]
+      `SELECT * FROM products
+       WHERE quantity <= COALESCE(reorderLevel, ?) AND userId = ? AND isActive = 1 AND COALESCE(isBundle, 0) = 0
+         AND NOT EXISTS (SELECT 1 FROM products v WHERE v.parentId = products.id AND v.isActive = 1)
+       ORDER BY quantity`,
+      [DEFAULT_REORDER_LEVEL, userId]
     );
     return result;
   },
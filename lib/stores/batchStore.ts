@@ -0,0 +1,98 @@
+import { create } from 'zustand';
+import { getExpiringBatches, getProductBatches } from '../db/batchOperations';
+import { writeOffBatch } from '../db/stockAdjustmentOperations';
+import { EXPIRY_WARNING_DAYS } from '../constants';
+import { ProductBatch, ProductBatchWithProduct } from './types';
+import { useAuthStore } from './authStore';
+import { useProductStore } from './productStore';
+
+interface BatchStoreState {
+  productBatches: ProductBatch[];
+  expiringBatches: ProductBatchWithProduct[];
+  isLoading: boolean;
+  error: string | null;
+  fetchProductBatches: (productId: string) => Promise<void>;
+  fetchExpiringBatches: () => Promise<void>;
+  writeOff: (batchId: string) => Promise<void>;
+  clearError: () => void;
+}
+
+export const useBatchStore = create<BatchStoreState>((set, get) => ({
+  productBatches: [],
+  expiringBatches: [],
+  isLoading: false,
+  error: null,
+  fetchProductBatches: async (productId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch batches.';
+        console.warn(errorMessage);
+        set({ isLoading: false, productBatches: [], error: errorMessage });
+        return;
+      }
+
+      const productBatches = await getProductBatches(userId, productId);
+      set({ productBatches, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch product batches:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch product batches',
+        isLoading: false,
+      });
+    }
+  },
+  fetchExpiringBatches: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch expiring stock.';
+        console.warn(errorMessage);
+        set({ isLoading: false, expiringBatches: [], error: errorMessage });
+        return;
+      }
+
+      const expiringBatches = await getExpiringBatches(userId, EXPIRY_WARNING_DAYS);
+      set({ expiringBatches, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch expiring batches:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch expiring stock',
+        isLoading: false,
+      });
+    }
+  },
+  writeOff: async (batchId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot write off batch.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await writeOffBatch(userId, batchId);
+      set({
+        expiringBatches: get().expiringBatches.filter(b => b.id !== batchId),
+        productBatches: get().productBatches.filter(b => b.id !== batchId),
+        isLoading: false,
+      });
+      await useProductStore.getState().fetchProducts();
+    } catch (error: any) {
+      console.error('Failed to write off batch:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to write off batch',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  clearError: () => set({ error: null }),
+}));
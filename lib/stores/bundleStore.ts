@@ -0,0 +1,68 @@
+import { create } from 'zustand';
+import { BundleComponentInput, getBundleComponents, setBundleComponents } from '../db/bundleOperations';
+import { BundleComponentWithProduct } from './types';
+import { useAuthStore } from './authStore';
+import { useProductStore } from './productStore';
+
+interface BundleStoreState {
+  components: BundleComponentWithProduct[]; // For the bundle last passed to fetchComponents
+  isLoading: boolean;
+  error: string | null;
+  fetchComponents: (bundleId: string) => Promise<void>;
+  saveComponents: (bundleId: string, components: BundleComponentInput[]) => Promise<void>;
+  clearError: () => void;
+}
+
+export const useBundleStore = create<BundleStoreState>((set, get) => ({
+  components: [],
+  isLoading: false,
+  error: null,
+  fetchComponents: async (bundleId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch bundle components.';
+        console.warn(errorMessage);
+        set({ isLoading: false, components: [], error: errorMessage });
+        return;
+      }
+
+      const components = await getBundleComponents(userId, bundleId);
+      set({ components, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch bundle components:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch bundle components',
+        isLoading: false,
+      });
+    }
+  },
+  // The bundle's stock and cost change with its components, so products are reloaded too
+  saveComponents: async (bundleId, components) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot save bundle.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await setBundleComponents(userId, bundleId, components);
+      set({ isLoading: false });
+      await Promise.all([get().fetchComponents(bundleId), useProductStore.getState().fetchProducts()]);
+    } catch (error: any) {
+      console.error('Failed to save bundle components:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to save the bundle components.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  clearError: () => set({ error: null }),
+}));
@@ -1,10 +1,28 @@
 import { create } from 'zustand';
 import { Product } from '~/lib/models/product';
+import { Discount, TaxOptions } from '~/lib/utils/pricingUtils';
+import { getSalesSettings } from '~/lib/db/settingsOperations';
+import { getQuantityStep, roundQuantity } from '~/lib/utils/quantityUtils';
+import { getPriceListPrice } from '~/lib/utils/priceListUtils';
+import { getCustomerPriceList } from '~/lib/db/priceListOperations';
+import { PriceListWithItems } from './types';
+import { useAuthStore } from './authStore';
 
 interface CartItem extends Product {
   quantityInCart: number;
+  lineDiscount?: Discount | null; // Product.discount is the catalogue offer, not a checkout discount
+  catalogPrice: number; // Product selling price; sellingPrice is what this customer pays
 }
 
+// Puts the line at the customer's price for its quantity
+const priceCartItem = (item: CartItem, priceList: PriceListWithItems | null): CartItem => ({
+  ...item,
+  sellingPrice: getPriceListPrice(priceList, item.id, item.catalogPrice, item.quantityInCart),
+});
+
+// Only the latest customer change may set the price list
+let priceListRequest = 0;
+
 interface CartState {
   cartItems: CartItem[];
   addToCart: (product: Product, quantity: number) => void;
@@ -15,14 +33,27 @@ interface CartState {
   isCartOpen: boolean;
   setIsCartOpen: (open: boolean) => void;
   selectedQuantities: Record<string, number>;
+  billDiscount: Discount | null;
+  defaultDiscountRate: number; // From Settings, applied to every new line
+  taxOptions: TaxOptions;
+  loadSalesSettings: () => Promise<void>;
+  setLineDiscount: (productId: string, discount: Discount | null) => void;
+  setBillDiscount: (discount: Discount | null) => void;
+  updateCartPrices: (prices: { productId: string; costPrice: number; sellingPrice: number }[]) => string[];
+  priceList: PriceListWithItems | null; // From the selected customer
+  applyCustomerPriceList: (customerId: string | null) => Promise<void>;
 }
 
 export const useCartStore = create<CartState>((set, get) => ({
   cartItems: [],
   isCartOpen: false,
   selectedQuantities: {},
+  billDiscount: null,
+  defaultDiscountRate: 0,
+  taxOptions: { storeTaxRate: 0, pricesIncludeTax: false },
+  priceList: null,
   addToCart: (product, quantity) => {
-    let quantityToSet = quantity;
+    let quantityToSet = roundQuantity(quantity);
     if (quantityToSet <= 0) {
       set((state) => ({
         cartItems: state.cartItems.filter((item) => item.id !== product.id),
@@ -38,10 +69,18 @@ export const useCartStore = create<CartState>((set, get) => ({
       let newCartItems;
       if (existingItem) {
         newCartItems = state.cartItems.map((item) =>
-          item.id === product.id ? { ...item, quantityInCart: quantityToSet } : item
+          item.id === product.id ? priceCartItem({ ...item, quantityInCart: quantityToSet }, state.priceList) : item
         );
       } else {
-        newCartItems = [...state.cartItems, { ...product, quantityInCart: quantityToSet }];
+        const lineDiscount: Discount | null =
+          state.defaultDiscountRate > 0 ? { type: 'PERCENT', value: state.defaultDiscountRate } : null;
+        newCartItems = [
+          ...state.cartItems,
+          priceCartItem(
+            { ...product, catalogPrice: product.sellingPrice, quantityInCart: quantityToSet, lineDiscount },
+            state.priceList
+          ),
+        ];
       }
       return {
         cartItems: newCartItems,
@@ -55,10 +94,11 @@ export const useCartStore = create<CartState>((set, get) => ({
       if (!item) return state;
       const maxStock = item.quantity;
       if (item.quantityInCart >= maxStock) return state;
-      const newQty = item.quantityInCart + 1;
+      // Loose items step by their own amount, e.g. 0.25 kg; the last step stops at the stock left
+      const newQty = roundQuantity(Math.min(item.quantityInCart + getQuantityStep(item), maxStock));
       return {
         cartItems: state.cartItems.map((i) =>
-          i.id === productId ? { ...i, quantityInCart: newQty } : i
+          i.id === productId ? priceCartItem({ ...i, quantityInCart: newQty }, state.priceList) : i
         ),
         selectedQuantities: { ...state.selectedQuantities, [productId]: newQty },
       };
@@ -68,7 +108,7 @@ export const useCartStore = create<CartState>((set, get) => ({
     set((state) => {
       const item = state.cartItems.find((i) => i.id === productId);
       if (!item) return state;
-      const newQty = item.quantityInCart - 1;
+      const newQty = roundQuantity(item.quantityInCart - getQuantityStep(item));
       if (newQty <= 0) {
         return {
           cartItems: state.cartItems.filter((i) => i.id !== productId),
@@ -78,7 +118,7 @@ export const useCartStore = create<CartState>((set, get) => ({
       }
       return {
         cartItems: state.cartItems.map((i) =>
-          i.id === productId ? { ...i, quantityInCart: newQty } : i
+          i.id === productId ? priceCartItem({ ...i, quantityInCart: newQty }, state.priceList) : i
         ),
         selectedQuantities: { ...state.selectedQuantities, [productId]: newQty },
       };
@@ -92,7 +132,66 @@ export const useCartStore = create<CartState>((set, get) => ({
     }));
   },
   clearCart: () => {
-    set({ cartItems: [], selectedQuantities: {}, isCartOpen: false });
+    set({ cartItems: [], selectedQuantities: {}, isCartOpen: false, billDiscount: null });
+  },
+  loadSalesSettings: async () => {
+    const userId = useAuthStore.getState().userId;
+    if (!userId) return;
+    try {
+      const settings = await getSalesSettings(userId);
+      set({
+        defaultDiscountRate: settings.defaultDiscountRate,
+        taxOptions: { storeTaxRate: settings.taxRate, pricesIncludeTax: settings.pricesIncludeTax },
+      });
+    } catch (error) {
+      console.error('Failed to load sales settings:', error);
+    }
+  },
+  setLineDiscount: (productId, discount) => {
+    set((state) => ({
+      cartItems: state.cartItems.map((item) =>
+        item.id === productId ? { ...item, lineDiscount: discount } : item
+      ),
+    }));
+  },
+  setBillDiscount: (discount) => set({ billDiscount: discount }),
+  // Picks up prices that changed while the bill was open; returns the names of the lines that changed
+  updateCartPrices: (prices) => {
+    const byProduct = new Map(prices.map((p) => [p.productId, p]));
+    const { cartItems, priceList } = get();
+    const changed = cartItems.filter((item) => {
+      const price = byProduct.get(item.id);
+      return price && (price.sellingPrice !== item.catalogPrice || price.costPrice !== item.costPrice);
+    });
+    if (changed.length === 0) return [];
+    const updatedItems = cartItems.map((item) => {
+      const price = byProduct.get(item.id);
+      return price
+        ? priceCartItem({ ...item, costPrice: price.costPrice, catalogPrice: price.sellingPrice }, priceList)
+        : item;
+    });
+    set({ cartItems: updatedItems });
+    return updatedItems
+      .filter((item, index) => item.sellingPrice !== cartItems[index].sellingPrice)
+      .map((item) => item.name);
+  },
+  // Switches the bill to the customer's price list, or back to catalogue prices when there is none
+  applyCustomerPriceList: async (customerId) => {
+    const request = ++priceListRequest;
+    const userId = useAuthStore.getState().userId;
+    let priceList: PriceListWithItems | null = null;
+    if (userId && customerId && !customerId.startsWith('temp-')) {
+      try {
+        priceList = await getCustomerPriceList(userId, customerId);
+      } catch (error) {
+        console.error('Failed to load customer price list:', error);
+      }
+    }
+    if (request !== priceListRequest) return;
+    set((state) => ({
+      priceList,
+      cartItems: state.cartItems.map((item) => priceCartItem(item, priceList)),
+    }));
   },
   setIsCartOpen: (open) => set({ isCartOpen: open }),
 }));
\ No newline at end of file
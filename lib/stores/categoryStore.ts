@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { getAllCategories, addCategory, updateCategory, deleteCategory } from '../db/categoryOperations';
 
 import { useAuthStore } from './authStore';
+import { useProductStore } from './productStore';
 import { Category } from './types';
 
 interface CategoryStoreState {
@@ -101,6 +102,10 @@ export const useCategoryStore = create<CategoryStoreState>((set) => ({
           isLoading: false,
         };
       });
+      // Products show the category name, which a rename has just changed
+      if (updates.name) {
+        await useProductStore.getState().fetchProducts();
+      }
     } catch (error: any) {
       console.error('Failed to update category:', error);
       set({
@@ -0,0 +1,117 @@
+import { create } from 'zustand';
+import {
+  createPaymentCommitment,
+  CreateCommitmentInput,
+  deletePaymentCommitment,
+  getPaymentCommitments,
+  resolveLapsedCommitments,
+} from '../db/commitmentOperations';
+import { PaymentCommitment, PaymentCommitmentWithDetails } from './types';
+import { useAuthStore } from './authStore';
+
+interface CommitmentStoreState {
+  commitments: PaymentCommitmentWithDetails[];
+  isLoading: boolean;
+  error: string | null;
+  fetchCommitments: () => Promise<void>;
+  addCommitment: (input: CreateCommitmentInput) => Promise<PaymentCommitment>;
+  deleteCommitment: (commitmentId: string) => Promise<void>;
+  resolveLapsedCommitments: () => Promise<void>;
+  clearError: () => void;
+}
+
+export const useCommitmentStore = create<CommitmentStoreState>((set, get) => ({
+  commitments: [],
+  isLoading: false,
+  error: null,
+  fetchCommitments: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch payment promises.';
+        console.warn(errorMessage);
+        set({ isLoading: false, commitments: [], error: errorMessage });
+        return;
+      }
+
+      const commitments = await getPaymentCommitments(userId);
+      set({ commitments, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch payment promises:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch payment promises',
+        isLoading: false,
+      });
+    }
+  },
+  addCommitment: async (input) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot record payment promise.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      const commitment = await createPaymentCommitment(userId, input);
+      const commitments = await getPaymentCommitments(userId);
+      set({ commitments, isLoading: false });
+      return commitment;
+    } catch (error: any) {
+      console.error('Failed to record payment promise:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to record payment promise',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  deleteCommitment: async (commitmentId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot delete payment promise.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await deletePaymentCommitment(userId, commitmentId);
+      set({
+        commitments: get().commitments.filter(c => c.id !== commitmentId),
+        isLoading: false,
+      });
+    } catch (error: any) {
+      console.error('Failed to delete payment promise:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to delete payment promise',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  // Part of the daily khata jobs: closes out promises whose day has passed
+  resolveLapsedCommitments: async () => {
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        console.warn('User not authenticated to update payment promises.');
+        return;
+      }
+
+      await resolveLapsedCommitments(userId);
+    } catch (error: any) {
+      console.error('Failed to update lapsed payment promises:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to update lapsed payment promises' });
+    }
+  },
+  clearError: () => set({ error: null }),
+}));
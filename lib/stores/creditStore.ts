@@ -0,0 +1,121 @@
+import { create } from 'zustand';
+import { getCustomerLedger, getOpenCreditSales, recordCreditRepayment, RecordRepaymentInput } from '../db/creditOperations';
+import { getLatestCreditScores, runCreditHistoryJob } from '../db/creditHistoryOperations';
+import { CreditPayment, CustomerLedgerEntry, OpenCreditSale } from './types';
+import { useAuthStore } from './authStore';
+import { useCustomerStore } from './customerStore';
+import { useCommitmentStore } from './commitmentStore';
+
+interface CreditStoreState {
+  ledger: CustomerLedgerEntry[];
+  openCreditSales: OpenCreditSale[];
+  creditScores: Record<string, number | null>; // Latest score per customer id
+  isLoading: boolean;
+  error: string | null;
+  fetchLedger: (customerId: string) => Promise<void>;
+  fetchOpenCreditSales: (customerId: string) => Promise<void>;
+  recordRepayment: (input: RecordRepaymentInput) => Promise<CreditPayment[]>;
+  refreshCreditScores: (force?: boolean) => Promise<void>;
+  clearError: () => void;
+}
+
+export const useCreditStore = create<CreditStoreState>((set, get) => ({
+  ledger: [],
+  openCreditSales: [],
+  creditScores: {},
+  isLoading: false,
+  error: null,
+  fetchLedger: async (customerId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch the customer ledger.';
+        console.warn(errorMessage);
+        set({ isLoading: false, ledger: [], error: errorMessage });
+        return;
+      }
+
+      const ledger = await getCustomerLedger(userId, customerId);
+      set({ ledger, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch customer ledger:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch customer ledger',
+        isLoading: false,
+      });
+    }
+  },
+  fetchOpenCreditSales: async (customerId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch open credit sales.';
+        console.warn(errorMessage);
+        set({ isLoading: false, openCreditSales: [], error: errorMessage });
+        return;
+      }
+
+      const openCreditSales = await getOpenCreditSales(userId, customerId);
+      set({ openCreditSales, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch open credit sales:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch open credit sales',
+        isLoading: false,
+      });
+    }
+  },
+  recordRepayment: async (input) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot record repayment.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      const payments = await recordCreditRepayment(userId, input);
+      const openCreditSales = await getOpenCreditSales(userId, input.customerId);
+      set({ openCreditSales, isLoading: false });
+      await useCustomerStore.getState().fetchCustomers();
+      // Repayments can settle promises and move the credit score, so refresh both
+      await useCommitmentStore.getState().fetchCommitments();
+      await get().refreshCreditScores(true);
+      return payments;
+    } catch (error: any) {
+      console.error('Failed to record repayment:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to record repayment',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  // Runs the daily credit history job (unless forced) and loads the latest scores
+  refreshCreditScores: async (force = false) => {
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        console.warn('User not authenticated to refresh credit scores.');
+        set({ creditScores: {} });
+        return;
+      }
+
+      await runCreditHistoryJob(userId, force);
+      const creditScores = await getLatestCreditScores(userId);
+      set({ creditScores });
+    } catch (error: any) {
+      console.error('Failed to refresh credit scores:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to refresh credit scores' });
+    }
+  },
+  clearError: () => set({ error: null }),
+}));
@@ -0,0 +1,224 @@
+import { create } from 'zustand';
+import { getDraftSales, getDraftSaleItems, createDraftSale, deleteDraftSale, deleteExpiredDraftSales } from '../db/draftSaleOperations';
+import { DraftSale } from './types';
+import { useAuthStore } from './authStore';
+import { useCartStore } from './cartStore';
+import { useCustomerStore } from './customerStore';
+import { useProductStore } from './productStore';
+import { PAYMENT_METHODS } from '../constants';
+
+interface ResumeResult {
+  draftSale: DraftSale;
+  // Names of items that could not be restored in full (deleted or short on stock)
+  adjustedItems: string[];
+}
+
+interface DraftSaleStoreState {
+  draftSales: DraftSale[];
+  isLoading: boolean;
+  error: string | null;
+  fetchDraftSales: () => Promise<void>;
+  holdCurrentSale: (notes?: string | null) => Promise<DraftSale>;
+  resumeDraftSale: (draftSaleId: string) => Promise<ResumeResult>;
+  deleteDraftSale: (draftSaleId: string) => Promise<void>;
+  purgeExpiredDraftSales: () => Promise<void>;
+  clearError: () => void;
+}
+
+export const useDraftSaleStore = create<DraftSaleStoreState>((set, get) => ({
+  draftSales: [],
+  isLoading: false,
+  error: null,
+  fetchDraftSales: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const authState = useAuthStore.getState();
+      const userId = authState.userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch held bills.';
+        console.warn(errorMessage);
+        set({ isLoading: false, draftSales: [], error: errorMessage });
+        return;
+      }
+
+      const draftSales = await getDraftSales(userId);
+      set({ draftSales, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch held bills:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch held bills',
+        isLoading: false,
+      });
+    }
+  },
+  holdCurrentSale: async (notes) => {
+    set({ isLoading: true, error: null });
+    try {
+      const authState = useAuthStore.getState();
+      const userId = authState.userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to hold bill.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      // Clear out bills that have expired while we are writing anyway
+      await deleteExpiredDraftSales(userId);
+      const { cartItems, billDiscount, clearCart } = useCartStore.getState();
+      const { selectedCustomer, setSelectedCustomer, setSelectedPaymentMethod } = useCustomerStore.getState();
+
+      const draftSale = await createDraftSale(userId, {
+        items: cartItems.map((item) => ({
+          productId: item.id,
+          quantity: item.quantityInCart,
+          unitPrice: item.sellingPrice,
+          catalogPrice: item.catalogPrice,
+          discount: item.lineDiscount,
+        })),
+        billDiscount,
+        customerId: selectedCustomer && !selectedCustomer.id.startsWith('temp-') ? selectedCustomer.id : null,
+        customerName: selectedCustomer?.name || null,
+        customerPhone: selectedCustomer?.phone || null,
+        notes: notes?.trim() || null,
+      });
+
+      clearCart();
+      setSelectedCustomer(null);
+      setSelectedPaymentMethod(PAYMENT_METHODS[0].value);
+      set((state) => ({
+        draftSales: [draftSale, ...state.draftSales],
+        isLoading: false,
+      }));
+      return draftSale;
+    } catch (error: any) {
+      console.error('Failed to hold bill:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to hold bill.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  resumeDraftSale: async (draftSaleId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const authState = useAuthStore.getState();
+      const userId = authState.userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to resume bill.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      const draftSale = get().draftSales.find((d) => d.id === draftSaleId);
+      if (!draftSale) {
+        throw new Error('Held bill not found or has expired.');
+      }
+      if (useCartStore.getState().cartItems.length > 0) {
+        throw new Error('Hold or clear the current bill before resuming another.');
+      }
+
+      const items = await getDraftSaleItems(userId, draftSaleId);
+
+      // Stock may have moved while the bill was parked, so rebuild the cart
+      // from the current product list rather than the stored snapshot.
+      // Prices and discounts are the ones the customer was quoted when it was held.
+      await useProductStore.getState().fetchProducts();
+      const products = useProductStore.getState().products;
+      const { addToCart, setLineDiscount, setBillDiscount } = useCartStore.getState();
+      const adjustedItems: string[] = [];
+
+      for (const item of items) {
+        const product = products.find((p) => p.id === item.productId);
+        if (!product || product.quantity <= 0) {
+          adjustedItems.push(product?.name || 'Unknown Product');
+          continue;
+        }
+        if (item.quantity > product.quantity) {
+          adjustedItems.push(product.name);
+        }
+        addToCart({ ...product, sellingPrice: item.catalogPrice ?? product.sellingPrice }, item.quantity);
+        setLineDiscount(product.id, item.discountType ? { type: item.discountType, value: item.discount } : null);
+      }
+      setBillDiscount(draftSale.billDiscountType ? { type: draftSale.billDiscountType, value: draftSale.billDiscount ?? 0 } : null);
+
+      const customerStore = useCustomerStore.getState();
+      if (draftSale.customerId) {
+        let customer = customerStore.customers.find((c) => c.id === draftSale.customerId);
+        if (!customer) {
+          await customerStore.fetchCustomers();
+          customer = useCustomerStore.getState().customers.find((c) => c.id === draftSale.customerId);
+        }
+        customerStore.setSelectedCustomer(customer || null);
+      } else {
+        customerStore.setSelectedCustomer(null);
+      }
+
+      await deleteDraftSale(userId, draftSaleId);
+      set((state) => ({
+        draftSales: state.draftSales.filter((d) => d.id !== draftSaleId),
+        isLoading: false,
+      }));
+      return { draftSale, adjustedItems };
+    } catch (error: any) {
+      console.error('Failed to resume held bill:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to resume held bill.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  deleteDraftSale: async (draftSaleId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const authState = useAuthStore.getState();
+      const userId = authState.userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to delete held bill.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await deleteDraftSale(userId, draftSaleId);
+      set((state) => ({
+        draftSales: state.draftSales.filter((d) => d.id !== draftSaleId),
+        isLoading: false,
+      }));
+    } catch (error: any) {
+      console.error('Failed to delete held bill:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to delete held bill.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  purgeExpiredDraftSales: async () => {
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        console.warn('User not authenticated to clean up held bills.');
+        return;
+      }
+
+      await deleteExpiredDraftSales(userId);
+      const now = new Date().toISOString();
+      set((state) => ({
+        draftSales: state.draftSales.filter((d) => !d.expiryTime || d.expiryTime > now),
+      }));
+    } catch (error: any) {
+      console.error('Failed to clean up held bills:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to clean up held bills' });
+    }
+  },
+  clearError: () => set({ error: null }),
+}));
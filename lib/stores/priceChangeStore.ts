@@ -0,0 +1,149 @@
+import { create } from 'zustand';
+import {
+  AppliedPriceChange,
+  applyDuePriceChanges,
+  cancelScheduledPriceChange,
+  getPriceHistory,
+  getScheduledPriceChanges,
+  NewScheduledPriceChangeInput,
+  schedulePriceChange,
+} from '../db/priceChangeOperations';
+import { PriceHistoryEntry, ScheduledPriceChangeWithProduct } from './types';
+import { useAuthStore } from './authStore';
+import { useProductStore } from './productStore';
+
+interface PriceChangeStoreState {
+  history: PriceHistoryEntry[]; // For the product last passed to fetchHistory
+  scheduledChanges: ScheduledPriceChangeWithProduct[];
+  isLoading: boolean;
+  error: string | null;
+  fetchHistory: (productId: string) => Promise<void>;
+  fetchScheduledChanges: (productId?: string | null) => Promise<void>;
+  schedulePriceChange: (input: NewScheduledPriceChangeInput) => Promise<void>;
+  cancelScheduledChange: (id: string) => Promise<void>;
+  applyDuePriceChanges: () => Promise<AppliedPriceChange[]>;
+  clearError: () => void;
+}
+
+export const usePriceChangeStore = create<PriceChangeStoreState>((set, get) => ({
+  history: [],
+  scheduledChanges: [],
+  isLoading: false,
+  error: null,
+  fetchHistory: async (productId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch price history.';
+        console.warn(errorMessage);
+        set({ isLoading: false, history: [], error: errorMessage });
+        return;
+      }
+
+      const history = await getPriceHistory(userId, productId);
+      set({ history, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch price history:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch price history',
+        isLoading: false,
+      });
+    }
+  },
+  fetchScheduledChanges: async (productId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch scheduled price changes.';
+        console.warn(errorMessage);
+        set({ isLoading: false, scheduledChanges: [], error: errorMessage });
+        return;
+      }
+
+      const scheduledChanges = await getScheduledPriceChanges(userId, productId);
+      set({ scheduledChanges, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch scheduled price changes:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch scheduled price changes',
+        isLoading: false,
+      });
+    }
+  },
+  schedulePriceChange: async (input) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot schedule price change.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await schedulePriceChange(userId, input);
+      set({ isLoading: false });
+      await get().fetchScheduledChanges(input.productId);
+    } catch (error: any) {
+      console.error('Failed to schedule price change:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to schedule the price change.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  cancelScheduledChange: async (id) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot cancel price change.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await cancelScheduledPriceChange(userId, id);
+      set({
+        scheduledChanges: get().scheduledChanges.map(c => (c.id === id ? { ...c, status: 'CANCELLED' } : c)),
+        isLoading: false,
+      });
+    } catch (error: any) {
+      console.error('Failed to cancel price change:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to cancel the price change.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  // Run at app start and at checkout; products are reloaded only when a price moved
+  applyDuePriceChanges: async () => {
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        console.warn('User not authenticated. Cannot apply scheduled price changes.');
+        return [];
+      }
+
+      const applied = await applyDuePriceChanges(userId);
+      if (applied.length > 0) {
+        await useProductStore.getState().fetchProducts();
+      }
+      return applied;
+    } catch (error: any) {
+      console.error('Failed to apply scheduled price changes:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to apply scheduled price changes.' });
+      return [];
+    }
+  },
+  clearError: () => set({ error: null }),
+}));
@@ -0,0 +1,204 @@
+import { create } from 'zustand';
+import {
+  addPriceList,
+  deletePriceList,
+  getPriceListItems,
+  getPriceLists,
+  PriceListInput,
+  PriceListItemInput,
+  removePriceListItem,
+  setPriceListItem,
+  updatePriceList,
+} from '../db/priceListOperations';
+import { PriceList, PriceListItemWithProduct, PriceListWithCounts } from './types';
+import { useAuthStore } from './authStore';
+import { useCustomerStore } from './customerStore';
+
+interface PriceListStoreState {
+  priceLists: PriceListWithCounts[];
+  items: PriceListItemWithProduct[]; // For the price list last passed to fetchItems
+  isLoading: boolean;
+  error: string | null;
+  fetchPriceLists: () => Promise<void>;
+  fetchItems: (priceListId: string) => Promise<void>;
+  addPriceList: (input: PriceListInput) => Promise<PriceList>;
+  updatePriceList: (id: string, updates: Partial<PriceListInput>) => Promise<void>;
+  deletePriceList: (id: string) => Promise<void>;
+  setItem: (input: PriceListItemInput) => Promise<void>;
+  removeItem: (itemId: string) => Promise<void>;
+  clearError: () => void;
+}
+
+export const usePriceListStore = create<PriceListStoreState>((set, get) => ({
+  priceLists: [],
+  items: [],
+  isLoading: false,
+  error: null,
+  fetchPriceLists: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch price lists.';
+        console.warn(errorMessage);
+        set({ isLoading: false, priceLists: [], error: errorMessage });
+        return;
+      }
+
+      const priceLists = await getPriceLists(userId);
+      set({ priceLists, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch price lists:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch price lists',
+        isLoading: false,
+      });
+    }
+  },
+  fetchItems: async (priceListId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch price list items.';
+        console.warn(errorMessage);
+        set({ isLoading: false, items: [], error: errorMessage });
+        return;
+      }
+
+      const items = await getPriceListItems(userId, priceListId);
+      set({ items, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch price list items:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch price list items',
+        isLoading: false,
+      });
+    }
+  },
+  addPriceList: async (input) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot add price list.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      const priceList = await addPriceList(userId, input);
+      set({ isLoading: false });
+      await get().fetchPriceLists();
+      return priceList;
+    } catch (error: any) {
+      console.error('Failed to add price list:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to add price list.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  updatePriceList: async (id, updates) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot update price list.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await updatePriceList(userId, id, updates);
+      set({ isLoading: false });
+      await get().fetchPriceLists();
+    } catch (error: any) {
+      console.error('Failed to update price list:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to update price list.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  // Customers on the list are moved back to normal prices, so they are reloaded too
+  deletePriceList: async (id) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot delete price list.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await deletePriceList(userId, id);
+      set({ priceLists: get().priceLists.filter(pl => pl.id !== id), isLoading: false });
+      await useCustomerStore.getState().fetchCustomers();
+    } catch (error: any) {
+      console.error('Failed to delete price list:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to delete price list.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  setItem: async (input) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot save price.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await setPriceListItem(userId, input);
+      set({ isLoading: false });
+      await Promise.all([get().fetchItems(input.priceListId), get().fetchPriceLists()]);
+    } catch (error: any) {
+      console.error('Failed to save price list item:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to save the price.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  removeItem: async (itemId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot remove price.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await removePriceListItem(userId, itemId);
+      set({ items: get().items.filter(item => item.id !== itemId), isLoading: false });
+      await get().fetchPriceLists();
+    } catch (error: any) {
+      console.error('Failed to remove price list item:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to remove the price.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  clearError: () => set({ error: null }),
+}));
@@ -0,0 +1,99 @@
+import { create } from 'zustand';
+import { getProductsCsv, importProductRows, previewProductImport } from '../db/productCsvOperations';
+import { ProductCsvMapping, ProductImportResult, ProductImportRow } from './types';
+import { useAuthStore } from './authStore';
+import { useProductStore } from './productStore';
+import { useCategoryStore } from './categoryStore';
+
+interface ProductImportStoreState {
+  previewRows: ProductImportRow[];
+  isLoading: boolean;
+  error: string | null;
+  previewImport: (rows: string[][], mapping: ProductCsvMapping) => Promise<void>;
+  importPreviewedRows: () => Promise<ProductImportResult>;
+  exportProducts: () => Promise<string>;
+  clearPreview: () => void;
+  clearError: () => void;
+}
+
+export const useProductImportStore = create<ProductImportStoreState>((set, get) => ({
+  previewRows: [],
+  isLoading: false,
+  error: null,
+  previewImport: async (rows, mapping) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to check the import.';
+        console.warn(errorMessage);
+        set({ isLoading: false, previewRows: [], error: errorMessage });
+        return;
+      }
+
+      const previewRows = await previewProductImport(userId, rows, mapping);
+      set({ previewRows, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to preview product import:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to check the import file.',
+        isLoading: false,
+      });
+    }
+  },
+  importPreviewedRows: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot import products.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      const result = await importProductRows(userId, get().previewRows);
+      set({ previewRows: [], isLoading: false });
+      await Promise.all([
+        useProductStore.getState().fetchProducts(),
+        useCategoryStore.getState().fetchCategories(),
+      ]);
+      return result;
+    } catch (error: any) {
+      console.error('Failed to import products:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to import products.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  exportProducts: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot export products.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      const csv = await getProductsCsv(userId);
+      set({ isLoading: false });
+      return csv;
+    } catch (error: any) {
+      console.error('Failed to export products:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to export products.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  clearPreview: () => set({ previewRows: [] }),
+  clearError: () => set({ error: null }),
+}));
@@ -3,6 +3,7 @@
 import { create } from 'zustand';
 import { Product, ProductInput, ProductModel } from '../models/product';
 import { useAuthStore } from './authStore';
+import { getReorderLevel } from '../utils/stockUtils';
 
 interface ProductState {
   products: Product[];
@@ -16,6 +17,7 @@ interface ProductState {
   addProduct: (product: Omit<ProductInput, 'userId'>) => Promise<Product>;
   updateProduct: (id: string, product: Partial<Omit<ProductInput, 'userId'>>) => Promise<void>;
   deleteProduct: (id: string) => Promise<void>;
+  findProductByCode: (code: string) => Promise<Product | null>;
 }
 
 export const useProductStore = create<ProductState>((set, get) => ({
@@ -99,7 +101,7 @@ export const useProductStore = create<ProductState>((set, get) => ({
       }));
 
       // If the new product has low stock, update lowStockProducts
-      if (newProduct.quantity < 5) {
+      if (newProduct.quantity <= getReorderLevel(newProduct)) {
         get().fetchLowStockProducts();
       }
 
@@ -167,5 +169,25 @@ export const useProductStore = create<ProductState>((set, get) => ({
       set({ error: 'Failed to delete product.', loading: false });
       throw error;
     }
+  },
+
+  // Barcode or alternate code lookup; checks loaded products before the database
+  findProductByCode: async (code: string) => {
+    const trimmed = code.trim();
+    if (!trimmed) return null;
+    const loaded = get().products.find(p => p.barcode === trimmed || p.alternateCode === trimmed);
+    if (loaded) return loaded;
+
+    const userId = useAuthStore.getState().userId;
+    if (!userId) {
+      console.warn('User not authenticated to look up products.');
+      return null;
+    }
+    try {
+      return await ProductModel.getByCode(trimmed, userId);
+    } catch (error: any) {
+      console.error('Error looking up product by code:', error);
+      return null;
+    }
   }
 }));
\ No newline at end of file
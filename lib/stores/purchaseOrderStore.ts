@@ -0,0 +1,158 @@
+import { create } from 'zustand';
+import {
+  closePurchaseOrder,
+  createPurchaseOrder,
+  getPurchaseOrderItems,
+  getPurchaseOrders,
+  GoodsReceiptLine,
+  NewPurchaseOrderInput,
+  receivePurchaseOrder,
+} from '../db/purchaseOrderOperations';
+import { PurchaseOrder, PurchaseOrderItemWithProduct, PurchaseOrderStatus, PurchaseOrderWithTotals } from './types';
+import { useAuthStore } from './authStore';
+import { useProductStore } from './productStore';
+
+interface PurchaseOrderStoreState {
+  orders: PurchaseOrderWithTotals[];
+  orderItems: PurchaseOrderItemWithProduct[]; // For the order last passed to fetchOrderItems
+  isLoading: boolean;
+  error: string | null;
+  fetchOrders: () => Promise<void>;
+  fetchOrderItems: (purchaseOrderId: string) => Promise<void>;
+  createOrder: (input: NewPurchaseOrderInput) => Promise<PurchaseOrder>;
+  receiveGoods: (purchaseOrderId: string, lines: GoodsReceiptLine[]) => Promise<PurchaseOrderStatus>;
+  closeOrder: (purchaseOrderId: string) => Promise<void>;
+  clearError: () => void;
+}
+
+export const usePurchaseOrderStore = create<PurchaseOrderStoreState>((set, get) => ({
+  orders: [],
+  orderItems: [],
+  isLoading: false,
+  error: null,
+  fetchOrders: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch purchase orders.';
+        console.warn(errorMessage);
+        set({ isLoading: false, orders: [], error: errorMessage });
+        return;
+      }
+
+      const orders = await getPurchaseOrders(userId);
+      set({ orders, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch purchase orders:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch purchase orders',
+        isLoading: false,
+      });
+    }
+  },
+  fetchOrderItems: async (purchaseOrderId) => {
+    set({ isLoading: true, error: null, orderItems: [] });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch purchase order items.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        return;
+      }
+
+      const orderItems = await getPurchaseOrderItems(userId, purchaseOrderId);
+      set({ orderItems, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch purchase order items:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch purchase order items',
+        isLoading: false,
+      });
+    }
+  },
+  createOrder: async (input) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot create purchase order.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      const order = await createPurchaseOrder(userId, input);
+      set({ isLoading: false });
+      await get().fetchOrders();
+      return order;
+    } catch (error: any) {
+      console.error('Failed to create purchase order:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to create purchase order.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  receiveGoods: async (purchaseOrderId, lines) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot receive goods.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      const status = await receivePurchaseOrder(userId, purchaseOrderId, lines);
+      set({ isLoading: false });
+      await Promise.all([
+        get().fetchOrders(),
+        get().fetchOrderItems(purchaseOrderId),
+        useProductStore.getState().fetchProducts(),
+      ]);
+      return status;
+    } catch (error: any) {
+      console.error('Failed to receive goods:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to receive goods.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  closeOrder: async (purchaseOrderId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot close purchase order.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await closePurchaseOrder(userId, purchaseOrderId);
+      set({
+        orders: get().orders.map(o => (o.id === purchaseOrderId ? { ...o, status: 'CLOSED' } : o)),
+        isLoading: false,
+      });
+    } catch (error: any) {
+      console.error('Failed to close purchase order:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to close purchase order.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  clearError: () => set({ error: null }),
+}));
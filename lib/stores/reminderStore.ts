@@ -0,0 +1,130 @@
+import { create } from 'zustand';
+import {
+  generatePaymentReminders,
+  getPendingReminders,
+  getReminderStoreName,
+  getSentReminders,
+  getUpcomingReminders,
+  markReminderSent,
+  recordReminderResponse,
+} from '../db/reminderOperations';
+import { PaymentReminderWithDetails } from './types';
+import { useAuthStore } from './authStore';
+import { cancelReminderNotifications, scheduleReminderNotifications } from '../utils/reminderUtils';
+
+interface ReminderStoreState {
+  pendingReminders: PaymentReminderWithDetails[];
+  sentReminders: PaymentReminderWithDetails[];
+  storeName: string | null;
+  isLoading: boolean;
+  error: string | null;
+  refreshReminders: () => Promise<void>;
+  markSent: (reminderId: string, sentVia: string) => Promise<void>;
+  recordResponse: (reminderId: string, responseNotes: string) => Promise<void>;
+  clearError: () => void;
+}
+
+export const useReminderStore = create<ReminderStoreState>((set, get) => ({
+  pendingReminders: [],
+  sentReminders: [],
+  storeName: null,
+  isLoading: false,
+  error: null,
+  // Generates due reminders, schedules notifications for upcoming ones and reloads the lists
+  refreshReminders: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch payment reminders.';
+        console.warn(errorMessage);
+        set({ isLoading: false, pendingReminders: [], sentReminders: [], error: errorMessage });
+        return;
+      }
+
+      const { created, removedIds } = await generatePaymentReminders(userId);
+      const [pendingReminders, sentReminders, storeName] = await Promise.all([
+        getPendingReminders(userId),
+        getSentReminders(userId),
+        getReminderStoreName(userId),
+      ]);
+      set({ pendingReminders, sentReminders, storeName, isLoading: false });
+
+      // Notifications are best effort; a denied permission should not break the list
+      try {
+        await cancelReminderNotifications(removedIds);
+        if (created.length > 0) {
+          const createdIds = new Set(created.map(r => r.id));
+          const upcoming = await getUpcomingReminders(userId);
+          await scheduleReminderNotifications(upcoming.filter(r => createdIds.has(r.id)));
+        }
+      } catch (notificationError) {
+        console.warn('Could not schedule reminder notifications:', notificationError);
+      }
+    } catch (error: any) {
+      console.error('Failed to refresh payment reminders:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to refresh payment reminders',
+        isLoading: false,
+      });
+    }
+  },
+  markSent: async (reminderId, sentVia) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot update reminder.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await markReminderSent(userId, reminderId, sentVia);
+      const [pendingReminders, sentReminders] = await Promise.all([
+        getPendingReminders(userId),
+        getSentReminders(userId),
+      ]);
+      set({ pendingReminders, sentReminders, isLoading: false });
+      await cancelReminderNotifications([reminderId]).catch(() => undefined);
+    } catch (error: any) {
+      console.error('Failed to mark reminder as sent:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to update reminder',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  recordResponse: async (reminderId, responseNotes) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot update reminder.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await recordReminderResponse(userId, reminderId, responseNotes);
+      set({
+        sentReminders: get().sentReminders.map(r =>
+          r.id === reminderId ? { ...r, responseReceived: true, responseNotes: responseNotes.trim() || null } : r
+        ),
+        isLoading: false,
+      });
+    } catch (error: any) {
+      console.error('Failed to record reminder response:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to update reminder',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  clearError: () => set({ error: null }),
+}));
@@ -0,0 +1,99 @@
+import { create } from 'zustand';
+import {
+  getStockAdjustments,
+  getStockAdjustmentSummary,
+  recordStockAdjustment,
+  StockAdjustmentInput,
+} from '../db/stockAdjustmentOperations';
+import { StockAdjustment, StockAdjustmentSummary, StockAdjustmentWithDetails } from './types';
+import { useAuthStore } from './authStore';
+import { useProductStore } from './productStore';
+
+interface StockAdjustmentStoreState {
+  adjustments: StockAdjustmentWithDetails[];
+  summary: StockAdjustmentSummary[];
+  isLoading: boolean;
+  error: string | null;
+  fetchAdjustments: (options?: { productId?: string; from?: string; to?: string }) => Promise<void>;
+  fetchSummary: (from: string, to: string) => Promise<void>;
+  adjustStock: (input: StockAdjustmentInput) => Promise<StockAdjustment>;
+  clearError: () => void;
+}
+
+export const useStockAdjustmentStore = create<StockAdjustmentStoreState>((set) => ({
+  adjustments: [],
+  summary: [],
+  isLoading: false,
+  error: null,
+  fetchAdjustments: async (options = {}) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch stock adjustments.';
+        console.warn(errorMessage);
+        set({ isLoading: false, adjustments: [], error: errorMessage });
+        return;
+      }
+
+      const adjustments = await getStockAdjustments(userId, options);
+      set({ adjustments, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch stock adjustments:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch stock adjustments',
+        isLoading: false,
+      });
+    }
+  },
+  fetchSummary: async (from, to) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch stock adjustments.';
+        console.warn(errorMessage);
+        set({ isLoading: false, summary: [], error: errorMessage });
+        return;
+      }
+
+      const summary = await getStockAdjustmentSummary(userId, from, to);
+      set({ summary, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch stock adjustment summary:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch stock adjustment summary',
+        isLoading: false,
+      });
+    }
+  },
+  adjustStock: async (input) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot adjust stock.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      const adjustment = await recordStockAdjustment(userId, input);
+      const adjustments = await getStockAdjustments(userId, { productId: input.productId });
+      set({ adjustments, isLoading: false });
+      await useProductStore.getState().fetchProducts();
+      return adjustment;
+    } catch (error: any) {
+      console.error('Failed to adjust stock:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to adjust stock',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  clearError: () => set({ error: null }),
+}));
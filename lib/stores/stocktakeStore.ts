@@ -0,0 +1,193 @@
+import { create } from 'zustand';
+import {
+  applyStocktake,
+  cancelStocktake,
+  getStocktakeItems,
+  getStocktakes,
+  NewStocktakeInput,
+  recordStocktakeCount,
+  startStocktake,
+} from '../db/stocktakeOperations';
+import { Stocktake, StocktakeItemWithProduct, StocktakeWithTotals } from './types';
+import { useAuthStore } from './authStore';
+import { useProductStore } from './productStore';
+
+interface StocktakeStoreState {
+  stocktakes: StocktakeWithTotals[];
+  items: StocktakeItemWithProduct[]; // For the stocktake last passed to fetchItems
+  isLoading: boolean;
+  error: string | null;
+  fetchStocktakes: () => Promise<void>;
+  fetchItems: (stocktakeId: string) => Promise<void>;
+  startStocktake: (input: NewStocktakeInput) => Promise<Stocktake>;
+  recordCount: (stocktakeItemId: string, countedQuantity: number | null) => Promise<void>;
+  applyStocktake: (stocktakeId: string) => Promise<number>;
+  cancelStocktake: (stocktakeId: string) => Promise<void>;
+  clearError: () => void;
+}
+
+export const useStocktakeStore = create<StocktakeStoreState>((set, get) => ({
+  stocktakes: [],
+  items: [],
+  isLoading: false,
+  error: null,
+  fetchStocktakes: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch stocktakes.';
+        console.warn(errorMessage);
+        set({ isLoading: false, stocktakes: [], error: errorMessage });
+        return;
+      }
+
+      const stocktakes = await getStocktakes(userId);
+      set({ stocktakes, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch stocktakes:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch stocktakes',
+        isLoading: false,
+      });
+    }
+  },
+  fetchItems: async (stocktakeId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch stocktake items.';
+        console.warn(errorMessage);
+        set({ isLoading: false, items: [], error: errorMessage });
+        return;
+      }
+
+      const items = await getStocktakeItems(userId, stocktakeId);
+      set({ items, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch stocktake items:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch stocktake items',
+        isLoading: false,
+      });
+    }
+  },
+  startStocktake: async (input) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot start stocktake.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      const stocktake = await startStocktake(userId, input);
+      set({ isLoading: false });
+      await get().fetchStocktakes();
+      return stocktake;
+    } catch (error: any) {
+      console.error('Failed to start stocktake:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to start stocktake.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  // Counting is frequent, so only the changed item is refreshed rather than the whole list
+  recordCount: async (stocktakeItemId, countedQuantity) => {
+    set({ error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot save count.';
+        console.warn(errorMessage);
+        set({ error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      const systemQuantityAtCount = await recordStocktakeCount(userId, stocktakeItemId, countedQuantity);
+      const countedAt = new Date().toISOString();
+      set({
+        items: get().items.map(item =>
+          item.id === stocktakeItemId
+            ? {
+                ...item,
+                countedQuantity,
+                systemQuantityAtCount,
+                currentQuantity: systemQuantityAtCount ?? item.currentQuantity,
+                countedAt: countedQuantity == null ? null : countedAt,
+              }
+            : item
+        ),
+      });
+    } catch (error: any) {
+      console.error('Failed to save stocktake count:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to save the count.' });
+      throw error;
+    }
+  },
+  applyStocktake: async (stocktakeId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot apply stocktake.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      const adjusted = await applyStocktake(userId, stocktakeId);
+      set({ isLoading: false });
+      await Promise.all([
+        get().fetchStocktakes(),
+        get().fetchItems(stocktakeId),
+        useProductStore.getState().fetchProducts(),
+      ]);
+      return adjusted;
+    } catch (error: any) {
+      console.error('Failed to apply stocktake:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to apply stocktake.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  cancelStocktake: async (stocktakeId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated. Cannot cancel stocktake.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await cancelStocktake(userId, stocktakeId);
+      set({
+        stocktakes: get().stocktakes.map(s => (s.id === stocktakeId ? { ...s, status: 'CANCELLED' } : s)),
+        isLoading: false,
+      });
+    } catch (error: any) {
+      console.error('Failed to cancel stocktake:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to cancel stocktake.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  clearError: () => set({ error: null }),
+}));
@@ -0,0 +1,155 @@
+import { create } from 'zustand';
+import {
+  getAllSuppliers,
+  addSupplier,
+  updateSupplier,
+  deleteSupplier,
+  getSupplierPurchases,
+  SupplierInput,
+} from '../db/supplierOperations';
+import { Supplier, SupplierPurchase } from './types';
+import { useAuthStore } from './authStore';
+
+interface SupplierStoreState {
+  suppliers: Supplier[];
+  purchases: SupplierPurchase[]; // For the supplier last passed to fetchPurchases
+  isLoading: boolean;
+  error: string | null;
+  fetchSuppliers: () => Promise<void>;
+  addSupplier: (supplier: SupplierInput) => Promise<Supplier>;
+  updateSupplier: (supplierId: string, updates: Partial<SupplierInput>) => Promise<void>;
+  deleteSupplier: (supplierId: string) => Promise<void>;
+  fetchPurchases: (supplierId: string) => Promise<void>;
+  clearError: () => void;
+}
+
+export const useSupplierStore = create<SupplierStoreState>((set) => ({
+  suppliers: [],
+  purchases: [],
+  isLoading: false,
+  error: null,
+  fetchSuppliers: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch suppliers.';
+        console.warn(errorMessage);
+        set({ isLoading: false, suppliers: [], error: errorMessage });
+        return;
+      }
+
+      const suppliers = await getAllSuppliers(userId);
+      set({ suppliers, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch suppliers:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch suppliers',
+        isLoading: false,
+      });
+    }
+  },
+  addSupplier: async (supplierData) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to add supplier.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      const newSupplier = await addSupplier(userId, supplierData);
+      set((state) => ({
+        suppliers: [...state.suppliers, newSupplier].sort((a, b) => a.name.localeCompare(b.name)),
+        isLoading: false,
+      }));
+      return newSupplier;
+    } catch (error: any) {
+      console.error('Failed to add supplier:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to add supplier.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  updateSupplier: async (supplierId, updates) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to update supplier.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      const updatedSupplier = await updateSupplier(userId, supplierId, updates);
+      set((state) => ({
+        suppliers: state.suppliers.map((s) => (s.id === supplierId ? updatedSupplier : s)),
+        isLoading: false,
+      }));
+    } catch (error: any) {
+      console.error('Failed to update supplier:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to update supplier.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  deleteSupplier: async (supplierId) => {
+    set({ isLoading: true, error: null });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to delete supplier.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        throw new Error(errorMessage);
+      }
+
+      await deleteSupplier(userId, supplierId);
+      set((state) => ({
+        suppliers: state.suppliers.filter((s) => s.id !== supplierId),
+        isLoading: false,
+      }));
+    } catch (error: any) {
+      console.error('Failed to delete supplier:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to delete supplier.',
+        isLoading: false,
+      });
+      throw error;
+    }
+  },
+  fetchPurchases: async (supplierId) => {
+    set({ isLoading: true, error: null, purchases: [] });
+    try {
+      const userId = useAuthStore.getState().userId;
+
+      if (!userId) {
+        const errorMessage = 'User not authenticated to fetch purchase history.';
+        console.warn(errorMessage);
+        set({ isLoading: false, error: errorMessage });
+        return;
+      }
+
+      const purchases = await getSupplierPurchases(userId, supplierId);
+      set({ purchases, isLoading: false });
+    } catch (error: any) {
+      console.error('Failed to fetch purchase history:', error);
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch purchase history',
+        isLoading: false,
+      });
+    }
+  },
+  clearError: () => set({ error: null }),
+}));
@@ -1,6 +1,7 @@
 // ~/lib/stores/types.ts
 
 import { SQLiteBindValue } from "expo-sqlite";
+import { DiscountType } from "../utils/pricingUtils";
 
 export interface Product {
     unit: string;
@@ -11,6 +12,7 @@ export interface Product {
     sellingPrice: number;
     quantity: number;
     category?: string | null;
+    categoryId?: string | null;
     minStockLevel?: number;
     barcode?: string | null;
     tax_percentage?: number;
@@ -25,11 +27,13 @@ export interface Product {
     name: string;
     description?: string | null;
     imageUri?: string;
+    parentId?: string | null; // Parent category; null for a top-level one
     createdAt: string;
   }
   
   export interface Supplier {
     id: string;
+    userId: string;
     name: string;
     contactPerson?: string | null;
     phone?: string | null;
@@ -38,16 +42,258 @@ export interface Product {
     createdAt: string;
     updatedAt: string;
   }
+
+  // One batch received from a supplier
+  export interface SupplierPurchase {
+    batchId: string;
+    productId: string;
+    productName: string;
+    unit: string;
+    batchNumber?: string | null;
+    quantity: number; // As received, not what is left
+    unitCost: number;
+    totalCost: number;
+    purchaseDate: string;
+    expiryDate?: string | null;
+  }
   
+  export type PurchaseOrderStatus = 'OPEN' | 'PARTIAL' | 'CLOSED';
+
+  export interface PurchaseOrder {
+    id: string;
+    userId: string;
+    supplierId: string;
+    orderNumber: string; // PO-0001, per user
+    status: PurchaseOrderStatus;
+    orderDate: string;
+    expectedDate?: string | null;
+    notes?: string | null;
+    createdAt: string;
+    updatedAt: string;
+  }
+
+  export interface PurchaseOrderWithTotals extends PurchaseOrder {
+    supplierName: string;
+    itemCount: number;
+    orderedValue: number;
+    receivedValue: number;
+  }
+
+  export interface PurchaseOrderItem {
+    id: string;
+    purchaseOrderId: string;
+    productId: string;
+    quantityOrdered: number;
+    quantityReceived: number;
+    unitCost: number;
+  }
+
+  export interface PurchaseOrderItemWithProduct extends PurchaseOrderItem {
+    productName: string;
+    unit: string;
+  }
+
+  export type StockAdjustmentReason = 'DAMAGE' | 'THEFT' | 'COUNT_CORRECTION' | 'RECEIVED' | 'EXPIRED';
+
+  // How the cost of sold stock is worked out; batches are the FIFO cost layers
+  export type InventoryValuationMethod = 'WEIGHTED_AVERAGE' | 'FIFO';
+
+  export type StocktakeStatus = 'OPEN' | 'APPLIED' | 'CANCELLED';
+
+  export interface Stocktake {
+    id: string;
+    userId: string;
+    name: string;
+    category: string | null; // Only this category and its subcategories were counted; null means every product
+    status: StocktakeStatus;
+    startedAt: string;
+    appliedAt?: string | null;
+  }
+
+  export interface StocktakeWithTotals extends Stocktake {
+    itemCount: number;
+    countedCount: number;
+    varianceValue: number; // Counted minus expected, at cost
+  }
+
+  export interface StocktakeItem {
+    id: string;
+    stocktakeId: string;
+    productId: string;
+    expectedQuantity: number; // Stock when the count started
+    countedQuantity: number | null; // null until counted
+    systemQuantityAtCount: number | null; // Stock when counted; later sales and receipts carry over on apply
+    countedAt: string | null;
+  }
+
+  export interface StocktakeItemWithProduct extends StocktakeItem {
+    productName: string;
+    category: string | null;
+    unit: string;
+    quantityStep: number | null;
+    barcode: string | null;
+    alternateCode: string | null;
+    costPrice: number;
+    currentQuantity: number; // Live stock, which moves if sales happen during the count
+  }
+
+  export type ProductCsvField = 'name' | 'category' | 'costPrice' | 'sellingPrice' | 'quantity' | 'unit' | 'barcode';
+
+  // Column index in the file for each field; null when the file does not have it
+  export type ProductCsvMapping = Record<ProductCsvField, number | null>;
+
+  // One validated CSV row. Blank values on an update keep what the product already has.
+  export interface ProductImportRow {
+    rowNumber: number; // Line in the file, counting the header
+    name: string;
+    category: string | null;
+    costPrice: number | null;
+    sellingPrice: number | null;
+    quantity: number | null;
+    unit: string | null;
+    barcode: string | null;
+    productId: string | null; // Existing product the row updates; null creates one
+    errors: string[];
+  }
+
+  export interface ProductImportResult {
+    created: number;
+    updated: number;
+    categoriesCreated: number;
+  }
+
+  export type PriceChangeSource = 'EDIT' | 'IMPORT' | 'SCHEDULED';
+
+  export interface PriceHistoryEntry {
+    id: string;
+    userId: string; // Who made the change
+    productId: string;
+    oldCostPrice: number;
+    newCostPrice: number;
+    oldSellingPrice: number;
+    newSellingPrice: number;
+    source: PriceChangeSource;
+    scheduledPriceChangeId?: string | null;
+    changedAt: string;
+    changedByName: string | null;
+  }
+
+  export type ScheduledPriceChangeStatus = 'PENDING' | 'APPLIED' | 'CANCELLED';
+
+  export interface ScheduledPriceChange {
+    id: string;
+    userId: string;
+    productId: string;
+    newCostPrice: number | null; // null keeps the current cost price
+    newSellingPrice: number | null; // null keeps the current selling price
+    effectiveDate: string; // yyyy-MM-dd
+    status: ScheduledPriceChangeStatus;
+    notes?: string | null;
+    createdAt: string;
+    appliedAt?: string | null;
+  }
+
+  export interface ScheduledPriceChangeWithProduct extends ScheduledPriceChange {
+    productName: string;
+    costPrice: number; // Current prices, to show the change
+    sellingPrice: number;
+  }
+
+  export interface PriceList {
+    id: string;
+    userId: string;
+    name: string;
+    discountPercent: number; // Off the selling price of products the list has no price for
+    notes?: string | null;
+    createdAt: string;
+    updatedAt: string;
+  }
+
+  export interface PriceListItem {
+    id: string;
+    priceListId: string;
+    productId: string;
+    minQuantity: number; // 1 for the list price; higher for a quantity break
+    price: number;
+  }
+
+  export interface PriceListItemWithProduct extends PriceListItem {
+    productName: string;
+    sellingPrice: number; // Current catalogue price, for comparison
+    unit?: string | null;
+  }
+
+  export interface PriceListWithItems extends PriceList {
+    items: PriceListItem[];
+  }
+
+  export interface PriceListWithCounts extends PriceList {
+    productCount: number;
+    customerCount: number;
+  }
+
+  export interface BundleComponent {
+    id: string;
+    bundleId: string;
+    componentId: string;
+    quantity: number; // Per bundle
+  }
+
+  export interface BundleComponentWithProduct extends BundleComponent {
+    productName: string;
+    unit: string;
+    stock: number; // Component's stock on hand
+    costPrice: number;
+    sellingPrice: number;
+    isActive: boolean; // A deleted component makes the bundle unavailable
+  }
+
   export interface StockAdjustment {
     id: string;
+    userId: string; // Who made the change
     productId: string;
     previousQuantity: number;
     newQuantity: number;
-    adjustmentReason: string;
+    adjustmentReason: StockAdjustmentReason;
+    notes?: string | null;
     timestamp: string;
   }
+
+  export interface StockAdjustmentWithDetails extends StockAdjustment {
+    productName: string;
+    unit: string;
+    costPrice: number;
+    adjustedByName: string | null;
+  }
+
+  export interface StockAdjustmentSummary {
+    reason: StockAdjustmentReason;
+    adjustmentCount: number;
+    quantityChange: number; // Negative when stock was lost
+    valueAtCost: number; // quantityChange x current cost price
+  }
   
+  export interface ProductBatch {
+    id: string;
+    userId: string;
+    productId: string;
+    batchNumber?: string | null;
+    quantity: number; // Units left in this batch
+    manufactureDate?: string | null;
+    expiryDate?: string | null;
+    supplierId?: string | null;
+    purchaseDate?: string | null;
+    receivedQuantity?: number | null;
+    unitCost?: number | null;
+    createdAt: string;
+  }
+
+  export interface ProductBatchWithProduct extends ProductBatch {
+    productName: string;
+    unit: string;
+    costPrice: number;
+  }
+
   export interface Sale {
     id: string;
     timestamp: string;
@@ -62,7 +308,178 @@ export interface Product {
     paymentType: string;
     isPaid: boolean;
     notes?: string | null;
-    salesStatus: 'COMPLETED' | 'PENDING' | 'CANCELLED';
+    salesStatus: 'COMPLETED' | 'PENDING' | 'CANCELLED' | 'PARTIALLY_RETURNED' | 'RETURNED';
+  }
+
+  export interface PaymentTender {
+    paymentMethod: string;
+    amount: number;
+    reference?: string | null;
+    amountTendered?: number | null; // Cash handed over, only for CASH tenders
+  }
+
+  export interface SalePayment extends PaymentTender {
+    id: string;
+    saleId: string;
+    changeGiven: number;
+    createdAt: string;
+  }
+
+  export interface SaleItemForReturn {
+    id: string;
+    productId: string;
+    productName: string;
+    quantity: number;
+    returnedQuantity: number;
+    unitPrice: number;
+    subtotal: number;
+  }
+
+  export interface SaleReturn {
+    id: string;
+    saleId: string;
+    timestamp: string;
+    totalAmount: number;
+    reason?: string | null;
+    refundMethod?: string | null;
+  }
+
+  export interface ReturnItem {
+    id: string;
+    returnId: string;
+    saleItemId: string;
+    productId: string;
+    quantity: number;
+    unitPrice: number;
+    subtotal: number;
+  }
+
+  export interface DraftSale {
+    id: string;
+    userId: string;
+    timestamp: string;
+    totalAmount: number;
+    customerId?: string | null;
+    customerName?: string | null;
+    customerPhone?: string | null;
+    notes?: string | null;
+    expiryTime?: string | null;
+    billDiscountType?: DiscountType | null;
+    billDiscount?: number; // Percent or rupees, per billDiscountType
+    itemCount?: number;
+  }
+
+  export interface DraftSaleItem {
+    id: string;
+    draftSaleId: string;
+    productId: string;
+    quantity: number;
+    unitPrice: number;
+    catalogPrice?: number | null; // Null on bills held before it was kept
+    discountType?: DiscountType | null;
+    discount: number; // Percent or rupees, per discountType
+    subtotal: number;
+  }
+
+  export interface CreditSale {
+    id: string;
+    saleId: string;
+    customerId: string;
+    creditAmount: number;
+    dueDate: string;
+    termsInDays: number;
+    interestRate: number;
+    creditStatus: 'OUTSTANDING' | 'PARTIALLY_PAID' | 'PAID';
+    approvedBy?: string | null;
+    notesOrReason?: string | null;
+  }
+
+  export interface OpenCreditSale extends CreditSale {
+    saleTimestamp: string;
+    paidAmount: number;
+    balance: number;
+  }
+
+  export interface CreditPayment {
+    id: string;
+    creditSaleId: string;
+    paymentAmount: number;
+    paymentDate: string;
+    paymentMethod: string;
+    receivedBy?: string | null;
+    transactionReference?: string | null;
+    notes?: string | null;
+  }
+
+  export interface CustomerLedgerEntry {
+    id: string;
+    date: string;
+    type: 'DEBIT' | 'CREDIT'; // DEBIT = goods on khata, CREDIT = repayment
+    description: string;
+    amount: number;
+    runningBalance: number;
+  }
+
+  export type ReminderType = 'BEFORE_DUE' | 'ON_DUE' | 'OVERDUE';
+
+  export interface PaymentReminder {
+    id: string;
+    creditSaleId: string;
+    reminderType: ReminderType;
+    reminderDate: string;
+    reminderSent: boolean;
+    sentVia?: string | null;
+    sentAt?: string | null;
+    responseReceived: boolean;
+    responseNotes?: string | null;
+  }
+
+  export interface PaymentReminderWithDetails extends PaymentReminder {
+    saleId: string;
+    customerId: string;
+    customerName: string;
+    customerPhone: string;
+    dueDate: string;
+    balance: number;
+  }
+
+  export type CommitmentStatus = 'PENDING' | 'KEPT' | 'PARTIALLY_KEPT' | 'BROKEN';
+
+  export interface PaymentCommitment {
+    id: string;
+    creditSaleId: string;
+    promisedAmount: number;
+    promisedDate: string;
+    commitmentStatus: CommitmentStatus;
+    notes?: string | null;
+    createdAt: string;
+  }
+
+  export interface PaymentCommitmentWithDetails extends PaymentCommitment {
+    saleId: string;
+    customerId: string;
+    customerName: string;
+    customerPhone: string;
+    paidAmount: number; // Repaid by the customer between the promise and its date
+  }
+
+  export interface CustomerCreditHistory {
+    id: string;
+    customerId: string;
+    period: string; // yyyy-MM
+    totalCreditAmount: number;
+    totalRepaidAmount: number;
+    latePaymentCount: number;
+    averagePaymentDelay: number; // Days, averaged over the period's late payments
+    creditScore: number | null;
+    computedAt?: string | null;
+  }
+
+  export interface CreditLimitCheck {
+    creditLimit: number;
+    outstandingBalance: number;
+    available: number;
+    exceedsLimit: boolean;
   }
 
      export interface Customer {
@@ -77,6 +494,7 @@ export interface Product {
     creditLimit: number;
     loyaltyPoints: number;
     lastPurchaseDate?: string | null; // Make optional fields explicitly nullable
+    priceListId?: string | null; // null pays the normal selling price
     createdAt: string;
     updatedAt: string;
   }
\ No newline at end of file
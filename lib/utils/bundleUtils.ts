@@ -0,0 +1,32 @@
+// ~/lib/utils/bundleUtils.ts
+import { roundCurrency } from './pricingUtils';
+import { roundQuantity } from './quantityUtils';
+
+type BundleComponentStock = {
+  quantity: number; // Per bundle
+  stock: number;
+  costPrice: number;
+  isActive?: boolean | number;
+};
+
+/**
+ * How many bundles can be made from the components on the shelf.
+ * @param components - The bundle's components with their stock
+ * @returns Whole bundles available; 0 when a component has run out, was deleted or none are set
+ */
+export const getBundleAvailability = (components: BundleComponentStock[]): number => {
+  if (components.length === 0) return 0;
+  return components.reduce((available, component) => {
+    if (!component.isActive || !(component.quantity > 0)) return 0;
+    const fromComponent = Math.floor(roundQuantity(Math.max(component.stock, 0) / component.quantity));
+    return Math.min(available, fromComponent);
+  }, Number.POSITIVE_INFINITY);
+};
+
+/**
+ * What one bundle costs, from its components' cost prices.
+ * @param components - The bundle's components with their cost
+ * @returns The cost of one bundle in rupees
+ */
+export const getBundleCost = (components: BundleComponentStock[]): number =>
+  roundCurrency(components.reduce((total, component) => total + component.costPrice * component.quantity, 0));
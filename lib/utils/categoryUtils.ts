@@ -0,0 +1,73 @@
+// ~/lib/utils/categoryUtils.ts
+
+type CategoryNode = {
+  id: string;
+  name: string;
+  parentId?: string | null;
+};
+
+/**
+ * A category and everything below it, for filters that roll up subcategories.
+ * @param categories - All of the user's categories
+ * @param categoryId - The category picked in the filter
+ * @returns The ids of the category and all of its subcategories
+ */
+export const getCategoryDescendantIds = (categories: CategoryNode[], categoryId: string): Set<string> => {
+  const ids = new Set<string>([categoryId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.parentId && ids.has(category.parentId) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+};
+
+/**
+ * The full name of a category, e.g. "Groceries > Pulses".
+ * @param categories - All of the user's categories
+ * @param categoryId - The category to name
+ * @returns The names from the top-level category down, or '' when the id is unknown
+ */
+export const getCategoryPath = (categories: CategoryNode[], categoryId: string): string => {
+  const byId = new Map(categories.map((c) => [c.id, c]));
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(categoryId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return names.join(' > ');
+};
+
+/**
+ * Orders categories so that each one is followed by its subcategories.
+ * @param categories - All of the user's categories, in any order
+ * @returns Each category with its depth (0 for top level), sorted by name within a level
+ */
+export const sortCategoriesAsTree = <T extends CategoryNode>(categories: T[]): { category: T; depth: number }[] => {
+  const ids = new Set(categories.map((c) => c.id));
+  const childrenOf = new Map<string | null, T[]>();
+  for (const category of categories) {
+    // A missing parent puts the category at the top rather than hiding it
+    const parentId = category.parentId && ids.has(category.parentId) ? category.parentId : null;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), category]);
+  }
+  const result: { category: T; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    const children = [...(childrenOf.get(parentId) ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+    for (const child of children) {
+      if (result.some((entry) => entry.category.id === child.id)) continue;
+      result.push({ category: child, depth });
+      visit(child.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return result;
+};
@@ -0,0 +1,44 @@
+// ~/lib/utils/creditScoreUtils.ts
+
+export type CreditScoreInputs = {
+  totalCredit: number;
+  paymentCount: number;
+  latePaymentCount: number;
+  averageDelayDays: number; // Over late payments only
+  overdueBalance: number;
+};
+
+export type CreditScoreBand = {
+  label: 'Good' | 'Fair' | 'Risky' | 'New';
+  color: string;
+};
+
+// Delays beyond this many days all count as the worst case
+const MAX_DELAY_DAYS = 60;
+
+/**
+ * Scores a customer's khata behaviour from 0 (worst) to 100 (best).
+ * 40 points for paying on time, 25 for how late the late payments were and
+ * 35 for having nothing overdue right now.
+ * @param inputs Cumulative credit and repayment figures for the customer
+ * @returns The score, or null when the customer has never taken credit
+ */
+export const calculateCreditScore = (inputs: CreditScoreInputs): number | null => {
+  if (inputs.totalCredit <= 0) return null;
+  const onTimeRatio = inputs.paymentCount > 0 ? 1 - inputs.latePaymentCount / inputs.paymentCount : 1;
+  const delayFactor = 1 - Math.min(inputs.averageDelayDays, MAX_DELAY_DAYS) / MAX_DELAY_DAYS;
+  const overdueFactor = 1 - Math.min(inputs.overdueBalance / inputs.totalCredit, 1);
+  return Math.round(40 * onTimeRatio + 25 * delayFactor + 35 * overdueFactor);
+};
+
+/**
+ * Buckets a credit score for display
+ * @param score The score from calculateCreditScore
+ * @returns Label and colour for badges
+ */
+export const getCreditScoreBand = (score: number | null | undefined): CreditScoreBand => {
+  if (score == null) return { label: 'New', color: '#6B7280' };
+  if (score >= 75) return { label: 'Good', color: '#10B981' };
+  if (score >= 50) return { label: 'Fair', color: '#F59E0B' };
+  return { label: 'Risky', color: '#EF4444' };
+};
@@ -0,0 +1,63 @@
+// ~/lib/utils/csvUtils.ts
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with commas,
+ * doubled quotes and line breaks, CRLF line endings and a leading BOM.
+ * @param text - Contents of a CSV file
+ * @returns Rows of trimmed cells, without blank lines
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter((r) => r.some((c) => c !== ''));
+};
+
+/**
+ * Builds CSV text, quoting cells that need it.
+ * @param rows - Rows of cell values; null and undefined become empty cells
+ * @returns CSV text with CRLF line endings, as spreadsheets expect
+ */
+export const toCsv = (rows: (string | number | null | undefined)[][]): string =>
+  rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const cell = value == null ? '' : String(value);
+          return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+        })
+        .join(',')
+    )
+    .join('\r\n');
@@ -0,0 +1,96 @@
+// ~/lib/utils/paymentUtils.ts
+
+import { KHATA_RETURN_METHOD, PAYMENT_METHODS } from '../constants';
+import { PaymentTender } from '../stores/types';
+
+// Amounts within this tolerance are treated as equal (floating point rupees)
+const AMOUNT_EPSILON = 0.005;
+
+export type TenderSummary = {
+  totalPaid: number;
+  remaining: number;
+  cashPortion: number;
+  changeDue: number;
+  error: string | null;
+};
+
+/**
+ * Returns the display label for a payment method value
+ * @param method The stored payment method value, e.g. CREDIT_KHATA
+ * @returns The label from PAYMENT_METHODS or the raw value
+ */
+export const getPaymentMethodLabel = (method: string | null | undefined): string => {
+  if (!method) return 'N/A';
+  if (method === 'SPLIT') return 'Split Payment';
+  if (method === KHATA_RETURN_METHOD) return 'Goods Returned';
+  return PAYMENT_METHODS.find((m) => m.value === method)?.label.trim() || method;
+};
+
+/**
+ * Totals a set of tenders against the bill amount and validates them
+ * @param tenders The tenders entered at checkout
+ * @param billAmount The amount that has to be covered
+ * @param cashReceived Cash handed over by the customer, if entered
+ * @returns TenderSummary with change due for cash and a validation error, if any
+ */
+export const summarizeTenders = (
+  tenders: PaymentTender[],
+  billAmount: number,
+  cashReceived?: number | null
+): TenderSummary => {
+  const totalPaid = tenders.reduce((sum, t) => sum + (t.amount || 0), 0);
+  const cashPortion = tenders
+    .filter((t) => t.paymentMethod === 'CASH')
+    .reduce((sum, t) => sum + (t.amount || 0), 0);
+  const remaining = billAmount - totalPaid;
+  const changeDue = cashReceived != null && cashReceived > cashPortion ? cashReceived - cashPortion : 0;
+
+  let error: string | null = null;
+  if (tenders.length === 0) {
+    error = 'Add at least one payment.';
+  } else if (tenders.some((t) => !t.paymentMethod)) {
+    error = 'Select a payment method for every tender.';
+  } else if (tenders.some((t) => !(t.amount > 0))) {
+    error = 'Every tender must have an amount greater than zero.';
+  } else if (Math.abs(remaining) > AMOUNT_EPSILON) {
+    error = remaining > 0
+      ? `Payments are short by ${remaining.toFixed(2)}.`
+      : `Payments exceed the bill by ${Math.abs(remaining).toFixed(2)}.`;
+  } else if (cashReceived != null && cashPortion > 0 && cashReceived + AMOUNT_EPSILON < cashPortion) {
+    error = `Cash received is less than the cash portion of ${cashPortion.toFixed(2)}.`;
+  }
+
+  return { totalPaid, remaining, cashPortion, changeDue, error };
+};
+
+/**
+ * The value stored in Sales.paymentType for a set of tenders
+ * @param tenders The tenders of the sale
+ * @returns The single method used, or SPLIT when more than one method was used
+ */
+export const getSalePaymentType = (tenders: PaymentTender[]): string => {
+  const methods = Array.from(new Set(tenders.map((t) => t.paymentMethod)));
+  return methods.length === 1 ? methods[0] : 'SPLIT';
+};
+
+/**
+ * Formats tenders as a one-line breakdown, e.g. "Cash ₹200.00 + UPI ₹300.00"
+ * @param tenders The tenders of the sale
+ * @param fallbackMethod Sales.paymentType, used for sales recorded before split tenders
+ * @param currency Currency symbol
+ */
+export const formatPaymentBreakdown = (
+  tenders: PaymentTender[] | null | undefined,
+  fallbackMethod?: string | null,
+  currency = '₹'
+): string => {
+  if (!tenders || tenders.length === 0) {
+    return getPaymentMethodLabel(fallbackMethod);
+  }
+  if (tenders.length === 1) {
+    return getPaymentMethodLabel(tenders[0].paymentMethod);
+  }
+  return tenders
+    .map((t) => `${getPaymentMethodLabel(t.paymentMethod)} ${currency}${t.amount.toFixed(2)}`)
+    .join(' + ');
+};
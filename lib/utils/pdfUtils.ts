@@ -60,7 +60,7 @@ const generateSalesHtmlTable = (data: any[]): string => {
     tableHtml += `<tr>
       <td>${item.date ? format(new Date(item.date), 'yyyy-MM-dd') : 'N/A'}</td>
       <td>${item.productName || item.productId || 'N/A'}</td>
-      <td>${item.paymentType || 'N/A'}</td>
+      <td>${item.paymentBreakdown || item.paymentType || 'N/A'}</td>
       <td>₹${(item.subtotal || 0).toFixed(2)}</td>
     </tr>`;
   });
@@ -0,0 +1,56 @@
+// ~/lib/utils/priceListUtils.ts
+import { roundCurrency } from './pricingUtils';
+
+type PriceListPricing = {
+  discountPercent: number;
+  items: { productId: string; minQuantity: number; price: number }[];
+};
+
+/**
+ * Works out what a customer on a price list pays per unit.
+ * A price set for the product wins, taking the largest quantity break the line has reached;
+ * otherwise the list's discount comes off the catalogue price.
+ * @param priceList The customer's price list; null means the catalogue price
+ * @param productId The product being priced
+ * @param catalogPrice The product's normal selling price
+ * @param quantity Quantity on the line, for quantity breaks
+ * @returns The unit price for the line
+ */
+export const getPriceListPrice = (
+  priceList: PriceListPricing | null,
+  productId: string,
+  catalogPrice: number,
+  quantity: number
+): number => {
+  if (!priceList) return catalogPrice;
+  const tier = priceList.items
+    .filter((item) => item.productId === productId && item.minQuantity <= quantity)
+    .reduce<PriceListPricing['items'][number] | null>(
+      (best, item) => (!best || item.minQuantity > best.minQuantity ? item : best),
+      null
+    );
+  if (tier) return tier.price;
+  if (priceList.discountPercent > 0) {
+    return roundCurrency(catalogPrice * (1 - Math.min(priceList.discountPercent, 100) / 100));
+  }
+  return catalogPrice;
+};
+
+/**
+ * The next quantity break above the line, to nudge the cashier towards it.
+ * @param priceList The customer's price list
+ * @param productId The product on the line
+ * @param quantity Quantity on the line now
+ * @returns The smallest break above the quantity, or null when there is none
+ */
+export const getNextPriceBreak = (
+  priceList: PriceListPricing | null,
+  productId: string,
+  quantity: number
+): { minQuantity: number; price: number } | null => {
+  if (!priceList) return null;
+  const next = priceList.items
+    .filter((item) => item.productId === productId && item.minQuantity > quantity)
+    .sort((a, b) => a.minQuantity - b.minQuantity)[0];
+  return next ? { minQuantity: next.minQuantity, price: next.price } : null;
+};
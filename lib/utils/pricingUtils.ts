@@ -0,0 +1,184 @@
+// ~/lib/utils/pricingUtils.ts
+
+export type DiscountType = 'PERCENT' | 'FLAT';
+
+export type Discount = {
+  type: DiscountType;
+  value: number; // Percentage (0-100) or rupees off the whole line / bill
+};
+
+export type PricedLineInput = {
+  id: string;
+  sellingPrice: number;
+  costPrice?: number;
+  quantityInCart: number;
+  discount?: Discount | null;
+  taxRate?: number | null; // Product rate; null falls back to the store rate
+};
+
+export type TaxOptions = {
+  storeTaxRate: number;
+  pricesIncludeTax: boolean; // Selling prices already contain tax
+};
+
+export type PricedLine = {
+  id: string;
+  gross: number; // sellingPrice x quantity
+  lineDiscount: number;
+  billDiscountShare: number;
+  discount: number; // lineDiscount + billDiscountShare
+  net: number; // Line amount after discounts, at the entered price
+  taxRate: number;
+  taxable: number; // Net amount excluding tax
+  tax: number;
+  total: number; // What the customer pays for the line
+  cost: number;
+  profit: number;
+};
+
+export type TaxBreakdownRow = {
+  rate: number;
+  taxable: number;
+  tax: number;
+};
+
+export type CartTotals = {
+  lines: PricedLine[];
+  grossTotal: number;
+  lineDiscountTotal: number;
+  billDiscountAmount: number;
+  discountTotal: number;
+  taxTotal: number;
+  taxBreakdown: TaxBreakdownRow[]; // One row per tax rate, lowest rate first
+  pricesIncludeTax: boolean;
+  totalAmount: number;
+  totalProfit: number;
+};
+
+/**
+ * Rounds an amount to paise
+ * @param amount Amount in rupees
+ * @returns The amount rounded to two decimals
+ */
+export const roundCurrency = (amount: number): number => Math.round((amount + Number.EPSILON) * 100) / 100;
+
+/**
+ * Works out the rupee value of a discount against an amount
+ * @param amount The amount being discounted
+ * @param discount Percentage or flat discount; null means none
+ * @returns Discount in rupees, never more than the amount
+ */
+export const calculateDiscountAmount = (amount: number, discount?: Discount | null): number => {
+  if (!discount || !(discount.value > 0) || amount <= 0) return 0;
+  const raw = discount.type === 'PERCENT' ? (amount * Math.min(discount.value, 100)) / 100 : discount.value;
+  return roundCurrency(Math.min(raw, amount));
+};
+
+/**
+ * Splits a line amount into its taxable value and tax
+ * @param amount Line amount after discounts
+ * @param rate Tax rate in percent
+ * @param pricesIncludeTax Whether the amount already contains the tax
+ * @returns Taxable value, tax and what the customer pays
+ */
+export const calculateLineTax = (
+  amount: number,
+  rate: number,
+  pricesIncludeTax: boolean
+): { taxable: number; tax: number; total: number } => {
+  if (!(rate > 0) || amount <= 0) return { taxable: amount, tax: 0, total: amount };
+  if (pricesIncludeTax) {
+    const taxable = roundCurrency((amount * 100) / (100 + rate));
+    return { taxable, tax: roundCurrency(amount - taxable), total: amount };
+  }
+  const tax = roundCurrency((amount * rate) / 100);
+  return { taxable: amount, tax, total: roundCurrency(amount + tax) };
+};
+
+/**
+ * Prices every cart line with its own discount, then spreads the bill discount
+ * over the lines in proportion to what is left, so line totals add up to the bill.
+ * Tax is worked out per line on what remains after discounts.
+ * @param items Cart lines
+ * @param billDiscount Discount on the whole bill, applied after line discounts
+ * @param tax Store tax rate and whether prices include tax; no tax when omitted
+ * @returns Per-line figures and bill totals
+ */
+export const calculateCartTotals = (
+  items: PricedLineInput[],
+  billDiscount?: Discount | null,
+  tax: TaxOptions = { storeTaxRate: 0, pricesIncludeTax: false }
+): CartTotals => {
+  const afterLine = items.map((item) => {
+    const gross = roundCurrency(item.sellingPrice * item.quantityInCart);
+    const lineDiscount = calculateDiscountAmount(gross, item.discount);
+    return { item, gross, lineDiscount, afterLineDiscount: roundCurrency(gross - lineDiscount) };
+  });
+
+  const afterLineTotal = roundCurrency(afterLine.reduce((sum, l) => sum + l.afterLineDiscount, 0));
+  const billDiscountAmount = calculateDiscountAmount(afterLineTotal, billDiscount);
+
+  let billDiscountLeft = billDiscountAmount;
+  const lines: PricedLine[] = afterLine.map((l, index) => {
+    // The last line absorbs rounding so the shares add up exactly
+    const share =
+      index === afterLine.length - 1
+        ? billDiscountLeft
+        : afterLineTotal > 0
+          ? roundCurrency((billDiscountAmount * l.afterLineDiscount) / afterLineTotal)
+          : 0;
+    billDiscountLeft = roundCurrency(billDiscountLeft - share);
+    const net = roundCurrency(l.afterLineDiscount - share);
+    const taxRate = l.item.taxRate != null ? l.item.taxRate : tax.storeTaxRate;
+    const lineTax = calculateLineTax(net, taxRate, tax.pricesIncludeTax);
+    const cost = roundCurrency((l.item.costPrice || 0) * l.item.quantityInCart);
+    return {
+      id: l.item.id,
+      gross: l.gross,
+      lineDiscount: l.lineDiscount,
+      billDiscountShare: share,
+      discount: roundCurrency(l.lineDiscount + share),
+      net,
+      taxRate,
+      taxable: lineTax.taxable,
+      tax: lineTax.tax,
+      total: lineTax.total,
+      cost,
+      // Tax collected belongs to the government, not the shop
+      profit: roundCurrency(lineTax.taxable - cost),
+    };
+  });
+
+  const breakdown = new Map<number, TaxBreakdownRow>();
+  lines.forEach((line) => {
+    if (!(line.tax > 0)) return;
+    const row = breakdown.get(line.taxRate) || { rate: line.taxRate, taxable: 0, tax: 0 };
+    row.taxable = roundCurrency(row.taxable + line.taxable);
+    row.tax = roundCurrency(row.tax + line.tax);
+    breakdown.set(line.taxRate, row);
+  });
+
+  const grossTotal = roundCurrency(lines.reduce((sum, l) => sum + l.gross, 0));
+  const lineDiscountTotal = roundCurrency(lines.reduce((sum, l) => sum + l.lineDiscount, 0));
+  return {
+    lines,
+    grossTotal,
+    lineDiscountTotal,
+    billDiscountAmount,
+    discountTotal: roundCurrency(lineDiscountTotal + billDiscountAmount),
+    taxTotal: roundCurrency(lines.reduce((sum, l) => sum + l.tax, 0)),
+    taxBreakdown: Array.from(breakdown.values()).sort((a, b) => a.rate - b.rate),
+    pricesIncludeTax: tax.pricesIncludeTax,
+    totalAmount: roundCurrency(lines.reduce((sum, l) => sum + l.total, 0)),
+    totalProfit: roundCurrency(lines.reduce((sum, l) => sum + l.profit, 0)),
+  };
+};
+
+/**
+ * Formats a discount for display, e.g. "10%" or "₹25.00"
+ * @param discount The discount
+ * @param currency Currency symbol for flat discounts
+ * @returns Short label
+ */
+export const formatDiscount = (discount: Discount, currency: string = '₹'): string =>
+  discount.type === 'PERCENT' ? `${discount.value}%` : `${currency}${discount.value.toFixed(2)}`;
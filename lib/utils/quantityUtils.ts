@@ -0,0 +1,73 @@
+// ~/lib/utils/quantityUtils.ts
+import { DEFAULT_LOOSE_QUANTITY_STEP, LOOSE_UNITS, QUANTITY_DECIMALS } from '../constants';
+
+type QuantityUnit = {
+  unit?: string | null;
+  quantityStep?: number | null;
+};
+
+/**
+ * Whether a unit is sold loose and so takes decimal quantities.
+ * @param unit - The product's unit, e.g. 'kg' or 'piece'
+ * @returns True for weight and volume units
+ */
+export const allowsDecimalQuantity = (unit?: string | null): boolean => LOOSE_UNITS.includes(unit || '');
+
+/**
+ * Rounds a quantity the same way everywhere it is stored or shown.
+ * @param quantity - Quantity to round
+ * @returns The quantity rounded to QUANTITY_DECIMALS places
+ */
+export const roundQuantity = (quantity: number): number => {
+  const factor = 10 ** QUANTITY_DECIMALS;
+  return Math.round((quantity + Number.EPSILON) * factor) / factor;
+};
+
+/**
+ * How much the + and - buttons change a product's quantity.
+ * @param product - Product with a unit and optional step of its own
+ * @returns The product's step, 0.25 for kg and litres, otherwise 1
+ */
+export const getQuantityStep = (product: QuantityUnit): number => {
+  if (product.quantityStep != null && product.quantityStep > 0) return product.quantityStep;
+  return product.unit === 'kg' || product.unit === 'l' ? DEFAULT_LOOSE_QUANTITY_STEP : 1;
+};
+
+/**
+ * Formats a quantity without trailing zeros, e.g. 1.5 rather than 1.500.
+ * @param quantity - Quantity to show
+ * @returns The rounded quantity as text
+ */
+export const formatQuantity = (quantity: number): string => String(roundQuantity(quantity));
+
+/**
+ * Reads a typed quantity for a unit: decimals for loose units, whole numbers otherwise.
+ * @param text - What was typed
+ * @param unit - The product's unit
+ * @returns The quantity, or NaN when the text is not a number
+ */
+export const parseQuantity = (text: string, unit?: string | null): number => {
+  const value = allowsDecimalQuantity(unit) ? parseFloat(text) : parseInt(text, 10);
+  return isNaN(value) ? NaN : roundQuantity(value);
+};
+
+/**
+ * Strips characters a quantity field for the unit cannot hold.
+ * @param text - What was typed
+ * @param unit - The product's unit
+ * @returns Digits, plus one decimal point for loose units
+ */
+export const sanitizeQuantityInput = (text: string, unit?: string | null): string => {
+  if (!allowsDecimalQuantity(unit)) return text.replace(/[^0-9]/g, '');
+  const [whole, ...rest] = text.replace(/[^0-9.]/g, '').split('.');
+  return rest.length > 0 ? `${whole}.${rest.join('')}` : whole;
+};
+
+/**
+ * The quantity a rupee amount buys, for "₹50 worth of sugar".
+ * @param amount - Amount the customer wants to spend
+ * @param unitPrice - Selling price per unit
+ * @returns The quantity, rounded; 0 when the price is not set
+ */
+export const quantityForAmount = (amount: number, unitPrice: number): number =>
+  unitPrice > 0 && amount > 0 ? roundQuantity(amount / unitPrice) : 0;
@@ -4,6 +4,10 @@ import * as Sharing from 'expo-sharing';
 import { Alert, Platform } from 'react-native';
 import { getDatabase } from '~/lib/db/database'; // Adjust path as needed
 import { useAuthStore } from '../stores/authStore';
+import { PaymentTender } from '../stores/types';
+import { getPaymentMethodLabel } from './paymentUtils';
+import { TaxBreakdownRow } from './pricingUtils';
+import { formatQuantity } from './quantityUtils';
 // import { v4 as uuidv4 } from 'uuid'; // Not used in generateAndShareReceipt directly
 
 // Interfaces (can also be in a shared types file)
@@ -21,6 +25,8 @@ export interface CartItemForReceipt {
   sellingPrice: number;
   costPrice: number; // Keep for potential future use in HTML or internal logic
   category?: string | null;
+  discount?: number; // Rupees off this line, including its share of the bill discount
+  tax?: number;
 }
 
 export interface SaleDetailsForReceipt {
@@ -34,6 +40,12 @@ export interface SaleDetailsForReceipt {
     email?: string | null;
   } | null;
   paymentMethod?: string | null; // Added
+  payments?: PaymentTender[] | null; // Tender breakdown when the bill was paid in parts
+  subtotal?: number; // Before discounts
+  discount?: number; // Total discount on the bill
+  tax?: number;
+  taxBreakdown?: TaxBreakdownRow[] | null; // Tax per rate, from calculateCartTotals
+  pricesIncludeTax?: boolean;
 }
 
 // HTML Generation Function
@@ -41,7 +53,7 @@ export const generateReceiptHtml = (
   saleDetails: SaleDetailsForReceipt,
   storeSettings?: ReceiptStoreSettings | null // storeSettings now part of saleDetails effectively
 ): string => {
-  const { cartItems, totalAmount, saleId, saleTimestamp, customer, paymentMethod } = saleDetails;
+  const { cartItems, totalAmount, saleId, saleTimestamp, customer, paymentMethod, payments, subtotal, discount, tax, taxBreakdown, pricesIncludeTax } = saleDetails;
   
   const storeName = storeSettings?.storeName || 'Petti Kadai';
   const storeAddress = storeSettings?.storeAddress || '';
@@ -52,10 +64,10 @@ export const generateReceiptHtml = (
     .map(
       (item) => `
     <tr>
-      <td style="padding: 8px; border-bottom: 1px solid #eee;">${item.name} ${item.category ? `(${item.category})` : ''}</td>
-      <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: center;">${item.quantityInCart}</td>
+      <td style="padding: 8px; border-bottom: 1px solid #eee;">${item.name} ${item.category ? `(${item.category})` : ''}${item.discount ? `<br><span style="font-size: 9px; color: #777;">Discount -${currency}${item.discount.toFixed(2)}</span>` : ''}</td>
+      <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: center;">${formatQuantity(item.quantityInCart)}</td>
       <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">${currency}${item.sellingPrice.toFixed(2)}</td>
-      <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">${currency}${(item.sellingPrice * item.quantityInCart).toFixed(2)}</td>
+      <td style="padding: 8px; border-bottom: 1px solid #eee; text-align: right;">${currency}${(item.sellingPrice * item.quantityInCart - (item.discount || 0)).toFixed(2)}</td>
     </tr>
   `
     )
@@ -74,7 +86,49 @@ export const generateReceiptHtml = (
   
   let paymentMethodHtml = '';
   if (paymentMethod) {
-    paymentMethodHtml = `<p><strong>Payment Method:</strong> ${paymentMethod}</p>`;
+    paymentMethodHtml = `<p><strong>Payment Method:</strong> ${getPaymentMethodLabel(paymentMethod)}</p>`;
+  }
+
+  const hasDiscount = !!discount && discount > 0;
+  const addsTax = !!tax && tax > 0 && !pricesIncludeTax;
+  let discountHtml = '';
+  if (hasDiscount || addsTax) {
+    const grossTotal = subtotal ?? totalAmount + (discount || 0) - (addsTax ? tax || 0 : 0);
+    discountHtml = `
+      <p><span>Subtotal:</span> <span>${currency}${grossTotal.toFixed(2)}</span></p>
+      ${hasDiscount ? `<p><span>Discount:</span> <span>-${currency}${(discount || 0).toFixed(2)}</span></p>` : ''}
+    `;
+  }
+
+  let taxHtml = '';
+  if (tax && tax > 0) {
+    const rows = (taxBreakdown || [])
+      .map(row => `<p style="font-size: 10px;"><span>Tax @ ${row.rate}% on ${currency}${row.taxable.toFixed(2)}:</span> <span>${currency}${row.tax.toFixed(2)}</span></p>`)
+      .join('');
+    taxHtml = `
+      ${rows}
+      <p><span>${pricesIncludeTax ? 'Total Tax (included)' : 'Total Tax'}:</span> <span>${currency}${tax.toFixed(2)}</span></p>
+    `;
+  }
+
+  let paymentsHtml = '';
+  if (payments && payments.length > 0) {
+    const showTenders = payments.length > 1 || payments.some((p) => p.reference);
+    const tenderLines = showTenders
+      ? payments
+          .map(
+            (p) => `<p><span>${getPaymentMethodLabel(p.paymentMethod)}${p.reference ? ` (Ref: ${p.reference})` : ''}:</span> <span>${currency}${p.amount.toFixed(2)}</span></p>`
+          )
+          .join('')
+      : '';
+    const cashPayments = payments.filter((p) => p.paymentMethod === 'CASH' && p.amountTendered != null);
+    const cashReceived = cashPayments.reduce((sum, p) => sum + (p.amountTendered || 0), 0);
+    const cashApplied = cashPayments.reduce((sum, p) => sum + p.amount, 0);
+    const cashHtml = cashPayments.length > 0
+      ? `<p><span>Cash Received:</span> <span>${currency}${cashReceived.toFixed(2)}</span></p>
+         <p><span>Change:</span> <span>${currency}${Math.max(cashReceived - cashApplied, 0).toFixed(2)}</span></p>`
+      : '';
+    paymentsHtml = tenderLines + cashHtml;
   }
 
   return `
@@ -130,7 +184,10 @@ export const generateReceiptHtml = (
           </table>
 
           <div class="totals-section">
+            ${discountHtml}
+            ${taxHtml}
             <p class="grand-total"><span>GRAND TOTAL:</span> <span>${currency}${totalAmount.toFixed(2)}</span></p>
+            ${paymentsHtml}
           </div>
 
           <div class="footer">
@@ -0,0 +1,151 @@
+// ~/lib/utils/reminderUtils.ts
+
+import { Linking, Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { format, parseISO, setHours, startOfHour } from 'date-fns';
+import { REMINDER_NOTIFICATION_HOUR } from '../constants';
+import { PaymentReminderWithDetails } from '../stores/types';
+
+export type ReminderChannel = 'SMS' | 'WHATSAPP';
+
+const REMINDER_CHANNEL_ID = 'payment-reminders';
+
+/**
+ * Makes local notifications show while the app is open and sets up the
+ * Android channel. Safe to call more than once.
+ */
+export const configureReminderNotifications = async (): Promise<void> => {
+  if (Platform.OS === 'web') return;
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowAlert: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+      name: 'Payment Reminders',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+};
+
+/**
+ * Asks for notification permission if it has not been decided yet
+ * @returns true when local notifications can be scheduled
+ */
+export const ensureNotificationPermission = async (): Promise<boolean> => {
+  if (Platform.OS === 'web') return false;
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+/**
+ * Schedules a local notification for each future reminder. The reminder id is
+ * used as the notification identifier, so rescheduling replaces the old one.
+ * @param reminders Unsent reminders whose date is still ahead
+ */
+export const scheduleReminderNotifications = async (reminders: PaymentReminderWithDetails[]): Promise<void> => {
+  if (reminders.length === 0 || !(await ensureNotificationPermission())) return;
+  const now = new Date();
+  for (const reminder of reminders) {
+    const fireAt = startOfHour(setHours(parseISO(reminder.reminderDate), REMINDER_NOTIFICATION_HOUR));
+    if (fireAt <= now) continue;
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminder.id,
+      content: {
+        title: getReminderTitle(reminder),
+        body: `${reminder.customerName} owes ₹${reminder.balance.toFixed(2)}, due ${format(parseISO(reminder.dueDate), 'dd MMM yyyy')}.`,
+        data: { reminderId: reminder.id, customerId: reminder.customerId },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: fireAt,
+        channelId: REMINDER_CHANNEL_ID,
+      },
+    });
+  }
+};
+
+/**
+ * Cancels scheduled notifications for reminders that were sent or removed
+ * @param reminderIds Ids of the reminders
+ */
+export const cancelReminderNotifications = async (reminderIds: string[]): Promise<void> => {
+  if (Platform.OS === 'web') return;
+  for (const id of reminderIds) {
+    await Notifications.cancelScheduledNotificationAsync(id);
+  }
+};
+
+/**
+ * Short heading for a reminder, based on where it falls relative to the due date
+ * @param reminder The reminder
+ * @returns e.g. "Khata due in 3 days"
+ */
+export const getReminderTitle = (reminder: Pick<PaymentReminderWithDetails, 'reminderType'>): string => {
+  switch (reminder.reminderType) {
+    case 'BEFORE_DUE':
+      return 'Khata due soon';
+    case 'ON_DUE':
+      return 'Khata due today';
+    default:
+      return 'Khata overdue';
+  }
+};
+
+/**
+ * Builds the text sent to the customer for a reminder
+ * @param reminder The reminder with customer and balance details
+ * @param storeName Name used to sign the message
+ * @returns The message body
+ */
+export const buildReminderMessage = (reminder: PaymentReminderWithDetails, storeName?: string | null): string => {
+  const amount = `₹${reminder.balance.toFixed(2)}`;
+  const dueDate = format(parseISO(reminder.dueDate), 'dd MMM yyyy');
+  const receipt = `RCPT-${reminder.saleId.substring(0, 8).toUpperCase()}`;
+  let line: string;
+  switch (reminder.reminderType) {
+    case 'BEFORE_DUE':
+      line = `a gentle reminder that ${amount} for bill ${receipt} is due on ${dueDate}.`;
+      break;
+    case 'ON_DUE':
+      line = `${amount} for bill ${receipt} is due today (${dueDate}).`;
+      break;
+    default:
+      line = `${amount} for bill ${receipt} was due on ${dueDate} and is still pending. Please pay at the earliest.`;
+  }
+  return `Hello ${reminder.customerName}, ${line}${storeName ? `\n- ${storeName}` : ''}`;
+};
+
+/**
+ * Opens the SMS app or WhatsApp with the message filled in
+ * @param channel Where to send the message
+ * @param phone Customer phone number
+ * @param message Text to pre-fill
+ * @returns false if the target app could not be opened
+ */
+export const openReminderShare = async (channel: ReminderChannel, phone: string, message: string): Promise<boolean> => {
+  const digits = phone.replace(/[^0-9]/g, '');
+  const body = encodeURIComponent(message);
+  let url: string;
+  if (channel === 'WHATSAPP') {
+    // WhatsApp needs the country code; assume India for 10-digit numbers
+    const waNumber = digits.length === 10 ? `91${digits}` : digits;
+    url = `whatsapp://send?phone=${waNumber}&text=${body}`;
+  } else {
+    url = `sms:${digits}${Platform.OS === 'ios' ? '&' : '?'}body=${body}`;
+  }
+  try {
+    // openURL rejects when the app is missing; canOpenURL needs manifest queries on Android
+    await Linking.openURL(url);
+    return true;
+  } catch (error) {
+    console.error('Error opening reminder share target:', error);
+    return false;
+  }
+};
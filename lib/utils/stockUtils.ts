@@ -0,0 +1,61 @@
+// ~/lib/utils/stockUtils.ts
+import { DEFAULT_REORDER_LEVEL } from '../constants';
+
+type StockLevel = {
+  quantity: number;
+  reorderLevel?: number | null;
+  reorderQuantity?: number | null;
+};
+
+/**
+ * The stock level at which a product should be reordered.
+ * @param product - Product with an optional reorder level
+ * @returns The product's own level, or the default for products saved before levels existed
+ */
+export const getReorderLevel = (product: StockLevel): number =>
+  product.reorderLevel != null && product.reorderLevel >= 0 ? product.reorderLevel : DEFAULT_REORDER_LEVEL;
+
+/**
+ * Whether a product is in stock but at or below its reorder level.
+ * Out-of-stock products are reported separately.
+ * @param product - Product with quantity and reorder level
+ * @returns True when the product should be reordered soon
+ */
+export const isLowStock = (product: StockLevel): boolean =>
+  product.quantity > 0 && product.quantity <= getReorderLevel(product);
+
+/**
+ * How much to order for a product.
+ * @param product - Product with quantity, reorder level and reorder quantity
+ * @returns The set reorder quantity, or enough to get back to twice the reorder level
+ */
+export const getSuggestedOrderQuantity = (product: StockLevel): number => {
+  if (product.reorderQuantity != null && product.reorderQuantity > 0) return product.reorderQuantity;
+  return Math.max(getReorderLevel(product) * 2 - Math.max(product.quantity, 0), 1);
+};
+
+/**
+ * Drops parents that have variants; their stock lives in the variants.
+ * @param products - Products including any variants
+ * @returns The products whose own stock level means something
+ */
+export const withoutVariantParents = <T extends { id: string; parentId?: string | null }>(products: T[]): T[] => {
+  const parentIds = new Set(products.map((p) => p.parentId).filter(Boolean));
+  return products.filter((p) => !parentIds.has(p.id));
+};
+
+/**
+ * Drops bundles; their stock and cost are their components', already counted there.
+ * @param products - Products including any bundles
+ * @returns The products that hold stock of their own
+ */
+export const withoutBundles = <T extends { isBundle?: boolean | number | null }>(products: T[]): T[] =>
+  products.filter((p) => !p.isBundle);
+
+/**
+ * What the stock of a product is worth at cost.
+ * @param product - Product with quantity and cost price
+ * @returns Cost x quantity; 0 for bundles, whose value sits in their components
+ */
+export const getStockValue = (product: { quantity: number; costPrice: number; isBundle?: boolean | number | null }): number =>
+  product.isBundle ? 0 : product.costPrice * product.quantity;